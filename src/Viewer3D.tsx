@@ -12,6 +12,19 @@ import Scene from './components/viewer/Scene'
 import './styles/viewer3d.css'
 import './styles/animations.css'
 import { RangeOfMotionPanel } from './components/viewer/debug/RangeOfMotionPanel'
+import { AnalysisPanel } from './components/viewer/debug/AnalysisPanel'
+import { RecordingControls } from './components/viewer/debug/RecordingControls'
+import { MotionImportControls } from './components/viewer/debug/MotionImportControls'
+import { ModelImportControls } from './components/viewer/debug/ModelImportControls'
+import { ForcePlateControls } from './components/viewer/debug/ForcePlateControls'
+import { BodyParametersControls } from './components/viewer/debug/BodyParametersControls'
+import { MuscleControls } from './components/viewer/debug/MuscleControls'
+import { SwivelControls } from './components/viewer/debug/SwivelControls'
+import { PinControls } from './components/viewer/debug/PinControls'
+import { GazeControls } from './components/viewer/debug/GazeControls'
+import { MotionRecorder } from './biomech/engine/motionRecorder'
+import { setActiveRomProfile } from './biomech/model/romProfiles'
+import { getViewerSettings } from './shared/settings'
 import {
   ViewerStateProvider,
   useViewerDispatch,
@@ -27,6 +40,15 @@ function Viewer3D({ initialAnimation = DEFAULT_ANIMATION_ID }: Viewer3DProps) {
   const initialId = animationOptions.includes(initialAnimation)
     ? initialAnimation
     : DEFAULT_ANIMATION_ID
+  const recorder = useMemo(() => new MotionRecorder(), [])
+  const subject = useMemo(() => {
+    const settings = getViewerSettings()
+    return {
+      massKg: settings.subjectMassKg,
+      heightM: settings.subjectHeightM,
+      anthropometricTableId: settings.anthropometricTableId,
+    }
+  }, [])
 
   // Initialize Neutral Position as reference for all joint angle measurements
   useEffect(() => {
@@ -35,10 +57,17 @@ function Viewer3D({ initialAnimation = DEFAULT_ANIMATION_ID }: Viewer3DProps) {
     });
   }, []);
 
+  // Restore the persisted ROM reference profile
+  useEffect(() => {
+    setActiveRomProfile(getViewerSettings().romProfileId)
+  }, [])
+
   return (
     <ViewerStateProvider
       initialState={{
         playback: { animationId: initialId, isPlaying: true, speed: 1 },
+        recording: { recorder, isRecording: false },
+        subject,
       }}
     >
       <Viewer3DContents animationOptions={animationOptions} />
@@ -57,6 +86,9 @@ function Viewer3DContents({ animationOptions }: Viewer3DContentsProps) {
   const speedMultiplier = useViewerSelector((s) => s.playback.speed)
   const ikMode = useViewerSelector((s) => s.mode.ikMode)
   const constraintsEnabled = useViewerSelector((s) => s.mode.constraintsEnabled)
+  const showJointLimits = useViewerSelector((s) => s.overlays.jointLimits)
+  const ikSolver = useViewerSelector((s) => s.mode.ikSolver)
+  const groundContact = useViewerSelector((s) => s.mode.groundContact)
   const constraintViolations = useViewerSelector((s) => s.ik.constraintViolations)
   const selectedBone = useViewerSelector((s) => s.ik.selectedBone)
   const skeletonForPanel = useViewerSelector((s) => s.ik.skeleton)
@@ -122,6 +154,8 @@ function Viewer3DContents({ animationOptions }: Viewer3DContentsProps) {
         isInteractive={ikMode}
       />
 
+      <AnalysisPanel />
+
       <aside className="viewer-panel" aria-label="3D animation controls">
         <header className="viewer-panel__header">
           <h2 className="viewer-panel__title">{ikMode ? 'Interactive IK Controls' : '3D Animation Controls'}</h2>
@@ -140,6 +174,15 @@ function Viewer3DContents({ animationOptions }: Viewer3DContentsProps) {
           <option value="ik">Interactive IK (Pose Mode)</option>
         </select>
 
+        <label className="viewer-panel__label">
+          <input
+            type="checkbox"
+            checked={groundContact}
+            onChange={(event) => dispatch({ type: 'mode/setGroundContact', groundContact: event.target.checked })}
+          />{' '}
+          Keep feet on the floor
+        </label>
+
         {!ikMode && (
           <>
             <label className="viewer-panel__label" htmlFor="animation-select">
@@ -181,6 +224,11 @@ function Viewer3DContents({ animationOptions }: Viewer3DContentsProps) {
               value={speedMultiplier}
               onChange={(event) => dispatch({ type: 'playback/setSpeed', speed: Number(event.target.value) })}
             />
+
+            <RecordingControls />
+            <MotionImportControls />
+            <ModelImportControls />
+            <ForcePlateControls />
           </>
         )}
 
@@ -189,11 +237,38 @@ function Viewer3DContents({ animationOptions }: Viewer3DContentsProps) {
             <strong>🎯 Interactive IK Mode</strong>
             <ul>
               <li>Click and drag orange/green balls to pose</li>
+              <li>Drag blue balls to swivel elbows and knees</li>
+              <li>Pin targets (red) to hold feet or hands in place</li>
+              <li>Drag the head ball to aim the gaze (yellow while held)</li>
               <li><strong>Shift+click</strong> purple joints to inspect ROM</li>
               <li>See Range of Motion panel (top-right)</li>
               <li>Constraints prevent impossible poses</li>
               <li>Collision warnings show in red</li>
             </ul>
+            <label className="viewer-panel__label" htmlFor="ik-solver-select">
+              IK solver
+            </label>
+            <select
+              id="ik-solver-select"
+              className="viewer-panel__select"
+              value={ikSolver}
+              onChange={(event) =>
+                dispatch({ type: 'mode/setIkSolver', ikSolver: event.target.value === 'ccd' ? 'ccd' : 'dls' })
+              }
+            >
+              <option value="dls">Joint coordinates (damped least squares)</option>
+              <option value="ccd">Bone rotations (CCD)</option>
+            </select>
+            <label className="viewer-panel__label">
+              <input
+                type="checkbox"
+                checked={showJointLimits}
+                onChange={(event) =>
+                  dispatch({ type: 'overlays/setVisible', overlay: 'jointLimits', visible: event.target.checked })
+                }
+              />{' '}
+              Show shoulder/hip limit cone of the selected joint
+            </label>
             <button
               type="button"
               className="viewer-panel__button"
@@ -204,6 +279,10 @@ function Viewer3DContents({ animationOptions }: Viewer3DContentsProps) {
           </div>
         )}
 
+        {ikMode && <SwivelControls />}
+        {ikMode && <PinControls />}
+        {ikMode && <GazeControls />}
+
         {!ikMode && (
           <div className="viewer-panel__hint viewer-panel__hint--spaced">
             <strong>📊 Live ROM Tracking</strong>
@@ -216,6 +295,9 @@ function Viewer3DContents({ animationOptions }: Viewer3DContentsProps) {
           </div>
         )}
 
+        <BodyParametersControls />
+        <MuscleControls />
+
         {/* Scene layout now handled internally by Scene; omit ground size text for simplicity */}
 
         <div className="viewer-panel__hint" role="note">
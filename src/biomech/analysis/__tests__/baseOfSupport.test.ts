@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import {
+  computeBaseOfSupport,
+  computeStabilityMargin,
+  convexHull,
+  polygonArea,
+  signedDistanceToPolygon,
+  type FootLandmarks
+} from '../baseOfSupport';
+
+const v2 = (x: number, y: number) => new THREE.Vector2(x, y);
+
+/** Foot pointing +Z with the ankle at (x, height, 0) */
+function foot(side: FootLandmarks['side'], x: number, height = 0.08): FootLandmarks {
+  return {
+    side,
+    ankle: new THREE.Vector3(x, height, 0),
+    toeBase: new THREE.Vector3(x, height - 0.06, 0.14)
+  };
+}
+
+describe('polygon helpers', () => {
+  it('builds a counter-clockwise hull without interior points', () => {
+    const hull = convexHull([v2(0, 0), v2(1, 0), v2(0.5, 0.5), v2(1, 1), v2(0, 1)]);
+    expect(hull).toHaveLength(4);
+    expect(polygonArea(hull)).toBeCloseTo(1, 10);
+    expect(hull.some(p => p.x === 0.5)).toBe(false);
+  });
+
+  it('measures signed distance to the nearest edge', () => {
+    const square = convexHull([v2(0, 0), v2(1, 0), v2(1, 1), v2(0, 1)]);
+    expect(signedDistanceToPolygon(v2(0.5, 0.2), square)).toBeCloseTo(0.2, 10);
+    expect(signedDistanceToPolygon(v2(1.3, 0.5), square)).toBeCloseTo(-0.3, 10);
+    expect(signedDistanceToPolygon(v2(2, 2), square)).toBeCloseTo(-Math.SQRT2, 10);
+    expect(signedDistanceToPolygon(v2(0, 0), [])).toBe(-Infinity);
+  });
+});
+
+describe('base of support', () => {
+  it('spans both loaded feet', () => {
+    const bos = computeBaseOfSupport([foot('left', 0.1), foot('right', -0.1)]);
+    expect(bos.contacts).toEqual(['left', 'right']);
+    const xs = bos.hull.map(p => p.x);
+    expect(Math.max(...xs)).toBeCloseTo(0.145, 6);
+    expect(Math.min(...xs)).toBeCloseTo(-0.145, 6);
+    // Heel edge 6 cm behind the ankle, toe tip 5 cm past the toe base
+    const zs = bos.hull.map(p => p.y);
+    expect(Math.min(...zs)).toBeCloseTo(-0.06, 6);
+    expect(Math.max(...zs)).toBeCloseTo(0.19, 6);
+    expect(bos.area).toBeGreaterThan(0.05);
+  });
+
+  it('ignores a lifted foot', () => {
+    const bos = computeBaseOfSupport([foot('left', 0.1, 0.3), foot('right', -0.1)]);
+    expect(bos.contacts).toEqual(['right']);
+    expect(Math.max(...bos.hull.map(p => p.x))).toBeCloseTo(-0.055, 6);
+  });
+
+  it('flags a COM projection outside the polygon', () => {
+    const bos = computeBaseOfSupport([foot('left', 0.1), foot('right', -0.1)]);
+
+    const centered = computeStabilityMargin(new THREE.Vector3(0, 1, 0.05), bos);
+    expect(centered.inside).toBe(true);
+    expect(centered.margin).toBeGreaterThan(0.09);
+    expect(centered.projection.y).toBe(0.05);
+
+    const leaning = computeStabilityMargin(new THREE.Vector3(0, 1, 0.3), bos);
+    expect(leaning.inside).toBe(false);
+    expect(leaning.margin).toBeCloseTo(-0.11, 2);
+
+    const airborne = computeStabilityMargin(new THREE.Vector3(), computeBaseOfSupport([]));
+    expect(airborne.inside).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeGait,
+  symmetryIndex,
+  unwrapClipTime
+} from '../gaitAnalysis';
+import { computeCycleStats, computeGaitCycleCurves, normalizeToCycle } from '../gaitCycle';
+import type { MarkerTrajectory, MotionRecording } from '../../engine/motionRecorder';
+
+const PERIOD = 1.2; // stride time (s)
+const AMPLITUDE = 0.3; // heel excursion relative to pelvis (m)
+const FPS = 60;
+
+/**
+ * Synthetic in-place walk along +Z: heel peaks (HS) at 0, T, 2T...
+ * and the toe bottoms out (TO) at 60% of the cycle. The left foot is at
+ * +stepWidth/2 in X, the right foot at −stepWidth/2.
+ */
+function makeWalk(cycles: number, rightStance = 0.6, stepWidth = 0, amplitude = AMPLITUDE): MotionRecording {
+  const n = Math.round(cycles * PERIOD * FPS);
+  const time = Float64Array.from({ length: n }, (_, i) => i / FPS);
+  const marker = (fn: (t: number) => number, x = 0): MarkerTrajectory => ({
+    x: new Float64Array(n).fill(x),
+    y: new Float64Array(n),
+    z: Float64Array.from(time, fn)
+  });
+  const w = (2 * Math.PI) / PERIOD;
+  const heel = (phase: number) => (t: number) => amplitude * Math.cos(w * (t - phase));
+  const toe = (phase: number, stance: number) => (t: number) =>
+    0.15 + amplitude * Math.cos(w * (t - phase) - 2 * Math.PI * stance + Math.PI);
+
+  return {
+    coordinateIds: [],
+    frameCount: n,
+    time,
+    clipTime: time.slice(),
+    values: {},
+    markers: {
+      pelvis: marker(() => 0),
+      foot_left: marker(heel(0), stepWidth / 2),
+      toes_left: marker(toe(0, 0.6), stepWidth / 2),
+      foot_right: marker(heel(PERIOD / 2), -stepWidth / 2),
+      toes_right: marker(toe(PERIOD / 2, rightStance), -stepWidth / 2)
+    }
+  };
+}
+
+describe('gait analysis', () => {
+  it('detects events and spatiotemporal parameters of a symmetric walk', () => {
+    const result = analyzeGait(makeWalk(5));
+    expect(result.success).toBe(true);
+    const m = result.metrics!;
+
+    expect(result.progressionAxis.z).toBeCloseTo(1);
+    expect(m.strideTime).toBeCloseTo(PERIOD, 1);
+    expect(m.cadence).toBeCloseTo(120 / PERIOD, 0);
+    expect(m.left.stancePercent).toBeCloseTo(60, 0);
+    expect(m.right.swingPercent).toBeCloseTo(40, 0);
+    expect(m.left.stepTime).toBeCloseTo(PERIOD / 2, 1);
+    expect(m.left.stepLength).toBeCloseTo(2 * AMPLITUDE, 2);
+    expect(Math.abs(m.symmetry.stancePercent)).toBeLessThan(2);
+  });
+
+  it('keeps the progression axis when step width exceeds the heel excursion', () => {
+    // Feet 0.2 m apart with a 0.2 m heel excursion (short, shuffling steps)
+    const result = analyzeGait(makeWalk(5, 0.6, 0.2, 0.1));
+    expect(result.success).toBe(true);
+    expect(Math.abs(result.progressionAxis.z)).toBeCloseTo(1);
+    expect(result.progressionAxis.x).toBeCloseTo(0);
+    expect(result.metrics!.strideTime).toBeCloseTo(PERIOD, 1);
+  });
+
+  it('flags asymmetric stance', () => {
+    const result = analyzeGait(makeWalk(5, 0.7));
+    const m = result.metrics!;
+    // Event timing is quantized to the 60 Hz frame grid (±1.4% of a 1.2 s cycle)
+    expect(Math.abs(m.right.stancePercent - 70)).toBeLessThan(1.5);
+    expect(m.symmetry.stancePercent).toBeLessThan(-10);
+  });
+
+  it('fails gracefully without markers', () => {
+    const rec = makeWalk(2);
+    delete rec.markers;
+    const result = analyzeGait(rec);
+    expect(result.success).toBe(false);
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+
+  it('unwraps looping clip time', () => {
+    const unwrapped = unwrapClipTime(Float64Array.of(0.8, 0.9, 0.0, 0.1));
+    expect(Array.from(unwrapped).map(t => +t.toFixed(3))).toEqual([0.8, 0.9, 1.0, 1.1]);
+  });
+
+  it('computes the Robinson symmetry index', () => {
+    expect(symmetryIndex(1.1, 0.9)).toBeCloseTo(20);
+    expect(symmetryIndex(1, 1)).toBe(0);
+  });
+});
+
+describe('gait cycle normalization', () => {
+  it('resamples a cycle to evenly spaced samples', () => {
+    const cycle = normalizeToCycle([0, 1, 2], [0, 10, 20], 0, 2, 5);
+    expect(Array.from(cycle)).toEqual([0, 5, 10, 15, 20]);
+  });
+
+  it('averages knee flexion cycles in clinical sign convention', () => {
+    const rec = makeWalk(4);
+    const w = (2 * Math.PI) / PERIOD;
+    // Model knee flexion is negative; 0..-60° following the cycle phase
+    const knee = (phase: number) =>
+      Float64Array.from(rec.time, t => -(Math.PI / 6) * (1 - Math.cos(w * (t - phase))));
+    rec.coordinateIds = ['knee_l_flexion', 'knee_r_flexion'];
+    rec.values = { knee_l_flexion: knee(0), knee_r_flexion: knee(PERIOD / 2) };
+
+    const curves = computeGaitCycleCurves(rec);
+    expect(curves.success).toBe(true);
+
+    const kneeCurves = curves.angles.find(a => a.def.key === 'knee')!;
+    expect(kneeCurves.left!.cycles.length).toBeGreaterThanOrEqual(2);
+    expect(kneeCurves.left!.mean[0]).toBeCloseTo(0, 0);
+    expect(kneeCurves.left!.mean[50]).toBeCloseTo(60, 0);
+    expect(kneeCurves.right!.mean[50]).toBeCloseTo(60, 0);
+    expect(kneeCurves.left!.toeOffPercent).toBeCloseTo(60, -1);
+    expect(kneeCurves.norm.mean.length).toBe(101);
+    expect(curves.angles.find(a => a.def.key === 'hip')!.left).toBeNull();
+  });
+
+  it('averages around undefined stretches when gaps are allowed', () => {
+    const time = Float64Array.from({ length: 21 }, (_, i) => i * 0.1);
+    // Defined only in the first half of each 1 s cycle
+    const values = Float64Array.from(time, t => (t % 1 < 0.5 ? 1 : NaN));
+    const events = [0, 10, 20].map(frame => ({ side: 'left' as const, type: 'heelStrike' as const, time: time[frame], frame }));
+
+    expect(computeCycleStats(time, values, events, 'left', 11)).toBeNull();
+    const stats = computeCycleStats(time, values, events, 'left', 11, true)!;
+    expect(stats.cycles).toHaveLength(2);
+    expect(stats.mean[2]).toBe(1);
+    expect(stats.mean[8]).toBeNaN();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { computeJointKinetics, computeKineticCycleCurves } from '../jointKinetics';
+import { getAnthropometricTable } from '../../model/anthropometrics';
+import type { ForcePlateData } from '../../io/forcePlateImport';
+import type { MarkerTrajectory, MotionRecording } from '../../engine/motionRecorder';
+
+const PERIOD = 1.2;
+const FPS = 60;
+const MASS = 70;
+
+/**
+ * In-place walk along +Z (same event pattern as gaitAnalysis.test) with
+ * static hip/knee markers and a stationary pelvis
+ */
+function makeWalk(cycles: number): MotionRecording {
+  const n = Math.round(cycles * PERIOD * FPS);
+  const time = Float64Array.from({ length: n }, (_, i) => i / FPS);
+  const w = (2 * Math.PI) / PERIOD;
+  const marker = (x: number, y: number, z: (t: number) => number): MarkerTrajectory => ({
+    x: new Float64Array(n).fill(x),
+    y: new Float64Array(n).fill(y),
+    z: Float64Array.from(time, z)
+  });
+  const heel = (phase: number) => (t: number) => 0.3 * Math.cos(w * (t - phase));
+  const toe = (phase: number) => (t: number) => 0.15 + 0.3 * Math.cos(w * (t - phase) - 2 * Math.PI * 0.6 + Math.PI);
+
+  const markers: Record<string, MarkerTrajectory> = {
+    pelvis: marker(0, 0.95, () => 0),
+    lumbar: marker(0, 1.05, () => 0)
+  };
+  for (const [side, x, phase] of [['left', 0.1, 0], ['right', -0.1, PERIOD / 2]] as const) {
+    markers[`femur_${side}`] = marker(x, 0.9, () => 0);
+    markers[`tibia_${side}`] = marker(x, 0.5, t => heel(phase)(t) / 2);
+    markers[`foot_${side}`] = marker(x, 0.08, heel(phase));
+    markers[`toes_${side}`] = marker(x, 0.02, toe(phase));
+  }
+  return { coordinateIds: [], frameCount: n, time, clipTime: time.slice(), values: {}, markers };
+}
+
+const options = { massKg: MASS, table: getAnthropometricTable('de_leva_male') };
+
+describe('joint kinetics', () => {
+  it('estimates body-weight support in single stance and leaves double support undefined', () => {
+    const result = computeJointKinetics(makeWalk(4), options);
+    expect(result.success).toBe(true);
+
+    const grf = result.grf!;
+    let single = 0;
+    let double = 0;
+    for (let i = 1; i < result.time.length - 1; i++) {
+      const left = grf.left.fy[i];
+      const right = grf.right.fy[i];
+      if (Number.isNaN(left) && Number.isNaN(right)) {
+        double++;
+      } else if (left > 0 || right > 0) {
+        single++;
+        expect(left + right).toBeCloseTo(MASS * 9.81, 6);
+      }
+    }
+    expect(single).toBeGreaterThan(0);
+    expect(double).toBeGreaterThan(0);
+
+    const curves = computeKineticCycleCurves(result);
+    expect(curves.success).toBe(true);
+    const ankle = curves.curves.find(c => c.def.key === 'ankleMoment')!;
+    expect(ankle.left!.mean.some(v => Number.isFinite(v))).toBe(true);
+    expect(ankle.left!.mean.some(v => Number.isNaN(v))).toBe(true);
+  });
+
+  it('applies a force plate to the foot nearest the COP', () => {
+    const recording = makeWalk(3);
+    const plate: ForcePlateData = {
+      sampleCount: 2,
+      time: Float64Array.of(0, 10),
+      forceX: Float64Array.of(0, 0),
+      forceY: Float64Array.of(600, 600),
+      forceZ: Float64Array.of(0, 0),
+      // Far out on the left so the left midfoot is always nearest
+      copX: Float64Array.of(1, 1),
+      copZ: Float64Array.of(0, 0),
+      freeMoment: Float64Array.of(0, 0)
+    };
+    const result = computeJointKinetics(recording, { ...options, grf: { type: 'forcePlate', data: plate } });
+    expect(result.success).toBe(true);
+    expect(result.grf!.left.fy.every(v => v === 600)).toBe(true);
+    expect(result.grf!.right.fy.every(v => v === 0)).toBe(true);
+  });
+
+  it('requires leg joint markers', () => {
+    const recording = makeWalk(3);
+    delete recording.markers!.tibia_left;
+    const result = computeJointKinetics(recording, options);
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('marker');
+  });
+});
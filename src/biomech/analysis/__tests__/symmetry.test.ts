@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeFrameSymmetry,
+  analyzeRecordingSymmetry,
+  getBilateralPairs,
+  getContralateralCoordinate
+} from '../symmetry';
+import type { MotionRecording } from '../../engine/motionRecorder';
+
+const deg = (degrees: number): number => (degrees * Math.PI) / 180;
+
+function makeRecording(duration: number, values: Record<string, (t: number) => number>): MotionRecording {
+  const frameCount = Math.round(duration * 60) + 1;
+  const time = Float64Array.from({ length: frameCount }, (_, i) => i / 60);
+  const columns: Record<string, Float64Array> = {};
+  for (const [id, fn] of Object.entries(values)) {
+    columns[id] = Float64Array.from(time, fn);
+  }
+  return {
+    source: 'test',
+    coordinateIds: Object.keys(values),
+    frameCount,
+    time,
+    clipTime: time.slice(),
+    values: columns
+  };
+}
+
+describe('bilateral pairing', () => {
+  it('pairs every mirrored joint including finger MCPs', () => {
+    const keys = getBilateralPairs().map(p => p.key);
+    for (const key of ['st', 'gh', 'elbow', 'wrist', 'hip', 'knee', 'ankle', 'thumb_cmc', 'index_mcp', 'pinky_mcp']) {
+      expect(keys).toContain(key);
+    }
+    const knee = getBilateralPairs().find(p => p.key === 'knee')!;
+    expect(knee.displayName).toBe('Knee');
+    expect(knee.coordinates.map(c => c.key)).toContain('knee_flexion');
+  });
+
+  it('negates only coordinates whose ranges are mirrored', () => {
+    // Plane of elevation: -135..45 left vs -45..135 right
+    expect(getContralateralCoordinate('gh_l_plane')?.sign).toBe(-1);
+    // Elevation mirrors via CoordinateDef.invert, so values already share a convention
+    expect(getContralateralCoordinate('gh_r_elevation')?.sign).toBe(1);
+    expect(getContralateralCoordinate('knee_r_flexion')).toMatchObject({ sign: 1, coordinate: { id: 'knee_l_flexion' } });
+    expect(getContralateralCoordinate('lumbar_flexion')).toBeNull();
+  });
+});
+
+describe('frame symmetry', () => {
+  it('reports left minus right in the left convention', () => {
+    const joints = analyzeFrameSymmetry({
+      knee_l_flexion: deg(-90),
+      knee_r_flexion: deg(-75),
+      gh_l_plane: deg(-40),
+      gh_r_plane: deg(40),
+      hip_l_flexion: deg(20) // right side missing → skipped
+    });
+
+    const knee = joints.find(j => j.pair.key === 'knee')!.coordinates[0];
+    expect(knee.difference).toBeCloseTo(-15);
+
+    const plane = joints.find(j => j.pair.key === 'gh')!.coordinates.find(c => c.pair.key === 'gh_plane')!;
+    expect(plane.right).toBeCloseTo(-40);
+    expect(plane.difference).toBeCloseTo(0);
+
+    expect(joints.find(j => j.pair.key === 'hip')).toBeUndefined();
+  });
+});
+
+describe('recording symmetry', () => {
+  it('compares excursions and time-aligned differences within one clip', () => {
+    const recording = makeRecording(2, {
+      knee_l_flexion: t => deg(-60) * Math.sin(Math.PI * t / 2),
+      knee_r_flexion: t => deg(-45) * Math.sin(Math.PI * t / 2)
+    });
+    const result = analyzeRecordingSymmetry(recording);
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([]);
+
+    const knee = result.joints[0].coordinates[0];
+    expect(knee.left.excursion).toBeCloseTo(60, 0);
+    expect(knee.right.excursion).toBeCloseTo(45, 0);
+    // 100 × 15 / 52.5
+    expect(knee.excursionSymmetry).toBeCloseTo(28.6, 0);
+    expect(knee.peakDifference).toBeCloseTo(15, 0);
+  });
+
+  it('compares separate left and right trials on normalized time', () => {
+    const leftTrial = makeRecording(2, { knee_l_flexion: t => deg(-80) * (t / 2) });
+    const rightTrial = makeRecording(3, { knee_r_flexion: t => deg(-80) * (t / 3) });
+
+    const result = analyzeRecordingSymmetry(leftTrial, rightTrial);
+    expect(result.success).toBe(true);
+    expect(result.warnings).toHaveLength(1);
+
+    const knee = result.joints.find(j => j.pair.key === 'knee')!.coordinates[0];
+    expect(knee.excursionSymmetry).toBeCloseTo(0, 1);
+    expect(knee.rmsDifference).toBeCloseTo(0, 1);
+  });
+
+  it('fails when no paired coordinates were recorded', () => {
+    const result = analyzeRecordingSymmetry(makeRecording(1, { lumbar_flexion: () => 0 }));
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Base of Support and Static Stability
+ *
+ * Builds the base-of-support (BoS) polygon on the ground plane from foot
+ * landmarks and measures how far the ground projection of the center of mass
+ * lies inside it (static stability margin).
+ *
+ * Ground-plane points are THREE.Vector2 with x = world X and y = world Z.
+ *
+ * Each foot in contact contributes a footprint around its ankle → toe-base
+ * axis: a heel edge behind the ankle, the metatarsal heads at the toe base
+ * and a toe tip in front. A foot is in contact when its lowest landmark is
+ * within `contactHeight` of the ground.
+ */
+
+import * as THREE from 'three';
+
+export type FootSide = 'left' | 'right';
+
+/**
+ * World-space foot landmarks (Mixamo Foot and ToeBase bone origins)
+ */
+export interface FootLandmarks {
+  side: FootSide;
+  ankle: THREE.Vector3;
+  toeBase: THREE.Vector3;
+}
+
+export interface FootprintOptions {
+  /** Max height (m) of the lowest landmark for a foot to count as loaded */
+  contactHeight: number;
+  /** Heel edge distance behind the ankle (m) */
+  heelOffset: number;
+  /** Toe tip distance in front of the toe base (m) */
+  toeOffset: number;
+  /** Half the forefoot width (m); the heel is 70% as wide */
+  halfWidth: number;
+  /** World Y of the ground plane */
+  groundY: number;
+}
+
+export const DEFAULT_FOOTPRINT_OPTIONS: FootprintOptions = {
+  contactHeight: 0.06,
+  heelOffset: 0.06,
+  toeOffset: 0.05,
+  halfWidth: 0.045,
+  groundY: 0
+};
+
+export interface BaseOfSupport {
+  /** Convex hull, counter-clockwise in (x, z); empty when no foot is loaded */
+  hull: THREE.Vector2[];
+  /** Feet in contact with the ground */
+  contacts: FootSide[];
+  /** Hull area (m²) */
+  area: number;
+}
+
+export interface StabilityMargin {
+  /** Distance from the projected COM to the nearest hull edge; negative outside */
+  margin: number;
+  /** Projected COM lies within the base of support */
+  inside: boolean;
+  /** COM projection on the ground plane */
+  projection: THREE.Vector2;
+}
+
+const cross = (o: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2) =>
+  (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+/**
+ * Convex hull (Andrew's monotone chain), counter-clockwise
+ */
+export function convexHull(points: THREE.Vector2[]): THREE.Vector2[] {
+  const sorted = points
+    .map(p => p.clone())
+    .sort((a, b) => (a.x === b.x ? a.y - b.y : a.x - b.x));
+  if (sorted.length < 3) return sorted;
+
+  const lower: THREE.Vector2[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: THREE.Vector2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+/**
+ * Polygon area (shoelace)
+ */
+export function polygonArea(polygon: THREE.Vector2[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+function distanceToSegment(p: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2): number {
+  const ab = b.clone().sub(a);
+  const lengthSq = ab.lengthSq();
+  const t = lengthSq > 0 ? THREE.MathUtils.clamp(p.clone().sub(a).dot(ab) / lengthSq, 0, 1) : 0;
+  return p.distanceTo(a.clone().addScaledVector(ab, t));
+}
+
+/**
+ * Signed distance from a point to a convex counter-clockwise polygon
+ * (positive inside, negative outside)
+ */
+export function signedDistanceToPolygon(point: THREE.Vector2, polygon: THREE.Vector2[]): number {
+  if (polygon.length === 0) return -Infinity;
+  if (polygon.length === 1) return -point.distanceTo(polygon[0]);
+
+  let nearest = Infinity;
+  let inside = polygon.length >= 3;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    nearest = Math.min(nearest, distanceToSegment(point, a, b));
+    if (cross(a, b, point) < 0) inside = false;
+  }
+  return inside ? nearest : -nearest;
+}
+
+/**
+ * Footprint outline of one foot on the ground plane
+ */
+export function footprint(foot: FootLandmarks, options: FootprintOptions = DEFAULT_FOOTPRINT_OPTIONS): THREE.Vector2[] {
+  const ankle = new THREE.Vector2(foot.ankle.x, foot.ankle.z);
+  const toe = new THREE.Vector2(foot.toeBase.x, foot.toeBase.z);
+  const axis = toe.clone().sub(ankle);
+  if (axis.lengthSq() < 1e-10) axis.set(0, 1);
+  axis.normalize();
+  const lateral = new THREE.Vector2(-axis.y, axis.x);
+
+  const heel = ankle.clone().addScaledVector(axis, -options.heelOffset);
+  const heelWidth = options.halfWidth * 0.7;
+  return [
+    heel.clone().addScaledVector(lateral, heelWidth),
+    heel.clone().addScaledVector(lateral, -heelWidth),
+    toe.clone().addScaledVector(lateral, options.halfWidth),
+    toe.clone().addScaledVector(lateral, -options.halfWidth),
+    toe.clone().addScaledVector(axis, options.toeOffset)
+  ];
+}
+
+/**
+ * Base of support from the feet currently in contact
+ */
+export function computeBaseOfSupport(
+  feet: FootLandmarks[],
+  options: Partial<FootprintOptions> = {}
+): BaseOfSupport {
+  const opts = { ...DEFAULT_FOOTPRINT_OPTIONS, ...options };
+  const contacts: FootSide[] = [];
+  const points: THREE.Vector2[] = [];
+
+  for (const foot of feet) {
+    const lowest = Math.min(foot.ankle.y, foot.toeBase.y) - opts.groundY;
+    if (lowest > opts.contactHeight) continue;
+    contacts.push(foot.side);
+    points.push(...footprint(foot, opts));
+  }
+
+  const hull = convexHull(points);
+  return { hull, contacts, area: polygonArea(hull) };
+}
+
+/**
+ * Static stability margin of the COM ground projection
+ */
+export function computeStabilityMargin(com: THREE.Vector3, bos: BaseOfSupport): StabilityMargin {
+  const projection = new THREE.Vector2(com.x, com.z);
+  const margin = signedDistanceToPolygon(projection, bos.hull);
+  return { margin, inside: margin >= 0, projection };
+}
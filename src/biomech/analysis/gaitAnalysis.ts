@@ -0,0 +1,486 @@
+/**
+ * Gait Analysis - Event detection and spatiotemporal metrics
+ *
+ * Detects heel strike (HS) and toe off (TO) from recorded foot marker
+ * trajectories and derives the standard clinical gait parameters:
+ * cadence, stride time, stance/swing percentages, step time/length and
+ * left/right symmetry indices.
+ *
+ * Event detection follows the coordinate-based method of Zeni et al. (2008):
+ * - HS: local maximum of the heel position relative to the pelvis along the
+ *   direction of progression
+ * - TO: local minimum of the toe position relative to the pelvis
+ * Because positions are taken relative to the pelvis, the method works for
+ * in-place (treadmill-style) clips as well as clips with root motion.
+ *
+ * Marker model (Mixamo rig): the foot segment origin (ankle joint) stands in
+ * for the heel and the toes segment origin (MTP joint) for the toe.
+ *
+ * Reference: Zeni JA, Richards JG, Higginson JS. Two simple methods for
+ * determining gait events during treadmill and overground walking using
+ * kinematic data. Gait & Posture 27 (2008) 710–714.
+ */
+
+import type { MarkerTrajectory, MotionRecording } from '../engine/motionRecorder';
+
+export type GaitSide = 'left' | 'right';
+export type GaitEventType = 'heelStrike' | 'toeOff';
+
+/**
+ * Recorder marker ids (segment ids) used for gait analysis
+ */
+export const GAIT_MARKERS = {
+  pelvis: 'pelvis',
+  left: { heel: 'foot_left', toe: 'toes_left' },
+  right: { heel: 'foot_right', toe: 'toes_right' }
+} as const;
+
+/**
+ * Time-aligned marker trajectories for one trial
+ */
+export interface GaitTrajectories {
+  /** Monotonic trial time (seconds) */
+  time: Float64Array;
+  /** Recording frame index of each sample (paused frames are dropped) */
+  sourceFrames: Int32Array;
+  pelvis: MarkerTrajectory;
+  left: { heel: MarkerTrajectory; toe: MarkerTrajectory };
+  right: { heel: MarkerTrajectory; toe: MarkerTrajectory };
+}
+
+/**
+ * Detected gait event
+ */
+export interface GaitEvent {
+  side: GaitSide;
+  type: GaitEventType;
+  /** Trial time (seconds) */
+  time: number;
+  /** Frame index into the trajectories */
+  frame: number;
+}
+
+/**
+ * Per-side spatiotemporal parameters (NaN when not computable)
+ */
+export interface GaitSideMetrics {
+  strideCount: number;
+  /** Mean stride (gait cycle) duration, HS to next ipsilateral HS (s) */
+  strideTime: number;
+  /** Mean stance duration, HS to TO (s) */
+  stanceTime: number;
+  /** Mean swing duration, TO to next HS (s) */
+  swingTime: number;
+  /** Stance as % of gait cycle */
+  stancePercent: number;
+  /** Swing as % of gait cycle */
+  swingPercent: number;
+  /** Mean step time, contralateral HS to this side's HS (s) */
+  stepTime: number;
+  /** Mean step length at this side's HS along the progression axis (m) */
+  stepLength: number;
+}
+
+/**
+ * Symmetry indices (%) — 0 is perfect symmetry, positive means left > right
+ */
+export interface GaitSymmetry {
+  strideTime: number;
+  stanceTime: number;
+  swingTime: number;
+  stancePercent: number;
+  swingPercent: number;
+  stepTime: number;
+  stepLength: number;
+}
+
+/**
+ * Whole-trial gait metrics
+ */
+export interface GaitMetrics {
+  /** Steps per minute */
+  cadence: number;
+  /** Mean stride time across both sides (s) */
+  strideTime: number;
+  left: GaitSideMetrics;
+  right: GaitSideMetrics;
+  symmetry: GaitSymmetry;
+}
+
+/**
+ * Gait analysis result with diagnostics
+ */
+export interface GaitAnalysisResult {
+  success: boolean;
+  events: GaitEvent[];
+  metrics: GaitMetrics | null;
+  /** Unit horizontal direction of progression in world XZ */
+  progressionAxis: { x: number; z: number };
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * Event detection options
+ */
+export interface GaitEventOptions {
+  /** Minimum time between two events of the same kind on one side (s) */
+  minEventSeparation?: number;
+  /** Moving-average window applied before peak picking (frames) */
+  smoothingWindow?: number;
+}
+
+/**
+ * Robinson symmetry index: 100 × (L − R) / (0.5 × (L + R))
+ */
+export function symmetryIndex(left: number, right: number): number {
+  const mean = 0.5 * (left + right);
+  if (!Number.isFinite(mean) || Math.abs(mean) < 1e-9) return NaN;
+  return (100 * (left - right)) / mean;
+}
+
+/**
+ * Convert a looping mixer clip time into a monotonic time base
+ * Each wrap (time decreasing) adds the span lost at the wrap plus one typical frame step.
+ */
+export function unwrapClipTime(clipTime: Float64Array): Float64Array {
+  const out = new Float64Array(clipTime.length);
+  if (clipTime.length === 0) return out;
+
+  const steps: number[] = [];
+  for (let i = 1; i < clipTime.length; i++) {
+    const dt = clipTime[i] - clipTime[i - 1];
+    if (dt > 0) steps.push(dt);
+  }
+  steps.sort((a, b) => a - b);
+  const typicalStep = steps.length > 0 ? steps[Math.floor(steps.length / 2)] : 0;
+
+  let offset = 0;
+  out[0] = clipTime[0];
+  for (let i = 1; i < clipTime.length; i++) {
+    if (clipTime[i] < clipTime[i - 1]) {
+      offset += clipTime[i - 1] - clipTime[i] + typicalStep;
+    }
+    out[i] = clipTime[i] + offset;
+  }
+  return out;
+}
+
+/**
+ * Build gait trajectories from a recording with gait markers
+ * Uses unwrapped clip time (so playback speed does not distort timing) and
+ * drops frames where time did not advance (paused playback).
+ *
+ * @returns Trajectories, or null if any required marker is missing
+ */
+export function gaitTrajectoriesFromRecording(recording: MotionRecording): GaitTrajectories | null {
+  const markers = recording.markers;
+  const required = [
+    GAIT_MARKERS.pelvis,
+    GAIT_MARKERS.left.heel,
+    GAIT_MARKERS.left.toe,
+    GAIT_MARKERS.right.heel,
+    GAIT_MARKERS.right.toe
+  ];
+  if (!markers || required.some(id => !markers[id])) return null;
+
+  const hasClipTime = recording.clipTime.some(t => t !== 0);
+  const rawTime = hasClipTime ? unwrapClipTime(recording.clipTime) : recording.time;
+
+  const keep: number[] = [];
+  for (let i = 0; i < recording.frameCount; i++) {
+    if (keep.length === 0 || rawTime[i] > rawTime[keep[keep.length - 1]]) {
+      keep.push(i);
+    }
+  }
+
+  const pick = (source: Float64Array) => Float64Array.from(keep, i => source[i]);
+  const pickMarker = (id: string): MarkerTrajectory => ({
+    x: pick(markers[id].x),
+    y: pick(markers[id].y),
+    z: pick(markers[id].z)
+  });
+
+  return {
+    time: pick(rawTime),
+    sourceFrames: Int32Array.from(keep),
+    pelvis: pickMarker(GAIT_MARKERS.pelvis),
+    left: { heel: pickMarker(GAIT_MARKERS.left.heel), toe: pickMarker(GAIT_MARKERS.left.toe) },
+    right: { heel: pickMarker(GAIT_MARKERS.right.heel), toe: pickMarker(GAIT_MARKERS.right.toe) }
+  };
+}
+
+/**
+ * Estimate the horizontal direction of progression
+ * Principal axis of the foot-relative-to-pelvis excursion in XZ, signed so
+ * that the toe lies ahead of the heel. Each foot is centred on its own mean,
+ * so step width does not count as excursion.
+ */
+export function estimateProgressionAxis(traj: GaitTrajectories): { x: number; z: number } {
+  let cxx = 0;
+  let czz = 0;
+  let cxz = 0;
+  let samples = 0;
+  for (const side of [traj.left, traj.right]) {
+    const xs: number[] = [];
+    const zs: number[] = [];
+    for (let i = 0; i < traj.time.length; i++) {
+      const x = side.heel.x[i] - traj.pelvis.x[i];
+      const z = side.heel.z[i] - traj.pelvis.z[i];
+      if (Number.isFinite(x) && Number.isFinite(z)) {
+        xs.push(x);
+        zs.push(z);
+      }
+    }
+    if (xs.length === 0) continue;
+
+    const mx = mean(xs);
+    const mz = mean(zs);
+    for (let i = 0; i < xs.length; i++) {
+      const dx = xs[i] - mx;
+      const dz = zs[i] - mz;
+      cxx += dx * dx;
+      czz += dz * dz;
+      cxz += dx * dz;
+    }
+    samples += xs.length;
+  }
+  if (samples < 2) return { x: 0, z: 1 };
+
+  const theta = 0.5 * Math.atan2(2 * cxz, cxx - czz);
+  let axis = { x: Math.cos(theta), z: Math.sin(theta) };
+
+  // Orient forward: toes are anterior to the ankle
+  let heelToToe = 0;
+  for (const side of [traj.left, traj.right]) {
+    for (let i = 0; i < traj.time.length; i++) {
+      const proj = (side.toe.x[i] - side.heel.x[i]) * axis.x + (side.toe.z[i] - side.heel.z[i]) * axis.z;
+      if (Number.isFinite(proj)) heelToToe += proj;
+    }
+  }
+  if (heelToToe < 0) axis = { x: -axis.x, z: -axis.z };
+  return axis;
+}
+
+/**
+ * Detect heel strike and toe off events for both feet
+ *
+ * @returns Events sorted by time
+ */
+export function detectGaitEvents(
+  traj: GaitTrajectories,
+  axis: { x: number; z: number } = estimateProgressionAxis(traj),
+  options: GaitEventOptions = {}
+): GaitEvent[] {
+  const { minEventSeparation = 0.3, smoothingWindow = 3 } = options;
+  const n = traj.time.length;
+  if (n < 3) return [];
+
+  const span = traj.time[n - 1] - traj.time[0];
+  const dt = span / (n - 1);
+  const halfWindow = Math.max(1, Math.round(minEventSeparation / dt));
+
+  const events: GaitEvent[] = [];
+  (['left', 'right'] as GaitSide[]).forEach(side => {
+    const heel = smooth(relativeProjection(traj[side].heel, traj.pelvis, axis), smoothingWindow);
+    const toe = smooth(relativeProjection(traj[side].toe, traj.pelvis, axis), smoothingWindow);
+
+    for (const frame of findExtrema(heel, halfWindow, 'max')) {
+      events.push({ side, type: 'heelStrike', time: traj.time[frame], frame });
+    }
+    for (const frame of findExtrema(toe, halfWindow, 'min')) {
+      events.push({ side, type: 'toeOff', time: traj.time[frame], frame });
+    }
+  });
+
+  return events.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Compute spatiotemporal metrics from detected events
+ */
+export function computeGaitMetrics(
+  traj: GaitTrajectories,
+  events: GaitEvent[],
+  axis: { x: number; z: number }
+): GaitMetrics {
+  const heelStrikes = (side: GaitSide) =>
+    events.filter(e => e.side === side && e.type === 'heelStrike');
+  const toeOffs = (side: GaitSide) =>
+    events.filter(e => e.side === side && e.type === 'toeOff');
+
+  const sideMetrics = (side: GaitSide): GaitSideMetrics => {
+    const other: GaitSide = side === 'left' ? 'right' : 'left';
+    const hs = heelStrikes(side);
+    const to = toeOffs(side);
+    const otherHs = heelStrikes(other);
+
+    const strides: number[] = [];
+    const stances: number[] = [];
+    const swings: number[] = [];
+    for (let k = 0; k + 1 < hs.length; k++) {
+      const start = hs[k].time;
+      const end = hs[k + 1].time;
+      strides.push(end - start);
+      const toeOff = to.find(e => e.time > start && e.time < end);
+      if (toeOff) {
+        stances.push(toeOff.time - start);
+        swings.push(end - toeOff.time);
+      }
+    }
+
+    const stepTimes: number[] = [];
+    const stepLengths: number[] = [];
+    for (const strike of hs) {
+      const previous = [...otherHs].reverse().find(e => e.time < strike.time);
+      if (previous) stepTimes.push(strike.time - previous.time);
+
+      const i = strike.frame;
+      const own = traj[side].heel;
+      const opp = traj[other].heel;
+      const length = (own.x[i] - opp.x[i]) * axis.x + (own.z[i] - opp.z[i]) * axis.z;
+      if (Number.isFinite(length)) stepLengths.push(Math.abs(length));
+    }
+
+    const strideTime = mean(strides);
+    const stanceTime = mean(stances);
+    const swingTime = mean(swings);
+    const cycle = stanceTime + swingTime;
+
+    return {
+      strideCount: strides.length,
+      strideTime,
+      stanceTime,
+      swingTime,
+      stancePercent: cycle > 0 ? (100 * stanceTime) / cycle : NaN,
+      swingPercent: cycle > 0 ? (100 * swingTime) / cycle : NaN,
+      stepTime: mean(stepTimes),
+      stepLength: mean(stepLengths)
+    };
+  };
+
+  const left = sideMetrics('left');
+  const right = sideMetrics('right');
+
+  const allStrikes = events.filter(e => e.type === 'heelStrike').map(e => e.time);
+  const strikeSpan = allStrikes.length > 1 ? allStrikes[allStrikes.length - 1] - allStrikes[0] : 0;
+  const cadence = strikeSpan > 0 ? (60 * (allStrikes.length - 1)) / strikeSpan : NaN;
+
+  return {
+    cadence,
+    strideTime: mean([left.strideTime, right.strideTime].filter(Number.isFinite)),
+    left,
+    right,
+    symmetry: {
+      strideTime: symmetryIndex(left.strideTime, right.strideTime),
+      stanceTime: symmetryIndex(left.stanceTime, right.stanceTime),
+      swingTime: symmetryIndex(left.swingTime, right.swingTime),
+      stancePercent: symmetryIndex(left.stancePercent, right.stancePercent),
+      swingPercent: symmetryIndex(left.swingPercent, right.swingPercent),
+      stepTime: symmetryIndex(left.stepTime, right.stepTime),
+      stepLength: symmetryIndex(left.stepLength, right.stepLength)
+    }
+  };
+}
+
+/**
+ * Full pipeline: trajectories → events → metrics
+ */
+export function analyzeGait(recording: MotionRecording, options: GaitEventOptions = {}): GaitAnalysisResult {
+  const result: GaitAnalysisResult = {
+    success: false,
+    events: [],
+    metrics: null,
+    progressionAxis: { x: 0, z: 1 },
+    warnings: [],
+    errors: []
+  };
+
+  const traj = gaitTrajectoriesFromRecording(recording);
+  if (!traj) {
+    result.errors.push('Recording has no foot/pelvis marker trajectories');
+    return result;
+  }
+  if (traj.time.length < 10) {
+    result.errors.push('Recording is too short for gait analysis');
+    return result;
+  }
+
+  const axis = estimateProgressionAxis(traj);
+  const events = detectGaitEvents(traj, axis, options);
+  result.progressionAxis = axis;
+  result.events = events;
+
+  const strikesPerSide = (side: GaitSide) =>
+    events.filter(e => e.side === side && e.type === 'heelStrike').length;
+  if (strikesPerSide('left') < 2 || strikesPerSide('right') < 2) {
+    result.errors.push('Need at least two heel strikes per foot (record one or more full gait cycles)');
+    return result;
+  }
+
+  result.metrics = computeGaitMetrics(traj, events, axis);
+  if (result.metrics.left.strideCount < 2 || result.metrics.right.strideCount < 2) {
+    result.warnings.push('Fewer than two strides per side; averages are based on a single cycle');
+  }
+  result.success = true;
+  return result;
+}
+
+function relativeProjection(
+  marker: MarkerTrajectory,
+  pelvis: MarkerTrajectory,
+  axis: { x: number; z: number }
+): Float64Array {
+  return Float64Array.from(marker.x, (_, i) =>
+    (marker.x[i] - pelvis.x[i]) * axis.x + (marker.z[i] - pelvis.z[i]) * axis.z
+  );
+}
+
+function smooth(signal: Float64Array, window: number): Float64Array {
+  if (window <= 1) return signal;
+  const half = Math.floor(window / 2);
+  return Float64Array.from(signal, (_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - half); j <= Math.min(signal.length - 1, i + half); j++) {
+      if (Number.isFinite(signal[j])) {
+        sum += signal[j];
+        count++;
+      }
+    }
+    return count > 0 ? sum / count : NaN;
+  });
+}
+
+/**
+ * Local extrema that dominate a ±halfWindow neighbourhood and lie on the
+ * far side of the signal mean (rejects small ripples). Extrema too close to
+ * either end of the trial are ignored because their neighbourhood is incomplete.
+ */
+function findExtrema(signal: Float64Array, halfWindow: number, kind: 'max' | 'min'): number[] {
+  const sign = kind === 'max' ? 1 : -1;
+  const finite = Array.from(signal).filter(Number.isFinite);
+  if (finite.length === 0) return [];
+  const threshold = mean(finite);
+
+  const frames: number[] = [];
+  for (let i = halfWindow; i < signal.length - halfWindow; i++) {
+    const value = signal[i] * sign;
+    if (!Number.isFinite(value) || value <= threshold * sign) continue;
+
+    let isExtremum = true;
+    for (let j = i - halfWindow; j <= i + halfWindow && isExtremum; j++) {
+      if (j === i) continue;
+      const other = signal[j] * sign;
+      // Strict on the left so plateaus report their first frame only
+      if (other > value || (j < i && other === value)) isExtremum = false;
+    }
+    if (isExtremum) frames.push(i);
+  }
+  return frames;
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
@@ -0,0 +1,216 @@
+/**
+ * Gait Cycle Normalization
+ *
+ * Time-normalizes recorded sagittal joint angles to 0–100% of the gait cycle
+ * (heel strike to next ipsilateral heel strike) and averages cycles per side,
+ * producing the classic gait-lab curve view alongside normative bands.
+ *
+ * Angles are converted from model coordinates to clinical sign conventions
+ * (see GAIT_ANGLES): e.g. knee flexion is negative in the model's
+ * knee_*_flexion coordinate but plotted as positive flexion.
+ */
+
+import type { MotionRecording } from '../engine/motionRecorder';
+import {
+  analyzeGait,
+  gaitTrajectoriesFromRecording,
+  type GaitEvent,
+  type GaitSide
+} from './gaitAnalysis';
+import { GAIT_NORMS, resampleNorm, type GaitAngleKey } from './gaitNorms';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Sagittal angle definition: model coordinates per side plus clinical sign
+ */
+export interface GaitAngleDef {
+  key: GaitAngleKey;
+  label: string;
+  coordinates: Record<GaitSide, string>;
+  /** Multiplier mapping model coordinate (rad) sign to clinical sign */
+  sign: 1 | -1;
+}
+
+export const GAIT_ANGLES: GaitAngleDef[] = [
+  { key: 'hip', label: 'Hip Flexion/Extension', coordinates: { left: 'hip_l_flexion', right: 'hip_r_flexion' }, sign: 1 },
+  { key: 'knee', label: 'Knee Flexion/Extension', coordinates: { left: 'knee_l_flexion', right: 'knee_r_flexion' }, sign: -1 },
+  { key: 'ankle', label: 'Ankle Dorsi/Plantarflexion', coordinates: { left: 'ankle_l_flexion', right: 'ankle_r_flexion' }, sign: 1 }
+];
+
+/**
+ * Normalized cycles for one side of one angle (degrees)
+ */
+export interface CycleCurveStats {
+  /** Each cycle resampled to `points` samples (NaN where undefined) */
+  cycles: Float64Array[];
+  /** Per-point mean over the cycles defined there (NaN if none) */
+  mean: Float64Array;
+  sd: Float64Array;
+  /** Mean toe-off position (% of cycle), NaN if no toe off detected */
+  toeOffPercent: number;
+}
+
+/**
+ * Curves and normative band for one angle
+ */
+export interface GaitAngleCurves {
+  def: GaitAngleDef;
+  left: CycleCurveStats | null;
+  right: CycleCurveStats | null;
+  norm: { mean: Float64Array; sd: Float64Array; source: string };
+}
+
+/**
+ * Result of gait-cycle normalization
+ */
+export interface GaitCycleCurves {
+  success: boolean;
+  /** Samples per cycle (101 → one per 1%) */
+  points: number;
+  angles: GaitAngleCurves[];
+  errors: string[];
+}
+
+/**
+ * Resample samples (t, v) between tStart and tEnd to `points` evenly spaced samples
+ */
+export function normalizeToCycle(
+  time: ArrayLike<number>,
+  values: ArrayLike<number>,
+  tStart: number,
+  tEnd: number,
+  points: number = 101
+): Float64Array {
+  const out = new Float64Array(points);
+  let j = 0;
+  for (let i = 0; i < points; i++) {
+    const t = tStart + ((tEnd - tStart) * i) / (points - 1);
+    while (j < time.length - 2 && time[j + 1] < t) j++;
+    const t0 = time[j];
+    const t1 = time[j + 1] ?? t0;
+    const alpha = t1 > t0 ? Math.max(0, Math.min(1, (t - t0) / (t1 - t0))) : 0;
+    out[i] = values[j] + ((values[j + 1] ?? values[j]) - values[j]) * alpha;
+  }
+  return out;
+}
+
+/**
+ * Cut a time series into gait cycles of one side and average them
+ *
+ * @param time - Trial time of each sample (seconds)
+ * @param values - Samples aligned with `time`
+ * @param events - Gait events with frame indices into `time`
+ * @param side - Side whose heel strikes delimit the cycles
+ * @param points - Samples per normalized cycle
+ * @param allowGaps - Keep cycles with undefined (NaN) stretches and average
+ *   each point over the cycles defined there; otherwise such cycles are dropped
+ * @returns Cycle statistics, or null if no usable cycle was found
+ */
+export function computeCycleStats(
+  time: Float64Array,
+  values: Float64Array,
+  events: GaitEvent[],
+  side: GaitSide,
+  points: number = 101,
+  allowGaps: boolean = false
+): CycleCurveStats | null {
+  const strikes = events.filter(e => e.side === side && e.type === 'heelStrike');
+  const toeOffs = events.filter(e => e.side === side && e.type === 'toeOff');
+
+  const cycles: Float64Array[] = [];
+  const toeOffPercents: number[] = [];
+  for (let k = 0; k + 1 < strikes.length; k++) {
+    const start = strikes[k];
+    const end = strikes[k + 1];
+    const cycle = normalizeToCycle(
+      time.subarray(start.frame, end.frame + 1),
+      values.subarray(start.frame, end.frame + 1),
+      start.time,
+      end.time,
+      points
+    );
+    const defined = cycle.filter(v => Number.isFinite(v)).length;
+    if (allowGaps ? defined === 0 : defined < points) continue;
+    cycles.push(cycle);
+
+    const toeOff = toeOffs.find(e => e.time > start.time && e.time < end.time);
+    if (toeOff) toeOffPercents.push((100 * (toeOff.time - start.time)) / (end.time - start.time));
+  }
+  if (cycles.length === 0) return null;
+
+  const mean = new Float64Array(points);
+  const sd = new Float64Array(points);
+  for (let i = 0; i < points; i++) {
+    const samples = cycles.map(cycle => cycle[i]).filter(v => Number.isFinite(v));
+    if (samples.length === 0) {
+      mean[i] = NaN;
+      sd[i] = NaN;
+      continue;
+    }
+    mean[i] = samples.reduce((a, b) => a + b, 0) / samples.length;
+    let sq = 0;
+    for (const v of samples) sq += (v - mean[i]) ** 2;
+    sd[i] = samples.length > 1 ? Math.sqrt(sq / (samples.length - 1)) : 0;
+  }
+
+  return {
+    cycles,
+    mean,
+    sd,
+    toeOffPercent: toeOffPercents.length > 0
+      ? toeOffPercents.reduce((a, b) => a + b, 0) / toeOffPercents.length
+      : NaN
+  };
+}
+
+/**
+ * Normalize hip/knee/ankle sagittal angles over every complete gait cycle
+ *
+ * @param recording - Recording with coordinates and gait markers
+ * @param events - Gait events (detected from the recording if omitted)
+ * @param points - Samples per normalized cycle
+ */
+export function computeGaitCycleCurves(
+  recording: MotionRecording,
+  events?: GaitEvent[],
+  points: number = 101
+): GaitCycleCurves {
+  const empty = (error: string): GaitCycleCurves => ({ success: false, points, angles: [], errors: [error] });
+
+  const traj = gaitTrajectoriesFromRecording(recording);
+  if (!traj) return empty('Recording has no foot/pelvis marker trajectories');
+
+  let gaitEvents = events;
+  if (!gaitEvents) {
+    const analysis = analyzeGait(recording);
+    if (!analysis.success) return { success: false, points, angles: [], errors: analysis.errors };
+    gaitEvents = analysis.events;
+  }
+
+  const sideStats = (def: GaitAngleDef, side: GaitSide): CycleCurveStats | null => {
+    const column = recording.values[def.coordinates[side]];
+    if (!column) return null;
+
+    const values = Float64Array.from(traj.sourceFrames, f => column[f] * def.sign * RAD_TO_DEG);
+    return computeCycleStats(traj.time, values, gaitEvents!, side, points);
+  };
+
+  const angles = GAIT_ANGLES.map(def => {
+    const norm = GAIT_NORMS[def.key];
+    return {
+      def,
+      left: sideStats(def, 'left'),
+      right: sideStats(def, 'right'),
+      norm: { ...resampleNorm(norm, points), source: norm.source }
+    };
+  });
+
+  const hasCurves = angles.some(a => a.left || a.right);
+  return {
+    success: hasCurves,
+    points,
+    angles,
+    errors: hasCurves ? [] : ['No complete gait cycles with joint angle data']
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Normative Gait Kinematics
+ *
+ * Sagittal-plane joint angles of healthy adults walking at self-selected
+ * speed, sampled every 5% of the gait cycle (0% = heel strike).
+ * Values are an approximate composite of classic gait-lab reference curves
+ * (Winter 1991; Kadaba et al. 1990) intended for teaching overlays, not for
+ * clinical decision making.
+ *
+ * Sign conventions (clinical, degrees):
+ * - Hip: + flexion / − extension
+ * - Knee: + flexion
+ * - Ankle: + dorsiflexion / − plantarflexion
+ */
+
+export type GaitAngleKey = 'hip' | 'knee' | 'ankle';
+
+/**
+ * Mean ± SD band sampled at evenly spaced cycle percentages
+ */
+export interface NormativeBand {
+  /** Gait-cycle percentage of each sample (0–100) */
+  percent: number[];
+  /** Mean angle (degrees) */
+  mean: number[];
+  /** One standard deviation (degrees) */
+  sd: number[];
+  /** Citation / provenance note shown with the band */
+  source: string;
+}
+
+const PERCENT = Array.from({ length: 21 }, (_, i) => i * 5);
+const SOURCE = 'Approximate healthy-adult reference (Winter 1991; Kadaba 1990)';
+
+export const GAIT_NORMS: Record<GaitAngleKey, NormativeBand> = {
+  hip: {
+    percent: PERCENT,
+    mean: [30, 29, 27, 23, 18, 13, 8, 4, 0, -4, -8, -10, -6, 2, 12, 21, 27, 31, 32, 31, 30],
+    sd: [5, 5, 5, 5, 5, 5, 5, 5, 5, 5, 6, 6, 6, 6, 6, 6, 6, 5, 5, 5, 5],
+    source: SOURCE
+  },
+  knee: {
+    percent: PERCENT,
+    mean: [5, 12, 18, 20, 18, 14, 10, 7, 5, 6, 9, 16, 28, 44, 57, 62, 58, 46, 28, 10, 5],
+    sd: [5, 5, 6, 6, 6, 6, 5, 5, 5, 5, 5, 6, 6, 7, 7, 6, 6, 7, 7, 6, 5],
+    source: SOURCE
+  },
+  ankle: {
+    percent: PERCENT,
+    mean: [0, -5, -3, 1, 4, 6, 8, 9, 10, 10, 8, 2, -8, -16, -12, -5, -1, 1, 1, 0, 0],
+    sd: [3, 3, 3, 3, 3, 3, 3, 3, 4, 4, 4, 5, 6, 6, 6, 5, 4, 4, 4, 3, 3],
+    source: SOURCE
+  }
+};
+
+/**
+ * Resample a normative band to `points` evenly spaced samples over 0–100%
+ */
+export function resampleNorm(band: NormativeBand, points: number): { mean: Float64Array; sd: Float64Array } {
+  const mean = new Float64Array(points);
+  const sd = new Float64Array(points);
+  for (let i = 0; i < points; i++) {
+    const pct = points > 1 ? (100 * i) / (points - 1) : 0;
+    const pos = (pct / 100) * (band.percent.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.min(band.percent.length - 1, lo + 1);
+    const alpha = pos - lo;
+    mean[i] = band.mean[lo] + (band.mean[hi] - band.mean[lo]) * alpha;
+    sd[i] = band.sd[lo] + (band.sd[hi] - band.sd[lo]) * alpha;
+  }
+  return { mean, sd };
+}
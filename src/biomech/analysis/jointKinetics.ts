@@ -0,0 +1,335 @@
+/**
+ * Joint Kinetics - Lower-limb inverse dynamics over a recorded trial
+ *
+ * Projects recorded joint-center markers onto the sagittal plane (direction
+ * of progression × vertical), attaches a ground reaction force to each foot
+ * and runs the planar Newton-Euler solver (engine/inverseDynamics). Results
+ * are normalized to body mass and averaged per gait cycle like the angle
+ * curves in ./gaitCycle.
+ *
+ * Ground reaction sources:
+ * - Force plate: the imported plate (io/forcePlateImport) is sampled at the
+ *   recording's clip time plus an offset and applied to the foot nearest the
+ *   COP. A single plate is assumed, so the other foot is unloaded.
+ * - Estimate: during single support the stance foot carries the whole-body
+ *   reaction M·(a − g), with the pelvis standing in for the body COM and the
+ *   COP placed where the force line through the pelvis meets the ground
+ *   (clamped to the footprint). Double support is statically indeterminate
+ *   and left undefined, so estimated curves have gaps there.
+ */
+
+import type { MotionRecording } from '../engine/motionRecorder';
+import {
+  lowerLimbInertia,
+  secondDerivative,
+  solveLowerLimbDynamics,
+  type KineticJoint,
+  type LowerLimbKinetics,
+  type LowerLimbTrajectories,
+  type PlanarGroundReaction,
+  type PlanarTrajectory
+} from '../engine/inverseDynamics';
+import { sampleForcePlate, type ForcePlateData } from '../io/forcePlateImport';
+import type { AnthropometricTable } from '../model/anthropometrics';
+import { DEFAULT_FOOTPRINT_OPTIONS } from './baseOfSupport';
+import {
+  analyzeGait,
+  estimateProgressionAxis,
+  gaitTrajectoriesFromRecording,
+  type GaitEvent,
+  type GaitSide
+} from './gaitAnalysis';
+import { computeCycleStats, type CycleCurveStats } from './gaitCycle';
+
+const GRAVITY = 9.81;
+const SIDES: GaitSide[] = ['left', 'right'];
+
+/**
+ * Recorder marker ids (segment ids) used for inverse dynamics
+ */
+export const KINETIC_MARKERS = {
+  pelvis: 'pelvis',
+  pelvisTop: 'lumbar',
+  left: { hip: 'femur_left', knee: 'tibia_left', ankle: 'foot_left', toe: 'toes_left' },
+  right: { hip: 'femur_right', knee: 'tibia_right', ankle: 'foot_right', toe: 'toes_right' }
+} as const;
+
+export type GroundReactionSource =
+  | { type: 'estimate' }
+  | { type: 'forcePlate'; data: ForcePlateData; /** Plate time = clip time + offset (s) */ timeOffset?: number };
+
+export interface JointKineticsOptions {
+  /** Body mass (kg) */
+  massKg: number;
+  table: AnthropometricTable;
+  /** Subject height / model height; converts scene distances to subject meters */
+  lengthScale?: number;
+  /** Defaults to the single-support estimate */
+  grf?: GroundReactionSource;
+  /** Plate vertical force below which no foot is loaded (N) */
+  loadThreshold?: number;
+  /** Gait events (detected from the recording if omitted) */
+  events?: GaitEvent[];
+}
+
+/**
+ * Kinetics of one trial (absolute units)
+ */
+export interface JointKineticsResult {
+  success: boolean;
+  source: GroundReactionSource['type'];
+  massKg: number;
+  /** Monotonic trial time (seconds) */
+  time: Float64Array;
+  events: GaitEvent[];
+  left: LowerLimbKinetics | null;
+  right: LowerLimbKinetics | null;
+  grf: Record<GaitSide, PlanarGroundReaction> | null;
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * Plotted kinetic quantity
+ */
+export interface KineticQuantityDef {
+  key: string;
+  label: string;
+  joint: KineticJoint;
+  quantity: 'moment' | 'power';
+  unit: string;
+}
+
+export const KINETIC_QUANTITIES: KineticQuantityDef[] = [
+  { key: 'hipMoment', label: 'Hip Moment (ext +)', joint: 'hip', quantity: 'moment', unit: 'N·m/kg' },
+  { key: 'kneeMoment', label: 'Knee Moment (ext +)', joint: 'knee', quantity: 'moment', unit: 'N·m/kg' },
+  { key: 'ankleMoment', label: 'Ankle Moment (plantarflex +)', joint: 'ankle', quantity: 'moment', unit: 'N·m/kg' },
+  { key: 'hipPower', label: 'Hip Power', joint: 'hip', quantity: 'power', unit: 'W/kg' },
+  { key: 'kneePower', label: 'Knee Power', joint: 'knee', quantity: 'power', unit: 'W/kg' },
+  { key: 'anklePower', label: 'Ankle Power', joint: 'ankle', quantity: 'power', unit: 'W/kg' }
+];
+
+export interface KineticCurves {
+  def: KineticQuantityDef;
+  left: CycleCurveStats | null;
+  right: CycleCurveStats | null;
+}
+
+export interface KineticCycleCurves {
+  success: boolean;
+  points: number;
+  curves: KineticCurves[];
+  errors: string[];
+}
+
+/**
+ * Run lower-limb inverse dynamics over a recording
+ *
+ * @param recording - Recording with gait and leg joint markers
+ * @param options - Subject, ground reaction source and events
+ */
+export function computeJointKinetics(recording: MotionRecording, options: JointKineticsOptions): JointKineticsResult {
+  const source = options.grf ?? { type: 'estimate' };
+  const result: JointKineticsResult = {
+    success: false,
+    source: source.type,
+    massKg: options.massKg,
+    time: new Float64Array(0),
+    events: [],
+    left: null,
+    right: null,
+    grf: null,
+    warnings: [],
+    errors: []
+  };
+
+  const traj = gaitTrajectoriesFromRecording(recording);
+  const markers = recording.markers;
+  const required = [
+    KINETIC_MARKERS.pelvisTop,
+    ...SIDES.flatMap(side => Object.values(KINETIC_MARKERS[side]))
+  ];
+  if (!traj || !markers || required.some(id => !markers[id])) {
+    result.errors.push('Recording has no hip/knee/ankle marker trajectories (record the clip again)');
+    return result;
+  }
+  if (!(options.massKg > 0)) {
+    result.errors.push('Body mass must be positive');
+    return result;
+  }
+
+  let events = options.events;
+  if (!events) {
+    const analysis = analyzeGait(recording);
+    if (!analysis.success) {
+      result.errors.push(...analysis.errors);
+      return result;
+    }
+    events = analysis.events;
+  }
+  result.events = events;
+  result.time = traj.time;
+
+  const scale = options.lengthScale ?? 1;
+  const axis = estimateProgressionAxis(traj);
+  const planar = (id: string): PlanarTrajectory => {
+    const marker = markers[id];
+    return {
+      x: Float64Array.from(traj.sourceFrames, f => (marker.x[f] * axis.x + marker.z[f] * axis.z) * scale),
+      y: Float64Array.from(traj.sourceFrames, f => marker.y[f] * scale)
+    };
+  };
+
+  const pelvisTop = planar(KINETIC_MARKERS.pelvisTop);
+  const limbs = Object.fromEntries(SIDES.map(side => {
+    const ids = KINETIC_MARKERS[side];
+    return [side, {
+      pelvisTop,
+      hip: planar(ids.hip),
+      knee: planar(ids.knee),
+      ankle: planar(ids.ankle),
+      toe: planar(ids.toe)
+    }];
+  })) as Record<GaitSide, LowerLimbTrajectories>;
+
+  const n = traj.time.length;
+  const grf: Record<GaitSide, PlanarGroundReaction> = {
+    left: emptyReaction(n),
+    right: emptyReaction(n)
+  };
+
+  if (source.type === 'forcePlate') {
+    const offset = source.timeOffset ?? 0;
+    const threshold = options.loadThreshold ?? 20;
+    let outside = 0;
+    for (let i = 0; i < n; i++) {
+      const frame = traj.sourceFrames[i];
+      const sample = sampleForcePlate(source.data, recording.clipTime[frame] + offset);
+      if (!sample) {
+        outside++;
+        continue;
+      }
+      for (const side of SIDES) setReaction(grf[side], i, 0, 0, 0, 0);
+      if (sample.force.y < threshold) continue;
+
+      // Apply the plate to the foot whose midfoot is nearest the COP
+      const distance = (side: GaitSide) => {
+        const ids = KINETIC_MARKERS[side];
+        const midX = (markers[ids.ankle].x[frame] + markers[ids.toe].x[frame]) / 2;
+        const midZ = (markers[ids.ankle].z[frame] + markers[ids.toe].z[frame]) / 2;
+        return Math.hypot(midX - sample.cop.x, midZ - sample.cop.z);
+      };
+      const side: GaitSide = distance('left') <= distance('right') ? 'left' : 'right';
+      setReaction(
+        grf[side],
+        i,
+        sample.force.x * axis.x + sample.force.z * axis.z,
+        sample.force.y,
+        (sample.cop.x * axis.x + sample.cop.z * axis.z) * scale,
+        sample.cop.y * scale
+      );
+    }
+    if (outside > 0) {
+      result.warnings.push(`${outside} of ${n} frames fall outside the force plate time range`);
+    }
+  } else {
+    const pelvis = planar(KINETIC_MARKERS.pelvis);
+    const ax = secondDerivative(traj.time, pelvis.x);
+    const ay = secondDerivative(traj.time, pelvis.y);
+    const stance = Object.fromEntries(
+      SIDES.map(side => [side, stancePhases(traj.time, events!, side)])
+    ) as Record<GaitSide, Array<boolean | null>>;
+
+    for (let i = 0; i < n; i++) {
+      const left = stance.left[i];
+      const right = stance.right[i];
+      if (left === null || right === null || (left && right)) continue;
+      for (const side of SIDES) setReaction(grf[side], i, 0, 0, 0, 0);
+      if (!left && !right) continue;
+
+      const side: GaitSide = left ? 'left' : 'right';
+      const fx = options.massKg * ax[i];
+      const fy = options.massKg * (ay[i] + GRAVITY);
+      if (!Number.isFinite(fx) || !Number.isFinite(fy) || fy <= 0) {
+        setReaction(grf[side], i, NaN, NaN, NaN, NaN);
+        continue;
+      }
+      const limb = limbs[side];
+      const heel = limb.ankle.x[i] - DEFAULT_FOOTPRINT_OPTIONS.heelOffset * scale;
+      const toeTip = limb.toe.x[i] + DEFAULT_FOOTPRINT_OPTIONS.toeOffset * scale;
+      const cop = pelvis.x[i] - (pelvis.y[i] * fx) / fy;
+      setReaction(grf[side], i, fx, fy, Math.min(Math.max(cop, Math.min(heel, toeTip)), Math.max(heel, toeTip)), 0);
+    }
+  }
+
+  for (const side of SIDES) {
+    result[side] = solveLowerLimbDynamics(
+      traj.time,
+      limbs[side],
+      grf[side],
+      lowerLimbInertia(options.table, side, options.massKg),
+      GRAVITY
+    );
+  }
+  result.grf = grf;
+  result.success = true;
+  return result;
+}
+
+/**
+ * Normalize mass-scaled moments and powers to 0–100% of the gait cycle
+ */
+export function computeKineticCycleCurves(kinetics: JointKineticsResult, points: number = 101): KineticCycleCurves {
+  if (!kinetics.success) {
+    return { success: false, points, curves: [], errors: kinetics.errors };
+  }
+
+  const curves = KINETIC_QUANTITIES.map(def => {
+    const stats = (side: GaitSide): CycleCurveStats | null => {
+      const limb = kinetics[side];
+      if (!limb) return null;
+      const perKg = Float64Array.from(limb[def.joint][def.quantity], v => v / kinetics.massKg);
+      return computeCycleStats(kinetics.time, perKg, kinetics.events, side, points, true);
+    };
+    return { def, left: stats('left'), right: stats('right') };
+  });
+
+  const hasCurves = curves.some(c => c.left || c.right);
+  return {
+    success: hasCurves,
+    points,
+    curves,
+    errors: hasCurves ? [] : ['No complete gait cycles with ground reaction data']
+  };
+}
+
+/**
+ * Per-frame stance state of one foot from its latest event
+ * (true = stance, false = swing, null before the first event)
+ */
+function stancePhases(time: Float64Array, events: GaitEvent[], side: GaitSide): Array<boolean | null> {
+  const own = events.filter(e => e.side === side);
+  const phases: Array<boolean | null> = [];
+  let k = -1;
+  for (let i = 0; i < time.length; i++) {
+    while (k + 1 < own.length && own[k + 1].frame <= i) k++;
+    phases.push(k < 0 ? null : own[k].type === 'heelStrike');
+  }
+  return phases;
+}
+
+function emptyReaction(n: number): PlanarGroundReaction {
+  return {
+    fx: new Float64Array(n).fill(NaN),
+    fy: new Float64Array(n).fill(NaN),
+    copX: new Float64Array(n).fill(NaN),
+    copY: new Float64Array(n).fill(NaN)
+  };
+}
+
+function setReaction(grf: PlanarGroundReaction, i: number, fx: number, fy: number, copX: number, copY: number): void {
+  grf.fx[i] = fx;
+  grf.fy[i] = fy;
+  grf.copX[i] = copX;
+  grf.copY[i] = copY;
+}
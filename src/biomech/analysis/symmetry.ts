@@ -0,0 +1,293 @@
+/**
+ * Bilateral Symmetry Analysis
+ *
+ * Pairs every left/right joint in JOINTS (hips, GH, ST, elbows, wrists, knees,
+ * ankles, finger MCPs, ...) and compares their coordinates, either for a
+ * single frame (ModelState.q) or across recorded clips.
+ *
+ * Sign conventions: coordinate values from the q-space engine already have
+ * CoordinateDef.invert applied, so pairs whose raw axes point opposite ways
+ * (e.g. GH elevation, inverted on the right only) compare directly. Pairs that
+ * instead encode the mirror in their ranges (e.g. GH plane of elevation,
+ * -135..45° left vs -45..135° right) get sign -1, and the right value is
+ * negated into the left's convention before comparing.
+ *
+ * Clip comparison accepts separate trials for each side (e.g. Sit_Lknee_ex
+ * for the left knee and Sit_Rknee_ex for the right); both are normalized to
+ * 0–100% of their duration before time-aligned measures are computed.
+ */
+
+import type { MotionRecording } from '../engine/motionRecorder';
+import { getAllJoints } from '../model/joints';
+import type { CoordinateDef, JointDef } from '../model/types';
+import { symmetryIndex } from './gaitAnalysis';
+import { normalizeToCycle } from './gaitCycle';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Contralateral coordinate pair
+ */
+export interface BilateralCoordinatePair {
+  /** Side-independent key, e.g. 'knee_flexion' */
+  key: string;
+  displayName: string;
+  left: CoordinateDef;
+  right: CoordinateDef;
+  /** Multiplier mapping a right value into the left coordinate's convention */
+  sign: 1 | -1;
+}
+
+/**
+ * Contralateral joint pair
+ */
+export interface BilateralJointPair {
+  /** Side-independent key, e.g. 'knee', 'index_mcp' */
+  key: string;
+  displayName: string;
+  left: JointDef;
+  right: JointDef;
+  coordinates: BilateralCoordinatePair[];
+}
+
+/**
+ * Single-frame comparison of one coordinate pair (degrees)
+ */
+export interface CoordinateFrameSymmetry {
+  pair: BilateralCoordinatePair;
+  left: number;
+  /** Right value in the left coordinate's sign convention */
+  right: number;
+  /** left − right */
+  difference: number;
+}
+
+/**
+ * Summary of one side of a coordinate over a clip (degrees)
+ */
+export interface SideExcursion {
+  min: number;
+  max: number;
+  excursion: number;
+}
+
+/**
+ * Clip comparison of one coordinate pair
+ */
+export interface CoordinateClipSymmetry {
+  pair: BilateralCoordinatePair;
+  left: SideExcursion;
+  right: SideExcursion;
+  /** Robinson SI of the excursions (%) */
+  excursionSymmetry: number;
+  /** RMS of left − right over normalized time (degrees) */
+  rmsDifference: number;
+  /** Largest |left − right| over normalized time (degrees) */
+  peakDifference: number;
+}
+
+export interface JointSymmetry<T> {
+  pair: BilateralJointPair;
+  coordinates: T[];
+}
+
+/**
+ * Result of clip symmetry analysis
+ */
+export interface RecordingSymmetryResult {
+  success: boolean;
+  joints: JointSymmetry<CoordinateClipSymmetry>[];
+  warnings: string[];
+  errors: string[];
+}
+
+function contralateralJointId(id: string): string | null {
+  const swapped = id.replace(/(^|_)left(_|$)/, '$1right$2');
+  return swapped === id ? null : swapped;
+}
+
+/** 'knee_l_flexion' → 'knee_flexion', 'thumb_left_cmc' → 'thumb_cmc' */
+function stripSide(id: string): string {
+  return id.replace(/_(l|left)(?=_|$)/, '');
+}
+
+/**
+ * True when two coordinates describe the same motion with opposite signs,
+ * detected from mirrored, asymmetric ranges.
+ */
+function hasMirroredRanges(left: CoordinateDef, right: CoordinateDef): boolean {
+  const eps = 1e-6;
+  const symmetric = Math.abs(left.range.min + left.range.max) < eps;
+  return (
+    !symmetric &&
+    Math.abs(left.range.min + right.range.max) < eps &&
+    Math.abs(left.range.max + right.range.min) < eps
+  );
+}
+
+/**
+ * Pair every left joint with its right counterpart, coordinates matched by Euler index
+ */
+export function getBilateralPairs(joints: JointDef[] = getAllJoints()): BilateralJointPair[] {
+  const byId = new Map(joints.map(j => [j.id, j]));
+  const pairs: BilateralJointPair[] = [];
+
+  for (const left of joints) {
+    if (left.side !== 'left') continue;
+    const rightId = contralateralJointId(left.id);
+    const right = rightId ? byId.get(rightId) : undefined;
+    if (!right) continue;
+
+    const coordinates: BilateralCoordinatePair[] = [];
+    for (const leftCoord of left.coordinates) {
+      const rightCoord = right.coordinates.find(c => c.index === leftCoord.index);
+      if (!rightCoord) continue;
+      coordinates.push({
+        key: stripSide(leftCoord.id),
+        displayName: leftCoord.displayName,
+        left: leftCoord,
+        right: rightCoord,
+        sign: hasMirroredRanges(leftCoord, rightCoord) ? -1 : 1
+      });
+    }
+
+    pairs.push({
+      key: stripSide(left.id),
+      displayName: left.displayName.replace(/^Left\s+/, ''),
+      left,
+      right,
+      coordinates
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Look up the contralateral partner of a coordinate
+ *
+ * @returns Partner coordinate and the sign mapping its values into the given coordinate's convention
+ */
+export function getContralateralCoordinate(
+  coordId: string
+): { coordinate: CoordinateDef; sign: 1 | -1 } | null {
+  for (const joint of getBilateralPairs()) {
+    for (const pair of joint.coordinates) {
+      if (pair.left.id === coordId) return { coordinate: pair.right, sign: pair.sign };
+      if (pair.right.id === coordId) return { coordinate: pair.left, sign: pair.sign };
+    }
+  }
+  return null;
+}
+
+/**
+ * Compare left/right coordinates in a single frame
+ *
+ * @param q - Coordinate values in radians keyed by CoordinateDef.id (ModelState.q)
+ */
+export function analyzeFrameSymmetry(
+  q: Record<string, number>,
+  pairs: BilateralJointPair[] = getBilateralPairs()
+): JointSymmetry<CoordinateFrameSymmetry>[] {
+  const result: JointSymmetry<CoordinateFrameSymmetry>[] = [];
+  for (const jointPair of pairs) {
+    const coordinates: CoordinateFrameSymmetry[] = [];
+    for (const pair of jointPair.coordinates) {
+      const l = q[pair.left.id];
+      const r = q[pair.right.id];
+      if (!Number.isFinite(l) || !Number.isFinite(r)) continue;
+      const left = l * RAD_TO_DEG;
+      const right = pair.sign * r * RAD_TO_DEG;
+      coordinates.push({ pair, left, right, difference: left - right });
+    }
+    if (coordinates.length > 0) result.push({ pair: jointPair, coordinates });
+  }
+  return result;
+}
+
+function normalizedSeries(
+  recording: MotionRecording,
+  coordId: string,
+  scale: number,
+  points: number
+): Float64Array | null {
+  const column = recording.values[coordId];
+  if (!column || recording.frameCount < 2) return null;
+
+  const time: number[] = [];
+  const values: number[] = [];
+  for (let i = 0; i < recording.frameCount; i++) {
+    if (!Number.isFinite(column[i])) continue;
+    time.push(recording.time[i]);
+    values.push(column[i] * scale);
+  }
+  if (time.length < 2) return null;
+  return normalizeToCycle(time, values, time[0], time[time.length - 1], points);
+}
+
+function excursion(series: Float64Array): SideExcursion {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of series) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return { min, max, excursion: max - min };
+}
+
+/**
+ * Compare left/right coordinates over recorded clips
+ *
+ * @param leftRecording - Trial supplying the left-side coordinates
+ * @param rightRecording - Trial supplying the right-side coordinates (defaults to the same trial)
+ * @param points - Samples used for time normalization
+ */
+export function analyzeRecordingSymmetry(
+  leftRecording: MotionRecording,
+  rightRecording: MotionRecording = leftRecording,
+  points: number = 101,
+  pairs: BilateralJointPair[] = getBilateralPairs()
+): RecordingSymmetryResult {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  if (leftRecording.frameCount < 2 || rightRecording.frameCount < 2) {
+    return { success: false, joints: [], warnings, errors: ['Recording needs at least two frames'] };
+  }
+  if (leftRecording !== rightRecording) {
+    warnings.push('Separate trials are compared on normalized time (0–100% of each recording)');
+  }
+
+  const joints: JointSymmetry<CoordinateClipSymmetry>[] = [];
+  for (const jointPair of pairs) {
+    const coordinates: CoordinateClipSymmetry[] = [];
+    for (const pair of jointPair.coordinates) {
+      const left = normalizedSeries(leftRecording, pair.left.id, RAD_TO_DEG, points);
+      const right = normalizedSeries(rightRecording, pair.right.id, pair.sign * RAD_TO_DEG, points);
+      if (!left || !right) continue;
+
+      let sumSq = 0;
+      let peak = 0;
+      for (let i = 0; i < points; i++) {
+        const d = left[i] - right[i];
+        sumSq += d * d;
+        peak = Math.max(peak, Math.abs(d));
+      }
+
+      const leftExcursion = excursion(left);
+      const rightExcursion = excursion(right);
+      coordinates.push({
+        pair,
+        left: leftExcursion,
+        right: rightExcursion,
+        excursionSymmetry: symmetryIndex(leftExcursion.excursion, rightExcursion.excursion),
+        rmsDifference: Math.sqrt(sumSq / points),
+        peakDifference: peak
+      });
+    }
+    if (coordinates.length > 0) joints.push({ pair: jointPair, coordinates });
+  }
+
+  if (joints.length === 0) errors.push('No paired coordinates were recorded');
+  return { success: errors.length === 0, joints, warnings, errors };
+}
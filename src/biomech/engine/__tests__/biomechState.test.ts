@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { BiomechState } from '../biomechState';
+
+/** Right upper arm and forearm of the built-in model (elbow flexion is an inverted coordinate) */
+function makeArmState(): { state: BiomechState; forearm: THREE.Bone } {
+  const arm = new THREE.Bone();
+  arm.name = 'mixamorig1RightArm';
+  const forearm = new THREE.Bone();
+  forearm.name = 'mixamorig1RightForeArm';
+  arm.add(forearm);
+  forearm.position.set(0, 0.28, 0);
+
+  const state = new BiomechState();
+  state.initialize(new THREE.Skeleton([arm, forearm]));
+  state.calibrateNeutral();
+  return { state, forearm };
+}
+
+const elbowFlexion = (state: BiomechState) =>
+  state.getJointState('elbow_right')!.coordinates.elbow_r_flexion.value;
+
+describe('BiomechState.validateBone', () => {
+  it('leaves an in-range pose with an inverted coordinate unchanged', () => {
+    const { state, forearm } = makeArmState();
+    state.applyCoordinates('elbow_right', [0, 0, 0.8]);
+    expect(elbowFlexion(state)).toBeCloseTo(0.8, 6);
+
+    state.validateBone(forearm);
+    expect(elbowFlexion(state)).toBeCloseTo(0.8, 6);
+  });
+
+  it('clamps an inverted coordinate at the anatomical bound', () => {
+    const { state, forearm } = makeArmState();
+    state.applyCoordinates('elbow_right', [0, 0, -0.3]);
+
+    state.validateBone(forearm);
+    expect(elbowFlexion(state)).toBeCloseTo(0, 6);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { computeCenterOfMass } from '../centerOfMass';
+import { ANTHROPOMETRIC_TABLES, getAnthropometricTable, type AnthropometricTable } from '../../model/anthropometrics';
+
+/** Chain of bones, each offset from its parent */
+function makeChain(spec: Array<[name: string, offset: [number, number, number]]>): THREE.Skeleton {
+  const bones = spec.map(([name, offset]) => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    bone.position.set(...offset);
+    return bone;
+  });
+  for (let i = 1; i < bones.length; i++) bones[i - 1].add(bones[i]);
+  return new THREE.Skeleton(bones);
+}
+
+const LEG: AnthropometricTable = {
+  id: 'leg',
+  displayName: 'Leg',
+  source: 'test',
+  segments: {
+    femur_right: { massFraction: 0.3, from: 'femur_right', to: 'tibia_right', comFraction: 0.5 },
+    tibia_right: { massFraction: 0.1, from: 'tibia_right', to: 'foot_right', comFraction: 0.25 },
+    foot_right: { massFraction: 0.1, from: 'foot_right', to: 'mixamorig1RightToe_End', comFraction: 0.5 }
+  }
+};
+
+const legSkeleton = () => makeChain([
+  ['mixamorig1RightUpLeg', [0, 1, 0]],
+  ['mixamorig1RightLeg', [0, -0.4, 0]],
+  ['mixamorig1RightFoot', [0, -0.4, 0]]
+]);
+
+describe('anthropometric tables', () => {
+  it('distributes the whole body mass', () => {
+    for (const table of ANTHROPOMETRIC_TABLES) {
+      const total = Object.values(table.segments).reduce((sum, s) => sum + s.massFraction, 0);
+      expect(total).toBeCloseTo(1, 3);
+    }
+  });
+
+  it('falls back to the default table', () => {
+    expect(getAnthropometricTable('unknown').id).toBe('de_leva_male');
+  });
+});
+
+describe('center of mass', () => {
+  it('weights segment COMs by mass fraction', () => {
+    const skeleton = legSkeleton();
+    const toeEnd = new THREE.Bone();
+    toeEnd.name = 'mixamorig1RightToe_End';
+    toeEnd.position.set(0, 0, 0.2);
+    skeleton.bones[2].add(toeEnd);
+    skeleton.bones.push(toeEnd);
+
+    const result = computeCenterOfMass(skeleton, LEG, { massKg: 50, heightM: 1.8 }, 1.8);
+    expect(result.missingSegments).toEqual([]);
+    const femur = result.segments.find(s => s.segmentId === 'femur_right')!;
+    expect(femur.mass).toBeCloseTo(30, 6);
+    expect(femur.position.y).toBeCloseTo(0.8, 6);
+    // (0.3·0.8 + 0.1·0.5 + 0.1·0.2) / 0.5
+    expect(result.position.y).toBeCloseTo(0.62, 6);
+    expect(result.position.z).toBeCloseTo(0.1 * 0.1 / 0.5, 6);
+    expect(result.height).toBeCloseTo(0.62, 6);
+  });
+
+  it('skips segments with missing landmarks and renormalizes', () => {
+    const result = computeCenterOfMass(legSkeleton(), LEG, { massKg: 80, heightM: 1.8 }, 1.8);
+    expect(result.missingSegments).toEqual(['foot_right']);
+    expect(result.totalMass).toBe(80);
+    expect(result.segments.reduce((sum, s) => sum + s.mass, 0)).toBeCloseTo(80, 6);
+    expect(result.position.y).toBeCloseTo((0.3 * 0.8 + 0.1 * 0.5) / 0.4, 6);
+  });
+
+  it('follows the posed skeleton and scales height to the subject', () => {
+    const skeleton = legSkeleton();
+    skeleton.bones[0].rotation.z = Math.PI / 2;
+    const result = computeCenterOfMass(skeleton, LEG, { massKg: 80, heightM: 0.9 }, 1.8);
+    expect(result.position.x).toBeCloseTo((0.3 * 0.2 + 0.1 * 0.5) / 0.4, 6);
+    expect(result.position.y).toBeCloseTo(1, 6);
+    expect(result.lengthScale).toBeCloseTo(0.5, 10);
+    expect(result.height).toBeCloseTo(0.5, 6);
+  });
+});
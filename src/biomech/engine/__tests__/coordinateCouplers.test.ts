@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { evaluateCoupler, evaluateCouplerFunction } from '../coordinateCouplers';
+import { BiomechState } from '../biomechState';
+import { parseBiomechModel, type BiomechModelJson } from '../../io/modelLoader';
+
+function legModel(): BiomechModelJson {
+  return {
+    format: 'biomech-model',
+    version: 1,
+    id: 'coupled_leg',
+    rootSegment: 'thigh',
+    angleUnit: 'rad',
+    segments: [
+      { id: 'thigh', displayName: 'Thigh', source: 'mixamo', boneName: 'mixamorig1RightUpLeg' },
+      { id: 'shank', displayName: 'Shank', source: 'mixamo', boneName: 'mixamorig1RightLeg' },
+      { id: 'foot', displayName: 'Foot', source: 'mixamo', boneName: 'mixamorig1RightFoot' }
+    ],
+    joints: [
+      {
+        id: 'knee',
+        displayName: 'Knee',
+        parentSegment: 'thigh',
+        childSegment: 'shank',
+        type: 'universal',
+        eulerOrder: 'XYZ',
+        coordinates: [
+          { id: 'knee_flexion', displayName: 'Flexion', axis: 'X', range: [-2, 0.2] },
+          { id: 'knee_rotation', displayName: 'Rotation', axis: 'Y', range: [-0.5, 0.5] }
+        ]
+      },
+      {
+        id: 'ankle',
+        displayName: 'Ankle',
+        parentSegment: 'shank',
+        childSegment: 'foot',
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: 'ankle_flexion', displayName: 'Flexion', axis: 'X', range: [-1, 1] }]
+      }
+    ],
+    couplers: [
+      {
+        id: 'screw_home',
+        dependentCoordinate: 'knee_rotation',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'spline', x: [-1, -0.5, 0], y: [-0.2, -0.1, 0] }
+      },
+      {
+        id: 'ankle_follow',
+        dependentCoordinate: 'ankle_flexion',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'linear', coefficients: [0.5], offset: 0 }
+      }
+    ]
+  };
+}
+
+function makeState(): { state: BiomechState; skeleton: THREE.Skeleton } {
+  const bones = ['mixamorig1RightUpLeg', 'mixamorig1RightLeg', 'mixamorig1RightFoot'].map(name => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    return bone;
+  });
+  bones[0].add(bones[1]);
+  bones[1].add(bones[2]);
+  const skeleton = new THREE.Skeleton(bones);
+
+  const state = new BiomechState(parseBiomechModel(legModel()).model!);
+  state.initialize(skeleton);
+  state.calibrateNeutral();
+  return { state, skeleton };
+}
+
+const value = (state: BiomechState, jointId: string, coordId: string) =>
+  state.getJointState(jointId)!.coordinates[coordId].value;
+
+describe('coupler functions', () => {
+  it('evaluates linear couplers over several independents', () => {
+    const fn = { type: 'linear' as const, coefficients: [0.5, -2], offset: 0.1 };
+    expect(evaluateCouplerFunction(fn, [1, 0.25])).toBeCloseTo(0.1, 10);
+  });
+
+  it('interpolates splines through the knots and holds the end values', () => {
+    const fn = { type: 'spline' as const, x: [0, 1, 2, 3], y: [0, 1, 0, 1] };
+    expect(evaluateCouplerFunction(fn, [1])).toBeCloseTo(1, 10);
+    expect(evaluateCouplerFunction(fn, [2])).toBeCloseTo(0, 10);
+    expect(evaluateCouplerFunction(fn, [1.5])).toBeGreaterThan(0);
+    expect(evaluateCouplerFunction(fn, [1.5])).toBeLessThan(1);
+    expect(evaluateCouplerFunction(fn, [-5])).toBe(0);
+    expect(evaluateCouplerFunction(fn, [9])).toBe(1);
+  });
+
+  it('reproduces linear data exactly', () => {
+    const fn = { type: 'spline' as const, x: [-1, -0.5, 0], y: [-0.2, -0.1, 0] };
+    expect(evaluateCouplerFunction(fn, [-0.4])).toBeCloseTo(-0.08, 10);
+  });
+
+  it('returns null when an independent coordinate is unavailable', () => {
+    const coupler = legModel().couplers![1] as Parameters<typeof evaluateCoupler>[0];
+    expect(evaluateCoupler(coupler, () => null)).toBeNull();
+    expect(evaluateCoupler(coupler, () => -0.6)).toBeCloseTo(-0.3, 10);
+  });
+});
+
+describe('BiomechState coupler enforcement', () => {
+  it('drives dependent coordinates in the same and other joints', () => {
+    const { state } = makeState();
+    state.applyCoordinates('knee', [-0.4, 0.3, 0]);
+
+    expect(value(state, 'knee', 'knee_flexion')).toBeCloseTo(-0.4, 6);
+    expect(value(state, 'knee', 'knee_rotation')).toBeCloseTo(-0.08, 6);
+    expect(value(state, 'ankle', 'ankle_flexion')).toBeCloseTo(-0.2, 6);
+  });
+
+  it('overrides values passed for a dependent coordinate', () => {
+    const { state } = makeState();
+    state.applyCoordinates('knee', [-0.6, 0, 0]);
+    state.applyCoordinates('ankle', [0.9, 0, 0]);
+    expect(value(state, 'ankle', 'ankle_flexion')).toBeCloseTo(-0.3, 6);
+  });
+
+  it('re-applies couplers after the skeleton is posed directly (e.g. by IK)', () => {
+    const { state, skeleton } = makeState();
+    skeleton.bones[1].rotation.set(-1.2, 0, 0);
+    skeleton.bones[1].updateMatrixWorld(true);
+    expect(value(state, 'ankle', 'ankle_flexion')).toBeCloseTo(0, 6);
+
+    state.enforceCouplers(false);
+    expect(value(state, 'knee', 'knee_flexion')).toBeCloseTo(-1.2, 6);
+    expect(value(state, 'knee', 'knee_rotation')).toBeCloseTo(-0.2, 6);
+    expect(value(state, 'ankle', 'ankle_flexion')).toBeCloseTo(-0.6, 6);
+  });
+
+  it('reports which coupler drives a coordinate', () => {
+    const { state } = makeState();
+    expect(state.getCoupler('ankle_flexion')?.id).toBe('ankle_follow');
+    expect(state.getCoupler('knee_flexion')).toBeUndefined();
+    expect(new BiomechState().getCoupler('st_r_upward')?.independentCoordinates).toEqual(['gh_r_elevation']);
+  });
+});
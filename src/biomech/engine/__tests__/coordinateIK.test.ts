@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { BiomechState } from '../biomechState';
+import { solveCoordinateIK, solveFullBodyIK, type CoordinateIKChain } from '../coordinateIK';
+import { parseBiomechModel, type BiomechModelJson } from '../../io/modelLoader';
+
+function armModel(locked = false): BiomechModelJson {
+  return {
+    format: 'biomech-model',
+    version: 1,
+    id: 'ik_arm',
+    rootSegment: 'pelvis',
+    angleUnit: 'rad',
+    segments: [
+      { id: 'pelvis', displayName: 'Pelvis', source: 'mixamo', boneName: 'Hips' },
+      { id: 'trunk', displayName: 'Trunk', source: 'mixamo', boneName: 'Spine' },
+      { id: 'upper_arm', displayName: 'Upper Arm', source: 'mixamo', boneName: 'Arm' },
+      { id: 'forearm', displayName: 'Forearm', source: 'mixamo', boneName: 'ForeArm' },
+      { id: 'hand', displayName: 'Hand', source: 'mixamo', boneName: 'Hand' }
+    ],
+    joints: [
+      {
+        id: 'lumbar',
+        displayName: 'Lumbar',
+        parentSegment: 'pelvis',
+        childSegment: 'trunk',
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: 'lumbar_flexion', displayName: 'Flexion', axis: 'X', range: [-0.5, 0.8] }]
+      },
+      {
+        id: 'shoulder',
+        displayName: 'Shoulder',
+        parentSegment: 'trunk',
+        childSegment: 'upper_arm',
+        type: 'ball',
+        eulerOrder: 'XZY',
+        coordinates: [
+          { id: 'shoulder_flexion', displayName: 'Flexion', axis: 'X', range: [-1, 2.5] },
+          { id: 'shoulder_abduction', displayName: 'Abduction', axis: 'Z', range: [-0.3, 1.5], locked },
+          { id: 'shoulder_rotation', displayName: 'Rotation', axis: 'Y', range: [-1, 1] }
+        ]
+      },
+      {
+        id: 'elbow',
+        displayName: 'Elbow',
+        parentSegment: 'upper_arm',
+        childSegment: 'forearm',
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: 'elbow_flexion', displayName: 'Flexion', axis: 'X', range: [0, 2.4] }]
+      },
+      {
+        id: 'wrist',
+        displayName: 'Wrist',
+        parentSegment: 'forearm',
+        childSegment: 'hand',
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: 'wrist_flexion', displayName: 'Flexion', axis: 'X', range: [-1, 1] }]
+      }
+    ]
+  };
+}
+
+/** Arm model plus two legs hanging from the pelvis */
+function bodyModel(): BiomechModelJson {
+  const model = armModel();
+  for (const side of ['l', 'r']) {
+    const bone = side === 'l' ? 'Left' : 'Right';
+    model.segments.push(
+      { id: `thigh_${side}`, displayName: 'Thigh', source: 'mixamo', boneName: `${bone}UpLeg` },
+      { id: `shank_${side}`, displayName: 'Shank', source: 'mixamo', boneName: `${bone}Leg` },
+      { id: `foot_${side}`, displayName: 'Foot', source: 'mixamo', boneName: `${bone}Foot` }
+    );
+    model.joints.push(
+      {
+        id: `hip_${side}`,
+        displayName: 'Hip',
+        parentSegment: 'pelvis',
+        childSegment: `thigh_${side}`,
+        type: 'ball',
+        eulerOrder: 'XZY',
+        coordinates: [
+          { id: `hip_${side}_flexion`, displayName: 'Flexion', axis: 'X', range: [-0.5, 2.1] },
+          { id: `hip_${side}_adduction`, displayName: 'Adduction', axis: 'Z', range: [-0.5, 0.5] },
+          { id: `hip_${side}_rotation`, displayName: 'Rotation', axis: 'Y', range: [-0.7, 0.7] }
+        ]
+      },
+      {
+        id: `knee_${side}`,
+        displayName: 'Knee',
+        parentSegment: `thigh_${side}`,
+        childSegment: `shank_${side}`,
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: `knee_${side}_flexion`, displayName: 'Flexion', axis: 'X', range: [-2.4, 0] }]
+      },
+      {
+        id: `ankle_${side}`,
+        displayName: 'Ankle',
+        parentSegment: `shank_${side}`,
+        childSegment: `foot_${side}`,
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: `ankle_${side}_flexion`, displayName: 'Flexion', axis: 'X', range: [-0.9, 0.6] }]
+      }
+    );
+  }
+  return model;
+}
+
+function makeBodyState(): BiomechState {
+  const names = ['Hips', 'Spine', 'Arm', 'ForeArm', 'Hand'];
+  const bones = new Map([...names, 'LeftUpLeg', 'LeftLeg', 'LeftFoot', 'RightUpLeg', 'RightLeg', 'RightFoot'].map(name => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    return [name, bone];
+  }));
+  const bone = (name: string) => bones.get(name)!;
+  for (let i = 1; i < names.length; i++) bone(names[i - 1]).add(bone(names[i]));
+  bone('Hips').position.set(0, 1, 0);
+  bone('Spine').position.set(0, 0.1, 0);
+  bone('Arm').position.set(0.2, 0.4, 0);
+  bone('ForeArm').position.set(0, -0.3, 0);
+  bone('Hand').position.set(0, -0.25, 0);
+  for (const [side, x] of [['Left', 0.1], ['Right', -0.1]] as const) {
+    bone('Hips').add(bone(`${side}UpLeg`));
+    bone(`${side}UpLeg`).add(bone(`${side}Leg`));
+    bone(`${side}Leg`).add(bone(`${side}Foot`));
+    bone(`${side}UpLeg`).position.set(x, -0.05, 0);
+    bone(`${side}Leg`).position.set(0, -0.45, 0);
+    bone(`${side}Foot`).position.set(0, -0.45, 0);
+  }
+
+  const state = new BiomechState(parseBiomechModel(bodyModel()).model!);
+  state.initialize(new THREE.Skeleton([...bones.values()]));
+  state.calibrateNeutral();
+  // Slightly bent knees, away from the straight-leg singularity
+  for (const side of ['l', 'r']) {
+    state.applyCoordinates(`hip_${side}`, [0.2, 0, 0], true);
+    state.applyCoordinates(`knee_${side}`, [-0.4, 0, 0], true);
+    state.applyCoordinates(`ankle_${side}`, [0.2, 0, 0], true);
+  }
+  return state;
+}
+
+function makeState(locked = false): BiomechState {
+  const bones = ['Hips', 'Spine', 'Arm', 'ForeArm', 'Hand'].map(name => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    return bone;
+  });
+  for (let i = 1; i < bones.length; i++) bones[i - 1].add(bones[i]);
+  bones[0].position.set(0, 1, 0);
+  bones[1].position.set(0, 0.1, 0);
+  bones[2].position.set(0.2, 0.4, 0);
+  bones[3].position.set(0, -0.3, 0);
+  bones[4].position.set(0, -0.25, 0);
+
+  const state = new BiomechState(parseBiomechModel(armModel(locked)).model!);
+  state.initialize(new THREE.Skeleton(bones));
+  state.calibrateNeutral();
+  return state;
+}
+
+const ARM: CoordinateIKChain = { jointIds: ['lumbar', 'shoulder', 'elbow'], effectorSegment: 'hand' };
+
+const value = (state: BiomechState, jointId: string, coordId: string) =>
+  state.getJointState(jointId)!.coordinates[coordId].value;
+
+const handPosition = (state: BiomechState) => state.getSegmentRegistry()!.getWorldPosition('hand')!;
+
+describe('coordinate-space IK', () => {
+  it('reaches a target produced by a pose within range', () => {
+    const state = makeState();
+    state.applyCoordinates('shoulder', [0.6, 0.3, 0], true);
+    state.applyCoordinates('elbow', [0.9, 0, 0], true);
+    const target = handPosition(state).clone();
+    state.applyCoordinates('shoulder', [0, 0, 0], true);
+    state.applyCoordinates('elbow', [0, 0, 0], true);
+
+    const result = solveCoordinateIK(state, ARM, target, { iterations: 50 });
+    expect(result.success).toBe(true);
+    expect(handPosition(state).distanceTo(target)).toBeLessThan(1e-3);
+  });
+
+  it('keeps every coordinate within range for an unreachable target', () => {
+    const state = makeState();
+    // Straight up and behind: needs more shoulder flexion and lumbar extension than allowed
+    const result = solveCoordinateIK(state, ARM, new THREE.Vector3(0.2, 1.5, -1), { iterations: 40 });
+
+    expect(result.success).toBe(false);
+    expect(result.limitedCoordinates.length).toBeGreaterThan(0);
+    for (const jointId of ARM.jointIds) {
+      const joint = state.getJointDef(jointId)!;
+      for (const coord of joint.coordinates) {
+        const range = state.getEffectiveRange(coord);
+        const current = value(state, jointId, coord.id);
+        expect(current).toBeGreaterThanOrEqual(range.min - 1e-6);
+        expect(current).toBeLessThanOrEqual(range.max + 1e-6);
+      }
+    }
+  });
+
+  it('does not move locked coordinates', () => {
+    const state = makeState(true);
+    solveCoordinateIK(state, ARM, new THREE.Vector3(0.5, 1.1, 0.2), { iterations: 30 });
+    expect(value(state, 'shoulder', 'shoulder_abduction')).toBeCloseTo(0, 6);
+    expect(Math.abs(value(state, 'shoulder', 'shoulder_flexion'))).toBeGreaterThan(0.05);
+  });
+
+  it('moves heavier-weighted coordinates less', () => {
+    const target = new THREE.Vector3(0.2, 1.2, 0.35);
+    const lumbarMotion = (weight: number) => {
+      const state = makeState();
+      solveCoordinateIK(state, ARM, target, { iterations: 1, weights: { lumbar: weight } });
+      return Math.abs(value(state, 'lumbar', 'lumbar_flexion'));
+    };
+
+    expect(lumbarMotion(10)).toBeLessThan(lumbarMotion(1));
+  });
+});
+
+describe('full-body IK', () => {
+  const position = (state: BiomechState, segmentId: string) =>
+    state.getSegmentRegistry()!.getWorldPosition(segmentId)!.clone();
+
+  it('reaches down with both feet pinned by moving the pelvis', () => {
+    const state = makeBodyState();
+    const feet = ['foot_l', 'foot_r'].map(id => ({ id, pin: position(state, id) }));
+    const pelvisBefore = position(state, 'pelvis');
+    const target = position(state, 'hand').add(new THREE.Vector3(0, -0.3, 0.25));
+
+    const result = solveFullBodyIK(state, [
+      { effectorSegment: 'hand', target },
+      ...feet.map(foot => ({ effectorSegment: foot.id, target: foot.pin, weight: 10 }))
+    ], { iterations: 100 });
+
+    expect(result.errors[0]).toBeLessThan(0.01);
+    for (const foot of feet) expect(position(state, foot.id).distanceTo(foot.pin)).toBeLessThan(0.005);
+    expect(position(state, 'pelvis').distanceTo(pelvisBefore)).toBeGreaterThan(0.01);
+  });
+
+  it('keeps the root in place when root motion is off', () => {
+    const state = makeBodyState();
+    const pelvisBefore = position(state, 'pelvis');
+    const target = position(state, 'hand').add(new THREE.Vector3(0, 0.1, 0.2));
+
+    solveFullBodyIK(state, [{ effectorSegment: 'hand', target }], { moveRoot: false, iterations: 50 });
+
+    expect(position(state, 'pelvis').distanceTo(pelvisBefore)).toBeLessThan(1e-9);
+    expect(position(state, 'hand').distanceTo(target)).toBeLessThan(0.01);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { BiomechState } from '../biomechState';
+import { GroundContactSolver, solveTwoBoneIK } from '../groundContact';
+import { parseBiomechModel, type BiomechModelJson } from '../../io/modelLoader';
+
+const LEG: BiomechModelJson = {
+  format: 'biomech-model',
+  version: 1,
+  id: 'contact_leg',
+  rootSegment: 'pelvis',
+  angleUnit: 'rad',
+  segments: [
+    { id: 'pelvis', displayName: 'Pelvis', source: 'mixamo', boneName: 'Hips' },
+    { id: 'femur_left', displayName: 'Thigh', source: 'mixamo', boneName: 'UpLeg' },
+    { id: 'tibia_left', displayName: 'Shank', source: 'mixamo', boneName: 'Leg' },
+    { id: 'foot_left', displayName: 'Foot', source: 'mixamo', boneName: 'Foot' },
+    { id: 'toes_left', displayName: 'Toes', source: 'mixamo', boneName: 'Toes' }
+  ],
+  joints: [
+    {
+      id: 'hip_left',
+      displayName: 'Hip',
+      parentSegment: 'pelvis',
+      childSegment: 'femur_left',
+      type: 'hinge',
+      eulerOrder: 'XYZ',
+      coordinates: [{ id: 'hip_l_flexion', displayName: 'Flexion', axis: 'X', range: [-0.5, 2.1] }]
+    },
+    {
+      id: 'knee_left',
+      displayName: 'Knee',
+      parentSegment: 'femur_left',
+      childSegment: 'tibia_left',
+      type: 'hinge',
+      eulerOrder: 'XYZ',
+      coordinates: [{ id: 'knee_l_flexion', displayName: 'Flexion', axis: 'X', range: [-2.4, 0] }]
+    },
+    {
+      id: 'ankle_left',
+      displayName: 'Ankle',
+      parentSegment: 'tibia_left',
+      childSegment: 'foot_left',
+      type: 'hinge',
+      eulerOrder: 'XYZ',
+      coordinates: [{ id: 'ankle_l_flexion', displayName: 'Flexion', axis: 'X', range: [-0.9, 0.6] }]
+    }
+  ]
+};
+
+/** Pelvis at 0.96 m with a slightly bent knee; the toes end up ~2 cm above the floor */
+function makeLeg() {
+  const bones = ['Hips', 'UpLeg', 'Leg', 'Foot', 'Toes'].map(name => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    return bone;
+  });
+  for (let i = 1; i < bones.length; i++) bones[i - 1].add(bones[i]);
+  bones[0].position.set(0, 0.96, 0);
+  bones[1].position.set(0.1, -0.05, 0);
+  bones[2].position.set(0, -0.42, 0);
+  bones[3].position.set(0, -0.42, 0);
+  bones[4].position.set(0, -0.06, 0.12);
+
+  const state = new BiomechState(parseBiomechModel(LEG).model!);
+  state.initialize(new THREE.Skeleton(bones));
+  state.calibrateNeutral();
+  state.applyCoordinates('hip_left', [0.1, 0, 0], false);
+  state.applyCoordinates('knee_left', [-0.2, 0, 0], false);
+  const [hips, thigh, shank, foot] = bones;
+  return { state, hips, thigh, shank, foot };
+}
+
+const world = (object: THREE.Object3D) => object.getWorldPosition(new THREE.Vector3());
+
+describe('two-bone IK', () => {
+  it('places the end on a reachable target and keeps segment lengths', () => {
+    const { thigh, shank, foot } = makeLeg();
+    const target = world(thigh).add(new THREE.Vector3(0.1, -0.7, 0.15));
+
+    expect(solveTwoBoneIK(thigh, shank, foot, target)).toBe(true);
+    expect(world(foot).distanceTo(target)).toBeLessThan(1e-6);
+    expect(world(shank).distanceTo(world(thigh))).toBeCloseTo(0.42, 9);
+    expect(world(foot).distanceTo(world(shank))).toBeCloseTo(0.42, 9);
+  });
+
+  it('stretches toward an unreachable target', () => {
+    const { thigh, shank, foot } = makeLeg();
+    const target = world(thigh).add(new THREE.Vector3(0, -2, 0));
+
+    expect(solveTwoBoneIK(thigh, shank, foot, target)).toBe(false);
+    expect(world(foot).x).toBeCloseTo(world(thigh).x, 3);
+    expect(world(foot).distanceTo(world(thigh))).toBeCloseTo(0.84, 3);
+  });
+});
+
+describe('ground contact', () => {
+  it('locks a planted foot while the pelvis moves', () => {
+    const { state, hips, foot } = makeLeg();
+    const solver = new GroundContactSolver();
+    const planted = world(foot);
+
+    expect(solver.update(state, 1 / 60, { floorHeight: 0 }).contacts.left).toBe(true);
+
+    // Pelvis drifts forward and down at 0.12 m/s, slower than the release speed
+    for (let frame = 0; frame < 40; frame++) {
+      hips.position.x += 0.002;
+      hips.position.y -= 0.0005;
+      hips.updateMatrixWorld(true);
+      solver.update(state, 1 / 60, { floorHeight: 0 });
+    }
+
+    expect(solver.isInContact('left')).toBe(true);
+    expect(world(foot).distanceTo(planted)).toBeLessThan(1e-4);
+  });
+
+  it('releases the foot when it is lifted and leaves free sides alone', () => {
+    const { state, foot } = makeLeg();
+    const solver = new GroundContactSolver();
+    solver.update(state, 1 / 60, { floorHeight: 0 });
+
+    state.applyCoordinates('hip_left', [1.2, 0, 0], false);
+    state.applyCoordinates('knee_left', [-1.5, 0, 0], false);
+    const lifted = world(foot);
+    solver.update(state, 1 / 60, { floorHeight: 0 });
+    expect(solver.isInContact('left')).toBe(false);
+    expect(world(foot).distanceTo(lifted)).toBeLessThan(1e-9);
+
+    const free = makeLeg();
+    expect(solver.update(free.state, 1 / 60, { floorHeight: 0, freeSides: ['left'] }).contacts.left).toBe(false);
+  });
+
+  it('raises the skeleton above the floor', () => {
+    const { state, hips } = makeLeg();
+    const solver = new GroundContactSolver();
+    hips.position.y -= 0.2;
+    hips.updateMatrixWorld(true);
+
+    const result = solver.update(state, 1 / 60, { floorHeight: 0, lockFeet: false });
+
+    expect(result.floorCorrection).toBeGreaterThan(0.15);
+    hips.traverse(bone => expect(world(bone).y).toBeGreaterThanOrEqual(-1e-9));
+  });
+});
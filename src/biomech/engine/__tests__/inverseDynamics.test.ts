@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  lowerLimbInertia,
+  solveLowerLimbDynamics,
+  type LowerLimbInertia,
+  type PlanarGroundReaction,
+  type PlanarTrajectory
+} from '../inverseDynamics';
+import { getAnthropometricTable } from '../../model/anthropometrics';
+
+const G = 9.81;
+
+function series(n: number, fn: (i: number) => [number, number]): PlanarTrajectory {
+  const x = new Float64Array(n);
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) [x[i], y[i]] = fn(i);
+  return { x, y };
+}
+
+const fixed = (n: number, x: number, y: number) => series(n, () => [x, y]);
+
+function reaction(n: number, fx: number, fy: number, copX: number, copY: number): PlanarGroundReaction {
+  return {
+    fx: new Float64Array(n).fill(fx),
+    fy: new Float64Array(n).fill(fy),
+    copX: new Float64Array(n).fill(copX),
+    copY: new Float64Array(n).fill(copY)
+  };
+}
+
+const massless: LowerLimbInertia = {
+  thigh: { mass: 0, comFraction: 0.5, radiusOfGyration: 0 },
+  shank: { mass: 0, comFraction: 0.5, radiusOfGyration: 0 },
+  foot: { mass: 0, comFraction: 0.5, radiusOfGyration: 0 }
+};
+
+describe('inverse dynamics', () => {
+  it('balances a static ground reaction with clinical moment signs', () => {
+    const n = 5;
+    const time = Float64Array.from({ length: n }, (_, i) => i * 0.01);
+    const limb = {
+      pelvisTop: fixed(n, -0.1, 1.1),
+      hip: fixed(n, -0.1, 0.9),
+      knee: fixed(n, 0.1, 0.5),
+      ankle: fixed(n, 0, 0.1),
+      toe: fixed(n, 0.15, 0.02)
+    };
+    // 700 N straight up, 5 cm in front of the ankle
+    const result = solveLowerLimbDynamics(time, limb, reaction(n, 0, 700, 0.05, 0), massless);
+
+    // COP ahead of the ankle → plantarflexor moment
+    expect(result.ankle.moment[2]).toBeCloseTo(35, 6);
+    // Force line behind the flexed knee → extensor moment
+    expect(result.knee.moment[2]).toBeCloseTo(35, 6);
+    // Force line in front of the hip → extensor moment
+    expect(result.hip.moment[2]).toBeCloseTo(105, 6);
+    expect(result.knee.power[2]).toBeCloseTo(0, 10);
+    // Central differences are undefined at the ends
+    expect(result.knee.moment[0]).toBeNaN();
+  });
+
+  it('recovers the knee moment of a swinging shank', () => {
+    const fps = 1000;
+    const n = 600;
+    const length = 0.4;
+    const shank = { mass: 3, comFraction: 0.5, radiusOfGyration: 0.3 };
+    const inertia: LowerLimbInertia = { ...massless, shank };
+    const phi = (t: number) => 0.3 * Math.sin(2 * Math.PI * t);
+
+    const time = Float64Array.from({ length: n }, (_, i) => i / fps);
+    const ankle = series(n, i => [length * Math.sin(phi(time[i])), -length * Math.cos(phi(time[i]))]);
+    const limb = {
+      pelvisTop: fixed(n, 0, 0.6),
+      hip: fixed(n, 0, 0.4),
+      knee: fixed(n, 0, 0),
+      ankle,
+      toe: series(n, i => [ankle.x[i] + 0.1, ankle.y[i]])
+    };
+    const result = solveLowerLimbDynamics(time, limb, reaction(n, 0, 0, NaN, NaN), inertia);
+
+    const iKnee = shank.mass * ((shank.radiusOfGyration * length) ** 2 + (shank.comFraction * length) ** 2);
+    for (const i of [100, 250, 400]) {
+      const t = time[i];
+      const angle = phi(t);
+      const velocity = 0.6 * Math.PI * Math.cos(2 * Math.PI * t);
+      const acceleration = -1.2 * Math.PI ** 2 * Math.sin(2 * Math.PI * t);
+      const expected = iKnee * acceleration + shank.mass * G * shank.comFraction * length * Math.sin(angle);
+      expect(result.knee.moment[i]).toBeCloseTo(expected, 3);
+      expect(result.knee.power[i]).toBeCloseTo(expected * velocity, 3);
+    }
+    expect(result.ankle.moment[250]).toBeCloseTo(0, 6);
+  });
+
+  it('reads segment inertia from the anthropometric table', () => {
+    const limb = lowerLimbInertia(getAnthropometricTable('de_leva_male'), 'left', 80);
+    expect(limb.thigh.mass).toBeCloseTo(0.1416 * 80, 6);
+    expect(limb.shank.radiusOfGyration).toBeCloseTo(0.255, 6);
+    expect(limb.foot.comFraction).toBeCloseTo(0.4415, 6);
+  });
+});
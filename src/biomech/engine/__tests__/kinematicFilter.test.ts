@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { KinematicFilter, lowPassAlpha } from '../kinematicFilter';
+
+const DT = 1 / 60;
+
+function feed(filter: KinematicFilter, signal: (t: number) => number, seconds: number) {
+  let last = filter.update({ a: signal(0) }, DT);
+  const frames = Math.round(seconds / DT);
+  for (let i = 1; i <= frames; i++) {
+    last = filter.update({ a: signal(i * DT) }, DT);
+  }
+  return last;
+}
+
+describe('KinematicFilter', () => {
+  it('reports zero derivatives for the first sample', () => {
+    const filter = new KinematicFilter();
+    expect(filter.update({ a: 1.2 }, DT).a).toEqual({ velocity: 0, acceleration: 0 });
+  });
+
+  it('converges to the velocity of a constant-rate ramp with zero acceleration', () => {
+    const filter = new KinematicFilter({ cutoffHz: 6 });
+    const result = feed(filter, t => 2 * t, 2);
+    expect(result.a.velocity).toBeCloseTo(2, 3);
+    expect(result.a.acceleration).toBeCloseTo(0, 2);
+  });
+
+  it('tracks acceleration of a constant-acceleration signal', () => {
+    const filter = new KinematicFilter({ cutoffHz: 10 });
+    const result = feed(filter, t => 0.5 * 3 * t * t, 2);
+    expect(result.a.acceleration).toBeCloseTo(3, 1);
+  });
+
+  it('smooths frame noise more with a lower cutoff', () => {
+    const noisy = (t: number) => t + (Math.round(t / DT) % 2 === 0 ? 0.002 : -0.002);
+    const spread = (cutoffHz: number) => {
+      const filter = new KinematicFilter({ cutoffHz });
+      feed(filter, noisy, 1);
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = 61; i < 120; i++) {
+        const v = filter.update({ a: noisy(i * DT) }, DT).a.velocity;
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+      }
+      return max - min;
+    };
+    expect(spread(3)).toBeLessThan(spread(15));
+  });
+
+  it('does not spike when an angle wraps across ±π', () => {
+    const filter = new KinematicFilter();
+    const wrapped = (t: number) => {
+      const angle = 3 + t;
+      return angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+    };
+    feed(filter, wrapped, 1);
+    expect(filter.getPeakVelocity('a')).toBeLessThan(1.05);
+    expect(filter.get('a')!.velocity).toBeCloseTo(1, 2);
+  });
+
+  it('restarts differentiation after a long gap instead of spiking', () => {
+    const filter = new KinematicFilter({ maxDeltaTime: 0.25 });
+    filter.update({ a: 0 }, DT);
+    const result = filter.update({ a: 5 }, 1);
+    expect(result.a.velocity).toBe(0);
+    expect(filter.getPeakVelocity('a')).toBe(0);
+  });
+
+  it('ignores invalid time steps and non-finite values', () => {
+    const filter = new KinematicFilter();
+    filter.update({ a: 0 }, DT);
+    expect(filter.update({ a: 1 }, 0).a.velocity).toBe(0);
+    expect(filter.update({ a: NaN }, DT).a).toBeUndefined();
+  });
+
+  it('tracks peak |velocity| until reset', () => {
+    const filter = new KinematicFilter();
+    feed(filter, t => (t < 0.5 ? -4 * t : -2), 1);
+    expect(filter.getPeakVelocity('a')).toBeGreaterThan(3);
+    expect(filter.get('a')!.velocity).toBeGreaterThan(-1);
+    filter.resetPeaks();
+    expect(filter.getPeakVelocity('a')).toBe(0);
+  });
+
+  it('passes the raw difference through when filtering is disabled', () => {
+    expect(lowPassAlpha(0, DT)).toBe(1);
+    const filter = new KinematicFilter({ cutoffHz: 0 });
+    filter.update({ a: 0 }, DT);
+    expect(filter.update({ a: 0.1 }, DT).a.velocity).toBeCloseTo(0.1 / DT, 6);
+  });
+});
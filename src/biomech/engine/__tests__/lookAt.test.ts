@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { BiomechState } from '../biomechState';
+import { getGazeRay, solveLookAt } from '../lookAt';
+import { parseBiomechModel, type BiomechModelJson } from '../../io/modelLoader';
+
+const DEG = Math.PI / 180;
+
+function spineJoint(id: string, parentSegment: string, childSegment: string, prefix: string, limits: [number, number, number]) {
+  const [flexion, bending, rotation] = limits;
+  return {
+    id,
+    displayName: id,
+    parentSegment,
+    childSegment,
+    type: 'ball' as const,
+    eulerOrder: 'XYZ' as const,
+    coordinates: [
+      { id: `${prefix}_flexion`, displayName: 'Flexion', axis: 'X' as const, range: [-flexion, flexion] as [number, number] },
+      { id: `${prefix}_rotation`, displayName: 'Rotation', axis: 'Y' as const, range: [-rotation, rotation] as [number, number] },
+      { id: `${prefix}_bending`, displayName: 'Bending', axis: 'Z' as const, range: [-bending, bending] as [number, number] }
+    ]
+  };
+}
+
+const SPINE: BiomechModelJson = {
+  format: 'biomech-model',
+  version: 1,
+  id: 'gaze_spine',
+  rootSegment: 'pelvis',
+  angleUnit: 'rad',
+  segments: [
+    { id: 'pelvis', displayName: 'Pelvis', source: 'mixamo', boneName: 'Hips' },
+    { id: 'lumbar', displayName: 'Lumbar', source: 'mixamo', boneName: 'Spine' },
+    { id: 'thoracic_lower', displayName: 'Lower Thorax', source: 'mixamo', boneName: 'Spine1' },
+    { id: 'thorax', displayName: 'Thorax', source: 'mixamo', boneName: 'Spine2' },
+    { id: 'neck', displayName: 'Neck', source: 'mixamo', boneName: 'Neck' },
+    { id: 'head', displayName: 'Head', source: 'mixamo', boneName: 'Head' }
+  ],
+  joints: [
+    spineJoint('thoracic_spine', 'lumbar', 'thoracic_lower', 'thoracic', [45 * DEG, 25 * DEG, 35 * DEG]),
+    spineJoint('thoracic_upper_spine', 'thoracic_lower', 'thorax', 'thoracic_upper', [20 * DEG, 15 * DEG, 20 * DEG]),
+    spineJoint('cervical_spine', 'thorax', 'neck', 'cervical', [40 * DEG, 35 * DEG, 45 * DEG]),
+    spineJoint('head', 'neck', 'head', 'head', [25 * DEG, 10 * DEG, 45 * DEG])
+  ]
+};
+
+function makeState(): BiomechState {
+  const bones = ['Hips', 'Spine', 'Spine1', 'Spine2', 'Neck', 'Head'].map(name => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    return bone;
+  });
+  for (let i = 1; i < bones.length; i++) bones[i - 1].add(bones[i]);
+  bones[0].position.set(0, 1, 0);
+  for (const bone of bones.slice(1)) bone.position.set(0, 0.12, 0);
+
+  const state = new BiomechState(parseBiomechModel(SPINE).model!);
+  state.initialize(new THREE.Skeleton(bones));
+  state.calibrateNeutral();
+  return state;
+}
+
+const rotation = (state: BiomechState, jointId: string, coordId: string) =>
+  Math.abs(state.getJointState(jointId)!.coordinates[coordId].value);
+
+/** Point 2 m away from the head, turned by an angle about the vertical axis */
+function turnedTarget(state: BiomechState, angle: number): THREE.Vector3 {
+  const origin = getGazeRay(state)!.origin;
+  return origin.add(new THREE.Vector3(Math.sin(angle), 0, Math.cos(angle)).multiplyScalar(2));
+}
+
+describe('look-at', () => {
+  it('shares a head turn across the neck and upper back by weight', () => {
+    const state = makeState();
+    const result = solveLookAt(state, turnedTarget(state, 60 * DEG));
+
+    expect(result.success).toBe(true);
+    expect(rotation(state, 'head', 'head_rotation')).toBeCloseTo(24 * DEG, 4);
+    expect(rotation(state, 'cervical_spine', 'cervical_rotation')).toBeCloseTo(21 * DEG, 4);
+    expect(rotation(state, 'thoracic_upper_spine', 'thoracic_upper_rotation')).toBeCloseTo(9 * DEG, 4);
+    expect(rotation(state, 'thoracic_spine', 'thoracic_rotation')).toBeCloseTo(6 * DEG, 4);
+  });
+
+  it('passes rotation a joint cannot take on to the joints below it', () => {
+    const state = makeState();
+    const target = turnedTarget(state, 90 * DEG);
+    const result = solveLookAt(state, target, { weights: { head: 3 } });
+
+    expect(result.success).toBe(true);
+    expect(rotation(state, 'head', 'head_rotation')).toBeCloseTo(45 * DEG, 4);
+    const ray = getGazeRay(state)!;
+    expect(ray.direction.angleTo(target.clone().sub(ray.origin))).toBeLessThan(0.005);
+  });
+
+  it('stays within every coordinate range when the target is out of reach', () => {
+    const state = makeState();
+    const result = solveLookAt(state, turnedTarget(state, 170 * DEG));
+
+    expect(result.success).toBe(false);
+    expect(result.limitedJoints).toContain('head');
+    for (const joint of SPINE.joints) {
+      const def = state.getJointDef(joint.id)!;
+      for (const coord of def.coordinates) {
+        const value = state.getJointState(joint.id)!.coordinates[coord.id].value;
+        const range = state.getEffectiveRange(coord);
+        expect(value).toBeGreaterThanOrEqual(range.min - 1e-6);
+        expect(value).toBeLessThanOrEqual(range.max + 1e-6);
+      }
+    }
+  });
+
+  it('keeps joints with zero weight still', () => {
+    const state = makeState();
+    solveLookAt(state, turnedTarget(state, 40 * DEG), { weights: { thoracic_spine: 0, thoracic_upper_spine: 0 } });
+
+    expect(rotation(state, 'thoracic_spine', 'thoracic_rotation')).toBeCloseTo(0, 9);
+    expect(rotation(state, 'thoracic_upper_spine', 'thoracic_upper_rotation')).toBeCloseTo(0, 9);
+    expect(rotation(state, 'head', 'head_rotation')).toBeGreaterThan(15 * DEG);
+  });
+});
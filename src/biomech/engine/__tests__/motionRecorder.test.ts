@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { MotionRecorder, getAllCoordinateIds } from '../motionRecorder';
+import type { ModelState } from '../../model/types';
+
+function makeState(timestamp: number, q: Record<string, number>): ModelState {
+  return { q, joints: {}, timestamp };
+}
+
+describe('MotionRecorder', () => {
+  it('captures every model coordinate by default', () => {
+    const recorder = new MotionRecorder();
+    const ids = recorder.getCoordinateIds();
+    expect(ids).toEqual(getAllCoordinateIds());
+    expect(ids).toContain('hip_r_flexion');
+    expect(ids).toContain('knee_l_flexion');
+  });
+
+  it('ignores frames while stopped', () => {
+    const recorder = new MotionRecorder(['a']);
+    expect(recorder.record(makeState(1000, { a: 1 }), 0)).toBe(false);
+    expect(recorder.getFrameCount()).toBe(0);
+  });
+
+  it('stores columnar values with relative time and clip time', () => {
+    const recorder = new MotionRecorder(['a', 'b']);
+    recorder.start('Walk.glb');
+    recorder.record(makeState(1000, { a: 0.1, b: 0.2 }), 0.5);
+    recorder.record(makeState(1000, { a: 9, b: 9 }), 0.5); // unchanged state is skipped
+    recorder.record(makeState(1250, { a: 0.3 }), 0.75);
+    recorder.stop();
+
+    const rec = recorder.getRecording();
+    expect(rec.source).toBe('Walk.glb');
+    expect(rec.frameCount).toBe(2);
+    expect(Array.from(rec.time)).toEqual([0, 0.25]);
+    expect(Array.from(rec.clipTime)).toEqual([0.5, 0.75]);
+    expect(Array.from(rec.values.a)).toEqual([0.1, 0.3]);
+    expect(rec.values.b[0]).toBe(0.2);
+    expect(Number.isNaN(rec.values.b[1])).toBe(true);
+  });
+
+  it('grows past its initial capacity', () => {
+    const recorder = new MotionRecorder(['a']);
+    recorder.start();
+    for (let i = 0; i < 2000; i++) {
+      recorder.record(makeState(i + 1, { a: i }), i / 100);
+    }
+    const rec = recorder.getRecording();
+    expect(rec.frameCount).toBe(2000);
+    expect(rec.values.a[1999]).toBe(1999);
+    expect(recorder.getDuration()).toBeCloseTo(1.999);
+  });
+
+  it('tags recordings with frames corrected by ground contact', () => {
+    const recorder = new MotionRecorder(['a']);
+    recorder.start();
+    recorder.record(makeState(1, { a: 1 }), 0);
+    expect(recorder.getRecording().groundContact).toBe(false);
+
+    recorder.record(makeState(2, { a: 2 }), 0, undefined, true);
+    recorder.record(makeState(3, { a: 3 }), 0);
+    expect(recorder.getRecording().groundContact).toBe(true);
+
+    recorder.start();
+    expect(recorder.getRecording().groundContact).toBe(false);
+  });
+
+  it('clear discards frames and stops recording', () => {
+    const recorder = new MotionRecorder(['a']);
+    recorder.start();
+    recorder.record(makeState(1, { a: 1 }), 0);
+    recorder.clear();
+    expect(recorder.isRecording()).toBe(false);
+    expect(recorder.getFrameCount()).toBe(0);
+    expect(recorder.getRecording().time.length).toBe(0);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { BiomechState } from '../biomechState';
+import { computeMusclePaths, getSpannedJoints } from '../musclePaths';
+import { parseBiomechModel, type BiomechModelJson } from '../../io/modelLoader';
+import { DEFAULT_BIOMECH_MODEL } from '../../model/defaultModel';
+import { MUSCLES, type MuscleDef } from '../../model/muscles';
+import { SEGMENTS } from '../../model/segments';
+
+const LEG: BiomechModelJson = {
+  format: 'biomech-model',
+  version: 1,
+  id: 'muscle_leg',
+  rootSegment: 'thigh',
+  angleUnit: 'rad',
+  segments: [
+    { id: 'thigh', displayName: 'Thigh', source: 'mixamo', boneName: 'Thigh' },
+    { id: 'shank', displayName: 'Shank', source: 'mixamo', boneName: 'Shank' },
+    { id: 'foot', displayName: 'Foot', source: 'mixamo', boneName: 'Foot' }
+  ],
+  joints: [
+    {
+      id: 'knee',
+      displayName: 'Knee',
+      parentSegment: 'thigh',
+      childSegment: 'shank',
+      type: 'ball',
+      eulerOrder: 'XZY',
+      coordinates: [
+        { id: 'knee_flexion', displayName: 'Flexion', axis: 'X', range: [-2, 2] },
+        { id: 'knee_varus', displayName: 'Varus', axis: 'Z', range: [-1, 1], invert: true },
+        { id: 'knee_rotation', displayName: 'Rotation', axis: 'Y', range: [-1, 1] }
+      ]
+    },
+    {
+      id: 'ankle',
+      displayName: 'Ankle',
+      parentSegment: 'shank',
+      childSegment: 'foot',
+      type: 'hinge',
+      eulerOrder: 'XYZ',
+      coordinates: [{ id: 'ankle_flexion', displayName: 'Flexion', axis: 'X', range: [-1, 1] }]
+    }
+  ]
+};
+
+/** Posterior thigh → posterior shank, crossing the knee only */
+const FLEXOR: MuscleDef = {
+  id: 'flexor',
+  displayName: 'Flexor',
+  region: 'thigh',
+  side: 'right',
+  points: [
+    { segment: 'thigh', offset: [0.02, -0.2, -0.05] },
+    { segment: 'shank', offset: [0, 0.02, -0.04] },
+    { segment: 'shank', offset: [0.01, -0.08, -0.01] }
+  ]
+};
+
+/** Thigh → heel via the calf, crossing knee and ankle */
+const CALF: MuscleDef = {
+  id: 'calf',
+  displayName: 'Calf',
+  region: 'shank',
+  side: 'right',
+  points: [
+    { segment: 'thigh', offset: [0, 0.03, -0.03], landmark: 'shank' },
+    { segment: 'shank', offset: [0, -0.2, -0.05] },
+    { segment: 'foot', offset: [0, -0.05, -0.05] }
+  ]
+};
+
+function makeState(): BiomechState {
+  const bones = ['Thigh', 'Shank', 'Foot'].map(name => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    return bone;
+  });
+  bones[0].add(bones[1]);
+  bones[1].add(bones[2]);
+  bones[0].position.set(0, 1, 0);
+  // Bone axes deliberately not aligned with the anatomical frame
+  bones[0].rotation.set(0, Math.PI / 2, 0);
+  bones[1].position.set(0, -0.5, 0);
+  bones[2].position.set(0, -0.45, 0);
+  bones[2].rotation.set(0.3, 0, 0);
+
+  const state = new BiomechState(parseBiomechModel(LEG).model!);
+  state.initialize(new THREE.Skeleton(bones));
+  state.calibrateNeutral();
+  return state;
+}
+
+const lengthOf = (state: BiomechState, muscle: MuscleDef) => computeMusclePaths(state, [muscle])[0].length;
+
+describe('muscle paths', () => {
+  it('places points from neutral-frame offsets and reports zero strain at neutral', () => {
+    const state = makeState();
+    const [flexor] = computeMusclePaths(state, [FLEXOR]);
+
+    expect(flexor.points[0].x).toBeCloseTo(0.02, 10);
+    expect(flexor.points[0].y).toBeCloseTo(0.8, 10);
+    expect(flexor.points[0].z).toBeCloseTo(-0.05, 10);
+    expect(flexor.length).toBeCloseTo(flexor.neutralLength, 10);
+    expect(flexor.strain).toBeCloseTo(0, 10);
+    expect(Object.keys(flexor.momentArms).sort()).toEqual(['knee_flexion', 'knee_rotation', 'knee_varus']);
+
+    const [calf] = computeMusclePaths(state, [CALF]);
+    expect(calf.points[0].y).toBeCloseTo(0.53, 10);
+    expect(Object.keys(calf.momentArms)).toContain('ankle_flexion');
+  });
+
+  it('matches the finite-difference moment arm −dL/dq', () => {
+    const state = makeState();
+    const base: [number, number, number] = [0.4, 0.2, 0.1];
+    state.applyCoordinates('knee', base);
+    const [flexor] = computeMusclePaths(state, [FLEXOR]);
+
+    const h = 1e-5;
+    const coords = state.getJointDef('knee')!.coordinates;
+    for (const coord of coords) {
+      const plus = [...base] as [number, number, number];
+      const minus = [...base] as [number, number, number];
+      plus[coord.index] += h;
+      minus[coord.index] -= h;
+      state.applyCoordinates('knee', plus);
+      const lengthPlus = lengthOf(state, FLEXOR);
+      state.applyCoordinates('knee', minus);
+      const lengthMinus = lengthOf(state, FLEXOR);
+      expect(flexor.momentArms[coord.id]).toBeCloseTo(-(lengthPlus - lengthMinus) / (2 * h), 6);
+    }
+  });
+
+  it('shortens a posterior muscle as the shank swings back', () => {
+    const state = makeState();
+    const registry = state.getSegmentRegistry()!;
+    const thigh = registry.getBone('thigh')!;
+    const shank = registry.getBone('shank')!;
+    // Rotating the shank about world +X carries the ankle posteriorly
+    const swing = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), 0.6);
+    shank.quaternion.copy(thigh.quaternion.clone().invert().multiply(swing).multiply(thigh.quaternion));
+    shank.updateMatrixWorld(true);
+
+    const [flexor] = computeMusclePaths(state, [FLEXOR]);
+    expect(flexor.strain).toBeLessThan(-0.03);
+  });
+});
+
+describe('built-in muscles', () => {
+  it('attaches every point to a known segment and mirrors left from right', () => {
+    for (const muscle of Object.values(MUSCLES)) {
+      for (const point of muscle.points) {
+        expect(SEGMENTS[point.segment]).toBeDefined();
+        expect(SEGMENTS[point.landmark ?? point.segment]).toBeDefined();
+      }
+    }
+    const right = MUSCLES.semiten_r.points;
+    const left = MUSCLES.semiten_l.points;
+    expect(left[0].segment).toBe('pelvis');
+    expect(left[0].landmark).toBe('femur_left');
+    expect(left[0].offset[0]).toBeCloseTo(-right[0].offset[0], 10);
+  });
+
+  it('spans the expected joints', () => {
+    const spanned = (id: string) => getSpannedJoints(DEFAULT_BIOMECH_MODEL, MUSCLES[id]).map(joint => joint.id).sort();
+    expect(spanned('semiten_r')).toEqual(['hip_right', 'knee_right']);
+    expect(spanned('gastroc_r')).toEqual(['ankle_right', 'knee_right']);
+    expect(spanned('soleus_l')).toEqual(['ankle_left']);
+    expect(spanned('supraspinatus_r')).toEqual(['gh_right']);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { evaluateRangeFunction, getDependentRange } from '../rangeDependencies';
+import { BiomechState } from '../biomechState';
+import { clampCoordinatesSwingTwist, usesSwingTwistLimit } from '../swingTwist';
+import { parseBiomechModel, type BiomechModelJson } from '../../io/modelLoader';
+import { JOINTS } from '../../model/joints';
+import { RANGE_DEPENDENCIES } from '../../model/rangeDependencies';
+import type { CoordinateDef } from '../../model/types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+function legModel(): BiomechModelJson {
+  return {
+    format: 'biomech-model',
+    version: 1,
+    id: 'two_joint_leg',
+    rootSegment: 'pelvis',
+    angleUnit: 'rad',
+    segments: [
+      { id: 'pelvis', displayName: 'Pelvis', source: 'mixamo', boneName: 'Hips' },
+      { id: 'thigh', displayName: 'Thigh', source: 'mixamo', boneName: 'UpLeg' },
+      { id: 'shank', displayName: 'Shank', source: 'mixamo', boneName: 'Leg' },
+      { id: 'foot', displayName: 'Foot', source: 'mixamo', boneName: 'Foot' }
+    ],
+    joints: [
+      {
+        id: 'hip',
+        displayName: 'Hip',
+        parentSegment: 'pelvis',
+        childSegment: 'thigh',
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: 'hip_flexion', displayName: 'Flexion', axis: 'X', range: [-0.5, 2.1] }]
+      },
+      {
+        id: 'knee',
+        displayName: 'Knee',
+        parentSegment: 'thigh',
+        childSegment: 'shank',
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: 'knee_flexion', displayName: 'Flexion', axis: 'X', range: [-2.4, 0.2] }]
+      },
+      {
+        id: 'ankle',
+        displayName: 'Ankle',
+        parentSegment: 'shank',
+        childSegment: 'foot',
+        type: 'hinge',
+        eulerOrder: 'XYZ',
+        coordinates: [{ id: 'ankle_flexion', displayName: 'Flexion', axis: 'X', range: [-0.9, 0.35] }]
+      }
+    ],
+    rangeDependencies: [
+      {
+        id: 'hamstrings',
+        coordinate: 'hip_flexion',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'table', x: [-1.5, 0], max: [2.1, 1.4] }
+      },
+      {
+        id: 'gastrocnemius',
+        coordinate: 'ankle_flexion',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'table', x: [-0.8, 0], max: [0.35, 0.17] }
+      }
+    ]
+  };
+}
+
+function makeState(): BiomechState {
+  const bones = ['Hips', 'UpLeg', 'Leg', 'Foot'].map(name => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    return bone;
+  });
+  for (let i = 1; i < bones.length; i++) bones[i - 1].add(bones[i]);
+
+  const state = new BiomechState(parseBiomechModel(legModel()).model!);
+  state.initialize(new THREE.Skeleton(bones));
+  state.calibrateNeutral();
+  return state;
+}
+
+const value = (state: BiomechState, jointId: string, coordId: string) =>
+  state.getJointState(jointId)!.coordinates[coordId].value;
+
+describe('range functions', () => {
+  it('interpolates tables and holds the end values', () => {
+    const table = { type: 'table' as const, x: [-1, 0], max: [2, 1] };
+    expect(evaluateRangeFunction(table, [-0.5])).toEqual({ max: 1.5 });
+    expect(evaluateRangeFunction(table, [-3])).toEqual({ max: 2 });
+    expect(evaluateRangeFunction(table, [1])).toEqual({ max: 1 });
+  });
+
+  it('calls function dependencies with every independent value', () => {
+    const fn = { type: 'function' as const, evaluate: ([a, b]: number[]) => ({ min: a + b }) };
+    expect(evaluateRangeFunction(fn, [0.1, 0.2]).min).toBeCloseTo(0.3, 10);
+  });
+
+  it('only narrows the coordinate range and skips unavailable inputs', () => {
+    const model = parseBiomechModel(legModel()).model!;
+    const hip = model.joints.hip.coordinates[0];
+    const dependencies = model.rangeDependencies!;
+
+    expect(getDependentRange(hip, dependencies, () => 0)).toEqual({ min: -0.5, max: 1.4 });
+    expect(getDependentRange(hip, dependencies, () => -2)).toEqual({ min: -0.5, max: 2.1 });
+    expect(getDependentRange(hip, dependencies, () => null)).toEqual({ min: -0.5, max: 2.1 });
+
+    const crossing = [{ ...dependencies[0], function: { type: 'table' as const, x: [0, 1], max: [-1, -1] } }];
+    expect(getDependentRange(hip, crossing, () => 0)).toEqual({ min: -0.5, max: -0.5 });
+  });
+});
+
+describe('BiomechState range dependencies', () => {
+  it('clamps hip flexion by knee angle', () => {
+    const state = makeState();
+    state.applyCoordinates('hip', [2, 0, 0], true);
+    expect(value(state, 'hip', 'hip_flexion')).toBeCloseTo(1.4, 6);
+
+    state.applyCoordinates('knee', [-1.5, 0, 0], true);
+    state.applyCoordinates('hip', [2, 0, 0], true);
+    expect(value(state, 'hip', 'hip_flexion')).toBeCloseTo(2, 6);
+    expect(state.getEffectiveRange(state.getJointDef('hip')!.coordinates[0]).max).toBeCloseTo(2.1, 6);
+  });
+
+  it('re-clamps dependent joints when the independent joint moves', () => {
+    const state = makeState();
+    state.applyCoordinates('knee', [-1.5, 0, 0], true);
+    state.applyCoordinates('hip', [2, 0, 0], true);
+    state.applyCoordinates('ankle', [0.3, 0, 0], true);
+
+    state.applyCoordinates('knee', [0, 0, 0], true);
+    expect(value(state, 'hip', 'hip_flexion')).toBeCloseTo(1.4, 6);
+    expect(value(state, 'ankle', 'ankle_flexion')).toBeCloseTo(0.17, 6);
+  });
+
+  it('reports dependent-range violations on update', () => {
+    const state = makeState();
+    state.applyCoordinates('hip', [1.8, 0, 0]);
+    const { violations } = state.update(1 / 60);
+    expect(violations).toEqual([{ jointId: 'hip', coordinateIndex: 0 }]);
+
+    state.applyCoordinates('knee', [-1.5, 0, 0]);
+    expect(state.update(1 / 60).violations).toEqual([]);
+  });
+});
+
+describe('built-in range dependencies', () => {
+  const knee = (deg: number) => (coordId: string) => (coordId.startsWith('knee_') ? deg * DEG_TO_RAD : null);
+
+  it('limits the straight-leg raise and ankle dorsiflexion with the knee extended', () => {
+    const hip = JOINTS.hip_right.coordinates.find(coord => coord.id === 'hip_r_flexion')!;
+    const ankle = JOINTS.ankle_left.coordinates.find(coord => coord.id === 'ankle_l_flexion')!;
+
+    expect(getDependentRange(hip, RANGE_DEPENDENCIES, knee(0)).max / DEG_TO_RAD).toBeCloseTo(80, 6);
+    expect(getDependentRange(hip, RANGE_DEPENDENCIES, knee(-90)).max / DEG_TO_RAD).toBeCloseTo(120, 6);
+    expect(getDependentRange(hip, RANGE_DEPENDENCIES, knee(-90)).min / DEG_TO_RAD).toBeCloseTo(-15, 6);
+    expect(getDependentRange(ankle, RANGE_DEPENDENCIES, knee(0)).max / DEG_TO_RAD).toBeCloseTo(10, 6);
+  });
+
+  it('shrinks the hip swing cone for a straight-leg raise', () => {
+    const hip = JOINTS.hip_right;
+    if (!usesSwingTwistLimit(hip)) throw new Error('expected a swing–twist hip');
+    const rangeOf = (coord: CoordinateDef) => getDependentRange(coord, RANGE_DEPENDENCIES, knee(0));
+
+    const clamped = clampCoordinatesSwingTwist(hip, [120 * DEG_TO_RAD, 0, 0], rangeOf);
+    expect(clamped[0] / DEG_TO_RAD).toBeCloseTo(80, 4);
+  });
+});
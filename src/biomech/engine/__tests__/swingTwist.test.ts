@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import {
+  clampCoordinatesSwingTwist,
+  decomposeSwingTwist,
+  getSwingConeRadius,
+  getSwingTwistState,
+  type SwingTwistJoint
+} from '../swingTwist';
+import { clampRotation, generateConstraintBoundary } from '../../../components/viewer/constraints/constraintValidator';
+import { parseBiomechModel, serializeBiomechModel, type BiomechModelJson } from '../../io/modelLoader';
+
+const coord = (id: string, axis: 'X' | 'Y' | 'Z', index: 0 | 1 | 2, min: number, max: number, invert?: boolean) => ({
+  id,
+  displayName: id,
+  jointId: 'hip',
+  axis,
+  index,
+  range: { min, max },
+  neutral: 0,
+  clamped: false,
+  locked: false,
+  ...(invert ? { invert } : {})
+});
+
+/** Hip-like joint: twist about Y, swing on flexion (X) and abduction (Z) */
+const HIP: SwingTwistJoint = {
+  id: 'hip',
+  displayName: 'Hip',
+  parentSegment: 'pelvis',
+  childSegment: 'femur',
+  type: 'ball',
+  eulerOrder: 'XZY',
+  limitModel: 'swing_twist',
+  swingTwist: { twistAxis: 'Y', swing: { type: 'elliptical' } },
+  coordinates: [
+    coord('hip_flexion', 'X', 0, -0.5, 1.5),
+    coord('hip_abduction', 'Z', 2, -0.3, 0.8, true),
+    coord('hip_rotation', 'Y', 1, -0.6, 0.6)
+  ]
+};
+
+const SQUARE: SwingTwistJoint = {
+  ...HIP,
+  swingTwist: { twistAxis: 'Y', swing: { type: 'polygon', vertices: [[1, 1], [-1, 1], [-1, -1], [1, -1]] } }
+};
+
+describe('swing–twist decomposition', () => {
+  it('splits a rotation into swing ⟂ axis and twist about it', () => {
+    const axis = new THREE.Vector3(0, 1, 0);
+    const q = new THREE.Quaternion().setFromEuler(new THREE.Euler(0.4, 0.7, -0.3, 'XZY'));
+    const { swing, twist, twistAngle } = decomposeSwingTwist(q, axis);
+
+    expect(new THREE.Vector3(swing.x, swing.y, swing.z).dot(axis)).toBeCloseTo(0, 10);
+    expect(swing.clone().multiply(twist).angleTo(q)).toBeCloseTo(0, 6);
+    expect(twist.angleTo(new THREE.Quaternion().setFromAxisAngle(axis, twistAngle))).toBeCloseTo(0, 6);
+  });
+});
+
+describe('swing cone', () => {
+  it('reaches the coordinate ranges on the swing axes of an elliptical cone', () => {
+    expect(getSwingConeRadius(HIP, 0)).toBeCloseTo(1.5, 10);
+    expect(getSwingConeRadius(HIP, Math.PI / 2)).toBeCloseTo(0.8, 10);
+    expect(getSwingConeRadius(HIP, Math.PI)).toBeCloseTo(0.5, 10);
+    expect(getSwingConeRadius(HIP, -Math.PI / 2)).toBeCloseTo(0.3, 10);
+  });
+
+  it('intersects polygon edges', () => {
+    expect(getSwingConeRadius(SQUARE, 0)).toBeCloseTo(1, 10);
+    expect(getSwingConeRadius(SQUARE, Math.PI / 4)).toBeCloseTo(Math.SQRT2, 10);
+  });
+
+  it('rejects combined flexion and abduction that the per-axis box allows', () => {
+    const inBox: [number, number, number] = [1.4, 0, 0.7];
+    const clamped = clampCoordinatesSwingTwist(HIP, inBox);
+    expect(clamped).not.toEqual(inBox);
+
+    const delta = new THREE.Quaternion().setFromEuler(new THREE.Euler(clamped[0], clamped[1], -clamped[2], 'XZY'));
+    const state = getSwingTwistState(HIP, delta);
+    expect(Math.hypot(...state.swing)).toBeCloseTo(state.swingLimit, 6);
+    expect(state.twistExceeded).toBe(false);
+
+    const pureFlexion: [number, number, number] = [1.4, 0, 0];
+    expect(clampCoordinatesSwingTwist(HIP, pureFlexion)).toBe(pureFlexion);
+  });
+
+  it('respects inverted coordinates and clamps twist separately', () => {
+    expect(clampCoordinatesSwingTwist(HIP, [0, 0, 0.7])[2]).toBeCloseTo(0.7, 10);
+    const adducted = clampCoordinatesSwingTwist(HIP, [0, 0, -0.7]);
+    expect(adducted[2]).toBeCloseTo(-0.3, 6);
+
+    const twisted = clampCoordinatesSwingTwist(HIP, [0, 1.2, 0]);
+    expect(twisted[0]).toBeCloseTo(0, 6);
+    expect(twisted[1]).toBeCloseTo(0.6, 6);
+  });
+});
+
+describe('swing–twist boundary and loading', () => {
+  it('samples the cone boundary for generateConstraintBoundary', () => {
+    const boundary = generateConstraintBoundary(HIP, 4);
+    expect(boundary).toHaveLength(16);
+    for (const euler of boundary) {
+      expect(euler.order).toBe('XZY');
+      const state = getSwingTwistState(HIP, new THREE.Quaternion().setFromEuler(euler));
+      expect(Math.hypot(...state.swing)).toBeCloseTo(state.swingLimit, 6);
+      expect(state.twist).toBeCloseTo(0, 6);
+    }
+  });
+
+  it('clamps validator rotations of cone joints to the swing cone', () => {
+    // Inside the per-axis box, outside the elliptical cone
+    const euler = new THREE.Euler(1.4, 0, -0.7, 'XZY');
+    const clamped = clampRotation(euler, HIP);
+    expect(clamped.order).toBe('XZY');
+    const state = getSwingTwistState(HIP, new THREE.Quaternion().setFromEuler(clamped));
+    expect(Math.hypot(...state.swing)).toBeCloseTo(state.swingLimit, 6);
+
+    const boxed = clampRotation(euler, { ...HIP, limitModel: 'coordinate' });
+    expect(boxed.x).toBeCloseTo(1.4, 10);
+  });
+
+  it('round-trips the limit model through the model file format', () => {
+    const json: BiomechModelJson = {
+      format: 'biomech-model',
+      version: 1,
+      id: 'cone',
+      rootSegment: 'pelvis',
+      angleUnit: 'deg',
+      segments: [
+        { id: 'pelvis', displayName: 'Pelvis', source: 'mixamo', boneName: 'Hips' },
+        { id: 'femur', displayName: 'Femur', source: 'mixamo', boneName: 'UpLeg' }
+      ],
+      joints: [
+        {
+          id: 'hip',
+          displayName: 'Hip',
+          parentSegment: 'pelvis',
+          childSegment: 'femur',
+          type: 'ball',
+          eulerOrder: 'XZY',
+          limitModel: 'swing_twist',
+          swingTwist: { twistAxis: 'Y', swing: { type: 'polygon', vertices: [[90, 0], [0, 45], [-20, 0], [0, -30]] } },
+          coordinates: [
+            { id: 'hip_flexion', displayName: 'Flexion', axis: 'X', range: [-20, 90] },
+            { id: 'hip_abduction', displayName: 'Abduction', axis: 'Z', range: [-30, 45] },
+            { id: 'hip_rotation', displayName: 'Rotation', axis: 'Y', range: [-40, 40] }
+          ]
+        }
+      ]
+    };
+
+    const { model } = parseBiomechModel(json);
+    const swing = model!.joints.hip.swingTwist!.swing;
+    expect(swing.type === 'polygon' && swing.vertices[0][0]).toBeCloseTo(Math.PI / 2, 10);
+
+    const serialized = serializeBiomechModel(model!, 'deg');
+    expect(serialized.joints[0].limitModel).toBe('swing_twist');
+    expect(serialized.joints[0].swingTwist).toEqual(json.joints[0].swingTwist);
+
+    const missing = parseBiomechModel({ ...json, joints: [{ ...json.joints[0], swingTwist: undefined }] });
+    expect(missing.success).toBe(false);
+  });
+});
@@ -3,12 +3,17 @@
  * 
  * Manages the lifecycle of the OpenSim-compatible coordinate system:
  * - Initializes segment registry from skeleton
- * - Calibrates neutral pose (captures q_neutral for all joints)
- * - Updates joint states every frame
+ * - Calibrates neutral pose (captures q_neutral for all joints and the
+ *   neutral world frame of their segments)
+ * - Updates joint states every frame (values plus filtered velocity/acceleration)
  * - Provides coordinate queries and validation
  * 
  * This is the main integration point between the biomech engine and Three.js scene.
- * Singleton pattern: one instance per skeleton.
+ * Singleton pattern: one instance per skeleton. Joints and segments come from the
+ * BiomechModel passed to the constructor (the built-in model by default), and
+ * the model's coordinate couplers are enforced whenever coordinates are applied.
+ * Range limits include the model's range dependencies, evaluated at the
+ * current values of their independent coordinates.
  * 
  * Phase 2 - Task A1
  */
@@ -18,10 +23,30 @@ import { SegmentRegistry } from './segmentRegistry';
 import {
   calibrateNeutralPose,
   computeJointState,
-  applyCoordinatesToSkeleton
+  applyCoordinatesToSkeleton,
+  clampCoordinate
 } from './qSpaceEngine';
-import { getJoint, getAllJoints } from '../model/joints';
-import type { JointState, ModelState } from '../model/types';
+import { DEFAULT_BIOMECH_MODEL, getModelJoints } from '../model/defaultModel';
+import { getCoordinateRange, type CoordinateRange } from '../model/romProfiles';
+import { KinematicFilter, type KinematicFilterOptions } from './kinematicFilter';
+import { evaluateCoupler } from './coordinateCouplers';
+import { getDependentRange } from './rangeDependencies';
+import {
+  clampCoordinatesSwingTwist,
+  getSwingTwistState,
+  usesSwingTwistLimit,
+  type RangeResolver,
+  type SwingTwistJoint
+} from './swingTwist';
+import type {
+  BiomechModel,
+  CoordinateCouplerDef,
+  CoordinateDef,
+  CoordinateRangeDependencyDef,
+  JointDef,
+  JointState,
+  ModelState
+} from '../model/types';
 
 /**
  * Initialization result with diagnostics
@@ -45,6 +70,14 @@ export interface CalibrationResult {
   animationName?: string;
 }
 
+/**
+ * World position and orientation of a segment origin
+ */
+export interface SegmentFrame {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+}
+
 /**
  * Update result for performance monitoring
  */
@@ -58,13 +91,82 @@ export interface UpdateResult {
  * Central state manager for coordinate-based biomechanics system
  */
 export class BiomechState {
+  private readonly model: BiomechModel;
   private segmentRegistry: SegmentRegistry | null = null;
   private skeleton: THREE.Skeleton | null = null;
   private neutralPose: Map<string, THREE.Quaternion> = new Map(); // q_neutral per joint
+  private neutralSegmentFrames: Map<string, SegmentFrame> = new Map(); // world frames at neutral
   private currentState: ModelState = { q: {}, joints: {}, timestamp: 0 };
   private calibrated: boolean = false;
   private lastUpdateTime: number = 0;
   private boneToJointMap: Map<string, string> = new Map(); // bone.uuid -> jointId
+  private kinematicFilter: KinematicFilter = new KinematicFilter();
+  private coordinateToJoint: Map<string, string> = new Map(); // coordinate id -> jointId
+
+  /**
+   * @param model - Model to drive (default: built-in full-body model)
+   */
+  constructor(model: BiomechModel = DEFAULT_BIOMECH_MODEL) {
+    this.model = model;
+    for (const joint of getModelJoints(model)) {
+      for (const coord of joint.coordinates) {
+        this.coordinateToJoint.set(coord.id, joint.id);
+      }
+    }
+  }
+
+  /**
+   * Model this state was constructed against
+   */
+  getModel(): BiomechModel {
+    return this.model;
+  }
+
+  /**
+   * Look up a joint in the active model
+   */
+  getJointDef(jointId: string): JointDef | undefined {
+    return this.model.joints[jointId];
+  }
+
+  /**
+   * Coordinate couplers of the active model
+   */
+  getCouplers(): CoordinateCouplerDef[] {
+    return this.model.couplers ?? [];
+  }
+
+  /**
+   * Coupler driving a coordinate, if the coordinate is dependent
+   */
+  getCoupler(coordId: string): CoordinateCouplerDef | undefined {
+    return this.getCouplers().find(coupler => coupler.dependentCoordinate === coordId);
+  }
+
+  /**
+   * Coordinate range dependencies of the active model
+   */
+  getRangeDependencies(): CoordinateRangeDependencyDef[] {
+    return this.model.rangeDependencies ?? [];
+  }
+
+  /**
+   * Effective range of a coordinate in the current pose: the active ROM
+   * profile's range narrowed by the model's range dependencies
+   */
+  getEffectiveRange(coord: CoordinateDef): CoordinateRange {
+    return this.rangeResolver(coordId => this.readCoordinate(coordId))(coord);
+  }
+
+  /**
+   * Range lookup evaluating dependencies against the given coordinate values
+   */
+  private rangeResolver(getValue: (coordId: string) => number | null): RangeResolver {
+    const dependencies = this.getRangeDependencies();
+    return dependencies.length === 0
+      ? getCoordinateRange
+      : (coord) => getDependentRange(coord, dependencies, getValue);
+  }
 
   /**
    * Initialize the biomech state from a skeleton
@@ -80,11 +182,11 @@ export class BiomechState {
 
     try {
       this.skeleton = skeleton;
-      this.segmentRegistry = new SegmentRegistry(skeleton);
+      this.segmentRegistry = new SegmentRegistry(skeleton, this.model);
       this.boneToJointMap.clear();
 
       // Verify all joint segments can be resolved
-      const allJoints = getAllJoints();
+      const allJoints = getModelJoints(this.model);
       let jointsInitialized = 0;
 
       for (const joint of allJoints) {
@@ -162,7 +264,7 @@ export class BiomechState {
       this.skeleton.update();
 
       // Calibrate each joint
-      const allJoints = getAllJoints();
+      const allJoints = getModelJoints(this.model);
       for (const joint of allJoints) {
         // Verify both segments exist
         const parentBone = this.segmentRegistry.getBone(joint.parentSegment);
@@ -183,7 +285,9 @@ export class BiomechState {
         }
       }
 
+      this.captureNeutralSegmentFrames();
       this.calibrated = true;
+      this.kinematicFilter.reset();
       const calibTime = performance.now() - startTime;
 
       console.log(
@@ -248,7 +352,7 @@ export class BiomechState {
         worldQuats.set(bone.name, world);
 
         bone.children.forEach(child => {
-          if (child.isBone) {
+          if ((child as THREE.Bone).isBone) {
             computeWorld(child as THREE.Bone, world);
           }
         });
@@ -269,7 +373,7 @@ export class BiomechState {
       computeWorld(rootBone, rootParentWorld);
 
       // 2. Compute q_neutral for each joint using the simulated world rotations
-      const allJoints = getAllJoints();
+      const allJoints = getModelJoints(this.model);
       for (const joint of allJoints) {
         const parentBone = this.segmentRegistry.getBone(joint.parentSegment);
         const childBone = this.segmentRegistry.getBone(joint.childSegment);
@@ -293,7 +397,19 @@ export class BiomechState {
         jointsCalibratedCount++;
       }
 
+      // Segment frames need the neutral pose on the bones: apply it briefly
+      const currentRotations = this.skeleton.bones.map(bone => bone.quaternion.clone());
+      for (const bone of this.skeleton.bones) {
+        const local = localRotations.get(bone.name);
+        if (local) bone.quaternion.copy(local);
+      }
+      rootBone.updateMatrixWorld(true);
+      this.captureNeutralSegmentFrames();
+      this.skeleton.bones.forEach((bone, i) => bone.quaternion.copy(currentRotations[i]));
+      rootBone.updateMatrixWorld(true);
+
       this.calibrated = true;
+      this.kinematicFilter.reset();
       const calibTime = performance.now() - startTime;
 
       console.log(
@@ -325,10 +441,10 @@ export class BiomechState {
    * Update joint states from current skeleton pose
    * Should be called every animation frame
    * 
-   * @param deltaTime - Time since last update (seconds)
+   * @param deltaTime - Time since last update (seconds), used to differentiate coordinates
    * @returns Update result with performance metrics
    */
-  update(_deltaTime: number): UpdateResult {
+  update(deltaTime: number): UpdateResult {
     const startTime = performance.now();
     const violations: Array<{ jointId: string; coordinateIndex: number }> = [];
     let jointsUpdated = 0;
@@ -342,7 +458,7 @@ export class BiomechState {
       this.skeleton.update();
 
       // Compute joint states for all joints
-      const allJoints = getAllJoints();
+      const allJoints = getModelJoints(this.model);
       const newQ: Record<string, number> = {};
       const newJoints: Record<string, JointState> = {};
 
@@ -356,19 +472,45 @@ export class BiomechState {
         const jointState = computeJointState(joint, this.segmentRegistry, qNeutral);
         if (!jointState) continue;
 
-        // Store joint state
+        // Store joint state and flatten coordinate values into q
         newJoints[joint.id] = jointState;
+        for (const [coordId, coordState] of Object.entries(jointState.coordinates)) {
+          newQ[coordId] = coordState.value;
+        }
 
-        // Check for ROM violations (informational only, don't clamp yet)
+        jointsUpdated++;
+      }
+
+      // Check for ROM violations (informational only, don't clamp yet);
+      // dependent ranges need every joint of this frame
+      const rangeOf = this.rangeResolver(coordId => newQ[coordId] ?? null);
+      for (const jointState of Object.values(newJoints)) {
+        const joint = this.getJointDef(jointState.jointId);
+        if (!joint) continue;
+        if (usesSwingTwistLimit(joint)) {
+          violations.push(...this.swingTwistViolations(joint, jointState, rangeOf));
+          continue;
+        }
         for (let i = 0; i < joint.coordinates.length; i++) {
           const coord = joint.coordinates[i];
           const coordState = jointState.coordinates[coord.id];
-          if (coordState && (coordState.value < coord.range.min || coordState.value > coord.range.max)) {
+          const range = rangeOf(coord);
+          if (coordState && (coordState.value < range.min || coordState.value > range.max)) {
             violations.push({ jointId: joint.id, coordinateIndex: i });
           }
         }
+      }
 
-        jointsUpdated++;
+      // Filtered derivatives of every coordinate
+      const kinematics = this.kinematicFilter.update(newQ, deltaTime);
+      for (const jointState of Object.values(newJoints)) {
+        for (const [coordId, coordState] of Object.entries(jointState.coordinates)) {
+          const derivatives = kinematics[coordId];
+          if (derivatives) {
+            coordState.velocity = derivatives.velocity;
+            coordState.acceleration = derivatives.acceleration;
+          }
+        }
       }
 
       // Update state
@@ -387,25 +529,79 @@ export class BiomechState {
     }
   }
 
+  /**
+   * Cone and twist violations of a swing–twist joint, reported against the
+   * swing coordinates and the twist coordinate respectively
+   */
+  private swingTwistViolations(
+    joint: SwingTwistJoint,
+    jointState: JointState,
+    rangeOf: RangeResolver
+  ): Array<{ jointId: string; coordinateIndex: number }> {
+    const limit = getSwingTwistState(joint, jointState.q_delta, rangeOf);
+    const twistAxis = joint.swingTwist.twistAxis;
+    const violations: Array<{ jointId: string; coordinateIndex: number }> = [];
+    joint.coordinates.forEach((coord, i) => {
+      const exceeded = coord.axis === twistAxis ? limit.twistExceeded : limit.swingExceeded;
+      if (exceeded) violations.push({ jointId: joint.id, coordinateIndex: i });
+    });
+    return violations;
+  }
+
   /**
    * Apply coordinate values back to the skeleton
    * Used for IK solving or manual coordinate manipulation
    * 
+   * Coupled coordinates are enforced: values passed for this joint's dependent
+   * coordinates are replaced by their coupler output, and joints whose
+   * coordinates depend on this joint are re-applied afterwards.
+   * 
    * @param jointId - The joint to modify
-   * @param coordinates - The coordinate values [q0, q1, q2] in radians
-   * @param clampToROM - If true, clamp to joint ROM before applying
+   * @param coordinates - The coordinate values [q0, q1, q2] in radians, in the
+   *   anatomical sign convention (as reported by getJointState, i.e. after invert)
+   * @param clampToROM - If true, clamp to the active ROM profile before applying
    */
   applyCoordinates(
     jointId: string,
     coordinates: [number, number, number],
     clampToROM: boolean = false
+  ): void {
+    this.applyJointCoordinates(jointId, coordinates, clampToROM, new Set());
+  }
+
+  /**
+   * Re-apply every joint with a coupled coordinate so dependents match the
+   * current pose (e.g. after IK moved the independent coordinates)
+   *
+   * @param clampToROM - If true, clamp to the active ROM profile (default: true)
+   */
+  enforceCouplers(clampToROM: boolean = true): void {
+    if (!this.calibrated) return;
+
+    const visited = new Set<string>();
+    for (const coupler of this.getCouplers()) {
+      const jointId = this.coordinateToJoint.get(coupler.dependentCoordinate);
+      if (!jointId || visited.has(jointId)) continue;
+      const current = this.readJointCoordinates(jointId);
+      if (current) this.applyJointCoordinates(jointId, current, clampToROM, visited);
+    }
+  }
+
+  /**
+   * Apply one joint, then propagate to coupled joints not yet visited
+   */
+  private applyJointCoordinates(
+    jointId: string,
+    coordinates: [number, number, number],
+    clampToROM: boolean,
+    visited: Set<string>
   ): void {
     if (!this.segmentRegistry || !this.skeleton) {
       console.warn('⚠️ Cannot apply coordinates: BiomechState not initialized');
       return;
     }
 
-    const joint = getJoint(jointId);
+    const joint = this.getJointDef(jointId);
     if (!joint) {
       console.warn(`⚠️ Cannot apply coordinates: Unknown joint '${jointId}'`);
       return;
@@ -418,34 +614,84 @@ export class BiomechState {
       return;
     }
 
+    visited.add(jointId);
     let finalCoordinates = [...coordinates] as [number, number, number];
 
-    if (clampToROM) {
-      // Clamp each coordinate
-      joint.coordinates.forEach((coord) => {
-        // Map index (0,1,2) to the coordinate value
-        let val = finalCoordinates[coord.index];
-        
-        // Handle inversion if needed for checking limits
-        if (coord.invert) val = -val;
-
-        // Clamp
-        if (val < coord.range.min) val = coord.range.min;
-        if (val > coord.range.max) val = coord.range.max;
-
-        // Invert back if needed
-        if (coord.invert) val = -val;
+    // Dependent coordinates and ranges of this joint follow the new values of
+    // its own coordinates and the current values of other joints
+    const lookup = (coordId: string): number | null => {
+      const own = joint.coordinates.find(coord => coord.id === coordId);
+      return own ? finalCoordinates[own.index] : this.readCoordinate(coordId);
+    };
+    const rangeOf = this.rangeResolver(lookup);
 
-        finalCoordinates[coord.index] = val;
+    if (clampToROM && usesSwingTwistLimit(joint)) {
+      finalCoordinates = clampCoordinatesSwingTwist(joint, finalCoordinates, rangeOf);
+    } else if (clampToROM) {
+      // Clamp each coordinate (ranges share the anatomical sign convention)
+      joint.coordinates.forEach((coord) => {
+        const range = rangeOf(coord);
+        finalCoordinates[coord.index] = clampCoordinate(finalCoordinates[coord.index], range.min, range.max);
       });
     }
 
+    joint.coordinates.forEach((coord) => {
+      const coupler = this.getCoupler(coord.id);
+      if (!coupler) return;
+      const value = evaluateCoupler(coupler, lookup);
+      if (value === null) return;
+      const range = rangeOf(coord);
+      finalCoordinates[coord.index] = clampToROM ? clampCoordinate(value, range.min, range.max) : value;
+    });
+
     applyCoordinatesToSkeleton(joint, finalCoordinates, qNeutral, this.segmentRegistry);
 
+    // Joints with coordinates coupled to this one, and (when clamping) joints
+    // whose ranges depend on it
+    const dependents = [
+      ...this.getCouplers().map(coupler => ({
+        coordinate: coupler.dependentCoordinate,
+        independentCoordinates: coupler.independentCoordinates
+      })),
+      ...(clampToROM ? this.getRangeDependencies() : [])
+    ];
+    for (const dependent of dependents) {
+      const dependentJointId = this.coordinateToJoint.get(dependent.coordinate);
+      if (!dependentJointId || visited.has(dependentJointId)) continue;
+      if (!dependent.independentCoordinates.some(id => this.coordinateToJoint.get(id) === jointId)) continue;
+      const current = this.readJointCoordinates(dependentJointId);
+      if (current) this.applyJointCoordinates(dependentJointId, current, clampToROM, visited);
+    }
+
     // Update current state
     // TODO: Update ModelState correctly
   }
 
+  /**
+   * Live coordinate values of a joint as [q0, q1, q2]
+   */
+  private readJointCoordinates(jointId: string): [number, number, number] | null {
+    const joint = this.getJointDef(jointId);
+    const jointState = this.getJointState(jointId);
+    if (!joint || !jointState) return null;
+
+    const coords: [number, number, number] = [0, 0, 0];
+    joint.coordinates.forEach(coord => {
+      const state = jointState.coordinates[coord.id];
+      if (state) coords[coord.index] = state.value;
+    });
+    return coords;
+  }
+
+  /**
+   * Live value of a single coordinate
+   */
+  private readCoordinate(coordId: string): number | null {
+    const jointId = this.coordinateToJoint.get(coordId);
+    const jointState = jointId ? this.getJointState(jointId) : null;
+    return jointState?.coordinates[coordId]?.value ?? null;
+  }
+
   /**
    * Validate and clamp a bone's rotation based on biomechanical constraints
    * Replaces legacy rotation validation
@@ -456,27 +702,11 @@ export class BiomechState {
     const jointId = this.boneToJointMap.get(bone.uuid);
     if (!jointId) return;
 
-    const joint = getJoint(jointId);
-    if (!joint) return;
-
-    // Get current state (which computes q from current bone rotation)
-    const jointState = this.getJointState(jointId);
-    if (!jointState) return;
-
-    // Extract coordinates and prepare for re-application
-    const coords: [number, number, number] = [0, 0, 0];
-    
-    joint.coordinates.forEach(coord => {
-        const state = jointState.coordinates[coord.id];
-        if (state) {
-            let val = state.value;
-            // Un-invert because applyCoordinates will re-invert
-            if (coord.invert) val = -val;
-            coords[coord.index] = val;
-        }
-    });
+    // Current coordinates (computed from the current bone rotation)
+    const coords = this.readJointCoordinates(jointId);
+    if (!coords) return;
 
-    // Apply with clamping enabled
+    // Apply with clamping enabled (also enforces couplers)
     this.applyCoordinates(jointId, coords, true);
   }
 
@@ -487,6 +717,34 @@ export class BiomechState {
     return this.neutralPose.get(jointId)?.clone();
   }
 
+  /**
+   * World frame of a segment in the calibrated neutral pose
+   * Available for the segments of every calibrated joint.
+   */
+  getNeutralSegmentFrame(segmentId: string): SegmentFrame | undefined {
+    const frame = this.neutralSegmentFrames.get(segmentId);
+    return frame && { position: frame.position.clone(), quaternion: frame.quaternion.clone() };
+  }
+
+  /**
+   * Record the current world frames of all calibrated joints' segments
+   */
+  private captureNeutralSegmentFrames(): void {
+    this.neutralSegmentFrames.clear();
+    if (!this.segmentRegistry) return;
+
+    for (const jointId of this.neutralPose.keys()) {
+      const joint = this.getJointDef(jointId);
+      if (!joint) continue;
+      for (const segmentId of [joint.parentSegment, joint.childSegment]) {
+        if (this.neutralSegmentFrames.has(segmentId)) continue;
+        const position = this.segmentRegistry.getWorldPosition(segmentId);
+        const quaternion = this.segmentRegistry.getWorldQuaternion(segmentId);
+        if (position && quaternion) this.neutralSegmentFrames.set(segmentId, { position, quaternion });
+      }
+    }
+  }
+
   /**
    * Get current joint state (coordinates and quaternions)
    * 
@@ -498,7 +756,7 @@ export class BiomechState {
       return null;
     }
 
-    const joint = getJoint(jointId);
+    const joint = this.getJointDef(jointId);
     if (!joint) {
       return null;
     }
@@ -509,7 +767,18 @@ export class BiomechState {
       return null;
     }
 
-    return computeJointState(joint, this.segmentRegistry, qNeutral);
+    const jointState = computeJointState(joint, this.segmentRegistry, qNeutral);
+    if (!jointState) return null;
+
+    // Values are live; derivatives come from the last update()
+    for (const [coordId, coordState] of Object.entries(jointState.coordinates)) {
+      const derivatives = this.kinematicFilter.get(coordId);
+      if (derivatives) {
+        coordState.velocity = derivatives.velocity;
+        coordState.acceleration = derivatives.acceleration;
+      }
+    }
+    return jointState;
   }
 
   /**
@@ -524,7 +793,7 @@ export class BiomechState {
     if (!jointState) {
       return null;
     }
-    const joint = getJoint(jointId);
+    const joint = this.getJointDef(jointId);
     if (!joint || coordIndex >= joint.coordinates.length) {
       return null;
     }
@@ -542,6 +811,51 @@ export class BiomechState {
     return { ...this.currentState };
   }
 
+  /**
+   * Configure the low-pass filter used for angular velocity/acceleration
+   */
+  setKinematicFilter(options: Partial<KinematicFilterOptions>): void {
+    this.kinematicFilter.setOptions(options);
+  }
+
+  getKinematicFilterOptions(): KinematicFilterOptions {
+    return this.kinematicFilter.getOptions();
+  }
+
+  /**
+   * Peak |angular velocity| of a coordinate since the last reset
+   *
+   * @param coordId - CoordinateDef.id
+   * @returns rad/s (0 if the coordinate has not been updated)
+   */
+  getPeakVelocity(coordId: string): number {
+    return this.kinematicFilter.getPeakVelocity(coordId);
+  }
+
+  /**
+   * Clear tracked peak velocities (e.g. before a new trial)
+   */
+  resetPeakVelocities(): void {
+    this.kinematicFilter.resetPeaks();
+  }
+
+  /**
+   * Get world positions of segment origins (e.g. for marker trajectories)
+   *
+   * @param segmentIds - Segments to query; unresolved segments are omitted
+   * @returns World positions keyed by segment id
+   */
+  getSegmentPositions(segmentIds: string[]): Record<string, THREE.Vector3> {
+    const positions: Record<string, THREE.Vector3> = {};
+    if (!this.segmentRegistry) return positions;
+
+    for (const id of segmentIds) {
+      const position = this.segmentRegistry.getWorldPosition(id);
+      if (position) positions[id] = position;
+    }
+    return positions;
+  }
+
   /**
    * Check if the system is initialized
    */
@@ -582,9 +896,11 @@ export class BiomechState {
     this.segmentRegistry = null;
     this.skeleton = null;
     this.neutralPose.clear();
+    this.neutralSegmentFrames.clear();
     this.currentState = { q: {}, joints: {}, timestamp: 0 };
     this.calibrated = false;
     this.lastUpdateTime = 0;
+    this.kinematicFilter.reset();
     console.log('🔄 BiomechState reset');
   }
 
@@ -0,0 +1,119 @@
+/**
+ * Center of Mass Estimation
+ *
+ * Whole-body and per-segment center of mass from the posed skeleton and an
+ * anthropometric table (model/anthropometrics). Positions are world-space;
+ * the model is normalized to ModelMetrics.desiredHeight (1 unit = 1 m), so
+ * subject-scale distances multiply by subjectHeight / desiredHeight.
+ *
+ * Segments whose landmarks are missing from the skeleton are skipped and the
+ * remaining mass fractions renormalized, so a rig without end-site bones
+ * still yields an estimate (reported in missingSegments).
+ */
+
+import * as THREE from 'three';
+import { getSegment } from '../model/segments';
+import type { AnthropometricTable } from '../model/anthropometrics';
+
+/**
+ * Subject parameters
+ */
+export interface BodyParameters {
+  /** Body mass in kg */
+  massKg: number;
+  /** Standing height in meters */
+  heightM: number;
+}
+
+export interface SegmentCenterOfMass {
+  segmentId: string;
+  /** Segment mass in kg */
+  mass: number;
+  /** World-space COM */
+  position: THREE.Vector3;
+}
+
+export interface CenterOfMassResult {
+  /** World-space whole-body COM */
+  position: THREE.Vector3;
+  /** Body mass distributed over the included segments (kg; 0 if none) */
+  totalMass: number;
+  /** COM height above the ground plane in subject meters */
+  height: number;
+  /** subjectHeight / modelHeight */
+  lengthScale: number;
+  segments: SegmentCenterOfMass[];
+  /** Table segments skipped because a landmark bone was not found */
+  missingSegments: string[];
+}
+
+const _from = new THREE.Vector3();
+const _to = new THREE.Vector3();
+
+/**
+ * Resolve a landmark (segment ID or bone name) to its bone
+ */
+function findLandmarkBone(skeleton: THREE.Skeleton, landmark: string): THREE.Bone | undefined {
+  const boneName = getSegment(landmark)?.boneName ?? landmark;
+  return skeleton.getBoneByName(boneName);
+}
+
+/**
+ * Compute whole-body and per-segment COM for the current pose
+ *
+ * @param skeleton - Posed skeleton (world matrices are updated here)
+ * @param table - Anthropometric table
+ * @param body - Subject mass and height
+ * @param modelHeight - Height the model was normalized to (ModelMetrics.desiredHeight)
+ * @param groundY - World Y of the ground plane (default: 0)
+ */
+export function computeCenterOfMass(
+  skeleton: THREE.Skeleton,
+  table: AnthropometricTable,
+  body: BodyParameters,
+  modelHeight: number,
+  groundY: number = 0
+): CenterOfMassResult {
+  skeleton.bones[0]?.updateWorldMatrix(true, true);
+
+  const included: Array<{ segmentId: string; fraction: number; position: THREE.Vector3 }> = [];
+  const missingSegments: string[] = [];
+
+  for (const [segmentId, params] of Object.entries(table.segments)) {
+    const fromBone = findLandmarkBone(skeleton, params.from);
+    const toBone = findLandmarkBone(skeleton, params.to);
+    if (!fromBone || !toBone) {
+      missingSegments.push(segmentId);
+      continue;
+    }
+    fromBone.getWorldPosition(_from);
+    toBone.getWorldPosition(_to);
+    included.push({
+      segmentId,
+      fraction: params.massFraction,
+      position: _from.clone().lerp(_to, params.comFraction)
+    });
+  }
+
+  const fractionSum = included.reduce((sum, s) => sum + s.fraction, 0);
+  const position = new THREE.Vector3();
+  const segments: SegmentCenterOfMass[] = [];
+
+  if (fractionSum > 0) {
+    for (const s of included) {
+      const weight = s.fraction / fractionSum;
+      position.addScaledVector(s.position, weight);
+      segments.push({ segmentId: s.segmentId, mass: weight * body.massKg, position: s.position });
+    }
+  }
+
+  const lengthScale = modelHeight > 0 ? body.heightM / modelHeight : 1;
+  return {
+    position,
+    totalMass: fractionSum > 0 ? body.massKg : 0,
+    height: (position.y - groundY) * lengthScale,
+    lengthScale,
+    segments,
+    missingSegments
+  };
+}
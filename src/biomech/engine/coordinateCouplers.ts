@@ -0,0 +1,92 @@
+/**
+ * Coordinate Couplers
+ *
+ * Evaluates CoordinateCouplerDef functions (dependent coordinate as a linear
+ * or spline function of independent coordinates). BiomechState uses these to
+ * keep coupled coordinates consistent whenever coordinates are applied.
+ */
+
+import type { CoordinateCouplerDef, CouplerFunction } from '../model/types';
+
+type SplineFunction = Extract<CouplerFunction, { type: 'spline' }>;
+
+/** Second derivatives per spline, computed once per function object */
+const splineCache = new WeakMap<SplineFunction, number[]>();
+
+/**
+ * Second derivatives of a natural cubic spline (tridiagonal solve)
+ */
+function naturalSplineSecondDerivatives(x: number[], y: number[]): number[] {
+  const n = x.length;
+  const m = new Array<number>(n).fill(0);
+  if (n < 3) return m;
+
+  const u = new Array<number>(n).fill(0);
+  for (let i = 1; i < n - 1; i++) {
+    const sig = (x[i] - x[i - 1]) / (x[i + 1] - x[i - 1]);
+    const p = sig * m[i - 1] + 2;
+    m[i] = (sig - 1) / p;
+    const slopeDelta = (y[i + 1] - y[i]) / (x[i + 1] - x[i]) - (y[i] - y[i - 1]) / (x[i] - x[i - 1]);
+    u[i] = (6 * slopeDelta / (x[i + 1] - x[i - 1]) - sig * u[i - 1]) / p;
+  }
+  for (let i = n - 2; i >= 0; i--) {
+    m[i] = m[i] * m[i + 1] + u[i];
+  }
+  return m;
+}
+
+function evaluateSpline(fn: SplineFunction, value: number): number {
+  const { x, y } = fn;
+  const n = x.length;
+  if (n === 0) return 0;
+  if (value <= x[0]) return y[0];
+  if (value >= x[n - 1]) return y[n - 1];
+
+  let m = splineCache.get(fn);
+  if (!m) {
+    m = naturalSplineSecondDerivatives(x, y);
+    splineCache.set(fn, m);
+  }
+
+  let hi = 1;
+  while (x[hi] < value) hi++;
+  const lo = hi - 1;
+  const h = x[hi] - x[lo];
+  const a = (x[hi] - value) / h;
+  const b = (value - x[lo]) / h;
+  return a * y[lo] + b * y[hi] + ((a * a * a - a) * m[lo] + (b * b * b - b) * m[hi]) * (h * h) / 6;
+}
+
+/**
+ * Evaluate a coupling function
+ *
+ * @param fn - Coupling function
+ * @param inputs - Independent coordinate values (radians), in coupler order
+ * @returns Dependent coordinate value (radians)
+ */
+export function evaluateCouplerFunction(fn: CouplerFunction, inputs: number[]): number {
+  if (fn.type === 'spline') {
+    return evaluateSpline(fn, inputs[0] ?? 0);
+  }
+  return fn.coefficients.reduce((sum, c, i) => sum + c * (inputs[i] ?? 0), fn.offset);
+}
+
+/**
+ * Evaluate a coupler from a coordinate lookup
+ *
+ * @param coupler - Coupler definition
+ * @param getValue - Current value of a coordinate by ID (null if unavailable)
+ * @returns Dependent value, or null if an independent coordinate is unavailable
+ */
+export function evaluateCoupler(
+  coupler: CoordinateCouplerDef,
+  getValue: (coordId: string) => number | null
+): number | null {
+  const inputs: number[] = [];
+  for (const coordId of coupler.independentCoordinates) {
+    const value = getValue(coordId);
+    if (value === null) return null;
+    inputs.push(value);
+  }
+  return evaluateCouplerFunction(coupler.function, inputs);
+}
@@ -0,0 +1,448 @@
+/**
+ * Coordinate-Space IK - Damped least squares over joint coordinates
+ *
+ * Moves effector segments toward world-space targets by changing the
+ * generalized coordinates of the joints above them, instead of rotating bone
+ * quaternions and clamping afterwards. Each iteration solves the weighted,
+ * damped normal equations
+ *
+ *   Δq = W⁻¹ Jᵀ (J W⁻¹ Jᵀ + λ² I)⁻¹ e
+ *
+ * with e the stacked effector errors, J the 3m×n positional Jacobian (column
+ * k is ω̂ₖ × (p_effector − c_joint) for effectors below joint k, see
+ * qSpaceEngine.getCoordinateAxis) and W a diagonal of per-coordinate weights:
+ * a heavier coordinate moves less, so e.g. the spine contributes less than
+ * the shoulder.
+ *
+ * solveCoordinateIK drives one chain. solveFullBodyIK drives several
+ * effectors at once (e.g. a dragged hand with both feet pinned) over every
+ * joint above them plus the free 6-DOF root segment, so pelvis, spine and
+ * limbs move together.
+ *
+ * Limits are hard bounds. Locked and coupler-driven coordinates are not
+ * unknowns. Ranges (active ROM profile narrowed by range dependencies) are
+ * enforced with a clamping loop: a coordinate whose step would leave its
+ * range is fixed at the bound, its motion is taken out of the error and the
+ * step is re-solved without it. Swing–twist joints are additionally
+ * projected onto their cone. New values go to the skeleton through
+ * applyCoordinatesToSkeleton, and the model's couplers are re-enforced after
+ * every iteration.
+ */
+
+import * as THREE from 'three';
+import type { BiomechState } from './biomechState';
+import type { SegmentRegistry } from './segmentRegistry';
+import { applyCoordinatesToSkeleton, getCoordinateAxis } from './qSpaceEngine';
+import { clampCoordinatesSwingTwist, usesSwingTwistLimit } from './swingTwist';
+import type { BiomechModel, CoordinateDef, JointDef } from '../model/types';
+
+/**
+ * Joints moved by the solver and the segment that should reach the target
+ */
+export interface CoordinateIKChain {
+  /** Joint IDs, proximal → distal */
+  jointIds: string[];
+  /** Segment whose origin is driven to the target */
+  effectorSegment: string;
+}
+
+/**
+ * One effector of a full-body solve
+ */
+export interface CoordinateIKTask {
+  /** Segment whose origin is driven to the target */
+  effectorSegment: string;
+  /** World-space target position */
+  target: THREE.Vector3;
+  /** Relative importance (default 1); pins usually outweigh the dragged effector */
+  weight?: number;
+}
+
+export interface CoordinateIKOptions {
+  /** Maximum iterations (default 20) */
+  iterations?: number;
+  /** Damping λ in meters (default 0.05) */
+  damping?: number;
+  /** Stop when every effector is this close to its target, meters (default 1 mm) */
+  tolerance?: number;
+  /** Largest change of any coordinate per iteration, radians (default 0.25) */
+  maxStep?: number;
+  /** Enforce ranges and swing–twist cones (default true) */
+  respectLimits?: boolean;
+  /** Weights by coordinate ID or joint ID (coordinate wins); default DEFAULT_IK_WEIGHTS, else 1 */
+  weights?: Record<string, number>;
+}
+
+export interface FullBodyIKOptions extends CoordinateIKOptions {
+  /** Translate and rotate the root segment (default true) */
+  moveRoot?: boolean;
+}
+
+export interface CoordinateIKResult {
+  /** Effector within tolerance of the target */
+  success: boolean;
+  iterations: number;
+  /** Final effector-to-target distance (m) */
+  error: number;
+  /** Coordinates that were held at a range bound in the last iteration */
+  limitedCoordinates: string[];
+}
+
+export interface FullBodyIKResult {
+  /** Every effector within tolerance of its target */
+  success: boolean;
+  iterations: number;
+  /** Final effector-to-target distance per task (m) */
+  errors: number[];
+  /** Coordinates that were held at a range bound in the last iteration */
+  limitedCoordinates: string[];
+}
+
+/** Weight keys of the root segment's free translation and rotation */
+export const ROOT_TRANSLATION = 'root_translation';
+export const ROOT_ROTATION = 'root_rotation';
+
+/**
+ * Default weights by joint ID: the trunk is stiffer than the limbs, lower
+ * spine levels stiffer than upper ones, and the whole body shifts only
+ * when the limbs cannot do the job
+ */
+export const DEFAULT_IK_WEIGHTS: Record<string, number> = {
+  lumbar_spine: 6,
+  thoracic_spine: 5,
+  thoracic_upper_spine: 4,
+  cervical_spine: 2,
+  head: 2,
+  st_right: 3,
+  st_left: 3,
+  [ROOT_TRANSLATION]: 4,
+  [ROOT_ROTATION]: 8
+};
+
+const WORLD_AXES = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+
+/**
+ * A solver unknown: a joint coordinate or one of the root's six DOFs
+ */
+type Unknown =
+  | { kind: 'coordinate'; joint: JointDef; coord: CoordinateDef; weight: number }
+  | { kind: 'rootTranslation' | 'rootRotation'; axis: number; weight: number };
+
+interface Task {
+  effectorSegment: string;
+  target: THREE.Vector3;
+  /** √weight, applied to the task's rows and error */
+  scale: number;
+  /** Segments from the effector up to the root */
+  ancestors: Set<string>;
+}
+
+/** Live coordinate values of a joint as [q0, q1, q2] */
+function readJoint(state: BiomechState, joint: JointDef): [number, number, number] | null {
+  const jointState = state.getJointState(joint.id);
+  if (!jointState) return null;
+  const values: [number, number, number] = [0, 0, 0];
+  for (const coord of joint.coordinates) {
+    values[coord.index] = jointState.coordinates[coord.id]?.value ?? 0;
+  }
+  return values;
+}
+
+/** Segment IDs from a segment up to the model's root */
+function segmentPath(model: BiomechModel, segmentId: string): Set<string> {
+  const path = new Set<string>();
+  const parentJoint = new Map(Object.values(model.joints).map(joint => [joint.childSegment, joint]));
+  let current: string | undefined = segmentId;
+  while (current && !path.has(current)) {
+    path.add(current);
+    current = parentJoint.get(current)?.parentSegment;
+  }
+  return path;
+}
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting (A is
+ * symmetric positive definite here, so pivots never vanish)
+ */
+function solveLinear(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Weighted damped least-squares step for the active columns
+ *
+ * @param columns - Jacobian columns (length 3m each)
+ */
+function dampedStep(columns: number[][], weights: number[], active: boolean[], error: number[], damping: number): number[] {
+  // A = J W⁻¹ Jᵀ + λ² I
+  const size = error.length;
+  const a = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => (i === j ? damping * damping : 0))
+  );
+  columns.forEach((column, k) => {
+    if (!active[k]) return;
+    for (let i = 0; i < size; i++) {
+      if (column[i] === 0) continue;
+      for (let j = 0; j < size; j++) a[i][j] += (column[i] * column[j]) / weights[k];
+    }
+  });
+
+  const y = solveLinear(a, error);
+  return columns.map((column, k) =>
+    active[k] ? column.reduce((sum, value, i) => sum + value * y[i], 0) / weights[k] : 0
+  );
+}
+
+/**
+ * Shift and turn the root segment's bone in world space
+ */
+function moveRoot(registry: SegmentRegistry, rootSegment: string, translation: THREE.Vector3, rotation: THREE.Vector3): void {
+  const bone = registry.getBone(rootSegment);
+  if (!bone) return;
+
+  const position = bone.getWorldPosition(new THREE.Vector3()).add(translation);
+  if (bone.parent) bone.parent.worldToLocal(position);
+  bone.position.copy(position);
+
+  const angle = rotation.length();
+  if (angle > 0) {
+    // World rotation R about the bone origin: local' = parentWorld⁻¹ · R · parentWorld · local
+    const world = new THREE.Quaternion().setFromAxisAngle(rotation.clone().divideScalar(angle), angle);
+    const parentWorld = new THREE.Quaternion();
+    bone.parent?.getWorldQuaternion(parentWorld);
+    bone.quaternion.premultiply(parentWorld.clone().invert().multiply(world).multiply(parentWorld));
+  }
+  bone.updateMatrixWorld(true);
+}
+
+/**
+ * Damped least-squares iterations shared by the chain and full-body solvers
+ */
+function solveTasks(
+  state: BiomechState,
+  jointIds: string[],
+  tasks: CoordinateIKTask[],
+  includeRoot: boolean,
+  options: CoordinateIKOptions
+): FullBodyIKResult {
+  const {
+    iterations = 20,
+    damping = 0.05,
+    tolerance = 1e-3,
+    maxStep = 0.25,
+    respectLimits = true,
+    weights = DEFAULT_IK_WEIGHTS
+  } = options;
+
+  const registry = state.getSegmentRegistry();
+  const model = state.getModel();
+  const effectorPositions = () => tasks.map(task => registry?.getWorldPosition(task.effectorSegment) ?? null);
+  const initial = effectorPositions();
+  if (!registry || !state.isCalibrated() || tasks.length === 0 || initial.some(p => p === null)) {
+    return { success: false, iterations: 0, errors: tasks.map(() => Infinity), limitedCoordinates: [] };
+  }
+
+  const solverTasks: Task[] = tasks.map(task => ({
+    effectorSegment: task.effectorSegment,
+    target: task.target,
+    scale: Math.sqrt(Math.max(task.weight ?? 1, 0)),
+    ancestors: segmentPath(model, task.effectorSegment)
+  }));
+
+  const joints = jointIds
+    .map(id => state.getJointDef(id))
+    .filter((joint): joint is JointDef => joint !== undefined && state.getNeutralQuaternion(joint.id) !== undefined);
+  const weightOf = (key: string, fallback?: string) =>
+    Math.max(weights[key] ?? (fallback !== undefined ? weights[fallback] : undefined) ?? 1, 1e-6);
+  const unknowns: Unknown[] = joints.flatMap(joint =>
+    joint.coordinates
+      .filter(coord => !coord.locked && !state.getCoupler(coord.id))
+      .map(coord => ({ kind: 'coordinate' as const, joint, coord, weight: weightOf(coord.id, joint.id) }))
+  );
+  if (includeRoot && registry.getBone(model.rootSegment)) {
+    for (let axis = 0; axis < 3; axis++) {
+      unknowns.push({ kind: 'rootTranslation', axis, weight: weightOf(ROOT_TRANSLATION) });
+      unknowns.push({ kind: 'rootRotation', axis, weight: weightOf(ROOT_ROTATION) });
+    }
+  }
+
+  const distances = (positions: (THREE.Vector3 | null)[]) =>
+    solverTasks.map((task, t) => (positions[t] ? task.target.distanceTo(positions[t]!) : Infinity));
+  let errors = distances(initial);
+  let limited = new Set<string>();
+  let iteration = 0;
+
+  while (iteration < iterations && errors.some(e => e > tolerance) && unknowns.length > 0) {
+    iteration++;
+    const effectors = effectorPositions() as THREE.Vector3[];
+    const values = new Map(joints.map(joint => [joint.id, readJoint(state, joint)]));
+    const rootPosition = registry.getWorldPosition(model.rootSegment) ?? new THREE.Vector3();
+
+    // Jacobian columns at the current pose, rows scaled by √(task weight)
+    const columns = unknowns.map(unknown => {
+      let motion: (effector: THREE.Vector3, task: Task) => THREE.Vector3 | null;
+      if (unknown.kind === 'coordinate') {
+        const { joint, coord } = unknown;
+        const jointState = state.getJointState(joint.id);
+        const parentWorld = registry.getWorldQuaternion(joint.parentSegment);
+        const center = registry.getWorldPosition(joint.childSegment);
+        const axis = jointState && parentWorld && center
+          ? getCoordinateAxis(joint, coord, parentWorld, jointState.q_neutral, jointState.q_delta)
+          : null;
+        motion = (effector, task) =>
+          axis && center && task.ancestors.has(joint.childSegment) ? axis.clone().cross(effector.clone().sub(center)) : null;
+      } else if (unknown.kind === 'rootTranslation') {
+        motion = () => WORLD_AXES[unknown.axis];
+      } else {
+        motion = effector => WORLD_AXES[unknown.axis].clone().cross(effector.clone().sub(rootPosition));
+      }
+      return solverTasks.flatMap((task, t) => {
+        const v = motion(effectors[t], task);
+        return v ? [v.x * task.scale, v.y * task.scale, v.z * task.scale] : [0, 0, 0];
+      });
+    });
+
+    // Clamping loop: fix coordinates at their bounds and re-solve for the rest
+    const current = unknowns.map(unknown =>
+      unknown.kind === 'coordinate' ? values.get(unknown.joint.id)?.[unknown.coord.index] ?? 0 : 0
+    );
+    const ranges = unknowns.map(unknown =>
+      respectLimits && unknown.kind === 'coordinate' ? state.getEffectiveRange(unknown.coord) : null
+    );
+    const active = unknowns.map(() => true);
+    const fixed = unknowns.map(() => 0);
+    const residual = solverTasks.flatMap((task, t) => {
+      const e = task.target.clone().sub(effectors[t]).multiplyScalar(task.scale);
+      return [e.x, e.y, e.z];
+    });
+    limited = new Set<string>();
+    let step: number[] = [];
+
+    for (let pass = 0; pass <= unknowns.length; pass++) {
+      step = dampedStep(columns, unknowns.map(u => u.weight), active, residual, damping);
+      const largest = Math.max(...step.map(Math.abs));
+      if (largest > maxStep) step = step.map(value => (value * maxStep) / largest);
+
+      let changed = false;
+      unknowns.forEach((unknown, k) => {
+        const range = ranges[k];
+        if (!active[k] || !range || unknown.kind !== 'coordinate') return;
+        const next = current[k] + step[k];
+        if (next >= range.min && next <= range.max) return;
+        const bound = next < range.min ? range.min : range.max;
+        fixed[k] = bound - current[k];
+        columns[k].forEach((value, i) => { residual[i] -= value * fixed[k]; });
+        active[k] = false;
+        limited.add(unknown.coord.id);
+        changed = true;
+      });
+      if (!changed) break;
+    }
+    const delta = (k: number) => (active[k] ? step[k] : fixed[k]);
+
+    // Root first, then joints proximal → distal so each sees its parent's new pose
+    if (includeRoot) {
+      const translation = new THREE.Vector3();
+      const rotation = new THREE.Vector3();
+      unknowns.forEach((unknown, k) => {
+        if (unknown.kind === 'rootTranslation') translation.setComponent(unknown.axis, delta(k));
+        if (unknown.kind === 'rootRotation') rotation.setComponent(unknown.axis, delta(k));
+      });
+      moveRoot(registry, model.rootSegment, translation, rotation);
+    }
+    for (const joint of joints) {
+      const coords = values.get(joint.id);
+      const qNeutral = state.getNeutralQuaternion(joint.id);
+      if (!coords || !qNeutral) continue;
+      let next = [...coords] as [number, number, number];
+      unknowns.forEach((unknown, k) => {
+        if (unknown.kind === 'coordinate' && unknown.joint === joint) {
+          next[unknown.coord.index] = current[k] + delta(k);
+        }
+      });
+      if (respectLimits && usesSwingTwistLimit(joint)) {
+        next = clampCoordinatesSwingTwist(joint, next, coord => state.getEffectiveRange(coord));
+      }
+      applyCoordinatesToSkeleton(joint, next, qNeutral, registry);
+    }
+    if (state.getCouplers().length > 0) state.enforceCouplers(respectLimits);
+
+    errors = distances(effectorPositions());
+  }
+
+  return {
+    success: errors.every(e => e <= tolerance),
+    iterations: iteration,
+    errors,
+    limitedCoordinates: [...limited]
+  };
+}
+
+/**
+ * Move a chain's effector toward a target in coordinate space
+ *
+ * @param state - Calibrated biomech state (the skeleton is posed in place)
+ * @param chain - Joints and effector segment
+ * @param target - World-space target position
+ * @param options - Solver settings
+ */
+export function solveCoordinateIK(
+  state: BiomechState,
+  chain: CoordinateIKChain,
+  target: THREE.Vector3,
+  options: CoordinateIKOptions = {}
+): CoordinateIKResult {
+  const result = solveTasks(state, chain.jointIds, [{ effectorSegment: chain.effectorSegment, target }], false, options);
+  return {
+    success: result.success,
+    iterations: result.iterations,
+    error: result.errors[0],
+    limitedCoordinates: result.limitedCoordinates
+  };
+}
+
+/**
+ * Move several effectors toward their targets at once, using every joint
+ * between them and the root and (by default) the root's free motion
+ *
+ * @param state - Calibrated biomech state (the skeleton is posed in place)
+ * @param tasks - Effectors and targets, e.g. one dragged and several pinned
+ * @param options - Solver settings
+ */
+export function solveFullBodyIK(
+  state: BiomechState,
+  tasks: CoordinateIKTask[],
+  options: FullBodyIKOptions = {}
+): FullBodyIKResult {
+  const { moveRoot: includeRoot = true, ...rest } = options;
+  const model = state.getModel();
+
+  // Joints above any effector, proximal → distal
+  const segments = new Set(tasks.flatMap(task => [...segmentPath(model, task.effectorSegment)]));
+  const depth = (joint: JointDef) => segmentPath(model, joint.childSegment).size;
+  const jointIds = Object.values(model.joints)
+    .filter(joint => segments.has(joint.childSegment))
+    .sort((a, b) => depth(a) - depth(b))
+    .map(joint => joint.id);
+
+  return solveTasks(state, jointIds, tasks, includeRoot, rest);
+}
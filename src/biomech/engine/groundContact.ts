@@ -0,0 +1,300 @@
+/**
+ * Ground Contact - Stance foot locking and floor constraint
+ *
+ * Runs once per frame after the pose has been set (clip playback, imported
+ * motion or IK) and before kinematics are sampled:
+ *
+ * 1. Floor: if any bone below the root segment is under the floor, the root
+ *    is raised by the deficit.
+ * 2. Stance detection per foot: a foot is in contact when the lower of its
+ *    ankle and toe origins is within contactHeight of the floor and the
+ *    ankle moves slower than contactSpeed. Release needs clearly higher
+ *    height or speed (hysteresis), so contact does not chatter at heel
+ *    strike and toe off.
+ * 3. Stance feet are locked: at contact the ankle position (lifted onto the
+ *    floor if needed) and foot orientation are stored, and every following
+ *    frame a two-bone pass on thigh and shank puts the ankle back there and
+ *    the foot is given the stored orientation.
+ *
+ * Detection reads the pose as it arrives, before this frame's correction, so
+ * a clip with root motion planting a foot is locked until the clip lifts it.
+ * Stance feet of in-place (treadmill-style) clips slide at walking speed and
+ * are therefore not locked; they only get the floor constraint. In IK mode
+ * nothing re-poses the legs between frames, so a planted foot stays locked
+ * until its chain is dragged (see freeSides).
+ */
+
+import * as THREE from 'three';
+import type { BiomechState } from './biomechState';
+import type { SegmentRegistry } from './segmentRegistry';
+import type { GaitSide } from '../analysis/gaitAnalysis';
+
+/**
+ * Leg segments of the built-in model used for contact and the two-bone pass
+ */
+export const GROUND_CONTACT_SEGMENTS: Record<GaitSide, { thigh: string; shank: string; foot: string; toes: string }> = {
+  left: { thigh: 'femur_left', shank: 'tibia_left', foot: 'foot_left', toes: 'toes_left' },
+  right: { thigh: 'femur_right', shank: 'tibia_right', foot: 'foot_right', toes: 'toes_right' }
+};
+
+export interface GroundContactOptions {
+  /** Floor height in world space (m), e.g. ModelMetrics.boundingBox.min.y */
+  floorHeight: number;
+  /** Lowest foot origin within this of the floor counts as contact (m, default 0.05) */
+  contactHeight?: number;
+  /** Ankle speed below this counts as contact (m/s, default 0.3) */
+  contactSpeed?: number;
+  /** Lock stance feet (default true); false applies only the floor constraint */
+  lockFeet?: boolean;
+  /** Feet that must not be locked this frame, e.g. while their IK chain is dragged */
+  freeSides?: GaitSide[];
+}
+
+export interface GroundContactResult {
+  /** Stance state per foot after this frame */
+  contacts: Record<GaitSide, boolean>;
+  /** Amount the root was raised to clear the floor (m) */
+  floorCorrection: number;
+}
+
+interface FootState {
+  inContact: boolean;
+  /** Ankle position at the previous frame, before correction */
+  previous: THREE.Vector3 | null;
+  lockPosition: THREE.Vector3 | null;
+  lockQuaternion: THREE.Quaternion | null;
+}
+
+/** Release thresholds relative to the contact thresholds */
+const RELEASE_FACTOR = 2;
+/** Keep the two-bone target this far inside full extension (m) */
+const REACH_MARGIN = 1e-4;
+
+const SIDES: GaitSide[] = ['left', 'right'];
+
+/**
+ * Rotate a bone by a world-space rotation about its own origin
+ */
+function rotateWorld(bone: THREE.Object3D, rotation: THREE.Quaternion): void {
+  const parentWorld = new THREE.Quaternion();
+  bone.parent?.getWorldQuaternion(parentWorld);
+  bone.quaternion.premultiply(parentWorld.clone().invert().multiply(rotation).multiply(parentWorld));
+  bone.updateMatrixWorld(true);
+}
+
+/**
+ * Give a bone a world orientation
+ */
+function setWorldQuaternion(bone: THREE.Object3D, world: THREE.Quaternion): void {
+  const parentWorld = new THREE.Quaternion();
+  bone.parent?.getWorldQuaternion(parentWorld);
+  bone.quaternion.copy(parentWorld.invert().multiply(world));
+  bone.updateMatrixWorld(true);
+}
+
+/**
+ * Analytic two-bone IK: bend the middle joint to the distance of the target,
+ * then swing the upper bone onto it. The bend keeps the current knee/elbow
+ * plane; a straight limb bends about the upper bone's local X axis.
+ *
+ * @param upper - Upper bone (thigh), rotated
+ * @param lower - Lower bone (shank), rotated
+ * @param end - End bone (foot), whose origin is placed on the target
+ * @param target - World-space target; clamped to the limb's reach
+ * @returns True if the target was within reach
+ */
+export function solveTwoBoneIK(
+  upper: THREE.Object3D,
+  lower: THREE.Object3D,
+  end: THREE.Object3D,
+  target: THREE.Vector3
+): boolean {
+  const a = upper.getWorldPosition(new THREE.Vector3());
+  const b = lower.getWorldPosition(new THREE.Vector3());
+  const c = end.getWorldPosition(new THREE.Vector3());
+
+  const upperLength = b.distanceTo(a);
+  const lowerLength = c.distanceTo(b);
+  const distance = target.distanceTo(a);
+  const reach = THREE.MathUtils.clamp(
+    distance,
+    Math.abs(upperLength - lowerLength) + REACH_MARGIN,
+    upperLength + lowerLength - REACH_MARGIN
+  );
+
+  const ac = c.clone().sub(a);
+  const ab = b.clone().sub(a);
+  const ba = a.clone().sub(b);
+  const bc = c.clone().sub(b);
+  const at = target.clone().sub(a);
+
+  // Interior angles at the root and middle joint, current and wanted
+  const cosine = (value: number) => Math.acos(THREE.MathUtils.clamp(value, -1, 1));
+  const rootAngle = ac.angleTo(ab);
+  const midAngle = ba.angleTo(bc);
+  const wantedRootAngle = cosine((lowerLength ** 2 - upperLength ** 2 - reach ** 2) / (-2 * upperLength * reach));
+  const wantedMidAngle = cosine((reach ** 2 - upperLength ** 2 - lowerLength ** 2) / (-2 * upperLength * lowerLength));
+
+  let bendAxis = ac.clone().cross(ab);
+  if (bendAxis.lengthSq() < 1e-12) {
+    bendAxis = new THREE.Vector3(1, 0, 0).applyQuaternion(upper.getWorldQuaternion(new THREE.Quaternion()));
+  }
+  bendAxis.normalize();
+
+  rotateWorld(upper, new THREE.Quaternion().setFromAxisAngle(bendAxis, wantedRootAngle - rootAngle));
+  rotateWorld(lower, new THREE.Quaternion().setFromAxisAngle(bendAxis, wantedMidAngle - midAngle));
+
+  // Swing the bent limb so the end lies on the root→target line
+  const bent = end.getWorldPosition(new THREE.Vector3()).sub(a);
+  if (bent.lengthSq() > 1e-12 && at.lengthSq() > 1e-12) {
+    rotateWorld(upper, new THREE.Quaternion().setFromUnitVectors(bent.normalize(), at.clone().normalize()));
+  }
+
+  return distance === reach;
+}
+
+/**
+ * Per-frame foot locking and floor constraint for one skeleton
+ */
+export class GroundContactSolver {
+  private feet: Record<GaitSide, FootState> = {
+    left: { inContact: false, previous: null, lockPosition: null, lockQuaternion: null },
+    right: { inContact: false, previous: null, lockPosition: null, lockQuaternion: null }
+  };
+
+  /**
+   * Detect stance, lock stance feet and keep the skeleton above the floor
+   *
+   * @param state - Biomech state whose skeleton is corrected in place
+   * @param deltaTime - Time since the previous call (s)
+   * @param options - Floor height and thresholds
+   */
+  update(state: BiomechState, deltaTime: number, options: GroundContactOptions): GroundContactResult {
+    const {
+      floorHeight,
+      contactHeight = 0.05,
+      contactSpeed = 0.3,
+      lockFeet = true,
+      freeSides = []
+    } = options;
+
+    const registry = state.getSegmentRegistry();
+    const root = registry?.getBone(state.getModel().rootSegment) ?? null;
+    if (!registry || !root) {
+      return { contacts: { left: false, right: false }, floorCorrection: 0 };
+    }
+
+    // Stance detection on the incoming pose
+    for (const side of SIDES) {
+      this.detect(registry, side, deltaTime, floorHeight, contactHeight, contactSpeed, lockFeet && !freeSides.includes(side));
+    }
+
+    const floorCorrection = this.clearFloor(root, floorHeight);
+
+    for (const side of SIDES) {
+      const foot = this.feet[side];
+      if (!foot.inContact || !foot.lockPosition || !foot.lockQuaternion) continue;
+      const segments = GROUND_CONTACT_SEGMENTS[side];
+      const thigh = registry.getBone(segments.thigh);
+      const shank = registry.getBone(segments.shank);
+      const footBone = registry.getBone(segments.foot);
+      if (!thigh || !shank || !footBone) continue;
+      solveTwoBoneIK(thigh, shank, footBone, foot.lockPosition);
+      setWorldQuaternion(footBone, foot.lockQuaternion);
+    }
+
+    return {
+      contacts: { left: this.feet.left.inContact, right: this.feet.right.inContact },
+      floorCorrection
+    };
+  }
+
+  /**
+   * Forget contacts and previous positions (e.g. after a clip change or reset)
+   */
+  reset(): void {
+    for (const side of SIDES) {
+      this.feet[side] = { inContact: false, previous: null, lockPosition: null, lockQuaternion: null };
+    }
+  }
+
+  /**
+   * Whether a foot is currently locked
+   */
+  isInContact(side: GaitSide): boolean {
+    return this.feet[side].inContact;
+  }
+
+  /**
+   * Update one foot's contact state from its incoming position
+   */
+  private detect(
+    registry: SegmentRegistry,
+    side: GaitSide,
+    deltaTime: number,
+    floorHeight: number,
+    contactHeight: number,
+    contactSpeed: number,
+    canLock: boolean
+  ): void {
+    const foot = this.feet[side];
+    const segments = GROUND_CONTACT_SEGMENTS[side];
+    const ankle = registry.getWorldPosition(segments.foot);
+    const toes = registry.has(segments.toes) ? registry.getWorldPosition(segments.toes) : null;
+    const orientation = registry.getWorldQuaternion(segments.foot);
+    if (!ankle || !orientation) {
+      foot.inContact = false;
+      return;
+    }
+
+    const height = Math.min(ankle.y, toes?.y ?? ankle.y) - floorHeight;
+    const speed = foot.previous && deltaTime > 0 ? ankle.distanceTo(foot.previous) / deltaTime : 0;
+    foot.previous = ankle.clone();
+
+    if (!canLock) {
+      foot.inContact = false;
+      foot.lockPosition = null;
+      foot.lockQuaternion = null;
+      return;
+    }
+
+    if (foot.inContact) {
+      foot.inContact = height <= contactHeight * RELEASE_FACTOR && speed <= contactSpeed * RELEASE_FACTOR;
+    } else if (height <= contactHeight && speed <= contactSpeed) {
+      foot.inContact = true;
+      // Planted where it touched down, never below the floor
+      foot.lockPosition = ankle.clone();
+      if (height < 0) foot.lockPosition.y -= height;
+      foot.lockQuaternion = orientation.clone();
+    }
+    if (!foot.inContact) {
+      foot.lockPosition = null;
+      foot.lockQuaternion = null;
+    }
+  }
+
+  /**
+   * Raise the root so no bone below it is under the floor
+   *
+   * @returns Amount raised (m)
+   */
+  private clearFloor(root: THREE.Bone, floorHeight: number): number {
+    root.updateMatrixWorld(true);
+    let lowest = Infinity;
+    const position = new THREE.Vector3();
+    root.traverse(object => {
+      if (!(object instanceof THREE.Bone)) return;
+      lowest = Math.min(lowest, object.getWorldPosition(position).y);
+    });
+
+    const deficit = floorHeight - lowest;
+    if (!(deficit > 0)) return 0;
+
+    const world = root.getWorldPosition(new THREE.Vector3());
+    world.y += deficit;
+    if (root.parent) root.parent.worldToLocal(world);
+    root.position.copy(world);
+    root.updateMatrixWorld(true);
+    return deficit;
+  }
+}
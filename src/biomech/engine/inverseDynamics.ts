@@ -0,0 +1,249 @@
+/**
+ * Inverse Dynamics - Planar Newton-Euler solution for the lower limb
+ *
+ * Computes net hip, knee and ankle moments and joint powers in the sagittal
+ * plane from joint-center trajectories, segment inertial parameters and the
+ * ground reaction force, working from the foot up (Winter, Biomechanics and
+ * Motor Control of Human Movement, ch. 5):
+ *
+ *   F_prox = m·(a_com − g) − F_dist
+ *   M_prox = I·α − M_dist − r_prox × F_prox − r_dist × F_dist
+ *
+ * with r measured from the segment COM and the proximal reaction of one
+ * segment applied, reversed, as the distal load of the next.
+ *
+ * Planar frame: x = anterior (direction of progression), y = up, positive
+ * rotation anterior → up (counter-clockwise seen from the subject's right).
+ * Derivatives are central differences on the (possibly uneven) time base, so
+ * the first and last frames are NaN.
+ *
+ * Reported moments are internal joint moments in clinical signs: hip
+ * extension, knee extension and ankle plantarflexion positive. Joint power is
+ * moment × joint angular velocity (positive = generation), independent of
+ * the sign convention.
+ */
+
+import type { AnthropometricTable } from '../model/anthropometrics';
+
+const STANDARD_GRAVITY = 9.81;
+
+/**
+ * Sagittal-plane trajectory (meters)
+ */
+export interface PlanarTrajectory {
+  x: Float64Array;
+  y: Float64Array;
+}
+
+/**
+ * Joint centers of one leg plus the pelvis line for hip power
+ */
+export interface LowerLimbTrajectories {
+  /** Upper pelvis landmark (lumbar joint) */
+  pelvisTop: PlanarTrajectory;
+  hip: PlanarTrajectory;
+  knee: PlanarTrajectory;
+  ankle: PlanarTrajectory;
+  /** Metatarsophalangeal joint */
+  toe: PlanarTrajectory;
+}
+
+/**
+ * Ground reaction acting on the foot
+ * Forces are 0 while the foot is unloaded and NaN when unknown.
+ */
+export interface PlanarGroundReaction {
+  /** Anterior-posterior force (N) */
+  fx: Float64Array;
+  /** Vertical force (N) */
+  fy: Float64Array;
+  /** Center of pressure (m) */
+  copX: Float64Array;
+  copY: Float64Array;
+}
+
+/**
+ * Inertial parameters of one segment
+ */
+export interface SegmentInertia {
+  /** kg */
+  mass: number;
+  /** COM position along proximal → distal joint (0..1) */
+  comFraction: number;
+  /** Radius of gyration about the COM as a fraction of segment length */
+  radiusOfGyration: number;
+}
+
+export interface LowerLimbInertia {
+  thigh: SegmentInertia;
+  shank: SegmentInertia;
+  foot: SegmentInertia;
+}
+
+export type KineticJoint = 'hip' | 'knee' | 'ankle';
+
+export interface JointKinetics {
+  /** Net internal moment (N·m, clinical sign) */
+  moment: Float64Array;
+  /** Joint power (W) */
+  power: Float64Array;
+  /** Distal minus proximal segment angular velocity (rad/s) */
+  angularVelocity: Float64Array;
+}
+
+export type LowerLimbKinetics = Record<KineticJoint, JointKinetics>;
+
+/**
+ * Segment inertial parameters for one leg from an anthropometric table
+ * The foot is modeled ankle → MTP, so its table COM fraction and radius of
+ * gyration (ankle → toe tip) are applied to a shorter segment.
+ *
+ * @param table - Anthropometric table
+ * @param side - Leg
+ * @param massKg - Body mass
+ */
+export function lowerLimbInertia(
+  table: AnthropometricTable,
+  side: 'left' | 'right',
+  massKg: number
+): LowerLimbInertia {
+  const segment = (id: string): SegmentInertia => {
+    const entry = table.segments[`${id}_${side}`];
+    return {
+      mass: (entry?.massFraction ?? 0) * massKg,
+      comFraction: entry?.comFraction ?? 0.5,
+      radiusOfGyration: entry?.radiusOfGyration ?? 0
+    };
+  };
+  return { thigh: segment('femur'), shank: segment('tibia'), foot: segment('foot') };
+}
+
+/**
+ * Solve net joint moments and powers for one leg over a trial
+ *
+ * @param time - Sample times (seconds, strictly increasing)
+ * @param limb - Joint-center trajectories
+ * @param grf - Ground reaction on this foot
+ * @param inertia - Segment inertial parameters
+ * @param gravity - Gravitational acceleration (m/s²)
+ */
+export function solveLowerLimbDynamics(
+  time: Float64Array,
+  limb: LowerLimbTrajectories,
+  grf: PlanarGroundReaction,
+  inertia: LowerLimbInertia,
+  gravity: number = STANDARD_GRAVITY
+): LowerLimbKinetics {
+  const n = time.length;
+  const segments = [
+    { params: inertia.foot, proximal: limb.ankle, distal: limb.toe },
+    { params: inertia.shank, proximal: limb.knee, distal: limb.ankle },
+    { params: inertia.thigh, proximal: limb.hip, distal: limb.knee }
+  ].map(({ params, proximal, distal }) => {
+    const comX = Float64Array.from(proximal.x, (px, i) => px + (distal.x[i] - px) * params.comFraction);
+    const comY = Float64Array.from(proximal.y, (py, i) => py + (distal.y[i] - py) * params.comFraction);
+    const angle = segmentAngle(proximal, distal);
+    return {
+      params,
+      proximal,
+      distal,
+      comX,
+      comY,
+      ax: secondDerivative(time, comX),
+      ay: secondDerivative(time, comY),
+      omega: firstDerivative(time, angle),
+      alpha: secondDerivative(time, angle)
+    };
+  });
+  const pelvisOmega = firstDerivative(time, segmentAngle(limb.pelvisTop, limb.hip));
+
+  const moments = segments.map(() => new Float64Array(n).fill(NaN));
+
+  for (let i = 0; i < n; i++) {
+    // Distal load on the foot: ground reaction at the COP
+    let fdx = grf.fx[i];
+    let fdy = grf.fy[i];
+    let rdx = grf.copX[i];
+    let rdy = grf.copY[i];
+    let mDist = 0;
+
+    segments.forEach((seg, k) => {
+      const { mass, radiusOfGyration } = seg.params;
+      const cx = seg.comX[i];
+      const cy = seg.comY[i];
+      const length = Math.hypot(seg.distal.x[i] - seg.proximal.x[i], seg.distal.y[i] - seg.proximal.y[i]);
+      const inertiaAboutCom = mass * (radiusOfGyration * length) ** 2;
+
+      const fpx = mass * seg.ax[i] - fdx;
+      const fpy = mass * (seg.ay[i] + gravity) - fdy;
+      const rpx = seg.proximal.x[i] - cx;
+      const rpy = seg.proximal.y[i] - cy;
+      // An unloaded foot has no COP; skip its (zero) ground reaction moment
+      const distalMoment = fdx === 0 && fdy === 0 ? 0 : (rdx - cx) * fdy - (rdy - cy) * fdx;
+      const mProx = inertiaAboutCom * seg.alpha[i] - mDist - (rpx * fpy - rpy * fpx) - distalMoment;
+
+      moments[k][i] = mProx;
+
+      // Reaction on the next segment up, applied at this proximal joint
+      fdx = -fpx;
+      fdy = -fpy;
+      rdx = seg.proximal.x[i];
+      rdy = seg.proximal.y[i];
+      mDist = -mProx;
+    });
+  }
+
+  // moments[k] acts on segment k (foot, shank, thigh) from the segment above
+  const [footOmega, shankOmega, thighOmega] = segments.map(seg => seg.omega);
+  const joint = (moment: Float64Array, distalOmega: Float64Array, proximalOmega: Float64Array, sign: 1 | -1): JointKinetics => {
+    const angularVelocity = Float64Array.from(distalOmega, (w, i) => w - proximalOmega[i]);
+    return {
+      moment: Float64Array.from(moment, m => m * sign),
+      power: Float64Array.from(moment, (m, i) => m * angularVelocity[i]),
+      angularVelocity
+    };
+  };
+
+  return {
+    ankle: joint(moments[0], footOmega, shankOmega, -1),
+    knee: joint(moments[1], shankOmega, thighOmega, 1),
+    hip: joint(moments[2], thighOmega, pelvisOmega, -1)
+  };
+}
+
+/**
+ * Continuous (unwrapped) angle of the proximal → distal line
+ */
+function segmentAngle(proximal: PlanarTrajectory, distal: PlanarTrajectory): Float64Array {
+  const angle = Float64Array.from(proximal.x, (px, i) => Math.atan2(distal.y[i] - proximal.y[i], distal.x[i] - px));
+  for (let i = 1; i < angle.length; i++) {
+    const delta = angle[i] - angle[i - 1];
+    if (delta > Math.PI) angle[i] -= 2 * Math.PI * Math.round(delta / (2 * Math.PI));
+    else if (delta < -Math.PI) angle[i] += 2 * Math.PI * Math.round(-delta / (2 * Math.PI));
+  }
+  return angle;
+}
+
+/**
+ * Central first derivative on an uneven time base (NaN at the ends)
+ */
+export function firstDerivative(time: Float64Array, values: Float64Array): Float64Array {
+  const out = new Float64Array(values.length).fill(NaN);
+  for (let i = 1; i < values.length - 1; i++) {
+    out[i] = (values[i + 1] - values[i - 1]) / (time[i + 1] - time[i - 1]);
+  }
+  return out;
+}
+
+/**
+ * Central second derivative on an uneven time base (NaN at the ends)
+ */
+export function secondDerivative(time: Float64Array, values: Float64Array): Float64Array {
+  const out = new Float64Array(values.length).fill(NaN);
+  for (let i = 1; i < values.length - 1; i++) {
+    const forward = (values[i + 1] - values[i]) / (time[i + 1] - time[i]);
+    const backward = (values[i] - values[i - 1]) / (time[i] - time[i - 1]);
+    out[i] = (2 * (forward - backward)) / (time[i + 1] - time[i - 1]);
+  }
+  return out;
+}
@@ -0,0 +1,165 @@
+/**
+ * KinematicFilter - Angular velocity and acceleration of generalized coordinates
+ *
+ * Coordinate values arrive once per rendered frame with a variable time step.
+ * Raw finite differences of those values amplify frame jitter and the small
+ * quantization noise of Euler decomposition, so each stage is smoothed with a
+ * first-order low-pass filter whose coefficient is recomputed from the actual
+ * time step:
+ *
+ *   position → low-pass → Δ/Δt → low-pass → velocity → Δ/Δt → low-pass → acceleration
+ *
+ * Differences are unwrapped across ±π so a coordinate crossing the Euler
+ * branch cut does not produce a spurious spike. Peak |velocity| is tracked per
+ * coordinate until explicitly reset.
+ */
+
+/**
+ * Filter settings
+ */
+export interface KinematicFilterOptions {
+  /** Low-pass cutoff frequency (Hz); typical human movement content is below 6–10 Hz */
+  cutoffHz: number;
+  /** Time steps longer than this (seconds) restart differentiation instead of producing a spike */
+  maxDeltaTime: number;
+}
+
+export const DEFAULT_KINEMATIC_FILTER_OPTIONS: KinematicFilterOptions = {
+  cutoffHz: 6,
+  maxDeltaTime: 0.25
+};
+
+/**
+ * Filtered derivatives of one coordinate
+ */
+export interface CoordinateKinematics {
+  /** Angular velocity (rad/s) */
+  velocity: number;
+  /** Angular acceleration (rad/s²) */
+  acceleration: number;
+}
+
+interface ChannelState {
+  position: number;
+  velocity: number;
+  acceleration: number;
+  peakVelocity: number;
+  /** Samples since (re)start; velocity needs 2, acceleration 3 */
+  samples: number;
+}
+
+/** Wrap an angle difference into [-π, π] */
+function unwrap(delta: number): number {
+  return delta - 2 * Math.PI * Math.round(delta / (2 * Math.PI));
+}
+
+/**
+ * Smoothing factor of a discrete first-order low-pass for the given step
+ */
+export function lowPassAlpha(cutoffHz: number, deltaTime: number): number {
+  if (!(cutoffHz > 0)) return 1; // Filtering disabled
+  const rc = 1 / (2 * Math.PI * cutoffHz);
+  return deltaTime / (rc + deltaTime);
+}
+
+/**
+ * Per-coordinate filtered differentiator
+ */
+export class KinematicFilter {
+  private options: KinematicFilterOptions;
+  private channels: Map<string, ChannelState> = new Map();
+
+  constructor(options: Partial<KinematicFilterOptions> = {}) {
+    this.options = { ...DEFAULT_KINEMATIC_FILTER_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed a new sample for every coordinate
+   *
+   * @param values - Coordinate values (radians) keyed by CoordinateDef.id
+   * @param deltaTime - Seconds since the previous sample
+   * @returns Filtered derivatives keyed by coordinate id
+   */
+  update(values: Record<string, number>, deltaTime: number): Record<string, CoordinateKinematics> {
+    const result: Record<string, CoordinateKinematics> = {};
+    const validStep = Number.isFinite(deltaTime) && deltaTime > 0;
+    const restart = validStep && deltaTime > this.options.maxDeltaTime;
+    const alpha = validStep ? lowPassAlpha(this.options.cutoffHz, deltaTime) : 0;
+
+    for (const [id, value] of Object.entries(values)) {
+      if (!Number.isFinite(value)) continue;
+
+      let channel = this.channels.get(id);
+      if (!channel || restart) {
+        channel = {
+          position: value,
+          velocity: 0,
+          acceleration: 0,
+          peakVelocity: channel?.peakVelocity ?? 0,
+          samples: 1
+        };
+        this.channels.set(id, channel);
+      } else if (validStep) {
+        // Filter the unwrapped position so it stays continuous across ±π
+        const position = channel.position + alpha * unwrap(value - channel.position);
+        const rawVelocity = unwrap(position - channel.position) / deltaTime;
+        channel.position = position;
+
+        const velocity = channel.velocity + alpha * (rawVelocity - channel.velocity);
+        if (channel.samples >= 2) {
+          const rawAcceleration = (velocity - channel.velocity) / deltaTime;
+          channel.acceleration += alpha * (rawAcceleration - channel.acceleration);
+        }
+        channel.velocity = velocity;
+        channel.peakVelocity = Math.max(channel.peakVelocity, Math.abs(velocity));
+        channel.samples++;
+      }
+
+      result[id] = { velocity: channel.velocity, acceleration: channel.acceleration };
+    }
+
+    return result;
+  }
+
+  /**
+   * Latest filtered derivatives for a coordinate
+   */
+  get(coordId: string): CoordinateKinematics | null {
+    const channel = this.channels.get(coordId);
+    return channel ? { velocity: channel.velocity, acceleration: channel.acceleration } : null;
+  }
+
+  /**
+   * Largest |velocity| (rad/s) seen for a coordinate since the last peak reset
+   */
+  getPeakVelocity(coordId: string): number {
+    return this.channels.get(coordId)?.peakVelocity ?? 0;
+  }
+
+  /**
+   * Clear peak velocities (e.g. at the start of a new trial)
+   */
+  resetPeaks(): void {
+    this.channels.forEach(channel => {
+      channel.peakVelocity = 0;
+    });
+  }
+
+  /**
+   * Forget all history; the next sample restarts differentiation
+   */
+  reset(): void {
+    this.channels.clear();
+  }
+
+  /**
+   * Change filter settings; history is kept so output stays continuous
+   */
+  setOptions(options: Partial<KinematicFilterOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): KinematicFilterOptions {
+    return { ...this.options };
+  }
+}
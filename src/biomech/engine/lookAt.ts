@@ -0,0 +1,206 @@
+/**
+ * Look-At - Aim the head at a gaze target through the cervical and thoracic spine
+ *
+ * The rotation that turns the gaze direction (a head-local axis) onto the
+ * target is shared along the chain head → cervical → upper thoracic → lower
+ * thoracic. Walking distal to proximal, each joint takes
+ *
+ *   wⱼ / Σₖ₌ⱼ..ₙ wₖ
+ *
+ * of the rotation still missing at that point, so unclamped joints end up
+ * with shares proportional to their weights and whatever a joint cannot take
+ * (range bound, locked coordinate) passes on to the joints below it. The
+ * partial rotation is applied to the joint's child segment, read back as
+ * joint coordinates, and clamped to the coordinate ranges (swing–twist cones
+ * for joints that use them) before it is written through
+ * BiomechState.applyCoordinates. A few passes absorb the shift of the head
+ * caused by rotating the lower joints.
+ */
+
+import * as THREE from 'three';
+import type { BiomechState } from './biomechState';
+import { clampCoordinate } from './qSpaceEngine';
+import { clampCoordinatesSwingTwist, usesSwingTwistLimit } from './swingTwist';
+import type { JointDef } from '../model/types';
+
+/** Joint IDs of the gaze chain, distal → proximal */
+export const LOOK_AT_JOINTS = ['head', 'cervical_spine', 'thoracic_upper_spine', 'thoracic_spine'];
+
+/**
+ * Default share of the gaze rotation per joint: most of it in the head and
+ * neck, a little in the upper back
+ */
+export const DEFAULT_LOOK_AT_WEIGHTS: Record<string, number> = {
+  head: 0.4,
+  cervical_spine: 0.35,
+  thoracic_upper_spine: 0.15,
+  thoracic_spine: 0.1
+};
+
+export interface LookAtOptions {
+  /** Joints sharing the rotation, distal → proximal (default LOOK_AT_JOINTS) */
+  jointIds?: string[];
+  /** Share per joint ID, merged over DEFAULT_LOOK_AT_WEIGHTS; 0 keeps a joint still */
+  weights?: Record<string, number>;
+  /** Segment that carries the eyes (default 'head') */
+  eyeSegment?: string;
+  /** Gaze direction in the eye segment's local frame (default +Z) */
+  forward?: THREE.Vector3;
+  /** Maximum passes over the chain (default 4) */
+  iterations?: number;
+  /** Stop when the gaze is this close to the target direction, radians (default 0.005) */
+  tolerance?: number;
+  /** Clamp to coordinate ranges (default true) */
+  respectLimits?: boolean;
+}
+
+export interface LookAtResult {
+  /** Gaze within tolerance of the target direction */
+  success: boolean;
+  iterations: number;
+  /** Remaining angle between gaze and target direction (rad) */
+  error: number;
+  /** Joints held at a range bound or locked coordinate in the last pass */
+  limitedJoints: string[];
+}
+
+const DEFAULT_FORWARD = new THREE.Vector3(0, 0, 1);
+
+/**
+ * World-space gaze ray of the eye segment
+ *
+ * @returns Origin and unit direction, or null if the segment is not mapped
+ */
+export function getGazeRay(
+  state: BiomechState,
+  eyeSegment: string = 'head',
+  forward: THREE.Vector3 = DEFAULT_FORWARD
+): { origin: THREE.Vector3; direction: THREE.Vector3 } | null {
+  const registry = state.getSegmentRegistry();
+  const origin = registry?.getWorldPosition(eyeSegment);
+  const orientation = registry?.getWorldQuaternion(eyeSegment);
+  if (!origin || !orientation) return null;
+  return { origin: origin.clone(), direction: forward.clone().applyQuaternion(orientation).normalize() };
+}
+
+/**
+ * Turn the head toward a world-space point
+ *
+ * @param state - Calibrated biomech state; the skeleton is posed in place
+ * @param target - Gaze target in world space
+ * @param options - Chain, weights and stopping criteria
+ */
+export function solveLookAt(state: BiomechState, target: THREE.Vector3, options: LookAtOptions = {}): LookAtResult {
+  const {
+    jointIds = LOOK_AT_JOINTS,
+    eyeSegment = 'head',
+    forward = DEFAULT_FORWARD,
+    iterations = 4,
+    tolerance = 0.005,
+    respectLimits = true
+  } = options;
+  const weights = { ...DEFAULT_LOOK_AT_WEIGHTS, ...options.weights };
+
+  const joints = jointIds
+    .map(id => state.getJointDef(id))
+    .filter((joint): joint is JointDef => joint !== undefined && (weights[joint.id] ?? 0) > 0);
+
+  const missing = (): THREE.Quaternion | null => {
+    const ray = getGazeRay(state, eyeSegment, forward);
+    if (!ray) return null;
+    const wanted = target.clone().sub(ray.origin);
+    if (wanted.lengthSq() < 1e-12) return new THREE.Quaternion();
+    return new THREE.Quaternion().setFromUnitVectors(ray.direction, wanted.normalize());
+  };
+
+  let rotation = missing();
+  if (!state.isCalibrated() || !rotation) {
+    return { success: false, iterations: 0, error: Math.PI, limitedJoints: [] };
+  }
+
+  let iteration = 0;
+  let limited = new Set<string>();
+  while (iteration < iterations && angleOf(rotation) > tolerance) {
+    iteration++;
+    limited = new Set<string>();
+
+    let remainingWeight = joints.reduce((sum, joint) => sum + weights[joint.id], 0);
+    for (const joint of joints) {
+      const share = weights[joint.id] / remainingWeight;
+      remainingWeight -= weights[joint.id];
+      const step = new THREE.Quaternion().slerp(rotation, share);
+      if (rotateJoint(state, joint, step, respectLimits)) limited.add(joint.id);
+      rotation = missing() ?? rotation;
+    }
+  }
+
+  const error = angleOf(rotation);
+  return { success: error <= tolerance, iterations: iteration, error, limitedJoints: [...limited] };
+}
+
+/**
+ * Rotation angle of a unit quaternion (rad, 0…π)
+ */
+function angleOf(rotation: THREE.Quaternion): number {
+  return 2 * Math.acos(THREE.MathUtils.clamp(Math.abs(rotation.w), 0, 1));
+}
+
+/**
+ * Apply a world-space rotation to a joint's child segment as coordinates
+ *
+ * @returns True if a range bound or locked coordinate cut the rotation
+ */
+function rotateJoint(state: BiomechState, joint: JointDef, rotation: THREE.Quaternion, respectLimits: boolean): boolean {
+  const bone = state.getSegmentRegistry()?.getBone(joint.childSegment);
+  const before = readCoordinates(state, joint);
+  if (!bone || !before) return false;
+
+  const parentWorld = new THREE.Quaternion();
+  bone.parent?.getWorldQuaternion(parentWorld);
+  bone.quaternion.premultiply(parentWorld.clone().invert().multiply(rotation).multiply(parentWorld));
+  bone.updateMatrixWorld(true);
+
+  // Coordinates outside their range read back clamped and flagged
+  const rotated = readCoordinates(state, joint);
+  if (!rotated) return false;
+
+  // Locked and coupler-driven coordinates keep their values
+  let next = [...rotated.values] as [number, number, number];
+  let limited = rotated.clamped;
+  for (const coord of joint.coordinates) {
+    if (!coord.locked && !state.getCoupler(coord.id)) continue;
+    limited ||= Math.abs(next[coord.index] - before.values[coord.index]) > 1e-9;
+    next[coord.index] = before.values[coord.index];
+  }
+  const unclamped = [...next];
+  if (respectLimits && usesSwingTwistLimit(joint)) {
+    next = clampCoordinatesSwingTwist(joint, next, coord => state.getEffectiveRange(coord));
+  } else if (respectLimits) {
+    for (const coord of joint.coordinates) {
+      const range = state.getEffectiveRange(coord);
+      next[coord.index] = clampCoordinate(next[coord.index], range.min, range.max);
+    }
+  }
+
+  state.applyCoordinates(joint.id, next, respectLimits);
+  return limited || next.some((value, index) => Math.abs(value - unclamped[index]) > 1e-9);
+}
+
+/**
+ * Live coordinates of a joint as [q0, q1, q2], and whether any was clamped
+ */
+function readCoordinates(
+  state: BiomechState,
+  joint: JointDef
+): { values: [number, number, number]; clamped: boolean } | null {
+  const jointState = state.getJointState(joint.id);
+  if (!jointState) return null;
+  const values: [number, number, number] = [0, 0, 0];
+  let clamped = false;
+  for (const coord of joint.coordinates) {
+    const coordState = jointState.coordinates[coord.id];
+    values[coord.index] = coordState?.value ?? 0;
+    clamped ||= coordState?.clamped ?? false;
+  }
+  return { values, clamped };
+}
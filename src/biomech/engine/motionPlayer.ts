@@ -0,0 +1,206 @@
+/**
+ * MotionPlayer - Drives the skeleton from an imported coordinate time series
+ *
+ * Plays a MotionRecording (e.g. an OpenSim IK .mot file) back on the rig by
+ * interpolating coordinate values at the playhead and writing them through
+ * BiomechState.applyCoordinates, which in turn uses applyCoordinatesToSkeleton.
+ *
+ * The transport mirrors the viewer's PlaybackAPI (getDuration, getCurrentTime,
+ * setSpeed, getSpeed, seek) plus play/pause, so imported motion can be
+ * controlled exactly like a GLB clip.
+ */
+
+import { DEFAULT_BIOMECH_MODEL, getModelJoints } from '../model/defaultModel';
+import type { BiomechModel, JointDef } from '../model/types';
+import type { MotionRecording } from './motionRecorder';
+import type { BiomechState } from './biomechState';
+
+export class MotionPlayer {
+  private readonly recording: MotionRecording;
+  private readonly startTime: number;
+  private readonly columns: Set<string>;
+  /** Driven joints of the model last posed, resolved on first use */
+  private drivenJoints: { model: BiomechModel; joints: JointDef[] } | null = null;
+  private currentTime: number;
+  private speed = 1;
+  private playing = true;
+  private loop: boolean;
+
+  /**
+   * @param recording - Coordinate time series (radians, anatomical sign convention)
+   * @param loop - Wrap to the start when reaching the end (default: true)
+   */
+  constructor(recording: MotionRecording, loop: boolean = true) {
+    this.recording = recording;
+    this.startTime = recording.frameCount > 0 ? recording.time[0] : 0;
+    this.currentTime = this.startTime;
+    this.loop = loop;
+    this.columns = new Set(recording.coordinateIds);
+  }
+
+  getRecording(): MotionRecording {
+    return this.recording;
+  }
+
+  /**
+   * Joints of a model that have at least one coordinate column in the recording
+   *
+   * @param model - Model the recording is played on (default: built-in model)
+   */
+  getDrivenJointIds(model: BiomechModel = DEFAULT_BIOMECH_MODEL): string[] {
+    return this.getDrivenJoints(model).map(joint => joint.id);
+  }
+
+  private getDrivenJoints(model: BiomechModel): JointDef[] {
+    if (this.drivenJoints?.model !== model) {
+      const joints = getModelJoints(model).filter(joint =>
+        joint.coordinates.some(coord => this.columns.has(coord.id))
+      );
+      this.drivenJoints = { model, joints };
+    }
+    return this.drivenJoints.joints;
+  }
+
+  /**
+   * Duration in seconds (time column span)
+   */
+  getDuration(): number {
+    const { frameCount, time } = this.recording;
+    return frameCount > 0 ? time[frameCount - 1] - this.startTime : 0;
+  }
+
+  /**
+   * Playhead position in seconds from the start of the recording
+   */
+  getCurrentTime(): number {
+    return this.currentTime - this.startTime;
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Move the playhead (seconds from the start of the recording)
+   */
+  seek(t: number): void {
+    const duration = this.getDuration();
+    this.currentTime = this.startTime + Math.max(0, Math.min(duration, t));
+  }
+
+  play(): void {
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  /**
+   * Advance the playhead by deltaTime × speed (no-op while paused)
+   *
+   * @param deltaTime - Frame time in seconds
+   */
+  advance(deltaTime: number): void {
+    if (!this.playing) return;
+    const duration = this.getDuration();
+    if (duration <= 0) return;
+
+    let t = this.getCurrentTime() + deltaTime * this.speed;
+    if (t > duration) {
+      if (this.loop) {
+        t %= duration;
+      } else {
+        t = duration;
+        this.playing = false;
+      }
+    } else if (t < 0) {
+      t = this.loop ? duration + (t % duration) : 0;
+    }
+    this.currentTime = this.startTime + t;
+  }
+
+  /**
+   * Interpolate every coordinate column at a time (seconds from recording start)
+   * Missing samples fall back to the nearest valid neighbour.
+   */
+  sample(t: number = this.getCurrentTime()): Record<string, number> {
+    const { frameCount, time, values, coordinateIds } = this.recording;
+    const out: Record<string, number> = {};
+    if (frameCount === 0) return out;
+
+    const absolute = this.startTime + t;
+    let hi = upperBound(time, frameCount, absolute);
+    if (hi <= 0) hi = 1;
+    if (hi >= frameCount) hi = frameCount - 1;
+    const lo = Math.max(0, hi - 1);
+
+    const span = time[hi] - time[lo];
+    const alpha = span > 0 ? Math.max(0, Math.min(1, (absolute - time[lo]) / span)) : 0;
+
+    for (const id of coordinateIds) {
+      const column = values[id];
+      const a = column[lo];
+      const b = column[hi];
+      if (Number.isFinite(a) && Number.isFinite(b)) {
+        out[id] = a + (b - a) * alpha;
+      } else if (Number.isFinite(a)) {
+        out[id] = a;
+      } else if (Number.isFinite(b)) {
+        out[id] = b;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Pose the skeleton at the current playhead
+   * Columns are matched against the joints of the state's model.
+   * Coordinates absent from the file are held at neutral (0) for driven joints;
+   * joints without any column are left untouched.
+   *
+   * @returns Number of joints posed
+   */
+  applyTo(biomechState: BiomechState): number {
+    if (!biomechState.isCalibrated()) return 0;
+    const frame = this.sample();
+    let applied = 0;
+
+    for (const joint of this.getDrivenJoints(biomechState.getModel())) {
+      const coords: [number, number, number] = [0, 0, 0];
+      joint.coordinates.forEach(coord => {
+        const value = frame[coord.id];
+        if (value !== undefined) coords[coord.index] = value;
+      });
+      biomechState.applyCoordinates(joint.id, coords);
+      applied++;
+    }
+    return applied;
+  }
+}
+
+/**
+ * Index of the first sample strictly greater than t (binary search)
+ */
+function upperBound(time: Float64Array, count: number, t: number): number {
+  let lo = 0;
+  let hi = count;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (time[mid] <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
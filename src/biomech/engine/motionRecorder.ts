@@ -0,0 +1,285 @@
+/**
+ * MotionRecorder - Time-series capture of generalized coordinates
+ *
+ * Samples the ModelState produced by BiomechState.update() during clip playback
+ * and stores it in a columnar buffer (one Float64Array per coordinate), which
+ * keeps per-frame recording allocation-free and makes whole-trial analysis
+ * (export, gait events, filtering) a matter of walking contiguous arrays.
+ *
+ * Each frame stores:
+ * - time: seconds since recording started (wall clock)
+ * - clipTime: animation mixer time of the active clip (seconds)
+ * - one value per CoordinateDef.id (radians, NaN if unavailable that frame)
+ * - optional marker trajectories: world positions of selected segments (meters)
+ *
+ * Frames corrected by ground contact (locked feet, floor) tag the recording,
+ * since their coordinates are no longer the clip's own motion.
+ */
+
+import type * as THREE from 'three';
+import { DEFAULT_BIOMECH_MODEL, getModelJoints } from '../model/defaultModel';
+import type { BiomechModel, ModelState } from '../model/types';
+
+const INITIAL_CAPACITY = 512;
+
+/**
+ * Segments whose world positions are captured alongside coordinates.
+ * Pelvis and foot/toe origins feed gait event detection; lumbar and the
+ * hip/knee joint centers (femur/tibia origins) feed inverse dynamics.
+ */
+export const DEFAULT_MARKER_SEGMENTS = [
+  'pelvis',
+  'lumbar',
+  'femur_left',
+  'tibia_left',
+  'foot_left',
+  'toes_left',
+  'femur_right',
+  'tibia_right',
+  'foot_right',
+  'toes_right'
+];
+
+/**
+ * World-space trajectory of one marker (meters, NaN when unavailable)
+ */
+export interface MarkerTrajectory {
+  x: Float64Array;
+  y: Float64Array;
+  z: Float64Array;
+}
+
+/**
+ * Immutable snapshot of a recording, trimmed to the captured frame count
+ */
+export interface MotionRecording {
+  /** Clip (animation id) active when recording started */
+  source?: string;
+
+  /** Coordinate ids in column order */
+  coordinateIds: string[];
+
+  /** Number of captured frames */
+  frameCount: number;
+
+  /** Seconds since recording start */
+  time: Float64Array;
+
+  /** Mixer clip time in seconds (wraps when the clip loops) */
+  clipTime: Float64Array;
+
+  /** Coordinate columns keyed by CoordinateDef.id (radians) */
+  values: Record<string, Float64Array>;
+
+  /** Marker trajectories keyed by segment id (recorder output only) */
+  markers?: Record<string, MarkerTrajectory>;
+
+  /** True if ground contact corrected any captured frame (recorder output only) */
+  groundContact?: boolean;
+}
+
+/**
+ * Get the ids of every coordinate in a model, in joint order
+ *
+ * @param model - Model to list (default: built-in model)
+ */
+export function getAllCoordinateIds(model: BiomechModel = DEFAULT_BIOMECH_MODEL): string[] {
+  return getModelJoints(model).flatMap(joint => joint.coordinates.map(coord => coord.id));
+}
+
+/**
+ * Columnar recorder for ModelState time series
+ */
+export class MotionRecorder {
+  private readonly coordinateIds: string[];
+  private readonly markerIds: string[];
+  private capacity = INITIAL_CAPACITY;
+  private frameCount = 0;
+  private recording = false;
+  private source: string | undefined;
+  private groundContact = false;
+  private startTimestamp = 0;
+  private lastTimestamp = -1;
+  private time = new Float64Array(INITIAL_CAPACITY);
+  private clipTime = new Float64Array(INITIAL_CAPACITY);
+  private columns: Map<string, Float64Array> = new Map();
+  private markerColumns: Map<string, MarkerTrajectory> = new Map();
+
+  /**
+   * @param coordinateIds - Coordinates to capture (defaults to every coordinate in JOINTS)
+   * @param markerIds - Segment ids whose world positions are captured
+   */
+  constructor(
+    coordinateIds: string[] = getAllCoordinateIds(),
+    markerIds: string[] = DEFAULT_MARKER_SEGMENTS
+  ) {
+    this.coordinateIds = [...coordinateIds];
+    this.markerIds = [...markerIds];
+    this.allocate(INITIAL_CAPACITY);
+  }
+
+  /**
+   * Start a new recording, discarding any previously captured frames
+   *
+   * @param source - Optional clip id to tag the recording with
+   */
+  start(source?: string): void {
+    this.clear();
+    this.source = source;
+    this.recording = true;
+  }
+
+  /**
+   * Stop capturing; captured frames are kept until clear() or start()
+   */
+  stop(): void {
+    this.recording = false;
+  }
+
+  /**
+   * Discard all captured frames (also stops an active recording)
+   */
+  clear(): void {
+    this.recording = false;
+    this.frameCount = 0;
+    this.source = undefined;
+    this.groundContact = false;
+    this.startTimestamp = 0;
+    this.lastTimestamp = -1;
+    this.allocate(INITIAL_CAPACITY);
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  /**
+   * Recorded wall-clock duration in seconds
+   */
+  getDuration(): number {
+    return this.frameCount > 0 ? this.time[this.frameCount - 1] : 0;
+  }
+
+  getCoordinateIds(): string[] {
+    return [...this.coordinateIds];
+  }
+
+  getMarkerIds(): string[] {
+    return [...this.markerIds];
+  }
+
+  /**
+   * Capture one frame. No-op when not recording or when the model state
+   * has not advanced since the previous frame.
+   *
+   * @param state - Current model state from BiomechState.getModelState()
+   * @param clipTime - Current mixer time of the active clip (seconds)
+   * @param markers - World positions keyed by segment id (see getMarkerIds())
+   * @param groundContact - Whether ground contact corrected this frame's pose
+   * @returns True if a frame was stored
+   */
+  record(
+    state: ModelState,
+    clipTime: number,
+    markers?: Record<string, THREE.Vector3>,
+    groundContact = false
+  ): boolean {
+    if (!this.recording) return false;
+    if (state.timestamp === this.lastTimestamp) return false;
+
+    if (this.frameCount === 0) {
+      this.startTimestamp = state.timestamp;
+    }
+    if (this.frameCount >= this.capacity) {
+      this.grow();
+    }
+
+    const i = this.frameCount;
+    this.time[i] = (state.timestamp - this.startTimestamp) / 1000;
+    this.clipTime[i] = clipTime;
+    for (const id of this.coordinateIds) {
+      const value = state.q[id];
+      this.columns.get(id)![i] = typeof value === 'number' ? value : NaN;
+    }
+    for (const id of this.markerIds) {
+      const position = markers?.[id];
+      const column = this.markerColumns.get(id)!;
+      column.x[i] = position ? position.x : NaN;
+      column.y[i] = position ? position.y : NaN;
+      column.z[i] = position ? position.z : NaN;
+    }
+
+    if (groundContact) this.groundContact = true;
+    this.lastTimestamp = state.timestamp;
+    this.frameCount++;
+    return true;
+  }
+
+  /**
+   * Get a trimmed copy of the captured data
+   */
+  getRecording(): MotionRecording {
+    const n = this.frameCount;
+    const values: Record<string, Float64Array> = {};
+    for (const id of this.coordinateIds) {
+      values[id] = this.columns.get(id)!.slice(0, n);
+    }
+    const markers: Record<string, MarkerTrajectory> = {};
+    for (const id of this.markerIds) {
+      const column = this.markerColumns.get(id)!;
+      markers[id] = { x: column.x.slice(0, n), y: column.y.slice(0, n), z: column.z.slice(0, n) };
+    }
+
+    return {
+      source: this.source,
+      coordinateIds: [...this.coordinateIds],
+      frameCount: n,
+      time: this.time.slice(0, n),
+      clipTime: this.clipTime.slice(0, n),
+      values,
+      markers,
+      groundContact: this.groundContact
+    };
+  }
+
+  private allocate(capacity: number): void {
+    this.capacity = capacity;
+    this.time = new Float64Array(capacity);
+    this.clipTime = new Float64Array(capacity);
+    this.columns.clear();
+    for (const id of this.coordinateIds) {
+      this.columns.set(id, new Float64Array(capacity));
+    }
+    this.markerColumns.clear();
+    for (const id of this.markerIds) {
+      this.markerColumns.set(id, {
+        x: new Float64Array(capacity),
+        y: new Float64Array(capacity),
+        z: new Float64Array(capacity)
+      });
+    }
+  }
+
+  private grow(): void {
+    const next = this.capacity * 2;
+    const resize = (source: Float64Array) => {
+      const target = new Float64Array(next);
+      target.set(source);
+      return target;
+    };
+
+    this.time = resize(this.time);
+    this.clipTime = resize(this.clipTime);
+    for (const [id, column] of this.columns) {
+      this.columns.set(id, resize(column));
+    }
+    for (const [id, column] of this.markerColumns) {
+      this.markerColumns.set(id, { x: resize(column.x), y: resize(column.y), z: resize(column.z) });
+    }
+    this.capacity = next;
+  }
+}
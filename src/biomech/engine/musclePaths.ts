@@ -0,0 +1,207 @@
+/**
+ * Muscle Paths - Musculotendon lengths and moment arms
+ *
+ * Evaluates the straight-line paths of model/muscles on the posed skeleton.
+ * A path point fixed to segment S with neutral-frame offset d sits at
+ *
+ *   p = o_S + q_S · q_S,neutral⁻¹ · d
+ *
+ * (o_S, q_S: current world origin and orientation of S), so offsets are
+ * independent of the rig's bone axes. Neutral frames come from
+ * BiomechState calibration, which also defines the neutral length L₀ and
+ * strain = L / L₀ − 1.
+ *
+ * Moment arms follow the OpenSim convention r = −∂L/∂q. A coordinate of a
+ * joint turns every segment distal to the joint about its instantaneous axis
+ * through the joint center; for the body-fixed Euler sequence of the joint
+ * that axis is q_parent · q_neutral · R₁ ⋯ Rₖ₋₁ · êₖ (rotations preceding
+ * coordinate k in the sequence). Only path edges with one endpoint on each
+ * side of the joint change length:
+ *
+ *   ∂L/∂q = Σ û · (ω̂ × (p_distal − c))
+ *
+ * A joint is spanned when the path has points on both sides of it.
+ * Coupled coordinates are treated as independent here.
+ */
+
+import * as THREE from 'three';
+import type { BiomechState } from './biomechState';
+import { getCoordinateAxis } from './qSpaceEngine';
+import type { BiomechModel, JointDef } from '../model/types';
+import { MUSCLES, type MuscleDef } from '../model/muscles';
+
+/**
+ * Muscle path evaluated in one pose
+ */
+export interface MusclePathState {
+  muscleId: string;
+  /** World-space path points, origin → insertion */
+  points: THREE.Vector3[];
+  /** Musculotendon length (m) */
+  length: number;
+  /** Length in the calibrated neutral pose (m) */
+  neutralLength: number;
+  /** length / neutralLength − 1 */
+  strain: number;
+  /** Moment arm (m) by coordinate ID for every spanned joint */
+  momentArms: Record<string, number>;
+}
+
+/** Segments moved by each joint (its child and everything distal), per model */
+const distalSegmentCache = new WeakMap<BiomechModel, Map<string, Set<string>>>();
+
+/**
+ * Segments moved by a joint: its child segment and all segments below it
+ */
+export function getDistalSegments(model: BiomechModel, jointId: string): Set<string> {
+  let byJoint = distalSegmentCache.get(model);
+  if (!byJoint) {
+    byJoint = new Map();
+    distalSegmentCache.set(model, byJoint);
+  }
+  const cached = byJoint.get(jointId);
+  if (cached) return cached;
+
+  const distal = new Set<string>();
+  const joint = model.joints[jointId];
+  if (joint) {
+    const stack = [joint.childSegment];
+    while (stack.length > 0) {
+      const segmentId = stack.pop()!;
+      if (distal.has(segmentId)) continue;
+      distal.add(segmentId);
+      for (const child of Object.values(model.joints)) {
+        if (child.parentSegment === segmentId) stack.push(child.childSegment);
+      }
+    }
+  }
+  byJoint.set(jointId, distal);
+  return distal;
+}
+
+/**
+ * Joints the muscle crosses (path points on both sides)
+ */
+export function getSpannedJoints(model: BiomechModel, muscle: MuscleDef): JointDef[] {
+  return Object.values(model.joints).filter(joint => {
+    const distal = getDistalSegments(model, joint.id);
+    const moving = muscle.points.filter(point => distal.has(point.segment)).length;
+    return moving > 0 && moving < muscle.points.length;
+  });
+}
+
+/**
+ * Muscles whose segments all exist in the model
+ */
+export function getModelMuscles(model: BiomechModel, muscles: MuscleDef[] = Object.values(MUSCLES)): MuscleDef[] {
+  return muscles.filter(muscle =>
+    muscle.points.every(point => model.segments[point.segment] && model.segments[point.landmark ?? point.segment])
+  );
+}
+
+/**
+ * Total length of a polyline
+ */
+export function pathLength(points: THREE.Vector3[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += points[i].distanceTo(points[i - 1]);
+  }
+  return length;
+}
+
+/**
+ * Rate of change of path length when the `moving` points rotate about an axis
+ *
+ * @param points - Path points
+ * @param moving - Per point: rotates with the joint
+ * @param axis - Unit rotation axis (world)
+ * @param center - Point on the axis (joint center)
+ * @returns dL/dθ (m/rad)
+ */
+export function pathLengthRate(
+  points: THREE.Vector3[],
+  moving: boolean[],
+  axis: THREE.Vector3,
+  center: THREE.Vector3
+): number {
+  const velocity = (point: THREE.Vector3) =>
+    new THREE.Vector3().crossVectors(axis, new THREE.Vector3().subVectors(point, center));
+
+  let rate = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (moving[i] === moving[i - 1]) continue;
+    const edge = new THREE.Vector3().subVectors(points[i], points[i - 1]);
+    const edgeLength = edge.length();
+    if (edgeLength === 0) continue;
+    const v = moving[i] ? velocity(points[i]) : velocity(points[i - 1]).negate();
+    rate += edge.dot(v) / edgeLength;
+  }
+  return rate;
+}
+
+/**
+ * Evaluate muscle paths in the current pose
+ *
+ * Muscles with a segment that is not calibrated in the state are skipped.
+ *
+ * @param state - Calibrated biomech state
+ * @param muscles - Muscles to evaluate (default: built-in muscles present in the model)
+ */
+export function computeMusclePaths(state: BiomechState, muscles?: MuscleDef[]): MusclePathState[] {
+  const registry = state.getSegmentRegistry();
+  if (!registry || !state.isCalibrated()) return [];
+
+  const model = state.getModel();
+  const results: MusclePathState[] = [];
+
+  for (const muscle of muscles ?? getModelMuscles(model)) {
+    const points: THREE.Vector3[] = [];
+    const neutralPoints: THREE.Vector3[] = [];
+
+    for (const point of muscle.points) {
+      const neutral = state.getNeutralSegmentFrame(point.segment);
+      const landmark = state.getNeutralSegmentFrame(point.landmark ?? point.segment);
+      if (!neutral || !landmark) break;
+      const position = registry.getWorldPosition(point.segment);
+      const quaternion = registry.getWorldQuaternion(point.segment);
+      if (!position || !quaternion) break;
+
+      const neutralPoint = landmark.position.clone().add(new THREE.Vector3(...point.offset));
+      const offset = neutralPoint.clone().sub(neutral.position);
+      // Current orientation relative to neutral carries the anatomical offset along
+      const rotation = quaternion.multiply(neutral.quaternion.invert());
+      points.push(position.add(offset.applyQuaternion(rotation)));
+      neutralPoints.push(neutralPoint);
+    }
+    if (points.length !== muscle.points.length) continue;
+
+    const momentArms: Record<string, number> = {};
+    for (const joint of getSpannedJoints(model, muscle)) {
+      const jointState = state.getJointState(joint.id);
+      const parentWorld = registry.getWorldQuaternion(joint.parentSegment);
+      const center = registry.getWorldPosition(joint.childSegment);
+      if (!jointState || !parentWorld || !center) continue;
+
+      const distal = getDistalSegments(model, joint.id);
+      const moving = muscle.points.map(point => distal.has(point.segment));
+      for (const coord of joint.coordinates) {
+        const axis = getCoordinateAxis(joint, coord, parentWorld, jointState.q_neutral, jointState.q_delta);
+        momentArms[coord.id] = -pathLengthRate(points, moving, axis, center);
+      }
+    }
+
+    const length = pathLength(points);
+    const neutralLength = pathLength(neutralPoints);
+    results.push({
+      muscleId: muscle.id,
+      points,
+      length,
+      neutralLength,
+      strain: neutralLength > 0 ? length / neutralLength - 1 : 0,
+      momentArms
+    });
+  }
+
+  return results;
+}
@@ -16,8 +16,9 @@
  */
 
 import * as THREE from 'three';
-import { JointDef, JointState, CoordinateState } from '../model/types';
+import { CoordinateDef, JointDef, JointState, CoordinateState } from '../model/types';
 import { SegmentRegistry } from './segmentRegistry';
+import { getCoordinateRange } from '../model/romProfiles';
 
 /**
  * Compute relative quaternion between parent and child segments
@@ -164,16 +165,17 @@ export function computeJointState(
       value = -value;
     }
     
-    // Apply ROM clamping if enabled
+    // Apply ROM clamping if enabled (swing–twist joints are limited as a whole, not per coordinate)
     let clampedValue = value;
     let wasClamped = false;
     
-    if (coordDef.clamped) {
-      if (value < coordDef.range.min) {
-        clampedValue = coordDef.range.min;
+    if (coordDef.clamped && joint.limitModel !== 'swing_twist') {
+      const range = getCoordinateRange(coordDef);
+      if (value < range.min) {
+        clampedValue = range.min;
         wasClamped = true;
-      } else if (value > coordDef.range.max) {
-        clampedValue = coordDef.range.max;
+      } else if (value > range.max) {
+        clampedValue = range.max;
         wasClamped = true;
       }
     }
@@ -256,6 +258,46 @@ export function applyCoordinatesToSkeleton(
   return true;
 }
 
+const EULER_AXES: Record<'X' | 'Y' | 'Z', THREE.Vector3> = {
+  X: new THREE.Vector3(1, 0, 0),
+  Y: new THREE.Vector3(0, 1, 0),
+  Z: new THREE.Vector3(0, 0, 1)
+};
+const EULER_COMPONENTS = ['X', 'Y', 'Z'] as const;
+
+/**
+ * World-space instantaneous rotation axis of a coordinate
+ * (∂ orientation / ∂q for the joint's body-fixed Euler sequence)
+ *
+ * @param joint - Joint definition
+ * @param coord - One of the joint's coordinates
+ * @param parentWorld - Current world orientation of the parent segment
+ * @param qNeutral - Joint neutral quaternion
+ * @param qDelta - Current deviation from neutral
+ */
+export function getCoordinateAxis(
+  joint: JointDef,
+  coord: CoordinateDef,
+  parentWorld: THREE.Quaternion,
+  qNeutral: THREE.Quaternion,
+  qDelta: THREE.Quaternion
+): THREE.Vector3 {
+  const euler = new THREE.Euler().setFromQuaternion(qDelta, joint.eulerOrder);
+  const component = EULER_COMPONENTS[coord.index];
+  const angles = { X: euler.x, Y: euler.y, Z: euler.z };
+
+  // Rotations that precede this coordinate in the body-fixed sequence
+  const frame = parentWorld.clone().multiply(qNeutral);
+  for (const letter of joint.eulerOrder) {
+    if (letter === component) break;
+    const key = letter as keyof typeof EULER_AXES;
+    frame.multiply(new THREE.Quaternion().setFromAxisAngle(EULER_AXES[key], angles[key]));
+  }
+
+  const axis = EULER_AXES[component].clone().applyQuaternion(frame);
+  return coord.invert ? axis.negate() : axis;
+}
+
 /**
  * Clamp coordinate value to range
  */
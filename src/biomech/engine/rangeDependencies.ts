@@ -0,0 +1,87 @@
+/**
+ * Coordinate Range Dependencies
+ *
+ * Evaluates CoordinateRangeDependencyDef functions: bounds of a coordinate
+ * as a lookup table or function of other coordinates. The effective range
+ * is the coordinate's range under the active ROM profile intersected with
+ * every dependency's bounds, so a dependency can only tighten a limit.
+ */
+
+import { getCoordinateRange, type CoordinateRange } from '../model/romProfiles';
+import type { CoordinateDef, CoordinateRangeDependencyDef, RangeFunction } from '../model/types';
+
+/**
+ * Piecewise-linear interpolation, held at the end values outside [x₀, xₙ]
+ */
+function interpolate(x: number[], y: number[], value: number): number {
+  const n = Math.min(x.length, y.length);
+  if (n === 0) return NaN;
+  if (value <= x[0]) return y[0];
+  if (value >= x[n - 1]) return y[n - 1];
+
+  let hi = 1;
+  while (x[hi] < value) hi++;
+  const lo = hi - 1;
+  const t = (value - x[lo]) / (x[hi] - x[lo]);
+  return y[lo] + t * (y[hi] - y[lo]);
+}
+
+/**
+ * Evaluate a range function
+ *
+ * @param fn - Range function
+ * @param inputs - Independent coordinate values (radians), in dependency order
+ * @returns Bounds (radians); omitted bounds are not limited
+ */
+export function evaluateRangeFunction(fn: RangeFunction, inputs: number[]): Partial<CoordinateRange> {
+  if (fn.type === 'function') {
+    return fn.evaluate(inputs);
+  }
+  const value = inputs[0] ?? 0;
+  const bounds: Partial<CoordinateRange> = {};
+  if (fn.min) bounds.min = interpolate(fn.x, fn.min, value);
+  if (fn.max) bounds.max = interpolate(fn.x, fn.max, value);
+  return bounds;
+}
+
+/**
+ * Effective range of a coordinate given the current values of others
+ *
+ * Dependencies with an unavailable independent coordinate are ignored.
+ * Crossing bounds collapse the range to a single value inside the
+ * coordinate's own range.
+ *
+ * @param coord - Coordinate definition
+ * @param dependencies - Range dependencies of the model (all coordinates)
+ * @param getValue - Current value of a coordinate by ID (null if unavailable)
+ */
+export function getDependentRange(
+  coord: CoordinateDef,
+  dependencies: CoordinateRangeDependencyDef[],
+  getValue: (coordId: string) => number | null
+): CoordinateRange {
+  const own = getCoordinateRange(coord);
+  const range = { ...own };
+
+  for (const dependency of dependencies) {
+    if (dependency.coordinate !== coord.id) continue;
+
+    const inputs: number[] = [];
+    for (const coordId of dependency.independentCoordinates) {
+      const value = getValue(coordId);
+      if (value === null) break;
+      inputs.push(value);
+    }
+    if (inputs.length !== dependency.independentCoordinates.length) continue;
+
+    const bounds = evaluateRangeFunction(dependency.function, inputs);
+    if (bounds.min !== undefined && Number.isFinite(bounds.min)) range.min = Math.max(range.min, bounds.min);
+    if (bounds.max !== undefined && Number.isFinite(bounds.max)) range.max = Math.min(range.max, bounds.max);
+  }
+
+  if (range.min > range.max) {
+    const collapsed = Math.min(Math.max(range.max, own.min), own.max);
+    return { min: collapsed, max: collapsed };
+  }
+  return range;
+}
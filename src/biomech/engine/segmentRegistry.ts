@@ -4,13 +4,13 @@
  * Runtime service for resolving anatomical segment IDs to actual THREE.Bone instances
  * or virtual frames in the scene graph.
  * 
- * This bridges the gap between the anatomical model (segments.ts) and the
- * Mixamo rig structure in the scene.
+ * This bridges the gap between the anatomical model (segment definitions of a
+ * BiomechModel, by default segments.ts) and the Mixamo rig structure in the scene.
  */
 
 import * as THREE from 'three';
-import { SegmentDef } from '../model/types';
-import { getSegment } from '../model/segments';
+import { BiomechModel, SegmentDef } from '../model/types';
+import { DEFAULT_BIOMECH_MODEL, getModelSegments } from '../model/defaultModel';
 
 /**
  * Virtual segment frame (for segments not represented by bones)
@@ -41,14 +41,27 @@ export type ResolvedSegment = {
  */
 export class SegmentRegistry {
   private skeleton: THREE.Skeleton;
+  private model: BiomechModel;
   private boneCache: Map<string, THREE.Bone> = new Map();
   private virtualFrames: Map<string, VirtualFrame> = new Map();
 
-  constructor(skeleton: THREE.Skeleton) {
+  /**
+   * @param skeleton - Rig whose bones back the model's mixamo segments
+   * @param model - Model supplying segment definitions (default: built-in model)
+   */
+  constructor(skeleton: THREE.Skeleton, model: BiomechModel = DEFAULT_BIOMECH_MODEL) {
     this.skeleton = skeleton;
+    this.model = model;
     this.buildBoneCache();
   }
 
+  /**
+   * Model this registry resolves segments against
+   */
+  getModel(): BiomechModel {
+    return this.model;
+  }
+
   /**
    * Build lookup cache for fast bone access by name
    */
@@ -63,7 +76,7 @@ export class SegmentRegistry {
    * Resolve segment ID to runtime representation
    */
   resolve(segmentId: string): ResolvedSegment | null {
-    const def = getSegment(segmentId);
+    const def = this.model.segments[segmentId];
     if (!def) {
       console.warn(`⚠️ Unknown segment ID: ${segmentId}`);
       return null;
@@ -184,13 +197,10 @@ export class SegmentRegistry {
     const segments: string[] = [];
     
     // Add all mixamo segments that have bones
-    this.boneCache.forEach((_bone, name) => {
-      // Find segment def that references this bone
-      const segmentId = Object.keys(import('../model/segments')).find(id => {
-        const seg = getSegment(id);
-        return seg?.boneName === name;
-      });
-      if (segmentId) segments.push(segmentId);
+    getModelSegments(this.model).forEach(seg => {
+      if (seg.source === 'mixamo' && seg.boneName && this.boneCache.has(seg.boneName)) {
+        segments.push(seg.id);
+      }
     });
 
     // Add virtual segments
@@ -214,7 +224,7 @@ export class SegmentRegistry {
 
     console.log('\nVirtual Frames:');
     this.virtualFrames.forEach((_frame, segmentId) => {
-      const def = getSegment(segmentId);
+      const def = this.model.segments[segmentId];
       console.log(`  ${segmentId} (${def?.displayName || 'unknown'})`);
     });
 
@@ -0,0 +1,299 @@
+/**
+ * Swing–Twist Joint Limits
+ *
+ * Alternative to clamping each Euler coordinate of a ball joint to its own
+ * range (a rectangular box in coordinate space, which allows e.g. full
+ * flexion and full abduction at once). The deviation from neutral is split
+ *
+ *   q_Δ = q_swing · q_twist
+ *
+ * where q_twist turns about the child's long axis t and q_swing turns t to
+ * its current direction about an axis perpendicular to t. Twist is limited
+ * to a range; swing is limited by a cone around t (see SwingConeDef).
+ *
+ * Swing is handled as a swing vector s = θ·(a₁, a₂) on the two non-twist
+ * axes (exponential map of q_swing), in the coordinates' sign convention.
+ * Clamping keeps the swing direction and pulls θ back to the cone boundary
+ * in that direction; polygon edges are straight in the swing-vector plane,
+ * which approximates great-circle arcs for cones up to ~90°.
+ *
+ * Elliptical cones take their semi-axes from the swing coordinates' ranges,
+ * read through a RangeResolver so coordinate-dependent ranges (see
+ * rangeDependencies) shrink the cone as well.
+ */
+
+import * as THREE from 'three';
+import { getCoordinateRange, type CoordinateRange } from '../model/romProfiles';
+import type { CoordinateDef, JointDef, SwingTwistLimitDef } from '../model/types';
+
+type Axis = 'X' | 'Y' | 'Z';
+
+const AXES: Axis[] = ['X', 'Y', 'Z'];
+const UNIT: Record<Axis, THREE.Vector3> = {
+  X: new THREE.Vector3(1, 0, 0),
+  Y: new THREE.Vector3(0, 1, 0),
+  Z: new THREE.Vector3(0, 0, 1)
+};
+const EPSILON = 1e-9;
+
+/**
+ * Range lookup for a coordinate (default: active ROM profile)
+ */
+export type RangeResolver = (coord: CoordinateDef) => CoordinateRange;
+
+/**
+ * Joint with an active swing–twist limit
+ */
+export type SwingTwistJoint = JointDef & { limitModel: 'swing_twist'; swingTwist: SwingTwistLimitDef };
+
+/**
+ * Swing–twist decomposition of a deviation quaternion
+ */
+export interface SwingTwistDecomposition {
+  swing: THREE.Quaternion;
+  twist: THREE.Quaternion;
+  /** Twist angle about the (positive) twist axis, radians in (−π, π] */
+  twistAngle: number;
+}
+
+/**
+ * Swing–twist state of a joint in its coordinates' sign convention
+ */
+export interface SwingTwistState {
+  /** Twist (radians) */
+  twist: number;
+  /** Swing vector on the two swing axes (radians) */
+  swing: [number, number];
+  /** Cone boundary radius in the current swing direction (radians) */
+  swingLimit: number;
+  twistRange: CoordinateRange;
+  twistExceeded: boolean;
+  swingExceeded: boolean;
+}
+
+/**
+ * Whether a joint uses the swing–twist limit model
+ */
+export function usesSwingTwistLimit(joint: JointDef): joint is SwingTwistJoint {
+  return joint.limitModel === 'swing_twist' && joint.swingTwist !== undefined;
+}
+
+/**
+ * The two swing axes for a twist axis, in X → Y → Z order
+ */
+export function getSwingAxes(twistAxis: Axis): [Axis, Axis] {
+  const [a, b] = AXES.filter(axis => axis !== twistAxis);
+  return [a, b];
+}
+
+/**
+ * Split a rotation into swing (perpendicular to the axis) and twist (about it)
+ *
+ * @param q - Rotation (unit quaternion)
+ * @param axis - Unit twist axis in the rotation's frame
+ */
+export function decomposeSwingTwist(q: THREE.Quaternion, axis: THREE.Vector3): SwingTwistDecomposition {
+  const projection = axis.dot(new THREE.Vector3(q.x, q.y, q.z));
+  const twist = new THREE.Quaternion(axis.x * projection, axis.y * projection, axis.z * projection, q.w);
+  const norm = twist.length();
+  if (norm < EPSILON) {
+    // Half-turn swing: twist is undefined, attribute everything to swing
+    twist.identity();
+  } else {
+    twist.set(twist.x / norm, twist.y / norm, twist.z / norm, twist.w / norm);
+  }
+  const swing = q.clone().multiply(twist.clone().invert());
+
+  let twistAngle = 2 * Math.atan2(axis.dot(new THREE.Vector3(twist.x, twist.y, twist.z)), twist.w);
+  if (twistAngle > Math.PI) twistAngle -= 2 * Math.PI;
+  if (twistAngle <= -Math.PI) twistAngle += 2 * Math.PI;
+
+  return { swing, twist, twistAngle };
+}
+
+function findCoordinate(joint: JointDef, axis: Axis): CoordinateDef | undefined {
+  return joint.coordinates.find(coord => coord.axis === axis);
+}
+
+/** Sign taking a raw joint-frame rotation to the coordinate convention */
+function axisSign(joint: JointDef, axis: Axis): 1 | -1 {
+  return findCoordinate(joint, axis)?.invert ? -1 : 1;
+}
+
+/** ROM range of the coordinate on an axis (zero range if the joint has none) */
+function axisRange(joint: JointDef, axis: Axis, rangeOf: RangeResolver): CoordinateRange {
+  const coord = findCoordinate(joint, axis);
+  return coord ? rangeOf(coord) : { min: 0, max: 0 };
+}
+
+/**
+ * Cone boundary radius (radians) in swing direction φ = atan2(s₂, s₁)
+ */
+export function getSwingConeRadius(
+  joint: SwingTwistJoint,
+  direction: number,
+  rangeOf: RangeResolver = getCoordinateRange
+): number {
+  const cone = joint.swingTwist.swing;
+  const u = Math.cos(direction);
+  const v = Math.sin(direction);
+
+  if (cone.type === 'elliptical') {
+    const [first, second] = getSwingAxes(joint.swingTwist.twistAxis);
+    const rangeU = axisRange(joint, first, rangeOf);
+    const rangeV = axisRange(joint, second, rangeOf);
+    const a = Math.max(u >= 0 ? rangeU.max : -rangeU.min, 0);
+    const b = Math.max(v >= 0 ? rangeV.max : -rangeV.min, 0);
+    if ((a === 0 && Math.abs(u) > EPSILON) || (b === 0 && Math.abs(v) > EPSILON)) return 0;
+    const term = (a > 0 ? (u / a) ** 2 : 0) + (b > 0 ? (v / b) ** 2 : 0);
+    return term > 0 ? 1 / Math.sqrt(term) : 0;
+  }
+
+  // Polygon: nearest crossing of the ray from the origin with an edge
+  const vertices = cone.vertices;
+  let radius = Infinity;
+  for (let i = 0; i < vertices.length; i++) {
+    const [x1, y1] = vertices[i];
+    const [x2, y2] = vertices[(i + 1) % vertices.length];
+    const ex = x2 - x1;
+    const ey = y2 - y1;
+    const denominator = u * ey - v * ex;
+    if (Math.abs(denominator) < EPSILON) continue;
+    const t = (x1 * ey - y1 * ex) / denominator;
+    const s = (x1 * v - y1 * u) / denominator;
+    if (t >= 0 && s >= -EPSILON && s <= 1 + EPSILON) radius = Math.min(radius, t);
+  }
+  return Number.isFinite(radius) ? radius : 0;
+}
+
+/**
+ * Swing–twist state of a raw deviation quaternion
+ *
+ * @param joint - Joint with a swing–twist limit
+ * @param qDelta - Deviation from neutral (q_neutral⁻¹ · q_rel)
+ * @param rangeOf - Coordinate range lookup
+ */
+export function getSwingTwistState(
+  joint: SwingTwistJoint,
+  qDelta: THREE.Quaternion,
+  rangeOf: RangeResolver = getCoordinateRange
+): SwingTwistState {
+  const { twistAxis } = joint.swingTwist;
+  const { swing, twistAngle } = decomposeSwingTwist(qDelta, UNIT[twistAxis]);
+  const [first, second] = getSwingAxes(twistAxis);
+
+  // Exponential map of the swing (shortest rotation)
+  const w = swing.w < 0 ? -1 : 1;
+  const sinHalf = Math.hypot(swing.x, swing.y, swing.z);
+  const angle = 2 * Math.atan2(sinHalf, Math.abs(swing.w));
+  const scale = sinHalf > EPSILON ? (angle / sinHalf) * w : 0;
+  const component = (axis: Axis) => (axis === 'X' ? swing.x : axis === 'Y' ? swing.y : swing.z) * scale * axisSign(joint, axis);
+  const swingVector: [number, number] = [component(first), component(second)];
+
+  const twist = twistAngle * axisSign(joint, twistAxis);
+  const twistRange = axisRange(joint, twistAxis, rangeOf);
+  const swingLimit = getSwingConeRadius(joint, Math.atan2(swingVector[1], swingVector[0]), rangeOf);
+
+  return {
+    twist,
+    swing: swingVector,
+    swingLimit,
+    twistRange,
+    twistExceeded: twist < twistRange.min - EPSILON || twist > twistRange.max + EPSILON,
+    swingExceeded: Math.hypot(swingVector[0], swingVector[1]) > swingLimit + EPSILON
+  };
+}
+
+/**
+ * Rebuild a raw deviation quaternion from swing vector and twist
+ * (both in the coordinates' sign convention)
+ */
+export function composeSwingTwist(joint: SwingTwistJoint, swing: [number, number], twist: number): THREE.Quaternion {
+  const { twistAxis } = joint.swingTwist;
+  const [first, second] = getSwingAxes(twistAxis);
+
+  const rawSwing = new THREE.Vector3()
+    .addScaledVector(UNIT[first], swing[0] * axisSign(joint, first))
+    .addScaledVector(UNIT[second], swing[1] * axisSign(joint, second));
+  const angle = rawSwing.length();
+  const qSwing = angle > EPSILON
+    ? new THREE.Quaternion().setFromAxisAngle(rawSwing.divideScalar(angle), angle)
+    : new THREE.Quaternion();
+  const qTwist = new THREE.Quaternion().setFromAxisAngle(UNIT[twistAxis], twist * axisSign(joint, twistAxis));
+  return qSwing.multiply(qTwist);
+}
+
+/**
+ * Clamp a raw deviation quaternion to the swing cone and twist range
+ *
+ * @returns Clamped deviation and whether anything changed
+ */
+export function clampSwingTwist(
+  joint: SwingTwistJoint,
+  qDelta: THREE.Quaternion,
+  rangeOf: RangeResolver = getCoordinateRange
+): { quaternion: THREE.Quaternion; clamped: boolean } {
+  const state = getSwingTwistState(joint, qDelta, rangeOf);
+  if (!state.twistExceeded && !state.swingExceeded) {
+    return { quaternion: qDelta.clone(), clamped: false };
+  }
+
+  const twist = Math.min(Math.max(state.twist, state.twistRange.min), state.twistRange.max);
+  let swing = state.swing;
+  if (state.swingExceeded) {
+    const ratio = state.swingLimit / Math.hypot(swing[0], swing[1]);
+    swing = [swing[0] * ratio, swing[1] * ratio];
+  }
+  return { quaternion: composeSwingTwist(joint, swing, twist), clamped: true };
+}
+
+/**
+ * Raw deviation quaternions along the swing cone boundary (zero twist)
+ *
+ * @param joint - Joint with a swing–twist limit
+ * @param steps - Samples around the cone
+ * @param rangeOf - Coordinate range lookup
+ */
+export function sampleSwingConeBoundary(
+  joint: SwingTwistJoint,
+  steps: number = 32,
+  rangeOf: RangeResolver = getCoordinateRange
+): THREE.Quaternion[] {
+  const samples: THREE.Quaternion[] = [];
+  for (let i = 0; i < steps; i++) {
+    const direction = (i / steps) * 2 * Math.PI;
+    const radius = getSwingConeRadius(joint, direction, rangeOf);
+    samples.push(composeSwingTwist(joint, [radius * Math.cos(direction), radius * Math.sin(direction)], 0));
+  }
+  return samples;
+}
+
+/**
+ * Raw Euler deviation of joint coordinates (undoing CoordinateDef.invert)
+ */
+function coordinatesToDelta(joint: JointDef, coordinates: [number, number, number]): THREE.Quaternion {
+  const raw = [...coordinates] as [number, number, number];
+  for (const coord of joint.coordinates) {
+    if (coord.invert) raw[coord.index] = -raw[coord.index];
+  }
+  return new THREE.Quaternion().setFromEuler(new THREE.Euler(raw[0], raw[1], raw[2], joint.eulerOrder));
+}
+
+/**
+ * Clamp joint coordinates [q0, q1, q2] (anatomical signs) to the swing–twist limit
+ */
+export function clampCoordinatesSwingTwist(
+  joint: SwingTwistJoint,
+  coordinates: [number, number, number],
+  rangeOf: RangeResolver = getCoordinateRange
+): [number, number, number] {
+  const { quaternion, clamped } = clampSwingTwist(joint, coordinatesToDelta(joint, coordinates), rangeOf);
+  if (!clamped) return coordinates;
+
+  const euler = new THREE.Euler().setFromQuaternion(quaternion, joint.eulerOrder);
+  const result: [number, number, number] = [euler.x, euler.y, euler.z];
+  for (const coord of joint.coordinates) {
+    if (coord.invert) result[coord.index] = -result[coord.index];
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseForcePlateFile, sampleForcePlate } from '../forcePlateImport';
+
+const CSV = [
+  'Time,Fx (N),Fy (N),Fz (N),COPx (mm),COPy (mm),Free moment',
+  '0.00,10,-20,700,100,200,1.5',
+  '0.01,12,-30,720,110,220,2.5'
+].join('\n');
+
+describe('force plate import', () => {
+  it('converts lab axes to scene axes and COP units', () => {
+    const result = parseForcePlateFile(CSV, 'plate.csv', { copUnits: 'mm' });
+    expect(result.success).toBe(true);
+    const data = result.data!;
+    expect(data.sampleCount).toBe(2);
+    expect(data.source).toBe('plate.csv');
+    // lab Z up → scene Y, lab Y → scene Z, lab X → scene −X
+    expect(data.forceY[0]).toBe(700);
+    expect(data.forceZ[0]).toBe(-20);
+    expect(data.forceX[0]).toBe(-10);
+    expect(data.copX[0]).toBeCloseTo(-0.1, 10);
+    expect(data.copZ[0]).toBeCloseTo(0.2, 10);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('interpolates samples within the time range', () => {
+    const data = parseForcePlateFile(CSV, undefined, { copUnits: 'mm' }).data!;
+    const sample = sampleForcePlate(data, 0.005)!;
+    expect(sample.force.y).toBeCloseTo(710, 10);
+    expect(sample.cop.z).toBeCloseTo(0.21, 10);
+    expect(sample.freeMoment).toBeCloseTo(2, 10);
+    expect(sampleForcePlate(data, 0.02)).toBeNull();
+  });
+
+  it('flips action-force exports and reports missing columns', () => {
+    const flipped = parseForcePlateFile('time,fx,fy,fz,copx,copy\n0,0,0,-650,0,0\n0.01,0,0,-640,0,0');
+    expect(flipped.data!.forceY[0]).toBe(650);
+    expect(flipped.warnings.some(w => w.includes('flipped'))).toBe(true);
+    expect(flipped.warnings.some(w => w.includes('free moment'))).toBe(true);
+
+    const missing = parseForcePlateFile('time,fx,fz\n0,0,0');
+    expect(missing.success).toBe(false);
+    expect(missing.errors[0]).toContain('fy');
+  });
+});
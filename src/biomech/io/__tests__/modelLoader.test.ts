@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import {
+  parseBiomechModel,
+  parseBiomechModelText,
+  serializeBiomechModel,
+  type BiomechModelJson
+} from '../modelLoader';
+import { DEFAULT_BIOMECH_MODEL } from '../../model/defaultModel';
+import { BiomechState } from '../../engine/biomechState';
+import { SegmentRegistry } from '../../engine/segmentRegistry';
+import lowerLimb from '../../model/definitions/lowerLimb.json';
+
+function minimalModel(): BiomechModelJson {
+  return {
+    format: 'biomech-model',
+    version: 1,
+    id: 'knee_only',
+    rootSegment: 'femur',
+    segments: [
+      { id: 'femur', displayName: 'Femur', source: 'mixamo', boneName: 'mixamorig1RightUpLeg' },
+      { id: 'tibia', displayName: 'Tibia', source: 'mixamo', boneName: 'mixamorig1RightLeg' }
+    ],
+    joints: [
+      {
+        id: 'knee',
+        displayName: 'Knee',
+        parentSegment: 'femur',
+        childSegment: 'tibia',
+        type: 'hinge',
+        eulerOrder: 'XZY',
+        coordinates: [{ id: 'knee_flexion', displayName: 'Knee Flexion', axis: 'X', range: [-140, 10] }]
+      }
+    ]
+  };
+}
+
+function makeSkeleton(boneNames: string[]): THREE.Skeleton {
+  const bones = boneNames.map(name => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    return bone;
+  });
+  for (let i = 1; i < bones.length; i++) bones[i - 1].add(bones[i]);
+  return new THREE.Skeleton(bones);
+}
+
+describe('model loader', () => {
+  it('converts degrees and derives coordinate index and joint id', () => {
+    const result = parseBiomechModel(minimalModel());
+    expect(result.success).toBe(true);
+    const coord = result.model!.joints.knee.coordinates[0];
+    expect(coord.jointId).toBe('knee');
+    expect(coord.index).toBe(0);
+    expect(coord.range.min).toBeCloseTo(-140 * Math.PI / 180, 10);
+    expect(coord.clamped).toBe(true);
+    expect(coord.locked).toBe(false);
+  });
+
+  it('keeps radians when angleUnit is rad', () => {
+    const json = { ...minimalModel(), angleUnit: 'rad' as const };
+    json.joints[0].coordinates[0].range = [-2, 0.1];
+    expect(parseBiomechModel(json).model!.joints.knee.coordinates[0].range).toEqual({ min: -2, max: 0.1 });
+  });
+
+  it('round-trips the built-in model', () => {
+    const result = parseBiomechModel(JSON.parse(JSON.stringify(serializeBiomechModel(DEFAULT_BIOMECH_MODEL))));
+    expect(result.success).toBe(true);
+    expect(result.warnings.filter(w => !w.includes('coordinate(s), expected'))).toEqual([]);
+    expect(Object.keys(result.model!.joints)).toEqual(Object.keys(DEFAULT_BIOMECH_MODEL.joints));
+    for (const joint of Object.values(DEFAULT_BIOMECH_MODEL.joints)) {
+      joint.coordinates.forEach((coord, i) => {
+        const loaded = result.model!.joints[joint.id].coordinates[i];
+        expect(loaded.id).toBe(coord.id);
+        expect(loaded.index).toBe(coord.index);
+        expect(loaded.invert ?? false).toBe(coord.invert ?? false);
+        expect(loaded.range.min).toBeCloseTo(coord.range.min, 6);
+        expect(loaded.range.max).toBeCloseTo(coord.range.max, 6);
+      });
+    }
+  });
+
+  it('round-trips the built-in couplers', () => {
+    const result = parseBiomechModel(JSON.parse(JSON.stringify(serializeBiomechModel(DEFAULT_BIOMECH_MODEL))));
+    const couplers = result.model!.couplers!;
+    expect(couplers.map(c => c.id)).toEqual(DEFAULT_BIOMECH_MODEL.couplers!.map(c => c.id));
+    const screwHome = couplers.find(c => c.id === 'knee_r_screw_home')!.function;
+    const expected = DEFAULT_BIOMECH_MODEL.couplers!.find(c => c.id === 'knee_r_screw_home')!.function;
+    if (screwHome.type !== 'spline' || expected.type !== 'spline') throw new Error('expected spline');
+    screwHome.x.forEach((x, i) => expect(x).toBeCloseTo(expected.x[i], 6));
+  });
+
+  it('converts coupler angles and validates their coordinates', () => {
+    const json = minimalModel();
+    json.joints[0].coordinates.push({ id: 'knee_rotation', displayName: 'Rotation', axis: 'Y', range: [-30, 30] });
+    json.couplers = [
+      {
+        id: 'screw_home',
+        dependentCoordinate: 'knee_rotation',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'linear', coefficients: [0.1], offset: 5 }
+      }
+    ];
+    const coupler = parseBiomechModel(json).model!.couplers![0];
+    expect(coupler.function).toEqual({ type: 'linear', coefficients: [0.1], offset: 5 * Math.PI / 180 });
+
+    json.couplers.push(
+      {
+        id: 'bad_spline',
+        dependentCoordinate: 'knee_flexion',
+        independentCoordinates: ['knee_rotation', 'hip_flexion'],
+        function: { type: 'spline', x: [0, 1], y: [0, 1] }
+      },
+      {
+        id: 'again',
+        dependentCoordinate: 'knee_rotation',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'spline', x: [1, 0], y: [0, 1] }
+      }
+    );
+    expect(parseBiomechModel(json).errors).toEqual([
+      "couplers[1].independentCoordinates[1]: 'hip_flexion' is not a defined coordinate",
+      'couplers[1].function: spline couplers take exactly one independent coordinate',
+      "couplers[2].dependentCoordinate: 'knee_rotation' is already driven by another coupler",
+      'couplers[2].function.x: expected strictly increasing values'
+    ]);
+  });
+
+  it('converts range dependency tables and validates them', () => {
+    const json = minimalModel();
+    json.joints[0].coordinates.push({ id: 'knee_rotation', displayName: 'Rotation', axis: 'Y', range: [-30, 30] });
+    json.rangeDependencies = [
+      {
+        id: 'rotation_locks_in_extension',
+        coordinate: 'knee_rotation',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'table', x: [-90, 0], max: [30, 5] }
+      }
+    ];
+    const dependency = parseBiomechModel(json).model!.rangeDependencies![0];
+    expect(dependency.function).toEqual({ type: 'table', x: [-Math.PI / 2, 0], max: [Math.PI / 6, 5 * Math.PI / 180] });
+
+    const serialized = serializeBiomechModel(parseBiomechModel(json).model!);
+    expect(serialized.rangeDependencies).toEqual(json.rangeDependencies);
+
+    json.rangeDependencies.push(
+      {
+        id: 'no_rows',
+        coordinate: 'knee_rotation',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'table', x: [0, 1] }
+      },
+      {
+        id: 'short_row',
+        coordinate: 'knee_flexion',
+        independentCoordinates: ['knee_flexion'],
+        function: { type: 'table', x: [0, 1], min: [0] }
+      }
+    );
+    expect(parseBiomechModel(json).errors).toEqual([
+      'rangeDependencies[1].function: expected a min and/or max row',
+      'rangeDependencies[2].independentCoordinates[0]: coordinate cannot depend on itself',
+      'rangeDependencies[2].function: min and max rows need one value per x'
+    ]);
+  });
+
+  it('loads the bundled lower-limb model without warnings', () => {
+    const result = parseBiomechModel(lowerLimb);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(Object.keys(result.model!.joints)).toHaveLength(6);
+    expect(result.model!.joints.knee_right.coordinates.map(c => c.id)).toEqual(['knee_r_flexion']);
+  });
+
+  it('rejects unsupported formats and versions', () => {
+    expect(parseBiomechModel([]).errors).toEqual(['Model file must be a JSON object']);
+    const result = parseBiomechModel({ ...minimalModel(), format: 'osim', version: 2 });
+    expect(result.success).toBe(false);
+    expect(result.errors).toContain("format: expected 'biomech-model'");
+    expect(result.errors.some(e => e.startsWith('version: 2 is newer'))).toBe(true);
+  });
+
+  it('reports every structural problem with its location', () => {
+    const json = minimalModel();
+    json.rootSegment = 'thorax';
+    json.joints[0].childSegment = 'shank';
+    json.joints.push({
+      ...json.joints[0],
+      id: 'knee_copy',
+      childSegment: 'tibia',
+      coordinates: [
+        { id: 'knee_flexion', displayName: 'Duplicate', axis: 'X', range: [0, 1] },
+        { id: 'knee_varus', displayName: 'Varus', axis: 'X', range: [10, -10] }
+      ]
+    });
+    const result = parseBiomechModel(json);
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      "rootSegment: 'thorax' is not a defined segment",
+      "joints[0].childSegment: 'shank' is not a defined segment",
+      "joints[1].coordinates[0].id: duplicate coordinate 'knee_flexion'",
+      'joints[1].coordinates[1].range: expected [min, max] with min <= max'
+    ]);
+  });
+
+  it('rejects joints whose child bone is not a direct child of the parent bone', () => {
+    const json = minimalModel();
+    json.segments[1].boneName = 'mixamorig1RightFoot';
+    const result = parseBiomechModel(json);
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      "joints[0]: bone 'mixamorig1RightFoot' is not a direct child of 'mixamorig1RightUpLeg' in the rig"
+    ]);
+  });
+
+  it('warns when coordinate count does not match the joint type', () => {
+    const json = minimalModel();
+    json.joints[0].type = 'ball';
+    const result = parseBiomechModel(json);
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(["joints[0]: 'ball' joint 'knee' has 1 coordinate(s), expected 3"]);
+  });
+
+  it('reports invalid JSON text', () => {
+    const result = parseBiomechModelText('{ "format": ');
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe('BiomechState with a loaded model', () => {
+  it('initializes and reports only the passed-in model joints', () => {
+    const model = parseBiomechModel(minimalModel()).model!;
+    const state = new BiomechState(model);
+    const init = state.initialize(makeSkeleton(['mixamorig1RightUpLeg', 'mixamorig1RightLeg']));
+    expect(init.success).toBe(true);
+    expect(init.jointsInitialized).toBe(1);
+
+    expect(state.calibrateNeutral().jointsCalibratedCount).toBe(1);
+    state.getSegmentRegistry()!.getBone('tibia')!.rotation.set(-0.5, 0, 0);
+    state.update(1 / 60);
+    expect(Object.keys(state.getModelState().q)).toEqual(['knee_flexion']);
+    expect(state.getModelState().q.knee_flexion).toBeCloseTo(-0.5, 6);
+    expect(state.getJointState('knee_right')).toBeNull();
+  });
+
+  it('resolves segments through the registry model', () => {
+    const model = parseBiomechModel(minimalModel()).model!;
+    const registry = new SegmentRegistry(makeSkeleton(['mixamorig1RightUpLeg', 'mixamorig1RightLeg']), model);
+    expect(registry.listSegments()).toEqual(['femur', 'tibia']);
+    expect(registry.getBone('femur_right')).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportRecordingToCSV,
+  exportRecordingToMot,
+  recordingFromModelState
+} from '../motionExport';
+import { parseMotionFile } from '../motionImport';
+import { MotionPlayer } from '../../engine/motionPlayer';
+import type { MotionRecording } from '../../engine/motionRecorder';
+import { parseBiomechModel } from '../modelLoader';
+
+/** Loaded model whose coordinates use OpenSim names */
+const OSIM_KNEE = parseBiomechModel({
+  format: 'biomech-model',
+  version: 1,
+  id: 'osim_knee',
+  rootSegment: 'femur_r',
+  segments: [
+    { id: 'femur_r', displayName: 'Femur', source: 'mixamo', boneName: 'RightUpLeg' },
+    { id: 'tibia_r', displayName: 'Tibia', source: 'mixamo', boneName: 'RightLeg' }
+  ],
+  joints: [
+    {
+      id: 'knee_r',
+      displayName: 'Knee',
+      parentSegment: 'femur_r',
+      childSegment: 'tibia_r',
+      type: 'hinge',
+      eulerOrder: 'XYZ',
+      coordinates: [{ id: 'knee_angle_r', displayName: 'Knee Angle', axis: 'X', range: [-120, 10] }]
+    }
+  ]
+}).model!;
+
+function makeRecording(): MotionRecording {
+  return {
+    source: 'Walk',
+    coordinateIds: ['hip_r_flexion', 'knee_r_flexion'],
+    frameCount: 2,
+    time: Float64Array.of(0, 0.5),
+    clipTime: Float64Array.of(1, 1.5),
+    values: {
+      hip_r_flexion: Float64Array.of(0, Math.PI / 2),
+      knee_r_flexion: Float64Array.of(-Math.PI / 4, NaN)
+    }
+  };
+}
+
+describe('motion export', () => {
+  it('writes CSV with a header row named by coordinate id', () => {
+    const csv = exportRecordingToCSV(makeRecording(), { precision: 2 });
+    const lines = csv.trim().split('\n');
+    expect(lines[0]).toBe('time,hip_r_flexion,knee_r_flexion');
+    expect(lines[1]).toBe('0.00,0.00,-45.00');
+    expect(lines[2]).toBe('0.50,90.00,');
+  });
+
+  it('supports radians and clip time', () => {
+    const csv = exportRecordingToCSV(makeRecording(), { units: 'rad', timeSource: 'clipTime', precision: 3 });
+    expect(csv.trim().split('\n')[2]).toBe('1.500,1.571,');
+  });
+
+  it('writes an OpenSim storage header for .mot files', () => {
+    const mot = exportRecordingToMot(makeRecording(), { precision: 1 });
+    const lines = mot.trim().split('\n');
+    expect(lines[0]).toBe('Walk');
+    expect(lines).toContain('version=1');
+    expect(lines).toContain('nRows=2');
+    expect(lines).toContain('nColumns=3');
+    expect(lines).toContain('inDegrees=yes');
+
+    const end = lines.indexOf('endheader');
+    expect(lines[end + 1]).toBe('time\thip_r_flexion\tknee_r_flexion');
+    expect(lines[end + 3]).toBe('0.5\t90.0\tNaN');
+  });
+
+  it('wraps the current model state as a single frame', () => {
+    const rec = recordingFromModelState(
+      { q: { hip_r_flexion: 0.25 }, joints: {}, timestamp: 123 },
+      ['hip_r_flexion', 'hip_l_flexion']
+    );
+    expect(rec.frameCount).toBe(1);
+    expect(rec.values.hip_r_flexion[0]).toBe(0.25);
+    expect(Number.isNaN(rec.values.hip_l_flexion[0])).toBe(true);
+  });
+});
+
+describe('motion import', () => {
+  it('round-trips a .mot export', () => {
+    const mot = exportRecordingToMot(makeRecording());
+    const result = parseMotionFile(mot, 'walk.mot');
+    expect(result.success).toBe(true);
+    expect(result.format).toBe('mot');
+    expect(result.units).toBe('deg');
+
+    const rec = result.recording!;
+    expect(rec.source).toBe('walk.mot');
+    expect(rec.coordinateIds).toEqual(['hip_r_flexion', 'knee_r_flexion']);
+    expect(Array.from(rec.time)).toEqual([0, 0.5]);
+    expect(rec.values.hip_r_flexion[1]).toBeCloseTo(Math.PI / 2);
+    expect(rec.values.knee_r_flexion[0]).toBeCloseTo(-Math.PI / 4);
+    expect(Number.isNaN(rec.values.knee_r_flexion[1])).toBe(true);
+  });
+
+  it('reads radian CSV and reports unknown columns', () => {
+    const csv = 'time,hip_l_flexion,marker_x\n0,0.1,5\n0.1,0.2,6\n';
+    const result = parseMotionFile(csv, 'trial.csv', { units: 'rad' });
+    expect(result.success).toBe(true);
+    expect(result.format).toBe('csv');
+    expect(result.ignoredColumns).toEqual(['marker_x']);
+    expect(result.warnings.length).toBe(1);
+    expect(Array.from(result.recording!.values.hip_l_flexion)).toEqual([0.1, 0.2]);
+  });
+
+  it('matches columns against a loaded model', () => {
+    const mot = 'endheader\ntime\tknee_angle_r\thip_r_flexion\n0\t-30\t10\n';
+    expect(parseMotionFile(mot, 'knee.mot').ignoredColumns).toEqual(['knee_angle_r']);
+
+    const result = parseMotionFile(mot, 'knee.mot', { model: OSIM_KNEE });
+    expect(result.success).toBe(true);
+    expect(result.recording!.coordinateIds).toEqual(['knee_angle_r']);
+    expect(new MotionPlayer(result.recording!).getDrivenJointIds(OSIM_KNEE)).toEqual(['knee_r']);
+  });
+
+  it('rejects files without a time column', () => {
+    const result = parseMotionFile('hip_r_flexion\n10\n');
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/time/);
+  });
+});
+
+describe('MotionPlayer', () => {
+  it('interpolates samples and exposes playback transport', () => {
+    const player = new MotionPlayer(makeRecording(), false);
+    expect(player.getDuration()).toBe(0.5);
+    expect(player.getDrivenJointIds()).toEqual(['hip_right', 'knee_right']);
+
+    player.seek(0.25);
+    expect(player.sample().hip_r_flexion).toBeCloseTo(Math.PI / 4);
+    // Missing sample holds the last valid value
+    expect(player.sample().knee_r_flexion).toBeCloseTo(-Math.PI / 4);
+
+    player.setSpeed(2);
+    player.advance(1);
+    expect(player.getCurrentTime()).toBe(0.5);
+    expect(player.isPlaying()).toBe(false);
+  });
+
+  it('wraps when looping', () => {
+    const player = new MotionPlayer(makeRecording());
+    player.advance(0.6);
+    expect(player.getCurrentTime()).toBeCloseTo(0.1);
+  });
+});
@@ -0,0 +1,195 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { importOsimModel } from '../osimImport';
+
+const DEG = Math.PI / 180;
+
+function coordinate(name: string, min: number, max: number, extra = '<default_value>0</default_value>'): string {
+  return `<Coordinate name="${name}"><range>${min} ${max}</range><clamped>true</clamped>${extra}</Coordinate>`;
+}
+
+function frames(parent: string, child: string): string {
+  return `
+    <socket_parent_frame>${parent}_offset</socket_parent_frame>
+    <socket_child_frame>${child}_offset</socket_child_frame>
+    <frames>
+      <PhysicalOffsetFrame name="${parent}_offset"><socket_parent>/${parent === 'ground' ? 'ground' : `bodyset/${parent}`}</socket_parent></PhysicalOffsetFrame>
+      <PhysicalOffsetFrame name="${child}_offset"><socket_parent>/bodyset/${child}</socket_parent></PhysicalOffsetFrame>
+    </frames>`;
+}
+
+function rotation(index: number, coord: string, axis: string): string {
+  return `<TransformAxis name="rotation${index}"><coordinates>${coord}</coordinates><axis>${axis}</axis></TransformAxis>`;
+}
+
+/** Trimmed Gait2392-style model (OpenSim 4.x layout), right leg + back */
+const GAIT2392 = `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSimDocument Version="40000">
+  <Model name="gait2392_simbody">
+    <BodySet name="bodyset"><objects>
+      <Body name="pelvis"/><Body name="femur_r"/><Body name="tibia_r"/><Body name="patella_r"/>
+      <Body name="talus_r"/><Body name="calcn_r"/><Body name="toes_r"/><Body name="torso"/>
+    </objects></BodySet>
+    <JointSet name="jointset"><objects>
+      <CustomJoint name="ground_pelvis">${frames('ground', 'pelvis')}
+        <coordinates>${coordinate('pelvis_tilt', -1.57, 1.57)}${coordinate('pelvis_tx', -5, 5)}</coordinates>
+        <SpatialTransform>${rotation(1, 'pelvis_tilt', '0 0 1')}</SpatialTransform>
+      </CustomJoint>
+      <CustomJoint name="hip_r">${frames('pelvis', 'femur_r')}
+        <coordinates>
+          ${coordinate('hip_flexion_r', -0.5236, 2.0944)}
+          ${coordinate('hip_adduction_r', -0.8727, 0.5236)}
+          ${coordinate('hip_rotation_r', -0.6981, 0.6981)}
+        </coordinates>
+        <SpatialTransform>
+          ${rotation(1, 'hip_flexion_r', '0 0 1')}${rotation(2, 'hip_adduction_r', '1 0 0')}${rotation(3, 'hip_rotation_r', '0 1 0')}
+        </SpatialTransform>
+      </CustomJoint>
+      <CustomJoint name="knee_r">${frames('femur_r', 'tibia_r')}
+        <coordinates>${coordinate('knee_angle_r', -2.0944, 0.1745)}</coordinates>
+        <SpatialTransform>
+          ${rotation(1, 'knee_angle_r', '0 0 1')}
+          <TransformAxis name="translation1"><coordinates>knee_angle_r</coordinates><axis>1 0 0</axis></TransformAxis>
+        </SpatialTransform>
+      </CustomJoint>
+      <WeldJoint name="patellofemoral_r">${frames('femur_r', 'patella_r')}</WeldJoint>
+      <CustomJoint name="ankle_r">${frames('tibia_r', 'talus_r')}
+        <coordinates>${coordinate('ankle_angle_r', -0.6981, 0.5236)}</coordinates>
+        <SpatialTransform>${rotation(1, 'ankle_angle_r', '-0.105 -0.174 0.979')}</SpatialTransform>
+      </CustomJoint>
+      <CustomJoint name="subtalar_r">${frames('talus_r', 'calcn_r')}
+        <coordinates>${coordinate('subtalar_angle_r', -0.3491, 0.3491)}</coordinates>
+        <SpatialTransform>${rotation(1, 'subtalar_angle_r', '0.787 0.605 -0.121')}</SpatialTransform>
+      </CustomJoint>
+      <PinJoint name="mtp_r">${frames('calcn_r', 'toes_r')}
+        <coordinates>${coordinate('mtp_angle_r', -0.5236, 0.5236, '<locked>true</locked>')}</coordinates>
+      </PinJoint>
+      <CustomJoint name="back">${frames('pelvis', 'torso')}
+        <coordinates>
+          ${coordinate('lumbar_extension', -1.5708, 0.3491)}
+          ${coordinate('lumbar_bending', -1.5708, 1.5708)}
+          ${coordinate('lumbar_rotation', -1.5708, 1.5708)}
+        </coordinates>
+        <SpatialTransform>
+          ${rotation(1, 'lumbar_extension', '0 0 1')}${rotation(2, 'lumbar_bending', '1 0 0')}${rotation(3, 'lumbar_rotation', '0 1 0')}
+        </SpatialTransform>
+      </CustomJoint>
+    </objects></JointSet>
+  </Model>
+</OpenSimDocument>`;
+
+/** OpenSim 3.3 layout: joints nested in bodies; Rajagopal-style positive knee flexion */
+const LEGACY = `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSimDocument Version="30000">
+  <Model name="legacy_knee">
+    <BodySet><objects>
+      <Body name="ground"><Joint/></Body>
+      <Body name="femur_l"><Joint/></Body>
+      <Body name="tibia_l">
+        <Joint>
+          <PinJoint name="knee_l">
+            <parent_body>femur_l</parent_body>
+            <CoordinateSet><objects>
+              ${coordinate('knee_angle_l', 0, 2.0944, '<default_value>0.1</default_value><motion_type>rotational</motion_type>')}
+            </objects></CoordinateSet>
+          </PinJoint>
+        </Joint>
+      </Body>
+      <Body name="shank_sensor_l">
+        <Joint>
+          <PinJoint name="sensor_l">
+            <parent_body>tibia_l</parent_body>
+            <CoordinateSet><objects>${coordinate('sensor_angle_l', -0.1, 0.1)}</objects></CoordinateSet>
+          </PinJoint>
+        </Joint>
+      </Body>
+    </objects></BodySet>
+  </Model>
+</OpenSimDocument>`;
+
+describe('OpenSim model import', () => {
+  const result = importOsimModel(GAIT2392);
+  const model = result.model!;
+
+  it('maps bodies and joints onto rig segments and viewer joints', () => {
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(model.id).toBe('gait2392_simbody');
+    expect(model.rootSegment).toBe('pelvis');
+    expect(Object.keys(model.joints).sort()).toEqual(
+      ['ankle_right', 'hip_right', 'knee_right', 'lumbar_spine', 'mtp_right']
+    );
+    expect(model.joints.lumbar_spine.parentSegment).toBe('pelvis');
+    expect(model.joints.lumbar_spine.childSegment).toBe('lumbar');
+    expect(model.segments.foot_right.boneName).toBe('mixamorig1RightFoot');
+    expect(result.unmappedBodies).toEqual(['patella_r']);
+  });
+
+  it('uses viewer coordinate ids and axes with OpenSim ranges', () => {
+    const hip = model.joints.hip_right;
+    expect(hip.type).toBe('ball');
+    expect(hip.eulerOrder).toBe('XZY');
+    const flexion = hip.coordinates.find(c => c.id === 'hip_r_flexion')!;
+    expect(flexion.axis).toBe('X');
+    expect(flexion.range.min).toBeCloseTo(-30 * DEG, 3);
+    expect(flexion.range.max).toBeCloseTo(120 * DEG, 3);
+    expect(hip.coordinates.find(c => c.id === 'hip_r_adduction')!.invert).toBe(true);
+  });
+
+  it('chooses the sign convention from the ranges', () => {
+    const sign = (name: string) => result.coordinateMap.find(m => m.osimName === name)!.sign;
+    expect(sign('knee_angle_r')).toBe(1);
+    expect(sign('hip_adduction_r')).toBe(-1);
+    expect(sign('lumbar_extension')).toBe(-1);
+    const adduction = model.joints.hip_right.coordinates.find(c => c.id === 'hip_r_adduction')!;
+    expect(adduction.range.min).toBeCloseTo(-0.5236, 4);
+    expect(adduction.range.max).toBeCloseTo(0.8727, 4);
+  });
+
+  it('merges joints between bodies of the same segment', () => {
+    const ankle = model.joints.ankle_right;
+    expect(ankle.coordinates.map(c => c.id)).toEqual(['ankle_r_flexion', 'ankle_r_inversion']);
+    expect(ankle.type).toBe('universal');
+    expect(model.joints.knee_right.type).toBe('hinge');
+    expect(model.joints.mtp_right.coordinates[0].locked).toBe(true);
+  });
+
+  it('reports ignored root motion and unmapped bodies', () => {
+    expect(result.warnings).toContain('ground_pelvis: ground joint coordinates ignored (root motion)');
+    expect(result.warnings).toContain("patellofemoral_r: skipped, body 'patella_r' has no rig segment");
+  });
+
+  it('skips joints that would bypass rig bones', () => {
+    const thorax = importOsimModel(GAIT2392, { bodyMap: { torso: 'thorax' } });
+    expect(thorax.success).toBe(true);
+    expect(thorax.model!.joints.lumbar_spine).toBeUndefined();
+    expect(thorax.warnings).toContain("back: skipped, rig bone 'mixamorig1Spine2' is not a direct child of 'mixamorig1Hips'");
+  });
+
+  it('reads the OpenSim 3.3 layout and flips positive-flexion knees', () => {
+    const legacy = importOsimModel(LEGACY, { bodyMap: { shank_sensor_l: null } });
+    expect(legacy.success).toBe(true);
+    const knee = legacy.model!.joints.knee_left;
+    expect(knee.parentSegment).toBe('femur_left');
+    expect(knee.coordinates[0].range.min).toBeCloseTo(-2.0944, 4);
+    expect(knee.coordinates[0].range.max).toBeCloseTo(0, 6);
+    expect(knee.coordinates[0].default).toBeCloseTo(-0.1, 6);
+    expect(legacy.coordinateMap).toEqual([
+      { osimName: 'knee_angle_l', coordinateId: 'knee_l_flexion', jointId: 'knee_left', sign: -1 }
+    ]);
+  });
+
+  it('keeps unknown coordinates under their OpenSim name', () => {
+    const custom = importOsimModel(LEGACY, { bodyMap: { shank_sensor_l: 'foot_left' } });
+    const sensor = custom.model!.joints.sensor_l;
+    expect(sensor.coordinates[0].id).toBe('sensor_angle_l');
+    expect(sensor.coordinates[0].axis).toBe('X');
+    expect(sensor.side).toBe('left');
+    expect(custom.warnings.some(w => w.includes("'sensor_angle_l' has no viewer mapping"))).toBe(true);
+  });
+
+  it('rejects files that are not OpenSim models', () => {
+    expect(importOsimModel('<html></html>').errors).toEqual(['Not a valid OpenSim model file (missing <Model>)']);
+    expect(importOsimModel('not xml').success).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Force Plate Import - Ground reaction force CSV reader
+ *
+ * Parses a force plate export with columns
+ *   time, Fx, Fy, Fz, COPx, COPy[, free moment]
+ * in the plate's lab frame (Z vertical, Y along the walkway) and converts it
+ * to scene axes:
+ * - lab +Y (walking direction) → scene +Z (the rig's facing direction)
+ * - lab +Z (up) → scene +Y
+ * - lab +X → scene −X (keeps the frame right-handed)
+ * The plate surface lies on the scene ground plane (y = 0) and COP positions
+ * are taken as scene coordinates, so the plate must be exported with its
+ * origin at the point the rig walks over.
+ *
+ * Forces are stored as the ground reaction acting on the body (vertical
+ * component positive). Exports that report the action force on the plate
+ * (vertical mostly negative) are flipped and reported as a warning.
+ */
+
+import * as THREE from 'three';
+
+export type ForcePlateLengthUnits = 'm' | 'mm';
+
+/**
+ * Import options
+ */
+export interface ForcePlateImportOptions {
+  /** Units of the COP columns (default meters) */
+  copUnits?: ForcePlateLengthUnits;
+}
+
+/**
+ * Ground reaction time series in scene axes
+ */
+export interface ForcePlateData {
+  source?: string;
+  sampleCount: number;
+  /** Plate time (seconds) */
+  time: Float64Array;
+  /** Ground reaction force (N) */
+  forceX: Float64Array;
+  forceY: Float64Array;
+  forceZ: Float64Array;
+  /** Center of pressure on the ground plane (m) */
+  copX: Float64Array;
+  copZ: Float64Array;
+  /** Free moment about the vertical axis (N·m, 0 when not exported) */
+  freeMoment: Float64Array;
+}
+
+/**
+ * Import result with diagnostics
+ */
+export interface ForcePlateImportResult {
+  success: boolean;
+  data: ForcePlateData | null;
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * Ground reaction at one instant (scene axes)
+ */
+export interface GroundReactionSample {
+  force: THREE.Vector3;
+  cop: THREE.Vector3;
+  freeMoment: number;
+}
+
+type ColumnKey = 'time' | 'fx' | 'fy' | 'fz' | 'copx' | 'copy' | 'freeMoment';
+
+/** Accepted header names (lowercase, spaces/underscores removed) */
+const COLUMN_ALIASES: Record<ColumnKey, string[]> = {
+  time: ['time', 't'],
+  fx: ['fx', 'forcex'],
+  fy: ['fy', 'forcey'],
+  fz: ['fz', 'forcez'],
+  copx: ['copx', 'cx'],
+  copy: ['copy', 'cy'],
+  freeMoment: ['freemoment', 'tz', 'mz', 'mfree']
+};
+
+const REQUIRED_COLUMNS: ColumnKey[] = ['time', 'fx', 'fy', 'fz', 'copx', 'copy'];
+
+/**
+ * Parse a force plate CSV export
+ *
+ * @param text - File contents
+ * @param source - File name, stored as the data source
+ * @param options - Import options
+ */
+export function parseForcePlateFile(
+  text: string,
+  source?: string,
+  options: ForcePlateImportOptions = {}
+): ForcePlateImportResult {
+  const result: ForcePlateImportResult = { success: false, data: null, warnings: [], errors: [] };
+
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '' && !line.trimStart().startsWith('#'));
+  if (rows.length === 0) {
+    result.errors.push('File contains no column header');
+    return result;
+  }
+
+  const delimiter = detectDelimiter(rows[0]);
+  const header = splitRow(rows[0], delimiter).map(normalizeHeader);
+  const indices = {} as Record<ColumnKey, number>;
+  for (const key of Object.keys(COLUMN_ALIASES) as ColumnKey[]) {
+    indices[key] = header.findIndex(name => COLUMN_ALIASES[key].includes(name));
+  }
+  const missing = REQUIRED_COLUMNS.filter(key => indices[key] < 0);
+  if (missing.length > 0) {
+    result.errors.push(`Missing required column(s): ${missing.join(', ')}`);
+    return result;
+  }
+  if (indices.freeMoment < 0) {
+    result.warnings.push('No free moment column; free moment set to 0');
+  }
+
+  const copScale = options.copUnits === 'mm' ? 0.001 : 1;
+  const columns: Record<ColumnKey, number[]> = {
+    time: [], fx: [], fy: [], fz: [], copx: [], copy: [], freeMoment: []
+  };
+
+  rows.slice(1).forEach((row, rowIndex) => {
+    const cells = splitRow(row, delimiter);
+    const t = parseNumber(cells[indices.time]);
+    if (!Number.isFinite(t)) {
+      result.warnings.push(`Skipped row ${rowIndex + 1}: invalid time`);
+      return;
+    }
+    columns.time.push(t);
+    columns.fx.push(parseNumber(cells[indices.fx]));
+    columns.fy.push(parseNumber(cells[indices.fy]));
+    columns.fz.push(parseNumber(cells[indices.fz]));
+    columns.copx.push(parseNumber(cells[indices.copx]) * copScale);
+    columns.copy.push(parseNumber(cells[indices.copy]) * copScale);
+    columns.freeMoment.push(indices.freeMoment >= 0 ? parseNumber(cells[indices.freeMoment]) : 0);
+  });
+
+  const n = columns.time.length;
+  if (n === 0) {
+    result.errors.push('File contains no data rows');
+    return result;
+  }
+  for (let i = 1; i < n; i++) {
+    if (columns.time[i] <= columns.time[i - 1]) {
+      result.errors.push(`Time column is not strictly increasing at row ${i + 1}`);
+      return result;
+    }
+  }
+
+  // Action (plate) convention reports the body pushing down: flip to reaction
+  const loaded = columns.fz.filter(fz => Number.isFinite(fz) && Math.abs(fz) > 1);
+  const negative = loaded.filter(fz => fz < 0).length;
+  const sign = negative > loaded.length / 2 ? -1 : 1;
+  if (sign < 0) {
+    result.warnings.push('Vertical force is mostly negative; forces flipped to ground reaction convention');
+  }
+
+  const from = (values: number[], scale = 1) => Float64Array.from(values, v => v * scale);
+  result.data = {
+    source,
+    sampleCount: n,
+    time: from(columns.time),
+    forceX: from(columns.fx, -sign),
+    forceY: from(columns.fz, sign),
+    forceZ: from(columns.fy, sign),
+    copX: from(columns.copx, -1),
+    copZ: from(columns.copy),
+    freeMoment: from(columns.freeMoment, sign)
+  };
+  result.success = true;
+  return result;
+}
+
+/**
+ * Linearly interpolate the ground reaction at a plate time
+ *
+ * @returns Sample, or null outside the recorded time range
+ */
+export function sampleForcePlate(data: ForcePlateData, time: number): GroundReactionSample | null {
+  const n = data.sampleCount;
+  if (n === 0 || !Number.isFinite(time) || time < data.time[0] || time > data.time[n - 1]) return null;
+
+  // Binary search for the sample interval containing `time`
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (data.time[mid] <= time) lo = mid;
+    else hi = mid;
+  }
+  const span = data.time[hi] - data.time[lo];
+  const alpha = span > 0 ? (time - data.time[lo]) / span : 0;
+  const lerp = (column: Float64Array) => column[lo] + (column[hi] - column[lo]) * alpha;
+
+  return {
+    force: new THREE.Vector3(lerp(data.forceX), lerp(data.forceY), lerp(data.forceZ)),
+    cop: new THREE.Vector3(lerp(data.copX), 0, lerp(data.copZ)),
+    freeMoment: lerp(data.freeMoment)
+  };
+}
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/\(.*\)/, '').replace(/[\s_.-]/g, '');
+}
+
+function detectDelimiter(headerRow: string): RegExp {
+  if (headerRow.includes('\t')) return /\t/;
+  if (headerRow.includes(',')) return /,/;
+  if (headerRow.includes(';')) return /;/;
+  return /\s+/;
+}
+
+function splitRow(row: string, delimiter: RegExp): string[] {
+  return row.trim().split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+function parseNumber(cell: string | undefined): number {
+  if (cell === undefined || cell === '') return NaN;
+  const value = Number(cell);
+  return Number.isFinite(value) ? value : NaN;
+}
@@ -0,0 +1,760 @@
+/**
+ * Model Loader - Versioned JSON model definitions
+ *
+ * Reads and writes BiomechModel definitions as JSON so alternate models
+ * (e.g. a simplified lower-limb model, or a pediatric model with different
+ * ranges) can ship as data instead of edits to joints.ts/segments.ts.
+ *
+ * File layout (format 'biomech-model', version 1):
+ * - segments: array of SegmentDef (vectors as [x, y, z], quaternions as [x, y, z, w])
+ * - joints: array of JointDef; each coordinate gives `range: [min, max]` and
+ *   optional neutral/default in `angleUnit` (default 'deg'). Coordinate
+ *   `jointId` and `index` are derived from the joint and the coordinate axis.
+ *   The child segment's Mixamo bone must be a direct child of the parent
+ *   segment's bone, since joint rotations are written as its local rotation.
+ * - joints may select `limitModel: 'swing_twist'` with a `swingTwist` limit;
+ *   polygon cone vertices are swing vectors in `angleUnit`.
+ * - couplers (optional): array of CoordinateCouplerDef; linear offsets and
+ *   spline x/y are angles in `angleUnit`, linear coefficients are unitless.
+ * - rangeDependencies (optional): array of CoordinateRangeDependencyDef with
+ *   table functions only; x/min/max are angles in `angleUnit`.
+ *
+ * Validation collects every problem rather than stopping at the first, with
+ * JSON-path style locations (e.g. `joints[2].coordinates[0].range`).
+ *
+ * model/definitions/lowerLimb.json is a bundled example: hips, hinge knees and
+ * two-DOF ankles only.
+ */
+
+import * as THREE from 'three';
+import type {
+  BiomechModel,
+  CoordinateCouplerDef,
+  CoordinateDef,
+  CoordinateRangeDependencyDef,
+  CouplerFunction,
+  JointDef,
+  JointLimitModel,
+  JointType,
+  SegmentDef,
+  SwingTwistLimitDef
+} from '../model/types';
+import { getMixamoBoneParent } from '../model/segments';
+import type { AngleUnits } from './motionExport';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+export const BIOMECH_MODEL_FORMAT = 'biomech-model';
+export const BIOMECH_MODEL_VERSION = 1;
+
+/**
+ * Segment entry in a model file
+ */
+export interface SegmentJson {
+  id: string;
+  displayName: string;
+  source: SegmentDef['source'];
+  boneName?: string;
+  parentSegmentId?: string;
+  offset?: [number, number, number];
+  rotation?: [number, number, number, number];
+}
+
+/**
+ * Coordinate entry in a model file (angles in the file's angleUnit)
+ */
+export interface CoordinateJson {
+  id: string;
+  displayName: string;
+  axis: CoordinateDef['axis'];
+  range: [number, number];
+  neutral?: number;
+  default?: number;
+  clamped?: boolean;
+  locked?: boolean;
+  invert?: boolean;
+}
+
+/**
+ * Joint entry in a model file
+ */
+export interface JointJson {
+  id: string;
+  displayName: string;
+  parentSegment: string;
+  childSegment: string;
+  type: JointType;
+  eulerOrder: JointDef['eulerOrder'];
+  side?: JointDef['side'];
+  coordinates: CoordinateJson[];
+  limitModel?: JointLimitModel;
+  /** Polygon cone vertices are swing vectors in the file's angleUnit */
+  swingTwist?: {
+    twistAxis: SwingTwistLimitDef['twistAxis'];
+    swing: { type: 'elliptical' } | { type: 'polygon'; vertices: Array<[number, number]> };
+  };
+}
+
+/**
+ * Coupler entry in a model file (angles in the file's angleUnit)
+ */
+export interface CouplerJson {
+  id: string;
+  displayName?: string;
+  dependentCoordinate: string;
+  independentCoordinates: string[];
+  function:
+    | { type: 'linear'; coefficients: number[]; offset?: number }
+    | { type: 'spline'; x: number[]; y: number[] };
+}
+
+/**
+ * Range dependency entry in a model file (angles in the file's angleUnit)
+ */
+export interface RangeDependencyJson {
+  id: string;
+  displayName?: string;
+  coordinate: string;
+  independentCoordinates: string[];
+  function: { type: 'table'; x: number[]; min?: number[]; max?: number[] };
+}
+
+/**
+ * Top-level model file
+ */
+export interface BiomechModelJson {
+  format: typeof BIOMECH_MODEL_FORMAT;
+  version: number;
+  id: string;
+  displayName?: string;
+  rootSegment: string;
+  angleUnit?: AngleUnits;
+  segments: SegmentJson[];
+  joints: JointJson[];
+  couplers?: CouplerJson[];
+  rangeDependencies?: RangeDependencyJson[];
+}
+
+/**
+ * Load result with diagnostics
+ */
+export interface ModelLoadResult {
+  success: boolean;
+  model: BiomechModel | null;
+  warnings: string[];
+  errors: string[];
+}
+
+const SEGMENT_SOURCES: SegmentDef['source'][] = ['mixamo', 'virtual'];
+const JOINT_TYPES: JointType[] = ['ball', 'hinge', 'universal', 'planar_custom', 'weld'];
+const EULER_ORDERS: JointDef['eulerOrder'][] = ['XYZ', 'YZX', 'ZXY', 'XZY', 'YXZ', 'ZYX'];
+const SIDES: NonNullable<JointDef['side']>[] = ['left', 'right', 'center'];
+const AXES: CoordinateDef['axis'][] = ['X', 'Y', 'Z'];
+const LIMIT_MODELS: JointLimitModel[] = ['coordinate', 'swing_twist'];
+
+/** Expected coordinate count per joint type (informational) */
+const TYPE_DOF: Record<JointType, number> = {
+  ball: 3,
+  planar_custom: 3,
+  universal: 2,
+  hinge: 1,
+  weld: 0
+};
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isNumberTuple(value: unknown, length: number): value is number[] {
+  return Array.isArray(value) && value.length === length && value.every(v => typeof v === 'number' && Number.isFinite(v));
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v));
+}
+
+function isOptionalBoolean(value: unknown): boolean {
+  return value === undefined || typeof value === 'boolean';
+}
+
+/**
+ * Validate a joint's swing–twist limit (polygon vertices scaled to radians)
+ */
+function parseSwingTwist(raw: unknown, path: string, scale: number, errors: string[]): SwingTwistLimitDef | null {
+  if (!isObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return null;
+  }
+  const twistAxis = raw.twistAxis as SwingTwistLimitDef['twistAxis'];
+  if (!AXES.includes(twistAxis)) {
+    errors.push(`${path}.twistAxis: expected X, Y or Z`);
+    return null;
+  }
+  const swing = raw.swing;
+  if (isObject(swing) && swing.type === 'elliptical') {
+    return { twistAxis, swing: { type: 'elliptical' } };
+  }
+  if (isObject(swing) && swing.type === 'polygon') {
+    const vertices = swing.vertices;
+    if (!Array.isArray(vertices) || vertices.length < 3 || !vertices.every(vertex => isNumberTuple(vertex, 2))) {
+      errors.push(`${path}.swing.vertices: expected at least three [u, v] pairs`);
+      return null;
+    }
+    return {
+      twistAxis,
+      swing: {
+        type: 'polygon',
+        vertices: (vertices as number[][]).map(([u, v]) => [u * scale, v * scale] as [number, number])
+      }
+    };
+  }
+  errors.push(`${path}.swing: expected { type: 'elliptical' } or { type: 'polygon', vertices }`);
+  return null;
+}
+
+/**
+ * Rig bone of a mixamo segment, if the segment is defined
+ */
+function mixamoBoneOf(segments: Record<string, SegmentDef>, segmentId: unknown): string | undefined {
+  const segment = isNonEmptyString(segmentId) ? segments[segmentId] : undefined;
+  return segment?.source === 'mixamo' ? segment.boneName : undefined;
+}
+
+/**
+ * Validate and convert a parsed model file into a BiomechModel
+ *
+ * @param input - Parsed JSON (e.g. from JSON.parse or a bundled .json import)
+ */
+export function parseBiomechModel(input: unknown): ModelLoadResult {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const fail = (): ModelLoadResult => ({ success: false, model: null, warnings, errors });
+
+  if (!isObject(input)) {
+    errors.push('Model file must be a JSON object');
+    return fail();
+  }
+  if (input.format !== BIOMECH_MODEL_FORMAT) {
+    errors.push(`format: expected '${BIOMECH_MODEL_FORMAT}'`);
+  }
+  if (typeof input.version !== 'number' || !Number.isInteger(input.version)) {
+    errors.push('version: expected an integer');
+  } else if (input.version > BIOMECH_MODEL_VERSION) {
+    errors.push(`version: ${input.version} is newer than supported version ${BIOMECH_MODEL_VERSION}`);
+  }
+  if (!isNonEmptyString(input.id)) errors.push('id: expected a non-empty string');
+  if (input.displayName !== undefined && typeof input.displayName !== 'string') {
+    errors.push('displayName: expected a string');
+  }
+  if (input.angleUnit !== undefined && input.angleUnit !== 'deg' && input.angleUnit !== 'rad') {
+    errors.push("angleUnit: expected 'deg' or 'rad'");
+  }
+  if (!Array.isArray(input.segments)) errors.push('segments: expected an array');
+  if (!Array.isArray(input.joints)) errors.push('joints: expected an array');
+  if (errors.length > 0) return fail();
+
+  const scale = input.angleUnit === 'rad' ? 1 : DEG_TO_RAD;
+  const segments: Record<string, SegmentDef> = {};
+  const joints: Record<string, JointDef> = {};
+
+  // Segments
+  (input.segments as unknown[]).forEach((raw, i) => {
+    const path = `segments[${i}]`;
+    if (!isObject(raw)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    if (!isNonEmptyString(raw.id)) {
+      errors.push(`${path}.id: expected a non-empty string`);
+      return;
+    }
+    if (segments[raw.id]) {
+      errors.push(`${path}.id: duplicate segment '${raw.id}'`);
+      return;
+    }
+    const source = raw.source as SegmentDef['source'];
+    if (!SEGMENT_SOURCES.includes(source)) {
+      errors.push(`${path}.source: expected one of ${SEGMENT_SOURCES.join(', ')}`);
+      return;
+    }
+    if (source === 'mixamo' && !isNonEmptyString(raw.boneName)) {
+      errors.push(`${path}.boneName: required for mixamo segments`);
+    }
+    if (raw.offset !== undefined && !isNumberTuple(raw.offset, 3)) {
+      errors.push(`${path}.offset: expected [x, y, z]`);
+    }
+    if (raw.rotation !== undefined && !isNumberTuple(raw.rotation, 4)) {
+      errors.push(`${path}.rotation: expected [x, y, z, w]`);
+    }
+
+    const segment: SegmentDef = {
+      id: raw.id,
+      displayName: isNonEmptyString(raw.displayName) ? raw.displayName : raw.id,
+      source
+    };
+    if (isNonEmptyString(raw.boneName)) segment.boneName = raw.boneName;
+    if (isNonEmptyString(raw.parentSegmentId)) segment.parentSegmentId = raw.parentSegmentId;
+    if (isNumberTuple(raw.offset, 3)) segment.offset = new THREE.Vector3().fromArray(raw.offset);
+    if (isNumberTuple(raw.rotation, 4)) segment.rotation = new THREE.Quaternion().fromArray(raw.rotation).normalize();
+    segments[raw.id] = segment;
+  });
+
+  for (const segment of Object.values(segments)) {
+    if (segment.source === 'virtual' && (!segment.parentSegmentId || !segments[segment.parentSegmentId])) {
+      errors.push(`segments.${segment.id}.parentSegmentId: virtual segments need an existing parent segment`);
+    }
+  }
+
+  if (!isNonEmptyString(input.rootSegment) || !segments[input.rootSegment]) {
+    errors.push(`rootSegment: '${String(input.rootSegment)}' is not a defined segment`);
+  }
+
+  // Joints
+  const coordinateIds = new Set<string>();
+  const drivenSegments = new Map<string, string>(); // child segment -> joint id
+
+  (input.joints as unknown[]).forEach((raw, i) => {
+    const path = `joints[${i}]`;
+    if (!isObject(raw)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    if (!isNonEmptyString(raw.id)) {
+      errors.push(`${path}.id: expected a non-empty string`);
+      return;
+    }
+    if (joints[raw.id]) {
+      errors.push(`${path}.id: duplicate joint '${raw.id}'`);
+      return;
+    }
+
+    const jointErrors = errors.length;
+    const type = raw.type as JointType;
+    const eulerOrder = raw.eulerOrder as JointDef['eulerOrder'];
+    const side = raw.side as JointDef['side'];
+
+    for (const key of ['parentSegment', 'childSegment'] as const) {
+      const segmentId = raw[key];
+      if (!isNonEmptyString(segmentId) || !segments[segmentId]) {
+        errors.push(`${path}.${key}: '${String(segmentId)}' is not a defined segment`);
+      }
+    }
+    if (raw.parentSegment === raw.childSegment) {
+      errors.push(`${path}: parent and child segment must differ`);
+    }
+    const parentBone = mixamoBoneOf(segments, raw.parentSegment);
+    const childBone = mixamoBoneOf(segments, raw.childSegment);
+    if (parentBone && childBone) {
+      const sceneParent = getMixamoBoneParent(childBone);
+      if (sceneParent !== undefined && sceneParent !== parentBone) {
+        errors.push(`${path}: bone '${childBone}' is not a direct child of '${parentBone}' in the rig`);
+      }
+    }
+    if (isNonEmptyString(raw.childSegment)) {
+      const other = drivenSegments.get(raw.childSegment);
+      if (other) errors.push(`${path}.childSegment: '${raw.childSegment}' is already driven by joint '${other}'`);
+      drivenSegments.set(raw.childSegment, raw.id);
+    }
+    if (!JOINT_TYPES.includes(type)) errors.push(`${path}.type: expected one of ${JOINT_TYPES.join(', ')}`);
+    if (!EULER_ORDERS.includes(eulerOrder)) errors.push(`${path}.eulerOrder: expected one of ${EULER_ORDERS.join(', ')}`);
+    if (side !== undefined && !SIDES.includes(side)) errors.push(`${path}.side: expected one of ${SIDES.join(', ')}`);
+    if (!Array.isArray(raw.coordinates)) {
+      errors.push(`${path}.coordinates: expected an array`);
+      return;
+    }
+
+    const coordinates: CoordinateDef[] = [];
+    const axes = new Set<string>();
+    raw.coordinates.forEach((rawCoord: unknown, j: number) => {
+      const coordPath = `${path}.coordinates[${j}]`;
+      if (!isObject(rawCoord)) {
+        errors.push(`${coordPath}: expected an object`);
+        return;
+      }
+      if (!isNonEmptyString(rawCoord.id)) {
+        errors.push(`${coordPath}.id: expected a non-empty string`);
+        return;
+      }
+      if (coordinateIds.has(rawCoord.id)) {
+        errors.push(`${coordPath}.id: duplicate coordinate '${rawCoord.id}'`);
+        return;
+      }
+      coordinateIds.add(rawCoord.id);
+
+      const axis = rawCoord.axis as CoordinateDef['axis'];
+      if (!AXES.includes(axis)) {
+        errors.push(`${coordPath}.axis: expected X, Y or Z`);
+        return;
+      }
+      if (axes.has(axis)) {
+        errors.push(`${coordPath}.axis: joint already has a coordinate on ${axis}`);
+        return;
+      }
+      axes.add(axis);
+
+      if (!isNumberTuple(rawCoord.range, 2) || rawCoord.range[0] > rawCoord.range[1]) {
+        errors.push(`${coordPath}.range: expected [min, max] with min <= max`);
+        return;
+      }
+      for (const key of ['neutral', 'default'] as const) {
+        if (rawCoord[key] !== undefined && (typeof rawCoord[key] !== 'number' || !Number.isFinite(rawCoord[key]))) {
+          errors.push(`${coordPath}.${key}: expected a number`);
+        }
+      }
+      for (const key of ['clamped', 'locked', 'invert'] as const) {
+        if (!isOptionalBoolean(rawCoord[key])) errors.push(`${coordPath}.${key}: expected a boolean`);
+      }
+
+      const [min, max] = rawCoord.range;
+      const neutral = typeof rawCoord.neutral === 'number' ? rawCoord.neutral : 0;
+      if (neutral < min || neutral > max) {
+        warnings.push(`${coordPath}.neutral: ${neutral} lies outside range [${min}, ${max}]`);
+      }
+
+      const coord: CoordinateDef = {
+        id: rawCoord.id,
+        jointId: raw.id as string,
+        displayName: isNonEmptyString(rawCoord.displayName) ? rawCoord.displayName : rawCoord.id,
+        axis,
+        index: AXES.indexOf(axis) as CoordinateDef['index'],
+        neutral: neutral * scale,
+        range: { min: min * scale, max: max * scale },
+        clamped: rawCoord.clamped !== false,
+        locked: rawCoord.locked === true
+      };
+      if (typeof rawCoord.default === 'number') coord.default = rawCoord.default * scale;
+      if (rawCoord.invert === true) coord.invert = true;
+      coordinates.push(coord);
+    });
+
+    if (errors.length > jointErrors) return;
+
+    if (coordinates.length !== TYPE_DOF[type]) {
+      warnings.push(`${path}: '${type}' joint '${raw.id}' has ${coordinates.length} coordinate(s), expected ${TYPE_DOF[type]}`);
+    }
+
+    const joint: JointDef = {
+      id: raw.id,
+      displayName: isNonEmptyString(raw.displayName) ? raw.displayName : raw.id,
+      parentSegment: raw.parentSegment as string,
+      childSegment: raw.childSegment as string,
+      type,
+      eulerOrder,
+      coordinates
+    };
+    if (side) joint.side = side;
+
+    // Limit model
+    const limitModel = raw.limitModel as JointLimitModel | undefined;
+    if (limitModel !== undefined && !LIMIT_MODELS.includes(limitModel)) {
+      errors.push(`${path}.limitModel: expected one of ${LIMIT_MODELS.join(', ')}`);
+    } else if (limitModel) {
+      joint.limitModel = limitModel;
+    }
+    if (raw.swingTwist !== undefined) {
+      const swingTwist = parseSwingTwist(raw.swingTwist, `${path}.swingTwist`, scale, errors);
+      if (swingTwist) joint.swingTwist = swingTwist;
+    } else if (limitModel === 'swing_twist') {
+      errors.push(`${path}.swingTwist: required when limitModel is 'swing_twist'`);
+    }
+    joints[raw.id] = joint;
+  });
+
+  if (Object.keys(joints).length === 0 && errors.length === 0) {
+    errors.push('joints: model defines no joints');
+  }
+
+  // Couplers
+  const couplers: CoordinateCouplerDef[] = [];
+  const couplerIds = new Set<string>();
+  const dependents = new Set<string>();
+  if (input.couplers !== undefined && !Array.isArray(input.couplers)) {
+    errors.push('couplers: expected an array');
+  }
+  (Array.isArray(input.couplers) ? input.couplers : []).forEach((raw: unknown, i: number) => {
+    const path = `couplers[${i}]`;
+    if (!isObject(raw)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    if (!isNonEmptyString(raw.id) || couplerIds.has(raw.id)) {
+      errors.push(`${path}.id: expected a unique non-empty string`);
+      return;
+    }
+    couplerIds.add(raw.id);
+
+    const couplerErrors = errors.length;
+    const dependent = raw.dependentCoordinate;
+    const independents = raw.independentCoordinates;
+    if (!isNonEmptyString(dependent) || !coordinateIds.has(dependent)) {
+      errors.push(`${path}.dependentCoordinate: '${String(dependent)}' is not a defined coordinate`);
+    } else if (dependents.has(dependent)) {
+      errors.push(`${path}.dependentCoordinate: '${dependent}' is already driven by another coupler`);
+    }
+    if (!Array.isArray(independents) || independents.length === 0) {
+      errors.push(`${path}.independentCoordinates: expected a non-empty array`);
+      return;
+    }
+    independents.forEach((id: unknown, j: number) => {
+      if (!isNonEmptyString(id) || !coordinateIds.has(id)) {
+        errors.push(`${path}.independentCoordinates[${j}]: '${String(id)}' is not a defined coordinate`);
+      } else if (id === dependent) {
+        errors.push(`${path}.independentCoordinates[${j}]: coordinate cannot depend on itself`);
+      }
+    });
+
+    const rawFn = raw.function;
+    let fn: CouplerFunction | null = null;
+    if (!isObject(rawFn)) {
+      errors.push(`${path}.function: expected an object`);
+    } else if (rawFn.type === 'linear') {
+      if (!isNumberArray(rawFn.coefficients) || rawFn.coefficients.length !== independents.length) {
+        errors.push(`${path}.function.coefficients: expected ${independents.length} number(s)`);
+      } else if (rawFn.offset !== undefined && (typeof rawFn.offset !== 'number' || !Number.isFinite(rawFn.offset))) {
+        errors.push(`${path}.function.offset: expected a number`);
+      } else {
+        const offset = typeof rawFn.offset === 'number' ? rawFn.offset : 0;
+        fn = { type: 'linear', coefficients: [...rawFn.coefficients], offset: offset * scale };
+      }
+    } else if (rawFn.type === 'spline') {
+      const { x, y } = rawFn;
+      if (independents.length !== 1) {
+        errors.push(`${path}.function: spline couplers take exactly one independent coordinate`);
+      } else if (!isNumberArray(x) || !isNumberArray(y) || x.length < 2 || x.length !== y.length) {
+        errors.push(`${path}.function: expected x and y arrays of equal length (at least 2 points)`);
+      } else if (x.some((value, j) => j > 0 && value <= x[j - 1])) {
+        errors.push(`${path}.function.x: expected strictly increasing values`);
+      } else {
+        fn = { type: 'spline', x: x.map(v => v * scale), y: y.map(v => v * scale) };
+      }
+    } else {
+      errors.push(`${path}.function.type: expected 'linear' or 'spline'`);
+    }
+
+    if (errors.length > couplerErrors || !fn) return;
+
+    dependents.add(dependent as string);
+    const coupler: CoordinateCouplerDef = {
+      id: raw.id,
+      dependentCoordinate: dependent as string,
+      independentCoordinates: independents as string[],
+      function: fn
+    };
+    if (isNonEmptyString(raw.displayName)) coupler.displayName = raw.displayName;
+    couplers.push(coupler);
+  });
+
+  // Range dependencies
+  const rangeDependencies: CoordinateRangeDependencyDef[] = [];
+  const dependencyIds = new Set<string>();
+  if (input.rangeDependencies !== undefined && !Array.isArray(input.rangeDependencies)) {
+    errors.push('rangeDependencies: expected an array');
+  }
+  (Array.isArray(input.rangeDependencies) ? input.rangeDependencies : []).forEach((raw: unknown, i: number) => {
+    const path = `rangeDependencies[${i}]`;
+    if (!isObject(raw)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    if (!isNonEmptyString(raw.id) || dependencyIds.has(raw.id)) {
+      errors.push(`${path}.id: expected a unique non-empty string`);
+      return;
+    }
+    dependencyIds.add(raw.id);
+
+    const dependencyErrors = errors.length;
+    const coordinate = raw.coordinate;
+    const independents = raw.independentCoordinates;
+    if (!isNonEmptyString(coordinate) || !coordinateIds.has(coordinate)) {
+      errors.push(`${path}.coordinate: '${String(coordinate)}' is not a defined coordinate`);
+    }
+    if (!Array.isArray(independents) || independents.length !== 1) {
+      errors.push(`${path}.independentCoordinates: table functions take exactly one independent coordinate`);
+      return;
+    }
+    const independent = independents[0];
+    if (!isNonEmptyString(independent) || !coordinateIds.has(independent)) {
+      errors.push(`${path}.independentCoordinates[0]: '${String(independent)}' is not a defined coordinate`);
+    } else if (independent === coordinate) {
+      errors.push(`${path}.independentCoordinates[0]: coordinate cannot depend on itself`);
+    }
+
+    const rawFn = raw.function;
+    if (!isObject(rawFn) || rawFn.type !== 'table') {
+      errors.push(`${path}.function.type: expected 'table'`);
+      return;
+    }
+    const { x, min, max } = rawFn;
+    const isRow = (row: unknown) => row === undefined || (isNumberArray(row) && isNumberArray(x) && row.length === x.length);
+    if (!isNumberArray(x) || x.length < 2) {
+      errors.push(`${path}.function.x: expected at least 2 numbers`);
+    } else if (x.some((value, j) => j > 0 && value <= x[j - 1])) {
+      errors.push(`${path}.function.x: expected strictly increasing values`);
+    } else if (min === undefined && max === undefined) {
+      errors.push(`${path}.function: expected a min and/or max row`);
+    } else if (!isRow(min) || !isRow(max)) {
+      errors.push(`${path}.function: min and max rows need one value per x`);
+    }
+    if (errors.length > dependencyErrors) return;
+
+    const dependency: CoordinateRangeDependencyDef = {
+      id: raw.id,
+      coordinate: coordinate as string,
+      independentCoordinates: [independent as string],
+      function: {
+        type: 'table',
+        x: (x as number[]).map(v => v * scale),
+        ...(isNumberArray(min) ? { min: min.map(v => v * scale) } : {}),
+        ...(isNumberArray(max) ? { max: max.map(v => v * scale) } : {})
+      }
+    };
+    if (isNonEmptyString(raw.displayName)) dependency.displayName = raw.displayName;
+    rangeDependencies.push(dependency);
+  });
+
+  if (errors.length > 0) return fail();
+
+  return {
+    success: true,
+    model: {
+      id: input.id as string,
+      ...(typeof input.displayName === 'string' ? { displayName: input.displayName } : {}),
+      segments,
+      joints,
+      rootSegment: input.rootSegment as string,
+      ...(couplers.length > 0 ? { couplers } : {}),
+      ...(rangeDependencies.length > 0 ? { rangeDependencies } : {})
+    },
+    warnings,
+    errors
+  };
+}
+
+/**
+ * Parse model file text
+ */
+export function parseBiomechModelText(text: string): ModelLoadResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, model: null, warnings: [], errors: [`Invalid JSON: ${message}`] };
+  }
+  return parseBiomechModel(json);
+}
+
+/**
+ * Fetch and parse a model file
+ *
+ * @param url - Model JSON URL (e.g. under public/models)
+ */
+export async function loadBiomechModel(url: string): Promise<ModelLoadResult> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return { success: false, model: null, warnings: [], errors: [`Failed to fetch ${url}: ${response.status}`] };
+    }
+    return parseBiomechModelText(await response.text());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, model: null, warnings: [], errors: [`Failed to fetch ${url}: ${message}`] };
+  }
+}
+
+/**
+ * Serialize a model to the JSON file layout
+ * (e.g. to export the built-in model as a starting point for an alternate one)
+ * Range dependencies given as functions are code, not data, and are omitted.
+ *
+ * @param model - Model to serialize
+ * @param angleUnit - Units for coordinate angles in the output (default: 'deg')
+ */
+export function serializeBiomechModel(model: BiomechModel, angleUnit: AngleUnits = 'deg'): BiomechModelJson {
+  const scale = angleUnit === 'deg' ? 1 / DEG_TO_RAD : 1;
+  const angle = (value: number) => Number((value * scale).toFixed(6));
+  const tableDependencies = (model.rangeDependencies ?? []).flatMap(dependency =>
+    dependency.function.type === 'table' ? [{ dependency, table: dependency.function }] : []
+  );
+
+  return {
+    format: BIOMECH_MODEL_FORMAT,
+    version: BIOMECH_MODEL_VERSION,
+    id: model.id,
+    ...(model.displayName ? { displayName: model.displayName } : {}),
+    rootSegment: model.rootSegment,
+    angleUnit,
+    segments: Object.values(model.segments).map(segment => ({
+      id: segment.id,
+      displayName: segment.displayName,
+      source: segment.source,
+      ...(segment.boneName ? { boneName: segment.boneName } : {}),
+      ...(segment.parentSegmentId ? { parentSegmentId: segment.parentSegmentId } : {}),
+      ...(segment.offset ? { offset: segment.offset.toArray() as [number, number, number] } : {}),
+      ...(segment.rotation ? { rotation: segment.rotation.toArray() as [number, number, number, number] } : {})
+    })),
+    joints: Object.values(model.joints).map(joint => ({
+      id: joint.id,
+      displayName: joint.displayName,
+      parentSegment: joint.parentSegment,
+      childSegment: joint.childSegment,
+      type: joint.type,
+      eulerOrder: joint.eulerOrder,
+      ...(joint.side ? { side: joint.side } : {}),
+      coordinates: joint.coordinates.map(coord => ({
+        id: coord.id,
+        displayName: coord.displayName,
+        axis: coord.axis,
+        range: [angle(coord.range.min), angle(coord.range.max)] as [number, number],
+        ...(coord.neutral !== 0 ? { neutral: angle(coord.neutral) } : {}),
+        ...(coord.default !== undefined ? { default: angle(coord.default) } : {}),
+        ...(!coord.clamped ? { clamped: false } : {}),
+        ...(coord.locked ? { locked: true } : {}),
+        ...(coord.invert ? { invert: true } : {})
+      })),
+      ...(joint.limitModel ? { limitModel: joint.limitModel } : {}),
+      ...(joint.swingTwist ? {
+        swingTwist: {
+          twistAxis: joint.swingTwist.twistAxis,
+          swing: joint.swingTwist.swing.type === 'polygon'
+            ? {
+              type: 'polygon' as const,
+              vertices: joint.swingTwist.swing.vertices.map(([u, v]) => [angle(u), angle(v)] as [number, number])
+            }
+            : { type: 'elliptical' as const }
+        }
+      } : {})
+    })),
+    ...(model.couplers?.length ? {
+      couplers: model.couplers.map(coupler => ({
+        id: coupler.id,
+        ...(coupler.displayName ? { displayName: coupler.displayName } : {}),
+        dependentCoordinate: coupler.dependentCoordinate,
+        independentCoordinates: [...coupler.independentCoordinates],
+        function: coupler.function.type === 'linear'
+          ? { type: 'linear' as const, coefficients: [...coupler.function.coefficients], offset: angle(coupler.function.offset) }
+          : { type: 'spline' as const, x: coupler.function.x.map(angle), y: coupler.function.y.map(angle) }
+      }))
+    } : {}),
+    ...(tableDependencies.length ? {
+      rangeDependencies: tableDependencies.map(({ dependency, table }) => ({
+        id: dependency.id,
+        ...(dependency.displayName ? { displayName: dependency.displayName } : {}),
+        coordinate: dependency.coordinate,
+        independentCoordinates: [...dependency.independentCoordinates],
+        function: {
+          type: 'table' as const,
+          x: table.x.map(angle),
+          ...(table.min ? { min: table.min.map(angle) } : {}),
+          ...(table.max ? { max: table.max.map(angle) } : {})
+        }
+      }))
+    } : {})
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Motion Export - CSV and OpenSim .mot writers
+ *
+ * Serializes a MotionRecording (or a single ModelState) into text formats our
+ * analysts can open directly:
+ * - CSV: one header row, then one row per frame (spreadsheets, pandas, MATLAB)
+ * - .mot: OpenSim Storage file (version=1 header, tab-delimited, `endheader`)
+ *
+ * Coordinate columns are named by CoordinateDef.id so files round-trip with
+ * OpenSim-style coordinate naming (hip_r_flexion, gh_r_elevation, ...).
+ */
+
+import type { ModelState } from '../model/types';
+import { getAllCoordinateIds, type MotionRecording } from '../engine/motionRecorder';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+export type AngleUnits = 'deg' | 'rad';
+
+/**
+ * Export options shared by both writers
+ */
+export interface MotionExportOptions {
+  /** Angle units for coordinate columns (default: 'deg') */
+  units?: AngleUnits;
+
+  /** Which time base to write in the time column (default: 'time') */
+  timeSource?: 'time' | 'clipTime';
+
+  /** Storage name written on the first line of a .mot file */
+  name?: string;
+
+  /** Decimal places for coordinate values (default: 6) */
+  precision?: number;
+}
+
+/**
+ * Wrap a single ModelState as a one-frame recording
+ *
+ * @param state - Current model state (e.g. BiomechState.getModelState())
+ * @param coordinateIds - Columns to include (defaults to every model coordinate)
+ */
+export function recordingFromModelState(
+  state: ModelState,
+  coordinateIds: string[] = getAllCoordinateIds()
+): MotionRecording {
+  const values: Record<string, Float64Array> = {};
+  for (const id of coordinateIds) {
+    const value = state.q[id];
+    values[id] = Float64Array.of(typeof value === 'number' ? value : NaN);
+  }
+
+  return {
+    coordinateIds: [...coordinateIds],
+    frameCount: 1,
+    time: Float64Array.of(0),
+    clipTime: Float64Array.of(0),
+    values
+  };
+}
+
+/**
+ * Write a recording as CSV with a `time` column followed by one column per coordinate
+ * Missing samples are written as empty cells.
+ */
+export function exportRecordingToCSV(
+  recording: MotionRecording,
+  options: MotionExportOptions = {}
+): string {
+  const { units = 'deg', timeSource = 'time', precision = 6 } = options;
+  const scale = units === 'deg' ? RAD_TO_DEG : 1;
+  const times = recording[timeSource];
+
+  const lines: string[] = [['time', ...recording.coordinateIds].join(',')];
+  for (let i = 0; i < recording.frameCount; i++) {
+    const row = [formatValue(times[i], precision, '')];
+    for (const id of recording.coordinateIds) {
+      row.push(formatValue(recording.values[id][i] * scale, precision, ''));
+    }
+    lines.push(row.join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write a recording as an OpenSim Storage (.mot) file
+ * Missing samples are written as NaN, which OpenSim reads as missing data.
+ */
+export function exportRecordingToMot(
+  recording: MotionRecording,
+  options: MotionExportOptions = {}
+): string {
+  const { units = 'deg', timeSource = 'time', precision = 6 } = options;
+  const name = options.name ?? recording.source ?? 'Coordinates';
+  const scale = units === 'deg' ? RAD_TO_DEG : 1;
+  const times = recording[timeSource];
+  const columns = ['time', ...recording.coordinateIds];
+
+  const lines: string[] = [
+    name,
+    'version=1',
+    `nRows=${recording.frameCount}`,
+    `nColumns=${columns.length}`,
+    `inDegrees=${units === 'deg' ? 'yes' : 'no'}`,
+    '',
+    'Units are S.I. units (second, meters, Newtons, ...)',
+    "If the header above contains a line with 'inDegrees', this indicates whether rotational values are in degrees (yes) or radians (no).",
+    ...(recording.groundContact ? ['Ground contact corrected the recorded pose (stance feet locked, bones kept above the floor).'] : []),
+    '',
+    'endheader',
+    columns.join('\t')
+  ];
+
+  for (let i = 0; i < recording.frameCount; i++) {
+    const row = [formatValue(times[i], precision, 'NaN')];
+    for (const id of recording.coordinateIds) {
+      row.push(formatValue(recording.values[id][i] * scale, precision, 'NaN'));
+    }
+    lines.push(row.join('\t'));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatValue(value: number, precision: number, missing: string): string {
+  return Number.isFinite(value) ? value.toFixed(precision) : missing;
+}
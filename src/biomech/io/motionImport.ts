@@ -0,0 +1,183 @@
+/**
+ * Motion Import - CSV and OpenSim .mot/.sto readers
+ *
+ * Parses coordinate time series produced by OpenSim (IK results, .mot/.sto
+ * storage files) or by spreadsheets (CSV) into a MotionRecording, the same
+ * columnar structure produced by MotionRecorder and consumed by the exporters.
+ *
+ * Columns are matched to the coordinates of the given model (the built-in
+ * model by default) by CoordinateDef.id. A `time` column is
+ * required; unknown columns are ignored and reported as warnings.
+ */
+
+import { getAllCoordinateIds, type MotionRecording } from '../engine/motionRecorder';
+import type { AngleUnits } from './motionExport';
+import type { BiomechModel } from '../model/types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Import options
+ */
+export interface MotionImportOptions {
+  /**
+   * Angle units of coordinate columns.
+   * .mot/.sto files declare this via `inDegrees`; CSV files default to degrees.
+   */
+  units?: AngleUnits;
+
+  /** Model whose coordinates are accepted as columns (default: built-in model) */
+  model?: BiomechModel;
+
+  /** Coordinate ids accepted as columns (overrides model; defaults to every model coordinate) */
+  coordinateIds?: string[];
+}
+
+/**
+ * Import result with diagnostics
+ */
+export interface MotionImportResult {
+  success: boolean;
+  recording: MotionRecording | null;
+  format: 'mot' | 'csv';
+  units: AngleUnits;
+  ignoredColumns: string[];
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * Parse a .mot/.sto or CSV motion file
+ *
+ * @param text - File contents
+ * @param source - File name, stored as the recording source
+ * @param options - Import options
+ */
+export function parseMotionFile(
+  text: string,
+  source?: string,
+  options: MotionImportOptions = {}
+): MotionImportResult {
+  const lines = text.split(/\r?\n/);
+  const endHeaderIndex = lines.findIndex(line => line.trim().toLowerCase() === 'endheader');
+  const format: 'mot' | 'csv' = endHeaderIndex >= 0 ? 'mot' : 'csv';
+
+  let units: AngleUnits = options.units ?? 'deg';
+  let bodyStart = 0;
+
+  if (format === 'mot') {
+    for (const line of lines.slice(0, endHeaderIndex)) {
+      const match = /^\s*inDegrees\s*=\s*(\w+)/i.exec(line);
+      if (match) {
+        units = match[1].toLowerCase() === 'yes' ? 'deg' : 'rad';
+      }
+    }
+    bodyStart = endHeaderIndex + 1;
+  }
+
+  const rows = lines
+    .slice(bodyStart)
+    .filter(line => line.trim() !== '' && !line.trimStart().startsWith('#'));
+
+  const result: MotionImportResult = {
+    success: false,
+    recording: null,
+    format,
+    units,
+    ignoredColumns: [],
+    warnings: [],
+    errors: []
+  };
+
+  if (rows.length === 0) {
+    result.errors.push('File contains no column header');
+    return result;
+  }
+
+  const delimiter = detectDelimiter(rows[0], format);
+  const header = splitRow(rows[0], delimiter);
+  const timeIndex = header.findIndex(name => name.toLowerCase() === 'time');
+  if (timeIndex < 0) {
+    result.errors.push("Missing required 'time' column");
+    return result;
+  }
+
+  const known = new Set(options.coordinateIds ?? getAllCoordinateIds(options.model));
+  const columns: Array<{ id: string; index: number }> = [];
+  header.forEach((name, index) => {
+    if (index === timeIndex) return;
+    if (known.has(name)) {
+      columns.push({ id: name, index });
+    } else {
+      result.ignoredColumns.push(name);
+    }
+  });
+
+  if (columns.length === 0) {
+    result.errors.push('No columns match model coordinate ids');
+    return result;
+  }
+  if (result.ignoredColumns.length > 0) {
+    result.warnings.push(`Ignored ${result.ignoredColumns.length} unknown column(s): ${result.ignoredColumns.join(', ')}`);
+  }
+
+  const scale = units === 'deg' ? DEG_TO_RAD : 1;
+  const time: number[] = [];
+  const values: Record<string, number[]> = {};
+  columns.forEach(({ id }) => { values[id] = []; });
+
+  rows.slice(1).forEach((row, rowIndex) => {
+    const cells = splitRow(row, delimiter);
+    const t = parseNumber(cells[timeIndex]);
+    if (!Number.isFinite(t)) {
+      result.warnings.push(`Skipped row ${rowIndex + 1}: invalid time`);
+      return;
+    }
+    time.push(t);
+    for (const { id, index } of columns) {
+      values[id].push(parseNumber(cells[index]) * scale);
+    }
+  });
+
+  if (time.length === 0) {
+    result.errors.push('File contains no data rows');
+    return result;
+  }
+  for (let i = 1; i < time.length; i++) {
+    if (time[i] < time[i - 1]) {
+      result.errors.push(`Time column is not monotonic at row ${i + 1}`);
+      return result;
+    }
+  }
+
+  const timeArray = Float64Array.from(time);
+  const recording: MotionRecording = {
+    source,
+    coordinateIds: columns.map(c => c.id),
+    frameCount: time.length,
+    time: timeArray,
+    clipTime: timeArray.slice(),
+    values: Object.fromEntries(
+      Object.entries(values).map(([id, column]) => [id, Float64Array.from(column)])
+    )
+  };
+
+  return { ...result, success: true, recording };
+}
+
+function detectDelimiter(headerRow: string, format: 'mot' | 'csv'): RegExp {
+  if (headerRow.includes('\t')) return /\t/;
+  if (format === 'csv' && headerRow.includes(',')) return /,/;
+  if (format === 'csv' && headerRow.includes(';')) return /;/;
+  return /\s+/;
+}
+
+function splitRow(row: string, delimiter: RegExp): string[] {
+  return row.trim().split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+function parseNumber(cell: string | undefined): number {
+  if (cell === undefined || cell === '') return NaN;
+  const value = Number(cell);
+  return Number.isFinite(value) ? value : NaN;
+}
@@ -0,0 +1,506 @@
+/**
+ * OpenSim Model Import - .osim XML to BiomechModel
+ *
+ * Reads the BodySet, JointSet and coordinates of an OpenSim model
+ * (CustomJoint, PinJoint, BallJoint, GimbalJoint, UniversalJoint, WeldJoint)
+ * and maps it onto the Mixamo rig so validated joint definitions and ROM
+ * limits (e.g. Gait2392, Rajagopal 2016) drive the viewer's JointDefs.
+ *
+ * Both file layouts are supported:
+ * - OpenSim 4.x: top-level JointSet, joints reference bodies through offset
+ *   frames (socket_parent_frame → PhysicalOffsetFrame → /bodyset/<body>)
+ * - OpenSim 3.3: each Body nests its Joint, with <parent_body> and a CoordinateSet
+ *
+ * Mapping rules:
+ * - Bodies map to SEGMENTS ids through OSIM_BODY_MAP; unmapped bodies (patella,
+ *   ground) and joints touching them are skipped with a warning.
+ * - A joint whose child segment's bone is not a direct child of the parent
+ *   segment's bone in the rig is skipped with a warning (e.g. torso → head,
+ *   which would skip the thoracic spine and neck bones).
+ * - Several bodies may share a segment (talus + calcn → foot, ulna + radius →
+ *   forearm). A joint between two bodies of the same segment contributes its
+ *   coordinates to the joint that drives that segment (subtalar → ankle).
+ * - Known coordinates map to viewer CoordinateDefs through
+ *   OSIM_COORDINATE_MAP, taking the viewer's id, axis and invert flag and the
+ *   OpenSim range/default. The sign relating the two conventions is chosen by
+ *   range overlap (e.g. Gait2392 knee flexion is negative, Rajagopal positive),
+ *   falling back to the table sign for symmetric ranges.
+ * - Unknown coordinates keep their OpenSim name; their axis is derived from the
+ *   OpenSim rotation axis (OpenSim X anterior, Y up, Z right map to rig Z, Y, X).
+ * - Translational coordinates and the ground (free) joint are ignored.
+ *
+ * The assembled model is run through the JSON model validator, so results use
+ * the same diagnostics as modelLoader.
+ */
+
+import { DEFAULT_BIOMECH_MODEL } from '../model/defaultModel';
+import { getMixamoBoneParent } from '../model/segments';
+import type { BiomechModel, CoordinateDef, JointDef } from '../model/types';
+import {
+  BIOMECH_MODEL_FORMAT,
+  BIOMECH_MODEL_VERSION,
+  parseBiomechModel,
+  serializeBiomechModel,
+  type CoordinateJson,
+  type JointJson,
+  type SegmentJson
+} from './modelLoader';
+
+type Axis = CoordinateDef['axis'];
+
+/**
+ * Viewer coordinate an OpenSim coordinate maps onto
+ */
+export interface OsimCoordinateTarget {
+  coordinate: string;
+  /** Sign used when the OpenSim range is symmetric (ambiguous) */
+  sign: 1 | -1;
+}
+
+/**
+ * How one imported OpenSim coordinate was mapped
+ */
+export interface OsimCoordinateMapping {
+  osimName: string;
+  coordinateId: string;
+  jointId: string;
+  /** viewer value = sign × OpenSim value */
+  sign: 1 | -1;
+}
+
+/**
+ * Import options; maps are merged over the defaults
+ */
+export interface OsimImportOptions {
+  bodyMap?: Record<string, string | null>;
+  coordinateMap?: Record<string, OsimCoordinateTarget>;
+  /** Model used to look up mapped coordinates/joints (default: built-in model) */
+  referenceModel?: BiomechModel;
+  /** Id of the produced model (default: the osim Model name) */
+  modelId?: string;
+}
+
+/**
+ * Import result with diagnostics
+ */
+export interface OsimImportResult {
+  success: boolean;
+  model: BiomechModel | null;
+  coordinateMap: OsimCoordinateMapping[];
+  unmappedBodies: string[];
+  warnings: string[];
+  errors: string[];
+}
+
+function bilateralBodies(entries: Record<string, string>): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const [body, segment] of Object.entries(entries)) {
+    map[`${body}_r`] = `${segment}_right`;
+    map[`${body}_l`] = `${segment}_left`;
+  }
+  return map;
+}
+
+function bilateralCoordinates(entries: Record<string, [string, 1 | -1]>): Record<string, OsimCoordinateTarget> {
+  const map: Record<string, OsimCoordinateTarget> = {};
+  for (const [name, [coordinate, sign]] of Object.entries(entries)) {
+    map[`${name}_r`] = { coordinate: coordinate.replace('{s}', 'r'), sign };
+    map[`${name}_l`] = { coordinate: coordinate.replace('{s}', 'l'), sign };
+  }
+  return map;
+}
+
+/**
+ * OpenSim body name → SEGMENTS id (null = known body without a rig segment)
+ */
+export const OSIM_BODY_MAP: Record<string, string | null> = {
+  ground: null,
+  pelvis: 'pelvis',
+  // The back joint drives the lumbar spine; Spine1/Spine2 stay at neutral
+  torso: 'lumbar',
+  head: 'head',
+  ...bilateralBodies({
+    femur: 'femur',
+    tibia: 'tibia',
+    talus: 'foot',
+    calcn: 'foot',
+    toes: 'toes',
+    humerus: 'humerus',
+    ulna: 'radius',
+    radius: 'radius',
+    hand: 'hand'
+  }),
+  patella_r: null,
+  patella_l: null
+};
+
+/**
+ * OpenSim coordinate name → viewer coordinate (Gait2392 / Rajagopal naming)
+ */
+export const OSIM_COORDINATE_MAP: Record<string, OsimCoordinateTarget> = {
+  lumbar_extension: { coordinate: 'lumbar_flexion', sign: -1 },
+  lumbar_bending: { coordinate: 'lumbar_bending', sign: 1 },
+  lumbar_rotation: { coordinate: 'lumbar_rotation', sign: 1 },
+  ...bilateralCoordinates({
+    hip_flexion: ['hip_{s}_flexion', 1],
+    hip_adduction: ['hip_{s}_adduction', -1],
+    hip_rotation: ['hip_{s}_rotation', 1],
+    knee_angle: ['knee_{s}_flexion', 1],
+    ankle_angle: ['ankle_{s}_flexion', 1],
+    subtalar_angle: ['ankle_{s}_inversion', -1],
+    mtp_angle: ['mtp_{s}_flexion', 1],
+    elbow_flex: ['elbow_{s}_flexion', 1],
+    pro_sup: ['elbow_{s}_pronation', 1],
+    wrist_flex: ['wrist_{s}_flexion', 1],
+    wrist_dev: ['wrist_{s}_deviation', 1]
+  })
+};
+
+/** OpenSim body-frame axis → rig joint axis */
+const OSIM_TO_RIG_AXIS: Axis[] = ['Z', 'Y', 'X'];
+
+/** Joints whose coordinates rotate about fixed joint-frame axes, in coordinate order */
+const FIXED_AXIS_JOINTS: Record<string, number[]> = {
+  PinJoint: [2],
+  UniversalJoint: [0, 1],
+  BallJoint: [0, 1, 2],
+  GimbalJoint: [0, 1, 2]
+};
+
+const JOINT_TAGS = ['CustomJoint', 'WeldJoint', 'FreeJoint', 'PlanarJoint', 'SliderJoint', 'EllipsoidJoint', ...Object.keys(FIXED_AXIS_JOINTS)];
+
+/**
+ * Coordinate read from the file (radians)
+ */
+interface OsimCoordinate {
+  name: string;
+  min: number;
+  max: number;
+  defaultValue: number;
+  clamped: boolean;
+  locked: boolean;
+  /** OpenSim axis index (0=X, 1=Y, 2=Z), null if translational */
+  axisIndex: number | null;
+}
+
+interface OsimJoint {
+  name: string;
+  parentBody: string;
+  childBody: string;
+  coordinates: OsimCoordinate[];
+}
+
+function directChild(element: Element, tag: string): Element | undefined {
+  return Array.from(element.children).find(child => child.tagName === tag);
+}
+
+function childText(element: Element, tag: string): string | undefined {
+  return directChild(element, tag)?.textContent?.trim();
+}
+
+function numbers(text: string | undefined): number[] {
+  return (text ?? '').split(/\s+/).filter(Boolean).map(Number);
+}
+
+/** '/bodyset/pelvis', '../femur_r' or 'pelvis' → 'pelvis' */
+function lastPathPart(path: string): string {
+  const parts = path.split('/').filter(Boolean);
+  return parts[parts.length - 1] ?? path;
+}
+
+function dominantAxis(axis: number[]): number {
+  let best = 0;
+  axis.forEach((v, i) => {
+    if (Math.abs(v) > Math.abs(axis[best])) best = i;
+  });
+  return best;
+}
+
+/**
+ * Resolve the body a 4.x joint socket points at, following an offset frame if needed
+ */
+function resolveSocketBody(joint: Element, socketTag: string): string | null {
+  const socket = childText(joint, socketTag);
+  if (!socket) return null;
+  const frames = directChild(joint, 'frames');
+  const frame = frames
+    ? Array.from(frames.children).find(f => f.getAttribute('name') === lastPathPart(socket))
+    : undefined;
+  const target = frame ? childText(frame, 'socket_parent') : socket;
+  return target ? lastPathPart(target) : null;
+}
+
+function readJoint(element: Element): OsimJoint | null {
+  const name = element.getAttribute('name') ?? element.tagName;
+
+  // Parent/child bodies: 4.x sockets, falling back to the 3.3 nested layout
+  let parentBody = resolveSocketBody(element, 'socket_parent_frame');
+  let childBody = resolveSocketBody(element, 'socket_child_frame');
+  if (!parentBody) {
+    const parentText = childText(element, 'parent_body');
+    parentBody = parentText ? lastPathPart(parentText) : null;
+  }
+  if (!childBody) {
+    const body = element.closest('Body');
+    childBody = body?.getAttribute('name') ?? null;
+  }
+  if (!parentBody || !childBody) return null;
+
+  // Rotation axis per coordinate name
+  const rotationAxes = new Map<string, number>();
+  const spatial = directChild(element, 'SpatialTransform');
+  if (spatial) {
+    for (const transformAxis of Array.from(spatial.getElementsByTagName('TransformAxis'))) {
+      const axisName = transformAxis.getAttribute('name') ?? '';
+      const coordName = childText(transformAxis, 'coordinates');
+      if (!axisName.startsWith('rotation') || !coordName) continue;
+      rotationAxes.set(coordName.split(/\s+/)[0], dominantAxis(numbers(childText(transformAxis, 'axis'))));
+    }
+  }
+  const fixedAxes = FIXED_AXIS_JOINTS[element.tagName];
+
+  const coordinates: OsimCoordinate[] = [];
+  Array.from(element.getElementsByTagName('Coordinate')).forEach((coord, i) => {
+    const coordName = coord.getAttribute('name');
+    if (!coordName) return;
+    const [min, max] = numbers(childText(coord, 'range'));
+    const motionType = childText(coord, 'motion_type');
+    let axisIndex: number | null = null;
+    if (motionType !== 'translational') {
+      axisIndex = fixedAxes ? fixedAxes[i] ?? null : rotationAxes.get(coordName) ?? null;
+    }
+    coordinates.push({
+      name: coordName,
+      min: Number.isFinite(min) ? min : -Math.PI,
+      max: Number.isFinite(max) ? max : Math.PI,
+      defaultValue: Number(childText(coord, 'default_value') ?? 0) || 0,
+      clamped: childText(coord, 'clamped') !== 'false',
+      locked: childText(coord, 'locked') === 'true',
+      axisIndex
+    });
+  });
+
+  return { name, parentBody, childBody, coordinates };
+}
+
+/**
+ * Sign mapping an OpenSim range onto the viewer range: the orientation with
+ * more overlap wins, the table sign breaks ties
+ */
+function chooseSign(min: number, max: number, target: CoordinateDef, fallback: 1 | -1): 1 | -1 {
+  const overlap = (lo: number, hi: number) =>
+    Math.max(0, Math.min(hi, target.range.max) - Math.max(lo, target.range.min));
+  const same = overlap(min, max);
+  const flipped = overlap(-max, -min);
+  if (Math.abs(same - flipped) < 1e-6) return fallback;
+  return same > flipped ? 1 : -1;
+}
+
+function sideOf(name: string): JointDef['side'] {
+  if (/_r$/.test(name)) return 'right';
+  if (/_l$/.test(name)) return 'left';
+  return 'center';
+}
+
+/**
+ * Import an OpenSim .osim model
+ *
+ * @param xml - .osim file contents
+ * @param options - Mapping overrides
+ */
+export function importOsimModel(xml: string, options: OsimImportOptions = {}): OsimImportResult {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const coordinateMap: OsimCoordinateMapping[] = [];
+  const unmappedBodies = new Set<string>();
+  const fail = (): OsimImportResult => ({
+    success: false,
+    model: null,
+    coordinateMap: [],
+    unmappedBodies: Array.from(unmappedBodies),
+    warnings,
+    errors
+  });
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const modelElement = doc.getElementsByTagName('Model')[0];
+  if (doc.getElementsByTagName('parsererror').length > 0 || !modelElement) {
+    errors.push('Not a valid OpenSim model file (missing <Model>)');
+    return fail();
+  }
+
+  const bodyMap = { ...OSIM_BODY_MAP, ...options.bodyMap };
+  const coordTable = { ...OSIM_COORDINATE_MAP, ...options.coordinateMap };
+  const reference = options.referenceModel ?? DEFAULT_BIOMECH_MODEL;
+  const referenceCoords = new Map<string, CoordinateDef>();
+  Object.values(reference.joints).forEach(joint => joint.coordinates.forEach(c => referenceCoords.set(c.id, c)));
+
+  const osimJoints = Array.from(modelElement.getElementsByTagName('*'))
+    .filter(el => JOINT_TAGS.includes(el.tagName) && el.hasAttribute('name'))
+    .map(readJoint)
+    .filter((joint): joint is OsimJoint => joint !== null);
+
+  if (osimJoints.length === 0) {
+    errors.push('Model contains no joints');
+    return fail();
+  }
+
+  const segmentOf = (body: string): string | null => {
+    const segment = bodyMap[body];
+    if (segment === undefined || segment === null) {
+      if (body !== 'ground') unmappedBodies.add(body);
+      return null;
+    }
+    return segment;
+  };
+
+  // Primary joints (between two segments) first, then same-segment joints merged into them
+  const joints = new Map<string, JointJson>(); // keyed by child segment
+  const deferred: Array<{ osim: OsimJoint; segment: string }> = [];
+  let rootSegment: string | null = null;
+
+  const addCoordinates = (target: JointJson, osim: OsimJoint) => {
+    const axes = new Set(target.coordinates.map(c => c.axis));
+    for (const coord of osim.coordinates) {
+      if (coord.axisIndex === null) {
+        warnings.push(`${osim.name}: translational coordinate '${coord.name}' ignored`);
+        continue;
+      }
+      const mapped = coordTable[coord.name];
+      const viewerCoord = mapped ? referenceCoords.get(mapped.coordinate) : undefined;
+      const axis = viewerCoord?.axis ?? OSIM_TO_RIG_AXIS[coord.axisIndex];
+      if (axes.has(axis)) {
+        warnings.push(`${osim.name}: coordinate '${coord.name}' skipped, ${target.id} already has a ${axis} coordinate`);
+        continue;
+      }
+      axes.add(axis);
+
+      const sign = viewerCoord ? chooseSign(coord.min, coord.max, viewerCoord, mapped!.sign) : 1;
+      const [min, max] = sign === 1 ? [coord.min, coord.max] : [-coord.max, -coord.min];
+      const entry: CoordinateJson = {
+        id: viewerCoord?.id ?? coord.name,
+        displayName: viewerCoord?.displayName ?? coord.name,
+        axis,
+        range: [min, max]
+      };
+      if (coord.defaultValue !== 0) entry.default = sign * coord.defaultValue;
+      if (!coord.clamped) entry.clamped = false;
+      if (coord.locked) entry.locked = true;
+      if (viewerCoord?.invert) entry.invert = true;
+      if (!viewerCoord) warnings.push(`${osim.name}: '${coord.name}' has no viewer mapping; axis ${axis} derived from the OpenSim axis`);
+
+      target.coordinates.push(entry);
+      coordinateMap.push({ osimName: coord.name, coordinateId: entry.id, jointId: target.id, sign });
+    }
+  };
+
+  for (const osim of osimJoints) {
+    const parent = segmentOf(osim.parentBody);
+    const child = segmentOf(osim.childBody);
+
+    if (osim.parentBody === 'ground') {
+      rootSegment = child ?? rootSegment;
+      if (osim.coordinates.length > 0) warnings.push(`${osim.name}: ground joint coordinates ignored (root motion)`);
+      continue;
+    }
+    if (!parent || !child) {
+      warnings.push(`${osim.name}: skipped, body '${parent ? osim.childBody : osim.parentBody}' has no rig segment`);
+      continue;
+    }
+    if (parent === child) {
+      deferred.push({ osim, segment: child });
+      continue;
+    }
+    const parentBone = reference.segments[parent]?.boneName;
+    const childBone = reference.segments[child]?.boneName;
+    const sceneParent = childBone ? getMixamoBoneParent(childBone) : undefined;
+    if (parentBone && sceneParent !== undefined && sceneParent !== parentBone) {
+      warnings.push(`${osim.name}: skipped, rig bone '${childBone}' is not a direct child of '${parentBone}'`);
+      continue;
+    }
+    if (joints.has(child)) {
+      warnings.push(`${osim.name}: skipped, segment '${child}' is already driven by ${joints.get(child)!.id}`);
+      continue;
+    }
+
+    // Reuse the viewer joint's identity when the coordinates map onto it
+    const mappedJointId = osim.coordinates
+      .map(c => referenceCoords.get(coordTable[c.name]?.coordinate ?? '')?.jointId)
+      .find((id): id is string => !!id);
+    const viewerJoint = mappedJointId ? reference.joints[mappedJointId] : undefined;
+
+    const joint: JointJson = {
+      id: viewerJoint?.id ?? osim.name,
+      displayName: viewerJoint?.displayName ?? osim.name,
+      parentSegment: parent,
+      childSegment: child,
+      type: 'weld',
+      eulerOrder: viewerJoint?.eulerOrder ?? 'XYZ',
+      side: viewerJoint?.side ?? sideOf(osim.name),
+      coordinates: []
+    };
+    addCoordinates(joint, osim);
+    if (!viewerJoint) {
+      // Euler sequence follows the order of the OpenSim rotations
+      const order = joint.coordinates.map(c => c.axis);
+      (['X', 'Y', 'Z'] as Axis[]).forEach(a => !order.includes(a) && order.push(a));
+      joint.eulerOrder = order.join('') as JointDef['eulerOrder'];
+    }
+    joints.set(child, joint);
+  }
+
+  for (const { osim, segment } of deferred) {
+    const target = joints.get(segment);
+    if (!target) {
+      warnings.push(`${osim.name}: skipped, no joint drives segment '${segment}'`);
+      continue;
+    }
+    addCoordinates(target, osim);
+  }
+
+  for (const joint of joints.values()) {
+    joint.type = (['weld', 'hinge', 'universal', 'ball'] as const)[joint.coordinates.length];
+  }
+  if (unmappedBodies.size > 0) {
+    warnings.push(`Bodies without rig segments: ${Array.from(unmappedBodies).join(', ')}`);
+  }
+
+  // Segments come from the reference model (bone names)
+  const segmentIds = new Set<string>();
+  joints.forEach(joint => {
+    segmentIds.add(joint.parentSegment);
+    segmentIds.add(joint.childSegment);
+  });
+  if (rootSegment) segmentIds.add(rootSegment);
+  const referenceSegments = serializeBiomechModel(reference, 'rad').segments;
+  const segments: SegmentJson[] = [];
+  for (const id of segmentIds) {
+    const segment = referenceSegments.find(s => s.id === id);
+    if (segment) {
+      segments.push(segment);
+    } else {
+      errors.push(`Segment '${id}' is not defined in model '${reference.id}'`);
+    }
+  }
+  if (errors.length > 0) return fail();
+
+  const validated = parseBiomechModel({
+    format: BIOMECH_MODEL_FORMAT,
+    version: BIOMECH_MODEL_VERSION,
+    id: options.modelId ?? modelElement.getAttribute('name') ?? 'osim_model',
+    displayName: modelElement.getAttribute('name') ?? undefined,
+    rootSegment: rootSegment ?? segments[0]?.id ?? '',
+    angleUnit: 'rad',
+    segments,
+    joints: Array.from(joints.values())
+  });
+
+  return {
+    success: validated.success,
+    model: validated.model,
+    coordinateMap: validated.success ? coordinateMap : [],
+    unmappedBodies: Array.from(unmappedBodies),
+    warnings: [...warnings, ...validated.warnings],
+    errors: validated.errors
+  };
+}
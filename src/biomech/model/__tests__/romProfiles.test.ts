@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ROM_PROFILE_ID,
+  getActiveRomProfileId,
+  getCoordinateRange,
+  getProfileChain,
+  getRomProfile,
+  onRomProfileChange,
+  registerRomProfile,
+  resolveRomProfile,
+  setActiveRomProfile,
+  unregisterRomProfile
+} from '../romProfiles';
+import { getJoint } from '../joints';
+import { getLimitsFromJointDef } from '../../../components/viewer/constraints/constraintValidator';
+
+const deg = (degrees: number): number => (degrees * Math.PI) / 180;
+
+function coordinate(jointId: string, coordId: string) {
+  const coord = getJoint(jointId)?.coordinates.find(c => c.id === coordId);
+  if (!coord) throw new Error(`Missing coordinate ${coordId}`);
+  return coord;
+}
+
+describe('ROM profiles', () => {
+  afterEach(() => {
+    setActiveRomProfile(DEFAULT_ROM_PROFILE_ID);
+    unregisterRomProfile('cycle_a');
+    unregisterRomProfile('cycle_b');
+  });
+
+  it('uses joint model ranges by default', () => {
+    const knee = coordinate('knee_right', 'knee_r_flexion');
+    expect(getActiveRomProfileId()).toBe(DEFAULT_ROM_PROFILE_ID);
+    expect(getCoordinateRange(knee)).toEqual(knee.range);
+  });
+
+  it('resolves overrides from the root profile down', () => {
+    expect(getProfileChain('older_adult').map(p => p.id)).toEqual(['aaos', 'older_adult']);
+
+    const resolved = resolveRomProfile('older_adult');
+    // Overridden by the child
+    expect(resolved.knee_r_flexion.min).toBeCloseTo(deg(-125));
+    // Inherited from AAOS
+    expect(resolved.elbow_r_pronation.max).toBeCloseTo(deg(80));
+  });
+
+  it('applies the active profile to coordinate ranges and constraint limits', () => {
+    const ghElevation = coordinate('gh_right', 'gh_r_elevation');
+    expect(setActiveRomProfile('post_op_shoulder_right')).toBe(true);
+
+    const range = getCoordinateRange(ghElevation);
+    expect(range.max).toBeCloseTo(0);
+    // Partial override keeps the model's lower bound
+    expect(range.min).toBeCloseTo(ghElevation.range.min);
+
+    const limits = getLimitsFromJointDef(getJoint('gh_right')!);
+    expect(limits.z[1]).toBeCloseTo(0);
+    expect(limits.x).toEqual([deg(-30), deg(30)].map(v => expect.closeTo(v)));
+  });
+
+  it('rejects unknown profiles and notifies listeners on change', () => {
+    const seen: string[] = [];
+    const unsubscribe = onRomProfileChange(id => seen.push(id));
+
+    expect(setActiveRomProfile('does_not_exist')).toBe(false);
+    expect(getActiveRomProfileId()).toBe(DEFAULT_ROM_PROFILE_ID);
+
+    setActiveRomProfile('pediatric');
+    unsubscribe();
+    setActiveRomProfile(DEFAULT_ROM_PROFILE_ID);
+    expect(seen).toEqual(['pediatric']);
+  });
+
+  it('survives inheritance cycles in registered profiles', () => {
+    registerRomProfile({ id: 'cycle_a', displayName: 'A', description: '', parentId: 'cycle_b', overrides: {} });
+    registerRomProfile({
+      id: 'cycle_b',
+      displayName: 'B',
+      description: '',
+      parentId: 'cycle_a',
+      overrides: { knee_r_flexion: { min: deg(-90) } }
+    });
+
+    expect(getProfileChain('cycle_a').map(p => p.id)).toEqual(['cycle_b', 'cycle_a']);
+    expect(resolveRomProfile('cycle_a').knee_r_flexion.min).toBeCloseTo(deg(-90));
+  });
+
+  it('unregisters added profiles but keeps built-in ones', () => {
+    registerRomProfile({ id: 'cycle_a', displayName: 'A', description: '', overrides: {} });
+    expect(unregisterRomProfile('cycle_a')).toBe(true);
+    expect(getRomProfile('cycle_a')).toBeUndefined();
+    expect(unregisterRomProfile(DEFAULT_ROM_PROFILE_ID)).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Anthropometric Segment Tables
+ *
+ * Segment mass fractions and center-of-mass (COM) locations used to estimate
+ * whole-body COM from the posed skeleton (see engine/centerOfMass).
+ *
+ * Values follow de Leva (1996), the adjustment of Zatsiorsky–Seluyanov's
+ * parameters to joint-center landmarks. Each entry places the segment COM on
+ * the line between two landmarks, at `comFraction` of the way from `from` to
+ * `to`. Landmarks name a segment (its bone origin) or, for end sites without
+ * a segment, a Mixamo bone (e.g. mixamorig1HeadTop_End).
+ *
+ * Landmark approximations on the Mixamo rig:
+ * - Trunk: Neck ≈ suprasternale, Spine1 ≈ xiphoid, Spine ≈ omphalion,
+ *   Hips ≈ mid-hip; upper/middle/lower trunk map to thorax/lumbar/pelvis
+ * - Foot: ankle → toe tip instead of heel → toe tip
+ * Scapula, neck, lower thoracic and finger segments carry no separate mass
+ * (they are included in the trunk, head and hand). Limb entries also carry
+ * de Leva's sagittal radius of gyration.
+ */
+
+export interface SegmentAnthropometry {
+  /** Fraction of total body mass (0..1) */
+  massFraction: number;
+
+  /** Landmark the COM fraction is measured from */
+  from: string;
+
+  /** Landmark the COM fraction is measured toward */
+  to: string;
+
+  /** COM position along from → to (0 = at `from`, 1 = at `to`) */
+  comFraction: number;
+
+  /**
+   * Sagittal radius of gyration about the COM as a fraction of the from → to
+   * length (limb segments only; used by engine/inverseDynamics)
+   */
+  radiusOfGyration?: number;
+}
+
+export interface AnthropometricTable {
+  id: string;
+  displayName: string;
+  source: string;
+  /** Entries by segment ID; mass fractions sum to 1 */
+  segments: Record<string, SegmentAnthropometry>;
+}
+
+export const DEFAULT_ANTHROPOMETRIC_TABLE_ID = 'de_leva_male';
+
+type TrunkValues = [massPercent: number, comFraction: number];
+type LimbValues = [massPercent: number, comFraction: number, radiusOfGyration: number];
+
+interface TableValues {
+  head: TrunkValues;
+  upperTrunk: TrunkValues;
+  middleTrunk: TrunkValues;
+  lowerTrunk: TrunkValues;
+  upperArm: LimbValues;
+  forearm: LimbValues;
+  hand: LimbValues;
+  thigh: LimbValues;
+  shank: LimbValues;
+  foot: LimbValues;
+}
+
+function entry(
+  [massPercent, comFraction, radiusOfGyration]: TrunkValues | LimbValues,
+  from: string,
+  to: string
+): SegmentAnthropometry {
+  return radiusOfGyration === undefined
+    ? { massFraction: massPercent / 100, from, to, comFraction }
+    : { massFraction: massPercent / 100, from, to, comFraction, radiusOfGyration };
+}
+
+function buildSegments(v: TableValues): Record<string, SegmentAnthropometry> {
+  const segments: Record<string, SegmentAnthropometry> = {
+    head: entry(v.head, 'neck', 'mixamorig1HeadTop_End'),
+    thorax: entry(v.upperTrunk, 'neck', 'thoracic_lower'),
+    lumbar: entry(v.middleTrunk, 'thoracic_lower', 'lumbar'),
+    pelvis: entry(v.lowerTrunk, 'lumbar', 'pelvis'),
+  };
+
+  for (const [side, Side] of [['right', 'Right'], ['left', 'Left']] as const) {
+    segments[`humerus_${side}`] = entry(v.upperArm, `humerus_${side}`, `radius_${side}`);
+    segments[`radius_${side}`] = entry(v.forearm, `radius_${side}`, `hand_${side}`);
+    segments[`hand_${side}`] = entry(v.hand, `hand_${side}`, `middle_prox_${side}`);
+    segments[`femur_${side}`] = entry(v.thigh, `femur_${side}`, `tibia_${side}`);
+    segments[`tibia_${side}`] = entry(v.shank, `tibia_${side}`, `foot_${side}`);
+    segments[`foot_${side}`] = entry(v.foot, `foot_${side}`, `mixamorig1${Side}Toe_End`);
+  }
+  return segments;
+}
+
+/**
+ * Built-in tables
+ */
+export const ANTHROPOMETRIC_TABLES: AnthropometricTable[] = [
+  {
+    id: 'de_leva_male',
+    displayName: 'de Leva (male)',
+    source: 'de Leva, J Biomech 29 (1996) 1223–1230',
+    segments: buildSegments({
+      // Head COM is 50.02% from vertex toward C7
+      head: [6.94, 1 - 0.5002],
+      upperTrunk: [15.96, 0.2999],
+      middleTrunk: [16.33, 0.4502],
+      lowerTrunk: [11.17, 0.6115],
+      upperArm: [2.71, 0.5772, 0.285],
+      forearm: [1.62, 0.4574, 0.276],
+      hand: [0.61, 0.79, 0.628],
+      thigh: [14.16, 0.4095, 0.329],
+      shank: [4.33, 0.4459, 0.255],
+      foot: [1.37, 0.4415, 0.257],
+    }),
+  },
+  {
+    id: 'de_leva_female',
+    displayName: 'de Leva (female)',
+    source: 'de Leva, J Biomech 29 (1996) 1223–1230',
+    segments: buildSegments({
+      head: [6.68, 1 - 0.4841],
+      upperTrunk: [15.45, 0.2077],
+      middleTrunk: [14.65, 0.4512],
+      lowerTrunk: [12.47, 0.492],
+      upperArm: [2.55, 0.5754, 0.278],
+      forearm: [1.38, 0.4559, 0.261],
+      hand: [0.56, 0.7474, 0.531],
+      thigh: [14.78, 0.3612, 0.369],
+      shank: [4.81, 0.4416, 0.271],
+      foot: [1.29, 0.4014, 0.299],
+    }),
+  },
+];
+
+/**
+ * Look up a table by ID (falls back to the default table)
+ */
+export function getAnthropometricTable(id: string): AnthropometricTable {
+  return ANTHROPOMETRIC_TABLES.find(table => table.id === id)
+    ?? ANTHROPOMETRIC_TABLES.find(table => table.id === DEFAULT_ANTHROPOMETRIC_TABLE_ID)!;
+}
@@ -0,0 +1,60 @@
+/**
+ * Coordinate Coupler Definitions
+ *
+ * Coordinates of the built-in model that follow other coordinates instead of
+ * moving freely (cf. OpenSim CoordinateCouplerConstraint). BiomechState
+ * enforces them whenever coordinates are applied, including after IK.
+ *
+ * - Scapulohumeral rhythm: ST upward rotation = ½ × GH elevation (GH:ST ≈ 2:1,
+ *   same ratio as shoulderMapping.getExpectedSTUpwardRotation). Measured from
+ *   the calibrated neutral, arm at the side.
+ * - Screw-home: the tibia rotates externally over the last ~30° of knee
+ *   extension. Knee flexion is negative, so the spline runs from -30° (10°
+ *   internal) to full extension (0°).
+ */
+
+import type { CoordinateCouplerDef } from './types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+const degrees = (values: number[]) => values.map(v => v * DEG_TO_RAD);
+
+const SCREW_HOME = {
+  type: 'spline' as const,
+  x: degrees([-30, -20, -10, 0]),
+  y: degrees([-10, -8, -4, 0])
+};
+
+/**
+ * Couplers of the built-in model
+ */
+export const COUPLERS: CoordinateCouplerDef[] = [
+  {
+    id: 'st_r_rhythm',
+    displayName: 'Right Scapulohumeral Rhythm',
+    dependentCoordinate: 'st_r_upward',
+    independentCoordinates: ['gh_r_elevation'],
+    function: { type: 'linear', coefficients: [0.5], offset: 0 },
+  },
+  {
+    id: 'st_l_rhythm',
+    displayName: 'Left Scapulohumeral Rhythm',
+    dependentCoordinate: 'st_l_upward',
+    independentCoordinates: ['gh_l_elevation'],
+    function: { type: 'linear', coefficients: [0.5], offset: 0 },
+  },
+  {
+    id: 'knee_r_screw_home',
+    displayName: 'Right Knee Screw-Home',
+    dependentCoordinate: 'knee_r_tibial_rotation',
+    independentCoordinates: ['knee_r_flexion'],
+    function: SCREW_HOME,
+  },
+  {
+    id: 'knee_l_screw_home',
+    displayName: 'Left Knee Screw-Home',
+    dependentCoordinate: 'knee_l_tibial_rotation',
+    independentCoordinates: ['knee_l_flexion'],
+    function: SCREW_HOME,
+  },
+];
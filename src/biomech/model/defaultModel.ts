@@ -0,0 +1,40 @@
+/**
+ * Default Biomechanical Model
+ *
+ * The built-in full-body model assembled from the hard-coded SEGMENTS,
+ * JOINTS, COUPLERS and RANGE_DEPENDENCIES registries. BiomechState and SegmentRegistry fall back
+ * to it when no model is passed in; alternate models are loaded from JSON
+ * (see biomech/io/modelLoader).
+ */
+
+import { COUPLERS } from './couplers';
+import { JOINTS } from './joints';
+import { RANGE_DEPENDENCIES } from './rangeDependencies';
+import { SEGMENTS } from './segments';
+import type { BiomechModel, JointDef, SegmentDef } from './types';
+
+export const DEFAULT_MODEL_ID = 'mixamo_full_body';
+
+export const DEFAULT_BIOMECH_MODEL: BiomechModel = {
+  id: DEFAULT_MODEL_ID,
+  displayName: 'Full Body (Mixamo)',
+  segments: SEGMENTS,
+  joints: JOINTS,
+  rootSegment: 'pelvis',
+  couplers: COUPLERS,
+  rangeDependencies: RANGE_DEPENDENCIES,
+};
+
+/**
+ * Helper: Get all joints of a model as an array
+ */
+export function getModelJoints(model: BiomechModel): JointDef[] {
+  return Object.values(model.joints);
+}
+
+/**
+ * Helper: Get all segments of a model as an array
+ */
+export function getModelSegments(model: BiomechModel): SegmentDef[] {
+  return Object.values(model.segments);
+}
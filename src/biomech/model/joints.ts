@@ -9,6 +9,10 @@
  * 
  * This fixes the Mixamo default where humerus appears to connect directly to thorax.
  * Now scapular motion (ST) and humeral motion (GH) are properly separated.
+ *
+ * GH and hip use swing–twist limits (engine/swingTwist): an elliptical swing
+ * cone through their flexion/abduction ranges plus the axial rotation range,
+ * instead of clamping each coordinate independently.
  */
 
 import { JointDef } from './types';
@@ -76,6 +80,8 @@ export const JOINTS: Record<string, JointDef> = {
     type: 'ball',
     eulerOrder: 'YZX', // ISB-style: Plane -> Elevation -> Axial
     side: 'right',
+    limitModel: 'swing_twist',
+    swingTwist: { twistAxis: 'X', swing: { type: 'elliptical' } },
     coordinates: [
       {
         id: 'gh_r_rotation',
@@ -171,6 +177,8 @@ export const JOINTS: Record<string, JointDef> = {
     type: 'ball',
     eulerOrder: 'YZX', // ISB-style: Plane -> Elevation -> Axial
     side: 'left',
+    limitModel: 'swing_twist',
+    swingTwist: { twistAxis: 'X', swing: { type: 'elliptical' } },
     coordinates: [
       {
         id: 'gh_l_rotation',
@@ -340,6 +348,8 @@ export const JOINTS: Record<string, JointDef> = {
     type: 'ball',
     eulerOrder: 'XZY',
     side: 'right',
+    limitModel: 'swing_twist',
+    swingTwist: { twistAxis: 'Y', swing: { type: 'elliptical' } },
     coordinates: [
       {
         id: 'hip_r_flexion',
@@ -390,6 +400,8 @@ export const JOINTS: Record<string, JointDef> = {
     type: 'ball',
     eulerOrder: 'XZY',
     side: 'left',
+    limitModel: 'swing_twist',
+    swingTwist: { twistAxis: 'Y', swing: { type: 'elliptical' } },
     coordinates: [
       {
         id: 'hip_l_flexion',
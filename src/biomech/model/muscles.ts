@@ -0,0 +1,239 @@
+/**
+ * Muscle Definitions
+ *
+ * Musculotendon paths of the major lower-limb and rotator cuff muscles as
+ * straight-line segments through origin, via and insertion points (no
+ * wrapping surfaces). Each point is fixed to one of SEGMENTS and moves
+ * rigidly with it; engine/musclePaths evaluates lengths and moment arms.
+ *
+ * Point offsets are in meters, in the anatomical frame of the neutral pose:
+ * +X subject's left, +Y up, +Z anterior. An offset is measured from the
+ * neutral-pose origin of `landmark` (a nearby joint center, e.g. the hip
+ * joint for points on the pelvis) and defaults to the segment's own origin.
+ * Values are approximate and sized for the 1.8 m normalized model
+ * (after Delp et al. 1990 and the OpenSim gait2392 / shoulder models).
+ *
+ * Right-side paths are written out; left-side muscles mirror them in X.
+ */
+
+export type MuscleSide = 'left' | 'right';
+
+export type MuscleRegion = 'hip' | 'thigh' | 'shank' | 'rotator_cuff';
+
+/**
+ * Path point attached to a segment
+ */
+export interface MusclePathPoint {
+  /** Segment the point is fixed to */
+  segment: string;
+
+  /** Offset (m) from the landmark origin in the neutral anatomical frame */
+  offset: [number, number, number];
+
+  /** Segment whose neutral origin the offset is measured from (default: `segment`) */
+  landmark?: string;
+}
+
+/**
+ * Musculotendon unit
+ */
+export interface MuscleDef {
+  /** Unique identifier (e.g., "semiten_r") */
+  id: string;
+
+  /** Display name for UI */
+  displayName: string;
+
+  region: MuscleRegion;
+
+  side: MuscleSide;
+
+  /** Origin, via points, insertion (at least two points) */
+  points: MusclePathPoint[];
+}
+
+type PointValues = [segment: string, x: number, y: number, z: number, landmark?: string];
+
+interface MuscleTemplate {
+  id: string;
+  displayName: string;
+  region: MuscleRegion;
+  /** Right-side points; segment IDs without the side suffix */
+  points: PointValues[];
+}
+
+const BILATERAL = new Set(['femur', 'tibia', 'foot', 'toes', 'scapula', 'humerus']);
+
+const TEMPLATES: MuscleTemplate[] = [
+  // Hip
+  {
+    id: 'glut_max',
+    displayName: 'Gluteus Maximus',
+    region: 'hip',
+    points: [
+      ['pelvis', 0.07, 0.06, -0.1, 'femur'],
+      ['pelvis', -0.03, -0.02, -0.09, 'femur'],
+      ['femur', -0.05, -0.07, -0.04],
+      ['femur', -0.035, -0.13, -0.02]
+    ]
+  },
+  {
+    id: 'iliopsoas',
+    displayName: 'Iliopsoas',
+    region: 'hip',
+    points: [
+      ['pelvis', 0.03, 0.09, 0, 'femur'],
+      ['pelvis', 0.01, 0, 0.045, 'femur'],
+      ['femur', 0.01, -0.06, -0.01]
+    ]
+  },
+  // Thigh
+  {
+    id: 'rect_fem',
+    displayName: 'Rectus Femoris',
+    region: 'thigh',
+    points: [
+      ['pelvis', -0.01, 0.04, 0.04, 'femur'],
+      ['femur', 0, 0.05, 0.05, 'tibia'],
+      ['tibia', 0, -0.06, 0.04]
+    ]
+  },
+  {
+    id: 'vasti',
+    displayName: 'Vasti',
+    region: 'thigh',
+    points: [
+      ['femur', -0.02, -0.1, 0.02],
+      ['femur', 0, 0.05, 0.05, 'tibia'],
+      ['tibia', 0, -0.06, 0.04]
+    ]
+  },
+  {
+    id: 'semiten',
+    displayName: 'Semitendinosus',
+    region: 'thigh',
+    points: [
+      ['pelvis', 0.05, -0.05, -0.05, 'femur'],
+      ['tibia', 0.03, -0.02, -0.035],
+      ['tibia', 0.03, -0.07, 0.01]
+    ]
+  },
+  {
+    id: 'bifemlh',
+    displayName: 'Biceps Femoris (Long Head)',
+    region: 'thigh',
+    points: [
+      ['pelvis', 0.04, -0.05, -0.05, 'femur'],
+      ['tibia', -0.03, -0.02, -0.035],
+      ['tibia', -0.04, -0.05, -0.01]
+    ]
+  },
+  // Shank
+  {
+    id: 'gastroc',
+    displayName: 'Gastrocnemius',
+    region: 'shank',
+    points: [
+      ['femur', 0.02, 0.03, -0.03, 'tibia'],
+      ['tibia', 0, -0.05, -0.04],
+      ['foot', 0, -0.05, -0.05]
+    ]
+  },
+  {
+    id: 'soleus',
+    displayName: 'Soleus',
+    region: 'shank',
+    points: [
+      ['tibia', 0, -0.12, -0.02],
+      ['foot', 0, -0.05, -0.05]
+    ]
+  },
+  {
+    id: 'tib_ant',
+    displayName: 'Tibialis Anterior',
+    region: 'shank',
+    points: [
+      ['tibia', -0.02, -0.1, 0.02],
+      ['tibia', 0, 0.05, 0.04, 'foot'],
+      ['foot', 0.02, -0.04, 0.08]
+    ]
+  },
+  // Rotator cuff (offsets from the glenohumeral center)
+  {
+    id: 'supraspinatus',
+    displayName: 'Supraspinatus',
+    region: 'rotator_cuff',
+    points: [
+      ['scapula', 0.1, 0.04, -0.04, 'humerus'],
+      ['scapula', 0, 0.035, 0, 'humerus'],
+      ['humerus', -0.02, 0.02, 0]
+    ]
+  },
+  {
+    id: 'infraspinatus',
+    displayName: 'Infraspinatus',
+    region: 'rotator_cuff',
+    points: [
+      ['scapula', 0.09, -0.04, -0.06, 'humerus'],
+      ['scapula', -0.005, 0, -0.035, 'humerus'],
+      ['humerus', -0.015, 0.005, -0.025]
+    ]
+  },
+  {
+    id: 'subscapularis',
+    displayName: 'Subscapularis',
+    region: 'rotator_cuff',
+    points: [
+      ['scapula', 0.08, -0.03, -0.03, 'humerus'],
+      ['scapula', 0.02, 0, 0.025, 'humerus'],
+      ['humerus', 0.005, 0, 0.025]
+    ]
+  },
+  {
+    id: 'teres_minor',
+    displayName: 'Teres Minor',
+    region: 'rotator_cuff',
+    points: [
+      ['scapula', 0.05, -0.08, -0.05, 'humerus'],
+      ['humerus', -0.01, -0.01, -0.025]
+    ]
+  }
+];
+
+function sided(segment: string, side: MuscleSide): string {
+  return BILATERAL.has(segment) ? `${segment}_${side}` : segment;
+}
+
+function buildMuscle(template: MuscleTemplate, side: MuscleSide): MuscleDef {
+  const mirror = side === 'left' ? -1 : 1;
+  return {
+    id: `${template.id}_${side === 'left' ? 'l' : 'r'}`,
+    displayName: `${side === 'left' ? 'Left' : 'Right'} ${template.displayName}`,
+    region: template.region,
+    side,
+    points: template.points.map(([segment, x, y, z, landmark]) => ({
+      segment: sided(segment, side),
+      offset: [x * mirror, y, z],
+      ...(landmark ? { landmark: sided(landmark, side) } : {})
+    }))
+  };
+}
+
+/**
+ * Built-in muscles (right and left)
+ */
+export const MUSCLES: Record<string, MuscleDef> = Object.fromEntries(
+  (['right', 'left'] as const).flatMap(side =>
+    TEMPLATES.map(template => {
+      const muscle = buildMuscle(template, side);
+      return [muscle.id, muscle] as const;
+    })
+  )
+);
+
+/**
+ * Helper: Get muscle definition by ID
+ */
+export function getMuscle(muscleId: string): MuscleDef | undefined {
+  return MUSCLES[muscleId];
+}
@@ -0,0 +1,89 @@
+/**
+ * Coordinate Range Dependencies
+ *
+ * Two-joint muscles of the built-in model whose length limits one joint
+ * depending on the angle of the other. BiomechState narrows the dependent
+ * coordinate's range with these when validating, clamping and after IK.
+ *
+ * - Hamstrings: hip flexion with the knee extended is limited to a
+ *   straight-leg raise of ~80°; full hip flexion (120°) needs ~90° of knee
+ *   flexion.
+ * - Rectus femoris: with the knee flexed, hip extension drops from 30° to
+ *   ~10° (Ely / modified Thomas test).
+ * - Gastrocnemius: ankle dorsiflexion is ~10° with the knee extended and
+ *   reaches the soleus-limited 20° once the knee is flexed ~45°.
+ *
+ * Knee flexion is negative and ankle dorsiflexion positive (see joints.ts).
+ */
+
+import type { CoordinateRangeDependencyDef } from './types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+const degrees = (values: number[]) => values.map(v => v * DEG_TO_RAD);
+
+const HAMSTRINGS = {
+  type: 'table' as const,
+  x: degrees([-90, -60, -30, 0]),
+  max: degrees([120, 110, 95, 80])
+};
+
+const RECTUS_FEMORIS = {
+  type: 'table' as const,
+  x: degrees([-120, -60, 0]),
+  min: degrees([-10, -20, -30])
+};
+
+const GASTROCNEMIUS = {
+  type: 'table' as const,
+  x: degrees([-45, 0]),
+  max: degrees([20, 10])
+};
+
+/**
+ * Range dependencies of the built-in model
+ */
+export const RANGE_DEPENDENCIES: CoordinateRangeDependencyDef[] = [
+  {
+    id: 'hamstrings_r',
+    displayName: 'Right Hamstrings',
+    coordinate: 'hip_r_flexion',
+    independentCoordinates: ['knee_r_flexion'],
+    function: HAMSTRINGS,
+  },
+  {
+    id: 'hamstrings_l',
+    displayName: 'Left Hamstrings',
+    coordinate: 'hip_l_flexion',
+    independentCoordinates: ['knee_l_flexion'],
+    function: HAMSTRINGS,
+  },
+  {
+    id: 'rectus_femoris_r',
+    displayName: 'Right Rectus Femoris',
+    coordinate: 'hip_r_flexion',
+    independentCoordinates: ['knee_r_flexion'],
+    function: RECTUS_FEMORIS,
+  },
+  {
+    id: 'rectus_femoris_l',
+    displayName: 'Left Rectus Femoris',
+    coordinate: 'hip_l_flexion',
+    independentCoordinates: ['knee_l_flexion'],
+    function: RECTUS_FEMORIS,
+  },
+  {
+    id: 'gastrocnemius_r',
+    displayName: 'Right Gastrocnemius',
+    coordinate: 'ankle_r_flexion',
+    independentCoordinates: ['knee_r_flexion'],
+    function: GASTROCNEMIUS,
+  },
+  {
+    id: 'gastrocnemius_l',
+    displayName: 'Left Gastrocnemius',
+    coordinate: 'ankle_l_flexion',
+    independentCoordinates: ['knee_l_flexion'],
+    function: GASTROCNEMIUS,
+  },
+];
@@ -0,0 +1,277 @@
+/**
+ * Range of Motion Reference Profiles
+ *
+ * The ranges in joints.ts describe the rig's default (adult) limits. A ROM
+ * profile overrides those limits per CoordinateDef.id for a reference
+ * population — normative tables, age groups, or clinical restrictions such as
+ * a post-operative protocol.
+ *
+ * Profiles are hierarchical: a profile names an optional parent, and
+ * overrides are resolved from the root down so a child only lists what it
+ * changes (e.g. "Older Adult" inherits everything it does not list from "AAOS").
+ *
+ * All consumers read limits through getCoordinateRange() so switching the
+ * active profile changes clamping, validation and ROM displays together.
+ *
+ * Override values are in the coordinate's anatomical sign convention (after
+ * CoordinateDef.invert), matching CoordinateDef.range.
+ */
+
+import type { CoordinateDef } from './types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Min/max limits of a coordinate in radians
+ */
+export interface CoordinateRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Named set of coordinate range overrides
+ */
+export interface RomProfile {
+  /** Unique identifier (persisted in viewer settings) */
+  id: string;
+
+  /** Display name for UI */
+  displayName: string;
+
+  /** Short description of the reference population */
+  description: string;
+
+  /** Profile whose overrides are applied first */
+  parentId?: string;
+
+  /** Citation or provenance of the values */
+  source?: string;
+
+  /** Overrides by CoordinateDef.id; either bound may be omitted to inherit it */
+  overrides: Record<string, Partial<CoordinateRange>>;
+}
+
+/** Profile that uses the ranges defined in joints.ts unchanged */
+export const DEFAULT_ROM_PROFILE_ID = 'model';
+
+/**
+ * Build left + right overrides for a bilateral coordinate, given as degrees.
+ * `template` uses '*' for the side letter, e.g. 'knee_*_flexion'.
+ */
+function bilateral(template: string, minDeg?: number, maxDeg?: number): Record<string, Partial<CoordinateRange>> {
+  return {
+    [template.replace('*', 'l')]: degrees(minDeg, maxDeg),
+    [template.replace('*', 'r')]: degrees(minDeg, maxDeg)
+  };
+}
+
+/**
+ * Single-coordinate override given as degrees
+ */
+function degrees(minDeg?: number, maxDeg?: number): Partial<CoordinateRange> {
+  const range: Partial<CoordinateRange> = {};
+  if (minDeg !== undefined) range.min = minDeg * DEG_TO_RAD;
+  if (maxDeg !== undefined) range.max = maxDeg * DEG_TO_RAD;
+  return range;
+}
+
+/**
+ * Built-in profiles
+ *
+ * Sign conventions follow joints.ts: knee flexion is negative, ankle
+ * dorsiflexion positive, hip and elbow flexion positive.
+ */
+const BUILT_IN_PROFILES: RomProfile[] = [
+  {
+    id: DEFAULT_ROM_PROFILE_ID,
+    displayName: 'Model Default',
+    description: 'Ranges as defined by the joint model',
+    overrides: {}
+  },
+  {
+    id: 'aaos',
+    displayName: 'AAOS Adult Norms',
+    description: 'Healthy adult averages (American Academy of Orthopaedic Surgeons)',
+    source: 'AAOS, Joint Motion: Method of Measuring and Recording (1965)',
+    overrides: {
+      ...bilateral('hip_*_flexion', -30, 120),
+      ...bilateral('hip_*_rotation', -45, 45),
+      ...bilateral('knee_*_flexion', -135, 10),
+      ...bilateral('ankle_*_flexion', -50, 20),
+      ...bilateral('elbow_*_flexion', 0, 150),
+      ...bilateral('elbow_*_pronation', -80, 80),
+      ...bilateral('wrist_*_flexion', -70, 80)
+    }
+  },
+  {
+    id: 'adult_female',
+    displayName: 'Adult Female',
+    parentId: 'aaos',
+    description: 'Adult women; slightly greater hip rotation, elbow and knee extension',
+    source: 'Soucie et al., Haemophilia 17 (2011) 500–507',
+    overrides: {
+      ...bilateral('hip_*_rotation', -50, 50),
+      ...bilateral('knee_*_flexion', -140, 12),
+      ...bilateral('elbow_*_flexion', -5, 150)
+    }
+  },
+  {
+    id: 'older_adult',
+    displayName: 'Older Adult (65+)',
+    parentId: 'aaos',
+    description: 'Age-related reductions in hip extension, knee flexion, dorsiflexion and trunk motion',
+    source: 'Roach & Miles, Phys Ther 71 (1991) 656–665',
+    overrides: {
+      ...bilateral('hip_*_flexion', -15, 110),
+      ...bilateral('hip_*_rotation', -30, 35),
+      ...bilateral('knee_*_flexion', -125, 0),
+      ...bilateral('ankle_*_flexion', -40, 12),
+      lumbar_flexion: degrees(-20, 45)
+    }
+  },
+  {
+    id: 'pediatric',
+    displayName: 'Pediatric (2–8 yrs)',
+    parentId: 'aaos',
+    description: 'Children; greater hip rotation, joint hyperextension and dorsiflexion',
+    source: 'Soucie et al., Haemophilia 17 (2011) 500–507',
+    overrides: {
+      ...bilateral('hip_*_rotation', -60, 55),
+      ...bilateral('knee_*_flexion', -145, 15),
+      ...bilateral('ankle_*_flexion', -55, 25),
+      ...bilateral('elbow_*_flexion', -10, 150)
+    }
+  },
+  {
+    id: 'post_op_shoulder_right',
+    displayName: 'Post-op Shoulder (R)',
+    parentId: 'aaos',
+    description: 'Early post-operative right shoulder protocol: elevation below horizontal, limited rotation',
+    overrides: {
+      gh_r_elevation: degrees(undefined, 0),
+      gh_r_rotation: degrees(-30, 30),
+      gh_r_plane: degrees(0, 90)
+    }
+  }
+];
+
+const profiles = new Map<string, RomProfile>(BUILT_IN_PROFILES.map(p => [p.id, p]));
+let activeProfileId = DEFAULT_ROM_PROFILE_ID;
+let resolvedOverrides: Record<string, Partial<CoordinateRange>> = {};
+const listeners = new Set<(profileId: string) => void>();
+
+/**
+ * Get all registered profiles (built-in first, then in registration order)
+ */
+export function getRomProfiles(): RomProfile[] {
+  return Array.from(profiles.values());
+}
+
+/**
+ * Get a profile by id
+ */
+export function getRomProfile(profileId: string): RomProfile | undefined {
+  return profiles.get(profileId);
+}
+
+/**
+ * Register (or replace) a profile, e.g. a clinic-specific protocol
+ */
+export function registerRomProfile(profile: RomProfile): void {
+  profiles.set(profile.id, profile);
+  if (profile.id === activeProfileId || getProfileChain(activeProfileId).some(p => p.id === profile.id)) {
+    resolvedOverrides = resolveRomProfile(activeProfileId);
+    listeners.forEach(listener => listener(activeProfileId));
+  }
+}
+
+/**
+ * Remove a registered profile; built-in profiles and the active profile stay
+ *
+ * @returns false if the profile is unknown, built in or active
+ */
+export function unregisterRomProfile(profileId: string): boolean {
+  if (!profiles.has(profileId) || profileId === activeProfileId) return false;
+  if (BUILT_IN_PROFILES.some(p => p.id === profileId)) return false;
+
+  const inActiveChain = getProfileChain(activeProfileId).some(p => p.id === profileId);
+  profiles.delete(profileId);
+  if (inActiveChain) {
+    resolvedOverrides = resolveRomProfile(activeProfileId);
+    listeners.forEach(listener => listener(activeProfileId));
+  }
+  return true;
+}
+
+/**
+ * Profile chain from root ancestor to the given profile.
+ * Unknown parents end the chain; cycles are broken at the first repeat.
+ */
+export function getProfileChain(profileId: string): RomProfile[] {
+  const chain: RomProfile[] = [];
+  const seen = new Set<string>();
+  let current = profiles.get(profileId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.unshift(current);
+    current = current.parentId ? profiles.get(current.parentId) : undefined;
+  }
+  return chain;
+}
+
+/**
+ * Merge overrides along a profile's inheritance chain
+ */
+export function resolveRomProfile(profileId: string): Record<string, Partial<CoordinateRange>> {
+  const merged: Record<string, Partial<CoordinateRange>> = {};
+  for (const profile of getProfileChain(profileId)) {
+    for (const [coordId, range] of Object.entries(profile.overrides)) {
+      merged[coordId] = { ...merged[coordId], ...range };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Make a profile active for all range lookups
+ *
+ * @returns false if the profile is unknown (active profile unchanged)
+ */
+export function setActiveRomProfile(profileId: string): boolean {
+  if (!profiles.has(profileId)) return false;
+  if (profileId === activeProfileId) return true;
+
+  activeProfileId = profileId;
+  resolvedOverrides = resolveRomProfile(profileId);
+  listeners.forEach(listener => listener(profileId));
+  return true;
+}
+
+export function getActiveRomProfileId(): string {
+  return activeProfileId;
+}
+
+/**
+ * Subscribe to active profile changes
+ *
+ * @returns Unsubscribe function
+ */
+export function onRomProfileChange(listener: (profileId: string) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Effective range of a coordinate under the active profile
+ */
+export function getCoordinateRange(coord: CoordinateDef): CoordinateRange {
+  const override = resolvedOverrides[coord.id];
+  if (!override) return coord.range;
+  return {
+    min: override.min ?? coord.range.min,
+    max: override.max ?? coord.range.max
+  };
+}
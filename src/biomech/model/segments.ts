@@ -289,3 +289,54 @@ export function getSegmentsBySide(side: 'left' | 'right' | 'center'): SegmentDef
 export function getSegmentByBoneName(boneName: string): SegmentDef | undefined {
   return Object.values(SEGMENTS).find(seg => seg.boneName === boneName);
 }
+
+const MIXAMO_BONE_PREFIX = /^mixamorig\d*:?/;
+
+function mixamoSideBones(side: 'Left' | 'Right'): Record<string, string> {
+  const bones: Record<string, string> = {
+    [`${side}Shoulder`]: 'Spine2',
+    [`${side}Arm`]: `${side}Shoulder`,
+    [`${side}ForeArm`]: `${side}Arm`,
+    [`${side}Hand`]: `${side}ForeArm`,
+    [`${side}UpLeg`]: 'Hips',
+    [`${side}Leg`]: `${side}UpLeg`,
+    [`${side}Foot`]: `${side}Leg`,
+    [`${side}ToeBase`]: `${side}Foot`,
+    [`${side}Toe_End`]: `${side}ToeBase`,
+  };
+  for (const finger of ['Thumb', 'Index', 'Middle', 'Ring', 'Pinky']) {
+    bones[`${side}Hand${finger}1`] = `${side}Hand`;
+    for (let i = 2; i <= 4; i++) {
+      bones[`${side}Hand${finger}${i}`] = `${side}Hand${finger}${i - 1}`;
+    }
+  }
+  return bones;
+}
+
+/**
+ * Scene parent of each Mixamo rig bone, by bone name without the
+ * `mixamorig`/`mixamorig1`/`mixamorig:` prefix (null = skeleton root)
+ */
+export const MIXAMO_BONE_PARENTS: Record<string, string | null> = {
+  Hips: null,
+  Spine: 'Hips',
+  Spine1: 'Spine',
+  Spine2: 'Spine1',
+  Neck: 'Spine2',
+  Head: 'Neck',
+  HeadTop_End: 'Head',
+  ...mixamoSideBones('Right'),
+  ...mixamoSideBones('Left'),
+};
+
+/**
+ * Helper: Scene parent of a Mixamo bone, with the child's name prefix
+ *
+ * @returns Parent bone name, null for the root bone, undefined for bones
+ *   outside the Mixamo rig
+ */
+export function getMixamoBoneParent(boneName: string): string | null | undefined {
+  const prefix = boneName.match(MIXAMO_BONE_PREFIX)?.[0] ?? '';
+  const parent = MIXAMO_BONE_PARENTS[boneName.slice(prefix.length)];
+  return parent ? prefix + parent : parent;
+}
@@ -96,6 +96,42 @@ export type JointType =
   | 'planar_custom'  // Custom 3-DOF for specialized joints
   | 'weld';          // 0-DOF: fixed connection
 
+/**
+ * Swing cone of a swing–twist limit
+ * Swing is written as a swing vector (swing angle × unit swing axis) on the
+ * two joint axes other than the twist axis, taken in X → Y → Z order, in the
+ * sign convention of the coordinates on those axes (inverted coordinates flip
+ * their component).
+ * - elliptical: quarter ellipses through the ROM limits of the two swing
+ *   coordinates (active ROM profile)
+ * - polygon: spherical polygon with vertices given as swing vectors in
+ *   radians; the polygon must enclose the origin (zero swing)
+ */
+export type SwingConeDef =
+  | { type: 'elliptical' }
+  | { type: 'polygon'; vertices: Array<[number, number]> };
+
+/**
+ * Swing–twist limit for ball joints
+ * The deviation from neutral is split into a twist about the child's long
+ * axis, limited to the ROM range of the coordinate on that axis, and a swing
+ * of the long axis, limited by the cone.
+ */
+export interface SwingTwistLimitDef {
+  /** Long axis of the child segment in the joint frame */
+  twistAxis: 'X' | 'Y' | 'Z';
+
+  /** Swing cone boundary */
+  swing: SwingConeDef;
+}
+
+/**
+ * Joint limit model
+ * - coordinate: each coordinate clamped to its own range (rectangular ROM box)
+ * - swing_twist: swing cone plus twist range (requires `swingTwist`)
+ */
+export type JointLimitModel = 'coordinate' | 'swing_twist';
+
 /**
  * Joint definition
  * Connects parent and child segments with a mobilizer
@@ -124,6 +160,79 @@ export interface JointDef {
   
   /** Optional: anatomical side */
   side?: 'left' | 'right' | 'center';
+
+  /** Optional: limit model (default 'coordinate') */
+  limitModel?: JointLimitModel;
+
+  /** Optional: swing–twist limit parameters (used when limitModel is 'swing_twist') */
+  swingTwist?: SwingTwistLimitDef;
+}
+
+/**
+ * Coupling function: dependent = f(independent coordinates), all in radians
+ * - linear: Σ coefficients[i] * q_i + offset
+ * - spline: natural cubic spline through (x, y) of a single independent
+ *   coordinate, held at the end values outside [x₀, xₙ]
+ */
+export type CouplerFunction =
+  | { type: 'linear'; coefficients: number[]; offset: number }
+  | { type: 'spline'; x: number[]; y: number[] };
+
+/**
+ * Coordinate coupler (cf. OpenSim CoordinateCouplerConstraint)
+ * The dependent coordinate is not a free DOF: whenever coordinates are
+ * applied to the skeleton it is recomputed from the independent ones.
+ */
+export interface CoordinateCouplerDef {
+  /** Unique identifier (e.g., "st_r_rhythm") */
+  id: string;
+
+  /** Display name for UI */
+  displayName?: string;
+
+  /** Coordinate ID driven by this coupler */
+  dependentCoordinate: string;
+
+  /** Coordinate IDs the dependent is a function of */
+  independentCoordinates: string[];
+
+  /** Coupling function */
+  function: CouplerFunction;
+}
+
+/**
+ * Range function: bounds of a coordinate from other coordinates, all in radians
+ * - table: piecewise-linear lookup over a single independent coordinate, held
+ *   at the end values outside [x₀, xₙ]; a missing min or max row leaves that
+ *   bound to the coordinate's own range
+ * - function: callback over all independent coordinates (built-in models
+ *   only, not serializable)
+ */
+export type RangeFunction =
+  | { type: 'table'; x: number[]; min?: number[]; max?: number[] }
+  | { type: 'function'; evaluate: (inputs: number[]) => { min?: number; max?: number } };
+
+/**
+ * Coordinate range that depends on other coordinates (multi-articular
+ * muscles, e.g. hamstrings limiting hip flexion with the knee extended)
+ * The bounds narrow the coordinate's own range (after the ROM profile); they
+ * never widen it.
+ */
+export interface CoordinateRangeDependencyDef {
+  /** Unique identifier (e.g., "hamstrings_r") */
+  id: string;
+
+  /** Display name for UI */
+  displayName?: string;
+
+  /** Coordinate ID whose range is limited */
+  coordinate: string;
+
+  /** Coordinate IDs the bounds are a function of */
+  independentCoordinates: string[];
+
+  /** Range function */
+  function: RangeFunction;
 }
 
 /**
@@ -132,6 +241,9 @@ export interface JointDef {
 export interface BiomechModel {
   /** Model name/identifier */
   id: string;
+
+  /** Display name for UI */
+  displayName?: string;
   
   /** All segments in the model */
   segments: Record<string, SegmentDef>;
@@ -141,6 +253,12 @@ export interface BiomechModel {
   
   /** Root segment (typically pelvis or thorax) */
   rootSegment: string;
+
+  /** Optional: coordinate couplers, evaluated in order */
+  couplers?: CoordinateCouplerDef[];
+
+  /** Optional: coordinate ranges that depend on other coordinates */
+  rangeDependencies?: CoordinateRangeDependencyDef[];
 }
 
 /**
@@ -150,9 +268,12 @@ export interface CoordinateState {
   /** Current value in radians */
   value: number;
   
-  /** Velocity (rad/s) - for future dynamics */
+  /** Filtered angular velocity (rad/s), set by BiomechState.update */
   velocity?: number;
-  
+
+  /** Filtered angular acceleration (rad/s²), set by BiomechState.update */
+  acceleration?: number;
+
   /** Whether this coordinate is currently locked */
   locked: boolean;
   
@@ -12,9 +12,12 @@ import * as THREE from 'three';
 import { CCDIKHelper } from 'three/examples/jsm/animation/CCDIKSolver.js';
 import { RotationCompensatedIKSolver } from './utils/RotationCompensatedIKSolver';
 import {
+  LOOK_AT_DISTANCE,
+  applyChainPole,
   buildIKConfiguration,
   findBoneByName,
   getIKChainConfig,
+  resetPoleTarget,
   updateIKTarget
 } from './utils/ikSolverConfig';
 import { SKELETON_MAP } from './utils/skeletonMap';
@@ -23,7 +26,13 @@ import { captureConstraintReferencePose, clearConstraintReferencePose, type Cons
 import { useViewerDispatch, useViewerSelector } from './state/viewerState';
 import { captureJointNeutralPose, clearJointNeutralPose } from './biomech/jointAngles';
 import { BiomechState } from '../../biomech/engine/biomechState';
+import { GroundContactSolver } from '../../biomech/engine/groundContact';
+import { getGazeRay, solveLookAt } from '../../biomech/engine/lookAt';
+import type { GaitSide } from '../../biomech/analysis/gaitAnalysis';
+import { DEFAULT_BIOMECH_MODEL } from '../../biomech/model/defaultModel';
+import type { BiomechModel } from '../../biomech/model/types';
 import { useCoordinateEngine } from './utils/debugFlags';
+import { getViewerSettings } from '../../shared/settings';
 import { loadNeutralPose } from './constraints/neutralPoseLoader';
 
 import { capturePoseSnapshot, diffPoseSnapshots, formatPoseDeltas, type PoseSnapshot } from './utils/skeletonDiagnostics';
@@ -49,6 +58,7 @@ export interface InteractiveBoneControllerProps {
   onDragStart?: (bone: THREE.Bone, plane: THREE.Plane) => void;
   onDragEnd?: () => void;
   resetCounter?: number;
+  getClipTime?: () => number; // Mixer time of the active clip, stamped onto recorded frames
 }
 
 export default function InteractiveBoneController({
@@ -65,18 +75,35 @@ export default function InteractiveBoneController({
   onDragStart,
   onDragEnd,
   resetCounter = 0,
+  getClipTime,
 }: InteractiveBoneControllerProps) {
 
   const animationId = useViewerSelector(state => state.playback.animationId);
   const biomechState = useViewerSelector(state => state.ik.biomechState); // Get biomechState from store
+  const ikSolverKind = useViewerSelector(state => state.mode.ikSolver);
+  const swivelAngles = useViewerSelector(state => state.ik.swivelAngles);
+  const pinnedChains = useViewerSelector(state => state.ik.pinnedChains);
+  const gazeTarget = useViewerSelector(state => state.ik.gazeTarget);
+  const lookAtWeights = useViewerSelector(state => state.ik.lookAtWeights);
+  const recorder = useViewerSelector(state => state.recording.recorder);
+  const importedMotion = useViewerSelector(state => state.importedMotion.player);
+  const groundContact = useViewerSelector(state => state.mode.groundContact);
+  const modelMetrics = useViewerSelector(state => state.metrics.modelMetrics);
   const dispatch = useViewerDispatch();
   const [ikSolver, setIkSolver] = useState<RotationCompensatedIKSolver | null>(null);
   const [ikHelper, setIkHelper] = useState<CCDIKHelper | null>(null);
   const [ikTargets, setIkTargets] = useState<Map<string, THREE.Bone>>(new Map());
+  const [poleTargets, setPoleTargets] = useState<Map<string, THREE.Bone>>(new Map());
 
   // Phase 2: Coordinate engine state (only created if feature flag enabled)
   const biomechStateRef = useRef<BiomechState | null>(null);
   const coordinateEngineEnabled = useCoordinateEngine();
+  const groundContactRef = useRef(new GroundContactSolver());
+
+  // Stale foot locks would pull the legs back to the previous clip or pose
+  useEffect(() => {
+    groundContactRef.current.reset();
+  }, [animationId, groundContact, resetCounter]);
 
   // Debug: Log feature flag status on mount
   useEffect(() => {
@@ -110,6 +137,56 @@ export default function InteractiveBoneController({
     };
   }, [dispatch]);
 
+  // Imported model (null = built-in); read through a ref so model swaps don't re-run controller setup
+  const biomechModel = useViewerSelector(state => state.model.biomechModel);
+  const biomechModelRef = useRef<BiomechModel | null>(biomechModel);
+  biomechModelRef.current = biomechModel;
+
+  /**
+   * Create a BiomechState for the model, publish it and calibrate it
+   * against the anatomical neutral pose
+   */
+  const startCoordinateEngine = useCallback((
+    targetSkeleton: THREE.Skeleton,
+    neutralPoseMap: Map<string, THREE.Quaternion>,
+    model: BiomechModel | null
+  ) => {
+    const state = new BiomechState(model ?? undefined);
+    state.setKinematicFilter({ cutoffHz: getViewerSettings().velocityCutoffHz });
+    biomechStateRef.current = state;
+    const initResult = state.initialize(targetSkeleton);
+
+    if (initResult.success) {
+      dispatch({ type: 'ik/setBiomechState', biomechState: state });
+
+      // Calibrate using the EXPLICIT neutral pose map
+      // This ensures 0 degrees = Anatomical Neutral, even if the mesh is in T-pose
+      const calibResult = state.setNeutralPose(neutralPoseMap, 'Neutral_Model.glb');
+
+      if (calibResult.success) {
+        setCalibrationVersion(v => v + 1);
+      }
+    }
+  }, [dispatch]);
+
+  // Rebuild the coordinate engine when a different model is loaded
+  useEffect(() => {
+    const current = biomechStateRef.current;
+    if (!skeleton || !current || current.getModel() === (biomechModel ?? DEFAULT_BIOMECH_MODEL)) return;
+
+    let cancelled = false;
+    loadNeutralPose().then((neutralPoseMap) => {
+      if (cancelled) return;
+      console.log(`🔁 Switching coordinate engine to model '${biomechModel?.id ?? DEFAULT_BIOMECH_MODEL.id}'`);
+      current.reset();
+      startCoordinateEngine(skeleton, neutralPoseMap, biomechModel);
+    }).catch((err) => console.error('❌ Failed to switch model:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [biomechModel, skeleton, startCoordinateEngine]);
+
   const [isReady, setIsReady] = useState(false);
   const bindPoseRef = useRef<Map<string, { position: THREE.Vector3; quaternion: THREE.Quaternion; scale: THREE.Vector3 }>>(new Map());
   const armatureBindPoseRef = useRef<{ position: THREE.Vector3; quaternion: THREE.Quaternion; scale: THREE.Vector3 } | null>(null);
@@ -141,6 +218,14 @@ ${formatPoseDeltas(deltas)}`);
   const applyShoulderRhythm = useCallback(() => {
     if (!skeleton) return;
 
+    // Coordinate engine: rhythm (and any other coupled coordinates) come from the model's couplers
+    if (biomechState?.isCalibrated()) {
+      biomechState.enforceCouplers(constraintsEnabled);
+      return;
+    }
+
+    // Fallback heuristic when the coordinate engine is unavailable
+
     const applySide = (armName: string, shoulderName: string, spineName: string, isLeft: boolean) => {
       const arm = findBoneByName(skeleton, armName);
       const shoulder = findBoneByName(skeleton, shoulderName);
@@ -200,7 +285,11 @@ ${formatPoseDeltas(deltas)}`);
     applySide(SKELETON_MAP.LeftArm, SKELETON_MAP.LeftShoulder, SKELETON_MAP.Spine2, true);
     applySide(SKELETON_MAP.RightArm, SKELETON_MAP.RightShoulder, SKELETON_MAP.Spine2, false);
 
-  }, [skeleton]);
+  }, [skeleton, biomechState, constraintsEnabled]);
+
+  const handleGazeTargetChange = useCallback((target: THREE.Vector3) => {
+    dispatch({ type: 'ik/setGazeTarget', target });
+  }, [dispatch]);
 
   // Use the new interaction hook
   const {
@@ -215,11 +304,16 @@ ${formatPoseDeltas(deltas)}`);
     skinnedMesh,
     ikSolver,
     ikTargets,
+    poleTargets,
+    swivelAngles,
+    pinnedChains,
+    lookAtWeights,
     jointHandleBones,
     enabled,
     isReady,
     showDebugInfo,
     constraintsEnabled,
+    ikSolverKind,
     ikRestPoseRef,
     restPoseSnapshotRef,
     biomechState,
@@ -228,6 +322,7 @@ ${formatPoseDeltas(deltas)}`);
     onDragEnd,
     onConstraintViolation,
     onAfterSolve: applyShoulderRhythm,
+    onGazeTargetChange: handleGazeTargetChange,
     logPoseDiagnostics
   });
 
@@ -236,18 +331,27 @@ ${formatPoseDeltas(deltas)}`);
 
     ikTargets.forEach((target, chainName) => {
       const config = getIKChainConfig(chainName);
-      if (!config) return;
+      // Pinned targets hold their position; their effectors follow them
+      if (!config || pinnedChains.includes(chainName)) return;
       const effector = findBoneByName(skeleton, config.effectorBoneName);
       if (!effector) return;
 
       effector.getWorldPosition(effectorWorldPos);
       target.getWorldPosition(targetWorldPos);
 
+      // A gaze target rests at the held look-at point, else in front of the face
+      const gaze = config.lookAt && !gazeTarget && biomechState?.isCalibrated() ? getGazeRay(biomechState) : null;
+      if (config.lookAt && gazeTarget) {
+        effectorWorldPos.copy(gazeTarget);
+      } else if (gaze) {
+        effectorWorldPos.copy(gaze.origin).addScaledVector(gaze.direction, LOOK_AT_DISTANCE);
+      }
+
       if (effectorWorldPos.distanceToSquared(targetWorldPos) > 1e-5) {
         updateIKTarget(target, effectorWorldPos);
       }
     });
-  }, [effectorWorldPos, targetWorldPos, skeleton, ikTargets]);
+  }, [effectorWorldPos, targetWorldPos, skeleton, ikTargets, pinnedChains, gazeTarget, biomechState]);
 
   // Initialize IK system
   const captureBindPose = useCallback(() => {
@@ -336,20 +440,7 @@ ${formatPoseDeltas(deltas)}`);
         // Phase 2: Initialize coordinate engine if enabled
         if (coordinateEngineEnabled && !biomechStateRef.current) {
           console.log('🚀 Phase 2: Initializing coordinate engine...');
-          biomechStateRef.current = new BiomechState();
-          const initResult = biomechStateRef.current.initialize(skeleton);
-
-          if (initResult.success) {
-            dispatch({ type: 'ik/setBiomechState', biomechState: biomechStateRef.current });
-
-            // Calibrate using the EXPLICIT neutral pose map
-            // This ensures 0 degrees = Anatomical Neutral, even if the mesh is in T-pose
-            const calibResult = biomechStateRef.current.setNeutralPose(neutralPoseMap, 'Neutral_Model.glb');
-            
-            if (calibResult.success) {
-              setCalibrationVersion(v => v + 1);
-            }
-          }
+          startCoordinateEngine(skeleton, neutralPoseMap, biomechModelRef.current);
         }
 
         setIsReady(true);
@@ -368,7 +459,7 @@ ${formatPoseDeltas(deltas)}`);
       clearConstraintReferencePose();
       clearJointNeutralPose();
     };
-  }, [skeleton, coordinateEngineEnabled, animationId, dispatch]);
+  }, [skeleton, coordinateEngineEnabled, animationId, dispatch, startCoordinateEngine]);
 
   // IK system initialization (only in IK mode when enabled=true)
   useEffect(() => {
@@ -479,7 +570,7 @@ ${formatPoseDeltas(deltas)}`);
       }
 
       // Build IK configuration AFTER capturing rest pose
-      const { iks, targets } = buildIKConfiguration(skeleton, skeletonRoot, biomechState);
+      const { iks, targets, poleTargets: poles } = buildIKConfiguration(skeleton, skeletonRoot, biomechState);
 
       if (iks.length === 0) {
         console.warn('No valid IK chains created');
@@ -506,6 +597,7 @@ ${formatPoseDeltas(deltas)}`);
       // (See lines ~193-230 above where we capture both BEFORE any IK setup)
 
       setIkTargets(targets);
+      setPoleTargets(poles);
       setIsReady(true);
       restPoseSnapshotRef.current = capturePoseSnapshot(skeleton);
       console.log('✅ IK Controller ready (constraint reference already locked to T-pose)');
@@ -566,6 +658,10 @@ ${formatPoseDeltas(deltas)}`);
 
       // Re-sync all IK targets to their effector positions
       syncIKTargetsToEffectors();
+      poleTargets.forEach((pole, chainName) => {
+        const config = getIKChainConfig(chainName);
+        if (config) resetPoleTarget(pole, config, skeleton);
+      });
 
       // NO ikSolver.update() needed - targets are already at effector positions
       // Calling update() here would try to solve IK with targets at current positions = no-op or worse
@@ -577,7 +673,7 @@ ${formatPoseDeltas(deltas)}`);
     } catch (e) {
       console.warn('Failed to reset to bind pose', e);
     }
-  }, [skeleton, skeletonRoot, syncIKTargetsToEffectors, restoreBindPose, captureBindPose, onBoneSelect, onConstraintViolation, setHighlightedBone]);
+  }, [skeleton, skeletonRoot, syncIKTargetsToEffectors, poleTargets, restoreBindPose, captureBindPose, onBoneSelect, onConstraintViolation, setHighlightedBone]);
 
 
   const lastResetCounterRef = useRef(resetCounter);
@@ -605,6 +701,34 @@ ${formatPoseDeltas(deltas)}`);
     syncIKTargetsToEffectors();
   }, [isReady, syncIKTargetsToEffectors, dragStateRef]);
 
+  // Swivel a limb when its angle is changed from the panel
+  const appliedSwivelRef = useRef<Record<string, number>>({});
+  useEffect(() => {
+    const previous = appliedSwivelRef.current;
+    appliedSwivelRef.current = swivelAngles;
+    if (!skeleton || !enabled) return;
+
+    poleTargets.forEach((pole, chainName) => {
+      const angle = swivelAngles[chainName] ?? 0;
+      const config = getIKChainConfig(chainName);
+      if (!config || angle === (previous[chainName] ?? 0)) return;
+
+      applyChainPole(config, skeleton, pole, THREE.MathUtils.degToRad(angle));
+      applyShoulderRhythm();
+      const chainBones = [config.effectorBoneName, ...config.linkBoneNames]
+        .map(name => findBoneByName(skeleton, name))
+        .filter((bone): bone is THREE.Bone => Boolean(bone));
+      chainBones.forEach(bone => {
+        if (constraintsEnabled && biomechState?.isCalibrated()) biomechState.validateBone(bone);
+        ikRestPoseRef.current.set(bone.uuid, {
+          position: bone.position.clone(),
+          quaternion: bone.quaternion.clone(),
+          scale: bone.scale.clone()
+        });
+      });
+    });
+  }, [swivelAngles, poleTargets, skeleton, enabled, constraintsEnabled, biomechState, applyShoulderRhythm]);
+
   // Continuous IK solving and constraint checking
   useFrame(() => {
     if (!ikSolver || !enabled) return;
@@ -620,8 +744,43 @@ ${formatPoseDeltas(deltas)}`);
     if (!coordinateEngineEnabled || !biomechStateRef.current) return;
     if (!biomechStateRef.current.isCalibrated()) return;
 
+    // Imported motion files pose the skeleton in coordinate space (mixer is idle meanwhile)
+    const drivingImportedMotion = importedMotion !== null && !enabled;
+    if (drivingImportedMotion) {
+      importedMotion.advance(delta);
+      importedMotion.applyTo(biomechStateRef.current);
+    }
+
+    const contactApplied = groundContact && modelMetrics !== null;
+    if (contactApplied) {
+      // A leg being dragged must follow its target, not its last foothold
+      const drag = dragStateRef.current;
+      const draggedFoot = drag.isDragging ? drag.chainConfig?.effectorBoneName : undefined;
+      const freeSides: GaitSide[] = draggedFoot === SKELETON_MAP.LeftFoot ? ['left']
+        : draggedFoot === SKELETON_MAP.RightFoot ? ['right'] : [];
+      groundContactRef.current.update(biomechStateRef.current, delta, {
+        floorHeight: modelMetrics.boundingBox.min.y,
+        freeSides
+      });
+    }
+
+    // In IK mode a held gaze target keeps the head on it (the drag handler aims it while dragging)
+    if (enabled && gazeTarget && !(dragStateRef.current.isDragging && dragStateRef.current.chainConfig?.lookAt)) {
+      solveLookAt(biomechStateRef.current, gazeTarget, { weights: lookAtWeights, respectLimits: constraintsEnabled });
+    }
+
     const updateResult = biomechStateRef.current.update(delta);
 
+    if (recorder?.isRecording()) {
+      const clipTime = drivingImportedMotion ? importedMotion.getCurrentTime() : getClipTime?.() ?? 0;
+      recorder.record(
+        biomechStateRef.current.getModelState(),
+        clipTime,
+        biomechStateRef.current.getSegmentPositions(recorder.getMarkerIds()),
+        contactApplied
+      );
+    }
+
     // Log violations only if verbose debugging enabled
     if (showDebugInfo && updateResult.violations.length > 0) {
       console.log(`⚠️ Coordinate ROM violations (${updateResult.violations.length}):`,
@@ -661,6 +820,19 @@ ${formatPoseDeltas(deltas)}`);
               isActive={dragStateRef.current.ikTarget === target}
               size={0.12}
               renderOrder={1000}
+              {...(pinnedChains.includes(chainName) ? { color: "#ff2d55", emissive: "#cc0033" } : {})}
+              {...(gazeTarget && getIKChainConfig(chainName)?.lookAt ? { color: "#ffe14d", emissive: "#ccaa00" } : {})}
+            />
+          ))}
+          {!playbackMode && Array.from(poleTargets.entries()).map(([chainName, pole]) => (
+            <IKTargetSphere
+              key={`pole-${chainName}`}
+              target={pole}
+              isActive={dragStateRef.current.ikTarget === pole}
+              size={0.06}
+              renderOrder={1000}
+              color="#33bbff"
+              emissive="#0088cc"
             />
           ))}
 
@@ -794,12 +966,16 @@ function IKTargetSphere({
   target,
   isActive,
   size = 0.12,
-  renderOrder = 1000
+  renderOrder = 1000,
+  color = "#ffaa00",
+  emissive = "#ff8800"
 }: {
   target: THREE.Bone;
   isActive: boolean;
   size?: number;
   renderOrder?: number;
+  color?: string;
+  emissive?: string;
 }) {
   const meshRef = useRef<THREE.Mesh>(null);
 
@@ -823,8 +999,8 @@ function IKTargetSphere({
     <mesh ref={meshRef} renderOrder={renderOrder}>
       <sphereGeometry args={[1, 16, 16]} />
       <meshStandardMaterial
-        color={isActive ? "#00ff00" : "#ffaa00"}
-        emissive={isActive ? "#00ff00" : "#ff8800"}
+        color={isActive ? "#00ff00" : color}
+        emissive={isActive ? "#00ff00" : emissive}
         emissiveIntensity={0.5}
         transparent
         opacity={0.9}
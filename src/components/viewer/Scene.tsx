@@ -12,11 +12,18 @@ import { useThree } from '@react-three/fiber'
 import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib'
 import { PassiveOrbitControls } from './PassiveOrbitControls'
 import V2Model from '@/v2/Model'
+import type { PlaybackAPI } from './hooks/usePlaybackAPI'
 import { frameCamera } from './utils/cameraFramer'
 import { computeSceneLayout, getGridConfig } from './utils/sceneLayout'
 import type { ModelMetrics } from './utils/modelMetrics'
 import type * as THREE from 'three'
 import type { ConstraintViolation } from './constraints/constraintValidator'
+import { CenterOfMassMarker } from './debug/CenterOfMassMarker'
+import { BaseOfSupportOverlay } from './debug/BaseOfSupportOverlay'
+import { GroundReactionArrow } from './debug/GroundReactionArrow'
+import { MusclePathOverlay } from './debug/MusclePathOverlay'
+import { JointLimitCone } from './debug/JointLimitCone'
+import { useViewerDispatch, useViewerSelector } from './state/viewerState'
 
 
 
@@ -93,6 +100,28 @@ export default function Scene({
   const [metrics, setMetrics] = useState<ModelMetrics | null>(null)
   const metricsReceivedRef = useRef(false)
   const [lightsReady, setLightsReady] = useState(false)
+  const dispatch = useViewerDispatch()
+  const showCenterOfMass = useViewerSelector((s) => s.overlays.centerOfMass)
+  const showBaseOfSupport = useViewerSelector((s) => s.overlays.baseOfSupport)
+  const showGroundReaction = useViewerSelector((s) => s.overlays.groundReaction)
+  const showButterfly = useViewerSelector((s) => s.overlays.butterfly)
+  const showMuscles = useViewerSelector((s) => s.overlays.muscles)
+  const showJointLimits = useViewerSelector((s) => s.overlays.jointLimits)
+  const hasForcePlate = useViewerSelector((s) => s.forcePlate.data !== null)
+  // Playback API of the model, also forwarded to humanFigureRef; scene overlays read clip time from it
+  const playbackRef = useRef<PlaybackAPI | null>(null)
+  const setPlaybackApi = useCallback(
+    (api: PlaybackAPI | null) => {
+      playbackRef.current = api
+      if (typeof humanFigureRef === 'function') {
+        humanFigureRef(api)
+      } else if (humanFigureRef) {
+        ;(humanFigureRef as MutableRefObject<unknown>).current = api
+      }
+    },
+    [humanFigureRef]
+  )
+  const getClipTime = useCallback(() => playbackRef.current?.getCurrentTime() ?? 0, [])
   // Env-driven perf mode: trims lights and grid complexity
   const parseBool = useCallback((v: unknown, fallback: boolean) => {
     if (typeof v === 'boolean') return v
@@ -111,8 +140,9 @@ export default function Scene({
     if (!metricsReceivedRef.current) {
       metricsReceivedRef.current = true
       setMetrics(newMetrics)
+      dispatch({ type: 'metrics/setModelMetrics', metrics: newMetrics })
     }
-  }, [])
+  }, [dispatch])
 
   const layout = useMemo(() => computeSceneLayout(metrics), [metrics])
   const gridConfig = useMemo(() => getGridConfig(perfMode), [perfMode])
@@ -212,6 +242,8 @@ export default function Scene({
         infiniteGrid={false}
         position={[0, 0, 0]}
       />
+      {/* Base-of-support polygon drawn on the grid */}
+      {showBaseOfSupport && <BaseOfSupportOverlay />}
 
       {/* No placeholder - keep scene clean during load */}
 
@@ -219,7 +251,7 @@ export default function Scene({
       <LocalErrorBoundary>
         <Suspense fallback={null}>
           <V2Model
-            ref={humanFigureRef as any}
+            ref={setPlaybackApi}
             isAnimating={ikMode ? false : isAnimating}
             requestedId={animationPrompt}
             onActiveChange={onAnimationChange}
@@ -235,6 +267,12 @@ export default function Scene({
           />
         </Suspense>
       </LocalErrorBoundary>
+      {showCenterOfMass && <CenterOfMassMarker />}
+      {hasForcePlate && (showGroundReaction || showButterfly) && (
+        <GroundReactionArrow getClipTime={getClipTime} showButterfly={showButterfly} showArrow={showGroundReaction} />
+      )}
+      {showMuscles && <MusclePathOverlay />}
+      {showJointLimits && <JointLimitCone />}
       {/* ROM panel is rendered outside Canvas in Viewer3D */}
       {/* Debug overlay removed */}
     </>
@@ -10,8 +10,15 @@
 import * as THREE from 'three';
 import { getParentJoint } from '../../../biomech/model/joints';
 import { JointDef } from '../../../biomech/model/types';
+import { getCoordinateRange } from '../../../biomech/model/romProfiles';
 import { getSegmentByBoneName } from '../../../biomech/model/segments';
 import { getNeutralPoseRotation, loadNeutralPose } from './neutralPoseLoader';
+import {
+  clampSwingTwist,
+  sampleSwingConeBoundary,
+  usesSwingTwistLimit,
+  type RangeResolver
+} from '../../../biomech/engine/swingTwist';
 
 export type ConstraintViolation = {
   boneName: string;
@@ -47,8 +54,10 @@ export function hasConstraint(boneName: string): boolean {
 
 /**
  * Helper: Convert JointDef coordinates to RotationLimits format
+ * (ranges come from the active ROM profile; pass
+ * BiomechState.getEffectiveRange to include coordinate-dependent ranges)
  */
-export function getLimitsFromJointDef(joint: JointDef): RotationLimits {
+export function getLimitsFromJointDef(joint: JointDef, rangeOf: RangeResolver = getCoordinateRange): RotationLimits {
   // Default to full range
   const limits: RotationLimits = {
     x: [-Math.PI, Math.PI],
@@ -59,7 +68,8 @@ export function getLimitsFromJointDef(joint: JointDef): RotationLimits {
   joint.coordinates.forEach(coord => {
     const axis = coord.axis.toLowerCase() as 'x' | 'y' | 'z';
     if (coord.clamped) {
-      limits[axis] = [coord.range.min, coord.range.max];
+      const range = rangeOf(coord);
+      limits[axis] = [range.min, range.max];
     }
   });
 
@@ -175,14 +185,30 @@ export function checkRotationLimits(
 /**
  * Clamp rotation to limits and return new Euler (non-mutating)
  * 
- * @param euler - The Euler rotation to clamp
- * @param limits - The rotation limits
+ * - RotationLimits: per-axis box
+ * - JointDef: by the joint's limit model; swing–twist joints are clamped to
+ *   their swing cone and twist range, others to the box of their coordinate
+ *   ranges
+ * 
+ * @param euler - The Euler rotation to clamp (for a JointDef: deviation from
+ *   neutral in the joint's Euler order)
+ * @param limits - The rotation limits or joint
+ * @param rangeOf - Coordinate range lookup for a JointDef (default: active ROM profile)
  * @returns New clamped Euler rotation
  */
 export function clampRotation(
   euler: THREE.Euler,
-  limits: RotationLimits
+  limits: RotationLimits | JointDef,
+  rangeOf: RangeResolver = getCoordinateRange
 ): THREE.Euler {
+  if ('coordinates' in limits) {
+    if (usesSwingTwistLimit(limits)) {
+      const { quaternion } = clampSwingTwist(limits, new THREE.Quaternion().setFromEuler(euler), rangeOf);
+      return new THREE.Euler().setFromQuaternion(quaternion, euler.order);
+    }
+    limits = getLimitsFromJointDef(limits, rangeOf);
+  }
+
   return new THREE.Euler(
     clamp(euler.x, limits.x[0], limits.x[1]),
     clamp(euler.y, limits.y[0], limits.y[1]),
@@ -193,18 +219,31 @@ export function clampRotation(
 
 /**
  * Create a visual representation of constraint limits for debugging
- * Generates min/max rotation matrices for visualization
  * 
- * @param limits - The rotation limits to visualize
+ * - RotationLimits: min → max sweeps along each axis
+ * - JointDef with a swing–twist limit: closed loop around the swing cone
+ *   boundary (zero twist), in the joint's Euler order; other joints sweep
+ *   their per-axis limits
+ * 
+ * @param limits - The rotation limits or joint to visualize
+ * @param steps - Samples per sweep (cone: samples around the boundary)
+ * @param rangeOf - Coordinate range lookup for a JointDef (default: active ROM profile)
  * @returns Array of euler angles representing the constraint boundary
  */
 export function generateConstraintBoundary(
-  limits: RotationLimits
+  limits: RotationLimits | JointDef,
+  steps: number = 8,
+  rangeOf: RangeResolver = getCoordinateRange
 ): THREE.Euler[] {
-  const boundary: THREE.Euler[] = [];
+  if ('coordinates' in limits) {
+    if (usesSwingTwistLimit(limits)) {
+      const order = limits.eulerOrder;
+      return sampleSwingConeBoundary(limits, steps * 4, rangeOf).map(q => new THREE.Euler().setFromQuaternion(q, order));
+    }
+    limits = getLimitsFromJointDef(limits, rangeOf);
+  }
 
-  // Generate sample points along each axis
-  const steps = 8;
+  const boundary: THREE.Euler[] = [];
 
   // X-axis sweep
   for (let i = 0; i <= steps; i++) {
@@ -0,0 +1,61 @@
+/**
+ * Analysis Panel
+ *
+ * Collapsible panel (bottom-right) hosting whole-trial analyses computed from
+ * the coordinate recorder, as opposed to the instantaneous readouts of the
+ * Range of Motion panel. Each analysis lives in its own tab under ./analysis/.
+ */
+
+import { useState } from 'react';
+import { GaitPanel } from './analysis/GaitPanel';
+import { GaitCurvesPanel } from './analysis/GaitCurvesPanel';
+import { KineticsPanel } from './analysis/KineticsPanel';
+import { SymmetryPanel } from './analysis/SymmetryPanel';
+import './AnalysisPanel.css';
+
+type AnalysisTab = 'gait' | 'curves' | 'kinetics' | 'symmetry';
+
+const TABS: Array<{ key: AnalysisTab; label: string }> = [
+  { key: 'gait', label: 'Gait' },
+  { key: 'curves', label: 'Curves' },
+  { key: 'kinetics', label: 'Kinetics' },
+  { key: 'symmetry', label: 'Symmetry' },
+];
+
+export function AnalysisPanel() {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [activeTab, setActiveTab] = useState<AnalysisTab>('gait');
+
+  return (
+    <div className={`analysis-panel ${isCollapsed ? 'collapsed' : ''}`}>
+      <div className="analysis-panel-header" onClick={() => setIsCollapsed(!isCollapsed)}>
+        <h3>Analysis</h3>
+        <button className="collapse-btn">{isCollapsed ? '▲' : '▼'}</button>
+      </div>
+
+      {!isCollapsed && (
+        <div className="analysis-panel-content">
+          <div className="analysis-tabs" role="tablist">
+            {TABS.map(({ key, label }) => (
+              <button
+                key={key}
+                type="button"
+                role="tab"
+                aria-selected={activeTab === key}
+                className={`analysis-tab ${activeTab === key ? 'active' : ''}`}
+                onClick={() => setActiveTab(key)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'gait' && <GaitPanel />}
+          {activeTab === 'curves' && <GaitCurvesPanel />}
+          {activeTab === 'kinetics' && <KineticsPanel />}
+          {activeTab === 'symmetry' && <SymmetryPanel />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Base of Support Overlay
+ *
+ * Draws the base-of-support polygon of the loaded feet on the ground grid and
+ * the COM ground projection, colored by the static stability margin: green
+ * while the projected COM is inside the polygon, red once it falls outside.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { computeCenterOfMass } from '../../../biomech/engine/centerOfMass';
+import { getAnthropometricTable } from '../../../biomech/model/anthropometrics';
+import {
+  computeBaseOfSupport,
+  computeStabilityMargin,
+  type FootLandmarks
+} from '../../../biomech/analysis/baseOfSupport';
+import { SKELETON_MAP } from '../utils/skeletonMap';
+import { useViewerSelector } from '../state/viewerState';
+import './CenterOfMassMarker.css';
+
+const STABLE_COLOR = new THREE.Color('#2ecc71');
+const UNSTABLE_COLOR = new THREE.Color('#ff3b30');
+/** Polygon height above the grid (below the COM marker ring) */
+const GROUND_OFFSET = 0.001;
+/** Hull vertices; two five-point footprints never exceed this */
+const MAX_HULL_POINTS = 16;
+
+const FEET: Array<{ side: FootLandmarks['side']; ankle: string; toeBase: string }> = [
+  { side: 'left', ankle: SKELETON_MAP.LeftFoot, toeBase: SKELETON_MAP.LeftToeBase },
+  { side: 'right', ankle: SKELETON_MAP.RightFoot, toeBase: SKELETON_MAP.RightToeBase },
+];
+
+export function BaseOfSupportOverlay() {
+  const skeleton = useViewerSelector(state => state.ik.skeleton);
+  const subject = useViewerSelector(state => state.subject);
+  const modelHeight = useViewerSelector(state => state.metrics.modelMetrics?.desiredHeight ?? null);
+
+  const projectionRef = useRef<THREE.Mesh>(null);
+  const labelRef = useRef<HTMLSpanElement>(null);
+
+  const table = useMemo(() => getAnthropometricTable(subject.anthropometricTableId), [subject.anthropometricTableId]);
+
+  const { outline, fill } = useMemo(() => {
+    const outlineGeometry = new THREE.BufferGeometry();
+    outlineGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_HULL_POINTS * 3), 3));
+    const fillGeometry = new THREE.BufferGeometry();
+    fillGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array((MAX_HULL_POINTS - 2) * 9), 3));
+
+    return {
+      outline: new THREE.LineLoop(outlineGeometry, new THREE.LineBasicMaterial({ color: STABLE_COLOR })),
+      fill: new THREE.Mesh(
+        fillGeometry,
+        new THREE.MeshBasicMaterial({
+          color: STABLE_COLOR,
+          transparent: true,
+          opacity: 0.25,
+          side: THREE.DoubleSide,
+          depthWrite: false,
+        })
+      ),
+    };
+  }, []);
+
+  useEffect(() => () => {
+    for (const object of [outline, fill]) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+  }, [outline, fill]);
+
+  useFrame(() => {
+    if (!skeleton) return;
+
+    const feet: FootLandmarks[] = [];
+    for (const foot of FEET) {
+      const ankle = skeleton.getBoneByName(foot.ankle);
+      const toeBase = skeleton.getBoneByName(foot.toeBase);
+      if (!ankle || !toeBase) continue;
+      feet.push({
+        side: foot.side,
+        ankle: ankle.getWorldPosition(new THREE.Vector3()),
+        toeBase: toeBase.getWorldPosition(new THREE.Vector3()),
+      });
+    }
+
+    const com = computeCenterOfMass(
+      skeleton,
+      table,
+      { massKg: subject.massKg, heightM: subject.heightM },
+      modelHeight ?? subject.heightM
+    );
+    const bos = computeBaseOfSupport(feet);
+    const stability = computeStabilityMargin(com.position, bos);
+    const hull = bos.hull.slice(0, MAX_HULL_POINTS);
+
+    // Outline
+    const outlinePositions = outline.geometry.getAttribute('position') as THREE.BufferAttribute;
+    hull.forEach((p, i) => outlinePositions.setXYZ(i, p.x, GROUND_OFFSET, p.y));
+    outlinePositions.needsUpdate = true;
+    outline.geometry.setDrawRange(0, hull.length);
+
+    // Fill (triangle fan of the convex hull)
+    const fillPositions = fill.geometry.getAttribute('position') as THREE.BufferAttribute;
+    for (let i = 1; i < hull.length - 1; i++) {
+      const base = (i - 1) * 3;
+      fillPositions.setXYZ(base, hull[0].x, GROUND_OFFSET, hull[0].y);
+      fillPositions.setXYZ(base + 1, hull[i].x, GROUND_OFFSET, hull[i].y);
+      fillPositions.setXYZ(base + 2, hull[i + 1].x, GROUND_OFFSET, hull[i + 1].y);
+    }
+    fillPositions.needsUpdate = true;
+    fill.geometry.setDrawRange(0, Math.max(0, hull.length - 2) * 3);
+    fill.geometry.computeBoundingSphere();
+    outline.geometry.computeBoundingSphere();
+
+    const color = stability.inside ? STABLE_COLOR : UNSTABLE_COLOR;
+    (outline.material as THREE.LineBasicMaterial).color.copy(color);
+    (fill.material as THREE.MeshBasicMaterial).color.copy(color);
+
+    if (projectionRef.current) {
+      projectionRef.current.position.set(stability.projection.x, GROUND_OFFSET, stability.projection.y);
+      (projectionRef.current.material as THREE.MeshBasicMaterial).color.copy(color);
+    }
+
+    if (labelRef.current) {
+      const marginCm = stability.margin * com.lengthScale * 100;
+      labelRef.current.textContent = bos.contacts.length === 0
+        ? 'No foot contact'
+        : stability.inside
+          ? `Margin ${marginCm.toFixed(1)} cm`
+          : `⚠ COM outside BoS ${marginCm.toFixed(1)} cm`;
+      labelRef.current.classList.toggle('com-marker-label--unstable', !stability.inside);
+    }
+  });
+
+  if (!skeleton) return null;
+
+  return (
+    <group>
+      <primitive object={fill} />
+      <primitive object={outline} />
+      <mesh ref={projectionRef} rotation-x={-Math.PI / 2}>
+        <circleGeometry args={[0.02, 24]} />
+        <meshBasicMaterial color={STABLE_COLOR} side={THREE.DoubleSide} />
+        <Html center distanceFactor={4} position={[0, -0.12, 0]} className="com-marker-label-container">
+          <span ref={labelRef} className="com-marker-label" />
+        </Html>
+      </mesh>
+    </group>
+  );
+}
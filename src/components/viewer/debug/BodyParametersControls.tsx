@@ -0,0 +1,97 @@
+import { useViewerDispatch, useViewerSelector, type ViewerSubjectState } from '../state/viewerState'
+import { ANTHROPOMETRIC_TABLES } from '@/biomech/model/anthropometrics'
+import { setViewerSettings } from '@/shared/settings'
+
+/**
+ * Subject body mass, height and anthropometric table for the center of mass
+ * estimate, plus the balance overlay toggles. Body values persist in viewer
+ * settings.
+ */
+export function BodyParametersControls() {
+  const dispatch = useViewerDispatch()
+  const subject = useViewerSelector((s) => s.subject)
+  const overlays = useViewerSelector((s) => s.overlays)
+
+  const update = (partial: Partial<ViewerSubjectState>) => {
+    dispatch({ type: 'subject/update', subject: partial })
+    setViewerSettings({
+      ...(partial.massKg !== undefined ? { subjectMassKg: partial.massKg } : {}),
+      ...(partial.heightM !== undefined ? { subjectHeightM: partial.heightM } : {}),
+      ...(partial.anthropometricTableId !== undefined ? { anthropometricTableId: partial.anthropometricTableId } : {}),
+    })
+  }
+
+  const handleNumber = (key: 'massKg' | 'heightM', raw: string) => {
+    const value = Number(raw)
+    if (Number.isFinite(value) && value > 0) update({ [key]: value })
+  }
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>⚖️ Body Parameters</strong>
+
+      <label className="viewer-panel__label" htmlFor="subject-mass-input">
+        Body mass (kg)
+      </label>
+      <input
+        id="subject-mass-input"
+        className="viewer-panel__select"
+        type="number"
+        min={1}
+        step={0.5}
+        value={subject.massKg}
+        onChange={(event) => handleNumber('massKg', event.target.value)}
+      />
+
+      <label className="viewer-panel__label" htmlFor="subject-height-input">
+        Height (m)
+      </label>
+      <input
+        id="subject-height-input"
+        className="viewer-panel__select"
+        type="number"
+        min={0.5}
+        step={0.01}
+        value={subject.heightM}
+        onChange={(event) => handleNumber('heightM', event.target.value)}
+      />
+
+      <label className="viewer-panel__label" htmlFor="anthropometric-table-select">
+        Segment table
+      </label>
+      <select
+        id="anthropometric-table-select"
+        className="viewer-panel__select"
+        value={subject.anthropometricTableId}
+        onChange={(event) => update({ anthropometricTableId: event.target.value })}
+      >
+        {ANTHROPOMETRIC_TABLES.map((table) => (
+          <option key={table.id} value={table.id}>
+            {table.displayName}
+          </option>
+        ))}
+      </select>
+
+      <label className="viewer-panel__label">
+        <input
+          type="checkbox"
+          checked={overlays.centerOfMass}
+          onChange={(event) =>
+            dispatch({ type: 'overlays/setVisible', overlay: 'centerOfMass', visible: event.target.checked })
+          }
+        />{' '}
+        Show center of mass
+      </label>
+      <label className="viewer-panel__label">
+        <input
+          type="checkbox"
+          checked={overlays.baseOfSupport}
+          onChange={(event) =>
+            dispatch({ type: 'overlays/setVisible', overlay: 'baseOfSupport', visible: event.target.checked })
+          }
+        />{' '}
+        Show base of support and stability margin
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+/**
+ * Center of Mass Marker
+ *
+ * Draws the whole-body COM (from the subject's anthropometric table) as a
+ * sphere, with a plumb line to its ground projection. Recomputed every frame
+ * from the posed skeleton, so it tracks animation, IK and imported motion.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { computeCenterOfMass } from '../../../biomech/engine/centerOfMass';
+import { getAnthropometricTable } from '../../../biomech/model/anthropometrics';
+import { useViewerSelector } from '../state/viewerState';
+import './CenterOfMassMarker.css';
+
+const MARKER_COLOR = '#ff2d55';
+/** Lift the projection off the grid to avoid z-fighting */
+const GROUND_OFFSET = 0.002;
+
+export function CenterOfMassMarker() {
+  const skeleton = useViewerSelector(state => state.ik.skeleton);
+  const subject = useViewerSelector(state => state.subject);
+  const modelHeight = useViewerSelector(state => state.metrics.modelMetrics?.desiredHeight ?? null);
+
+  const markerRef = useRef<THREE.Mesh>(null);
+  const projectionRef = useRef<THREE.Mesh>(null);
+  const labelRef = useRef<HTMLSpanElement>(null);
+
+  const table = useMemo(() => getAnthropometricTable(subject.anthropometricTableId), [subject.anthropometricTableId]);
+
+  const plumbLine = useMemo(() => {
+    const geometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), new THREE.Vector3()]);
+    const material = new THREE.LineDashedMaterial({ color: MARKER_COLOR, dashSize: 0.03, gapSize: 0.02 });
+    return new THREE.Line(geometry, material);
+  }, []);
+
+  useEffect(() => () => {
+    plumbLine.geometry.dispose();
+    (plumbLine.material as THREE.Material).dispose();
+  }, [plumbLine]);
+
+  useFrame(() => {
+    if (!skeleton || !markerRef.current || !projectionRef.current) return;
+
+    const com = computeCenterOfMass(
+      skeleton,
+      table,
+      { massKg: subject.massKg, heightM: subject.heightM },
+      modelHeight ?? subject.heightM
+    );
+    const { x, y, z } = com.position;
+
+    markerRef.current.position.set(x, y, z);
+    projectionRef.current.position.set(x, GROUND_OFFSET, z);
+
+    const positions = plumbLine.geometry.getAttribute('position') as THREE.BufferAttribute;
+    positions.setXYZ(0, x, y, z);
+    positions.setXYZ(1, x, GROUND_OFFSET, z);
+    positions.needsUpdate = true;
+    plumbLine.computeLineDistances();
+
+    if (labelRef.current) {
+      labelRef.current.textContent = `COM ${com.height.toFixed(2)} m`;
+    }
+  });
+
+  if (!skeleton) return null;
+
+  return (
+    <group>
+      <mesh ref={markerRef} renderOrder={999}>
+        <sphereGeometry args={[0.03, 16, 16]} />
+        <meshBasicMaterial color={MARKER_COLOR} depthTest={false} transparent opacity={0.9} />
+        <Html center distanceFactor={4} position={[0.12, 0, 0]} className="com-marker-label-container">
+          <span ref={labelRef} className="com-marker-label" />
+        </Html>
+      </mesh>
+      <primitive object={plumbLine} />
+      <mesh ref={projectionRef} rotation-x={-Math.PI / 2}>
+        <ringGeometry args={[0.035, 0.055, 32]} />
+        <meshBasicMaterial color={MARKER_COLOR} side={THREE.DoubleSide} />
+      </mesh>
+    </group>
+  );
+}
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react'
 import type { BiomechState } from '@/biomech/engine/biomechState'
 import { getJoint } from '@/biomech/model/joints'
+import { getCoordinateRange } from '@/biomech/model/romProfiles'
 import type { JointDef, JointState } from '@/biomech/model/types'
 import { ghToClinical, stToClinical } from '@/biomech/mapping/shoulderMapping'
 
@@ -40,8 +41,9 @@ function getCoordinateRows(joint: JointDef | undefined, jointState: JointState |
   return joint.coordinates.map((coord) => {
     const coordState = jointState?.coordinates?.[coord.id]?.value ?? null
     const valueDeg = toDegrees(coordState)
-    const minDeg = coord.range.min * RAD_TO_DEG
-    const maxDeg = coord.range.max * RAD_TO_DEG
+    const range = getCoordinateRange(coord)
+    const minDeg = range.min * RAD_TO_DEG
+    const maxDeg = range.max * RAD_TO_DEG
 
     let status: CoordinateRow['status'] = 'ok'
     if (valueDeg == null) {
@@ -5,7 +5,7 @@
  * when a joint is selected. Each plane shows:
  * - Transparent circle with colored edge (red=X, green=Y, blue=Z)
  * - Moving arm indicating current angle
- * - Digital numeric readout
+ * - Digital numeric readout with filtered angular velocity and its peak
  * 
  * This mimics a physical goniometer used in biomechanics and physical therapy.
  */
@@ -40,6 +40,9 @@ export function DigitalGoniometer({
   const xValueRef = useRef<HTMLSpanElement>(null);
   const yValueRef = useRef<HTMLSpanElement>(null);
   const zValueRef = useRef<HTMLSpanElement>(null);
+  const xVelocityRef = useRef<HTMLSpanElement>(null);
+  const yVelocityRef = useRef<HTMLSpanElement>(null);
+  const zVelocityRef = useRef<HTMLSpanElement>(null);
   
   // State for current angles
   const anglesRef = useRef({ x: 0, y: 0, z: 0 });
@@ -297,6 +300,16 @@ export function DigitalGoniometer({
           if (xCoord) x = THREE.MathUtils.radToDeg(jointState.coordinates[xCoord.id]?.value ?? 0);
           if (yCoord) y = THREE.MathUtils.radToDeg(jointState.coordinates[yCoord.id]?.value ?? 0);
           if (zCoord) z = THREE.MathUtils.radToDeg(jointState.coordinates[zCoord.id]?.value ?? 0);
+
+          // Angular velocity (°/s) with peak since last reset
+          const velocityText = (coordId: string) => {
+            const velocity = THREE.MathUtils.radToDeg(jointState.coordinates[coordId]?.velocity ?? 0);
+            const peak = THREE.MathUtils.radToDeg(biomechState.getPeakVelocity(coordId));
+            return `ω ${velocity.toFixed(0)}°/s · pk ${peak.toFixed(0)}`;
+          };
+          if (xCoord && xVelocityRef.current) xVelocityRef.current.innerText = velocityText(xCoord.id);
+          if (yCoord && yVelocityRef.current) yVelocityRef.current.innerText = velocityText(yCoord.id);
+          if (zCoord && zVelocityRef.current) zVelocityRef.current.innerText = velocityText(zCoord.id);
         }
       } else {
         // No valid biomech state - show 0 to indicate "no data" rather than misleading Euler angles
@@ -376,9 +389,9 @@ export function DigitalGoniometer({
             <div className="goniometer-panel">
               <div className="goniometer-header">{jointName}</div>
               {[
-                { axis: 'x', label: xLabel, ref: xValueRef, color: colors.x },
-                { axis: 'y', label: yLabel, ref: yValueRef, color: colors.y },
-                { axis: 'z', label: zLabel, ref: zValueRef, color: colors.z }
+                { axis: 'x', label: xLabel, ref: xValueRef, velocityRef: xVelocityRef, color: colors.x },
+                { axis: 'y', label: yLabel, ref: yValueRef, velocityRef: yVelocityRef, color: colors.y },
+                { axis: 'z', label: zLabel, ref: zValueRef, velocityRef: zVelocityRef, color: colors.z }
               ]
               .sort((a, b) => b.color - a.color) // Sort by color value (Red > Green > Blue) to keep consistent visual order
               .map((row) => (
@@ -396,6 +409,11 @@ export function DigitalGoniometer({
                   >
                     0.0°
                   </span>
+                  {biomechState && (
+                    <span ref={row.velocityRef} className="goniometer-velocity-text">
+                      ω 0°/s
+                    </span>
+                  )}
                 </div>
               ))}
             </div>
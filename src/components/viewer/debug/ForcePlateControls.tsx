@@ -0,0 +1,126 @@
+import { useState, type ChangeEvent } from 'react'
+import { useViewerDispatch, useViewerSelector } from '../state/viewerState'
+import { parseForcePlateFile, type ForcePlateLengthUnits } from '@/biomech/io/forcePlateImport'
+
+/**
+ * Load a force plate CSV (time, Fx, Fy, Fz, COPx, COPy, free moment) and show
+ * its ground reaction force at the center of pressure, time-aligned to the
+ * active clip. The same plate feeds the Kinetics analysis.
+ */
+export function ForcePlateControls() {
+  const dispatch = useViewerDispatch()
+  const forcePlate = useViewerSelector((s) => s.forcePlate)
+  const overlays = useViewerSelector((s) => s.overlays)
+  const [copUnits, setCopUnits] = useState<ForcePlateLengthUnits>('m')
+  const [messages, setMessages] = useState<string[]>([])
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const result = parseForcePlateFile(await file.text(), file.name, { copUnits })
+    if (!result.success || !result.data) {
+      setMessages(result.errors)
+      return
+    }
+    const { data } = result
+    setMessages([
+      `${data.sampleCount} samples, ${data.time[0].toFixed(2)}–${data.time[data.sampleCount - 1].toFixed(2)} s`,
+      ...result.warnings,
+    ])
+    dispatch({ type: 'forcePlate/load', data, fileName: file.name })
+  }
+
+  const handleUnload = () => {
+    setMessages([])
+    dispatch({ type: 'forcePlate/clear' })
+  }
+
+  const handleOffset = (raw: string) => {
+    const value = Number(raw)
+    if (Number.isFinite(value)) dispatch({ type: 'forcePlate/setTimeOffset', timeOffset: value })
+  }
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>🦶 Force Plate (CSV)</strong>
+
+      <label className="viewer-panel__label" htmlFor="force-plate-cop-units">
+        COP units
+      </label>
+      <select
+        id="force-plate-cop-units"
+        className="viewer-panel__select"
+        value={copUnits}
+        onChange={(event) => setCopUnits(event.target.value as ForcePlateLengthUnits)}
+      >
+        <option value="m">Meters</option>
+        <option value="mm">Millimeters</option>
+      </select>
+
+      <label className="viewer-panel__label" htmlFor="force-plate-file-input">
+        Load file
+      </label>
+      <input
+        id="force-plate-file-input"
+        type="file"
+        accept=".csv,.tsv,.txt"
+        onChange={handleFile}
+      />
+
+      {forcePlate.data && (
+        <>
+          <p>
+            <strong>{forcePlate.fileName}</strong>
+          </p>
+
+          <label className="viewer-panel__label" htmlFor="force-plate-offset">
+            Time offset (plate = clip + offset, s)
+          </label>
+          <input
+            id="force-plate-offset"
+            className="viewer-panel__select"
+            type="number"
+            step={0.01}
+            value={forcePlate.timeOffset}
+            onChange={(event) => handleOffset(event.target.value)}
+          />
+
+          <label className="viewer-panel__label">
+            <input
+              type="checkbox"
+              checked={overlays.groundReaction}
+              onChange={(event) =>
+                dispatch({ type: 'overlays/setVisible', overlay: 'groundReaction', visible: event.target.checked })
+              }
+            />{' '}
+            Show GRF vector
+          </label>
+          <label className="viewer-panel__label">
+            <input
+              type="checkbox"
+              checked={overlays.butterfly}
+              onChange={(event) =>
+                dispatch({ type: 'overlays/setVisible', overlay: 'butterfly', visible: event.target.checked })
+              }
+            />{' '}
+            Show butterfly diagram
+          </label>
+
+          <button type="button" className="viewer-panel__button" onClick={handleUnload}>
+            Unload plate
+          </button>
+        </>
+      )}
+
+      {messages.length > 0 && (
+        <ul>
+          {messages.map((message, i) => (
+            <li key={i}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
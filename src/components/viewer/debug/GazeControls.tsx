@@ -0,0 +1,59 @@
+import { useViewerDispatch, useViewerSelector } from '../state/viewerState'
+import { LOOK_AT_JOINTS } from '../../../biomech/engine/lookAt'
+
+const JOINT_LABELS: Record<string, string> = {
+  head: 'Head',
+  cervical_spine: 'Neck',
+  thoracic_upper_spine: 'Upper thoracic',
+  thoracic_spine: 'Lower thoracic',
+}
+
+/**
+ * Gaze target (the head ball, yellow while held) and how the turn toward it
+ * is shared between head, neck and upper back
+ */
+export function GazeControls() {
+  const dispatch = useViewerDispatch()
+  const gazeTarget = useViewerSelector((s) => s.ik.gazeTarget)
+  const lookAtWeights = useViewerSelector((s) => s.ik.lookAtWeights)
+
+  const handleNumber = (jointId: string, raw: string) => {
+    const weight = Number(raw)
+    if (Number.isFinite(weight) && weight >= 0) dispatch({ type: 'ik/setLookAtWeight', jointId, weight })
+  }
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>👀 Gaze</strong>
+      <p>Drag the head ball to where the figure should look; it holds the gaze there</p>
+      {LOOK_AT_JOINTS.map((jointId) => {
+        const id = `gaze-weight-${jointId}`
+        return (
+          <div key={jointId}>
+            <label className="viewer-panel__label" htmlFor={id}>
+              {JOINT_LABELS[jointId] ?? jointId} share
+            </label>
+            <input
+              id={id}
+              className="viewer-panel__select"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={lookAtWeights[jointId] ?? 0}
+              onChange={(event) => handleNumber(jointId, event.target.value)}
+            />
+          </div>
+        )
+      })}
+      <button
+        type="button"
+        className="viewer-panel__button"
+        disabled={!gazeTarget}
+        onClick={() => dispatch({ type: 'ik/setGazeTarget', target: null })}
+      >
+        Release gaze
+      </button>
+    </div>
+  )
+}
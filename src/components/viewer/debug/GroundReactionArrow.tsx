@@ -0,0 +1,143 @@
+/**
+ * Ground Reaction Arrow
+ *
+ * Draws the imported force plate's ground reaction force as a 3D arrow from
+ * the center of pressure, synchronized to the active clip: each frame the
+ * plate is sampled at clip time + the plate time offset. The optional
+ * butterfly diagram draws every plate vector over the whole trial at once.
+ *
+ * Arrow length is scaled to body weight (ARROW_LENGTH_PER_BW per 1 BW).
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { sampleForcePlate, type ForcePlateData } from '../../../biomech/io/forcePlateImport';
+import { useViewerSelector } from '../state/viewerState';
+import './CenterOfMassMarker.css';
+
+const ARROW_COLOR = '#ffcc00';
+const BUTTERFLY_COLOR = '#4fc3f7';
+/** Arrow length (m) for a force equal to body weight */
+const ARROW_LENGTH_PER_BW = 1;
+/** Vertical force below which the plate counts as unloaded (N) */
+const LOAD_THRESHOLD = 20;
+/** Upper bound on butterfly vectors (plate samples are decimated to fit) */
+const MAX_BUTTERFLY_VECTORS = 400;
+const GRAVITY = 9.81;
+/** Lift the COP off the grid to avoid z-fighting */
+const GROUND_OFFSET = 0.002;
+
+interface GroundReactionArrowProps {
+  /** Current time of the active clip (seconds) */
+  getClipTime: () => number;
+  /** Draw the live GRF arrow */
+  showArrow?: boolean;
+  /** Draw the butterfly diagram */
+  showButterfly?: boolean;
+}
+
+/**
+ * Build the butterfly diagram segments (COP → COP + scaled force)
+ */
+function buildButterfly(data: ForcePlateData, metersPerNewton: number): THREE.BufferGeometry {
+  const stride = Math.max(1, Math.ceil(data.sampleCount / MAX_BUTTERFLY_VECTORS));
+  const positions: number[] = [];
+  for (let i = 0; i < data.sampleCount; i += stride) {
+    if (!(data.forceY[i] >= LOAD_THRESHOLD)) continue;
+    const x = data.copX[i];
+    const z = data.copZ[i];
+    positions.push(
+      x, GROUND_OFFSET, z,
+      x + data.forceX[i] * metersPerNewton,
+      GROUND_OFFSET + data.forceY[i] * metersPerNewton,
+      z + data.forceZ[i] * metersPerNewton
+    );
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+}
+
+export function GroundReactionArrow({ getClipTime, showArrow = true, showButterfly = false }: GroundReactionArrowProps) {
+  const data = useViewerSelector(state => state.forcePlate.data);
+  const timeOffset = useViewerSelector(state => state.forcePlate.timeOffset);
+  const massKg = useViewerSelector(state => state.subject.massKg);
+  const player = useViewerSelector(state => state.importedMotion.player);
+
+  const labelGroupRef = useRef<THREE.Group>(null);
+  const labelRef = useRef<HTMLSpanElement>(null);
+
+  const bodyWeight = massKg * GRAVITY;
+  const metersPerNewton = ARROW_LENGTH_PER_BW / bodyWeight;
+
+  const arrow = useMemo(() => {
+    const helper = new THREE.ArrowHelper(new THREE.Vector3(0, 1, 0), new THREE.Vector3(), 1, ARROW_COLOR, 0.08, 0.04);
+    helper.visible = false;
+    return helper;
+  }, []);
+
+  const butterfly = useMemo(() => {
+    if (!data || !showButterfly) return null;
+    return new THREE.LineSegments(
+      buildButterfly(data, metersPerNewton),
+      new THREE.LineBasicMaterial({ color: BUTTERFLY_COLOR, transparent: true, opacity: 0.6 })
+    );
+  }, [data, showButterfly, metersPerNewton]);
+
+  useEffect(() => () => {
+    arrow.dispose();
+  }, [arrow]);
+
+  useEffect(() => () => {
+    if (!butterfly) return;
+    butterfly.geometry.dispose();
+    (butterfly.material as THREE.Material).dispose();
+  }, [butterfly]);
+
+  useFrame(() => {
+    if (!data || !showArrow) return;
+
+    // Imported motion files idle the mixer and keep their own clock
+    const clipTime = player ? player.getCurrentTime() : getClipTime();
+    const sample = sampleForcePlate(data, clipTime + timeOffset);
+    const loaded = sample !== null && sample.force.y >= LOAD_THRESHOLD;
+
+    arrow.visible = loaded;
+    if (labelRef.current) labelRef.current.hidden = !loaded;
+    if (!loaded) return;
+
+    const magnitude = sample.force.length();
+    arrow.position.set(sample.cop.x, GROUND_OFFSET, sample.cop.z);
+    arrow.setDirection(sample.force.clone().divideScalar(magnitude));
+    arrow.setLength(Math.max(magnitude * metersPerNewton, 0.1), 0.08, 0.04);
+
+    if (labelGroupRef.current) {
+      labelGroupRef.current.position
+        .copy(arrow.position)
+        .addScaledVector(sample.force, metersPerNewton);
+    }
+    if (labelRef.current) {
+      labelRef.current.textContent = `GRF ${magnitude.toFixed(0)} N (${(magnitude / bodyWeight).toFixed(2)} BW)`;
+    }
+  });
+
+  if (!data) return null;
+
+  return (
+    <group>
+      {butterfly && <primitive object={butterfly} />}
+      {showArrow && (
+        <>
+          <primitive object={arrow} />
+          <group ref={labelGroupRef}>
+            <Html center distanceFactor={4} position={[0, 0.08, 0]} className="com-marker-label-container">
+              <span ref={labelRef} className="com-marker-label com-marker-label--grf" hidden />
+            </Html>
+          </group>
+        </>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Joint Limit Cone
+ *
+ * For a selected joint with a swing–twist limit, draws the swing cone from
+ * the joint center: spokes to the boundary sampled by
+ * generateConstraintBoundary and the loop joining them, plus the child's
+ * current long axis (green inside the cone, red outside). The cone uses the
+ * joint's effective ranges, so it narrows with e.g. the hamstrings as the
+ * knee extends.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { generateConstraintBoundary } from '../constraints/constraintValidator';
+import { getSwingTwistState, usesSwingTwistLimit } from '../../../biomech/engine/swingTwist';
+import { getSegmentByBoneName } from '../../../biomech/model/segments';
+import type { CoordinateRange } from '../../../biomech/model/romProfiles';
+import type { CoordinateDef } from '../../../biomech/model/types';
+import { useViewerSelector } from '../state/viewerState';
+
+const CONE_COLOR = '#ffd60a';
+const INSIDE_COLOR = new THREE.Color('#34c759');
+const OUTSIDE_COLOR = new THREE.Color('#ff3b30');
+/** Length of the drawn cone and axis (m) */
+const CONE_LENGTH = 0.2;
+/** Boundary samples per quarter turn */
+const BOUNDARY_STEPS = 12;
+const BOUNDARY_SAMPLES = BOUNDARY_STEPS * 4;
+
+const TWIST_AXES = {
+  X: new THREE.Vector3(1, 0, 0),
+  Y: new THREE.Vector3(0, 1, 0),
+  Z: new THREE.Vector3(0, 0, 1)
+};
+
+export function JointLimitCone() {
+  const biomechState = useViewerSelector(state => state.ik.biomechState);
+  const selectedBone = useViewerSelector(state => state.ik.selectedBone);
+
+  const joint = useMemo(() => {
+    if (!biomechState || !selectedBone) return null;
+    const segment = getSegmentByBoneName(selectedBone.name);
+    if (!segment) return null;
+    const match = Object.values(biomechState.getModel().joints).find(candidate => candidate.childSegment === segment.id);
+    return match && usesSwingTwistLimit(match) ? match : null;
+  }, [biomechState, selectedBone]);
+
+  const { cone, axis } = useMemo(() => {
+    // Spokes (2 vertices each) followed by loop edges (2 vertices each)
+    const coneGeometry = new THREE.BufferGeometry();
+    coneGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(BOUNDARY_SAMPLES * 4 * 3), 3));
+    const coneLines = new THREE.LineSegments(
+      coneGeometry,
+      new THREE.LineBasicMaterial({ color: CONE_COLOR, depthTest: false, transparent: true, opacity: 0.7 })
+    );
+    const axisGeometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), new THREE.Vector3()]);
+    const axisLine = new THREE.Line(axisGeometry, new THREE.LineBasicMaterial({ depthTest: false, transparent: true }));
+    for (const line of [coneLines, axisLine]) {
+      line.renderOrder = 999;
+      line.frustumCulled = false;
+    }
+    return { cone: coneLines, axis: axisLine };
+  }, []);
+
+  useEffect(() => () => {
+    for (const line of [cone, axis]) {
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+    }
+  }, [cone, axis]);
+
+  useFrame(() => {
+    if (!biomechState || !joint) return;
+    const registry = biomechState.getSegmentRegistry();
+    const jointState = biomechState.getJointState(joint.id);
+    const parentWorld = registry?.getWorldQuaternion(joint.parentSegment);
+    const childWorld = registry?.getWorldQuaternion(joint.childSegment);
+    const center = registry?.getWorldPosition(joint.childSegment);
+    if (!jointState || !parentWorld || !childWorld || !center) return;
+
+    // Effective ranges once per frame; the cone samples read them many times
+    const ranges = new Map<string, CoordinateRange>(
+      joint.coordinates.map(coord => [coord.id, biomechState.getEffectiveRange(coord)])
+    );
+    const rangeOf = (coord: CoordinateDef) => ranges.get(coord.id)!;
+    const boundary = generateConstraintBoundary(joint, BOUNDARY_STEPS, rangeOf);
+
+    const twistAxis = TWIST_AXES[joint.swingTwist.twistAxis];
+    const frame = parentWorld.multiply(jointState.q_neutral);
+    const tip = (rotation: THREE.Quaternion) =>
+      twistAxis.clone().applyQuaternion(rotation).multiplyScalar(CONE_LENGTH).add(center);
+
+    const tips = boundary.map(euler => tip(frame.clone().multiply(new THREE.Quaternion().setFromEuler(euler))));
+    const positions = cone.geometry.getAttribute('position') as THREE.BufferAttribute;
+    tips.forEach((point, i) => {
+      const next = tips[(i + 1) % tips.length];
+      positions.setXYZ(i * 2, center.x, center.y, center.z);
+      positions.setXYZ(i * 2 + 1, point.x, point.y, point.z);
+      positions.setXYZ((tips.length + i) * 2, point.x, point.y, point.z);
+      positions.setXYZ((tips.length + i) * 2 + 1, next.x, next.y, next.z);
+    });
+    positions.needsUpdate = true;
+
+    const current = tip(childWorld);
+    const axisPositions = axis.geometry.getAttribute('position') as THREE.BufferAttribute;
+    axisPositions.setXYZ(0, center.x, center.y, center.z);
+    axisPositions.setXYZ(1, current.x, current.y, current.z);
+    axisPositions.needsUpdate = true;
+
+    const { swingExceeded } = getSwingTwistState(joint, jointState.q_delta, rangeOf);
+    (axis.material as THREE.LineBasicMaterial).color.copy(swingExceeded ? OUTSIDE_COLOR : INSIDE_COLOR);
+  });
+
+  if (!joint) return null;
+
+  return (
+    <>
+      <primitive object={cone} />
+      <primitive object={axis} />
+    </>
+  );
+}
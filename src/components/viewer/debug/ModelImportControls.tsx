@@ -0,0 +1,77 @@
+import { useState, type ChangeEvent } from 'react'
+import { useViewerDispatch, useViewerSelector } from '../state/viewerState'
+import { importOsimModel } from '@/biomech/io/osimImport'
+import { parseBiomechModelText } from '@/biomech/io/modelLoader'
+
+/**
+ * Load an OpenSim .osim or biomech-model JSON file and rebuild the
+ * coordinate engine against it. OpenSim bodies and coordinates are mapped
+ * onto the Mixamo rig; unmapped ones are reported and skipped.
+ */
+export function ModelImportControls() {
+  const dispatch = useViewerDispatch()
+  const biomechModel = useViewerSelector((s) => s.model.biomechModel)
+  const fileName = useViewerSelector((s) => s.model.fileName)
+  const [messages, setMessages] = useState<string[]>([])
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const text = await file.text()
+    const result = file.name.toLowerCase().endsWith('.osim')
+      ? importOsimModel(text)
+      : parseBiomechModelText(text)
+    if (!result.success || !result.model) {
+      setMessages(result.errors)
+      return
+    }
+
+    setMessages([
+      `${Object.keys(result.model.joints).length} joints, ${Object.keys(result.model.segments).length} segments`,
+      ...result.warnings,
+    ])
+    dispatch({ type: 'model/load', biomechModel: result.model, fileName: file.name })
+  }
+
+  const handleReset = () => {
+    setMessages([])
+    dispatch({ type: 'model/reset' })
+  }
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>🦴 Biomech Model (.osim / JSON)</strong>
+
+      <label className="viewer-panel__label" htmlFor="model-file-input">
+        Load model
+      </label>
+      <input
+        id="model-file-input"
+        type="file"
+        accept=".osim,.json,.xml"
+        onChange={handleFile}
+      />
+
+      {biomechModel && (
+        <>
+          <p>
+            <strong>{biomechModel.displayName ?? biomechModel.id}</strong> · {fileName}
+          </p>
+          <button type="button" className="viewer-panel__button" onClick={handleReset}>
+            Use built-in model
+          </button>
+        </>
+      )}
+
+      {messages.length > 0 && (
+        <ul>
+          {messages.map((message, i) => (
+            <li key={i}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState, type ChangeEvent } from 'react'
+import { useViewerDispatch, useViewerSelector } from '../state/viewerState'
+import { parseMotionFile } from '@/biomech/io/motionImport'
+import type { AngleUnits } from '@/biomech/io/motionExport'
+import { MotionPlayer } from '@/biomech/engine/motionPlayer'
+
+/**
+ * Load an OpenSim .mot/.sto or CSV coordinate file and play it on the rig.
+ * While loaded, the viewer's Play/Pause button and speed slider drive the
+ * imported motion instead of the GLB clip.
+ */
+export function MotionImportControls() {
+  const dispatch = useViewerDispatch()
+  const player = useViewerSelector((s) => s.importedMotion.player)
+  const fileName = useViewerSelector((s) => s.importedMotion.fileName)
+  const isPlaying = useViewerSelector((s) => s.playback.isPlaying)
+  const speed = useViewerSelector((s) => s.playback.speed)
+  const biomechState = useViewerSelector((s) => s.ik.biomechState)
+  const [csvUnits, setCsvUnits] = useState<AngleUnits>('deg')
+  const [currentTime, setCurrentTime] = useState(0)
+  const [messages, setMessages] = useState<string[]>([])
+
+  // Mirror viewer transport controls onto the imported motion
+  useEffect(() => {
+    if (!player) return
+    player.setSpeed(speed)
+    if (isPlaying) {
+      player.play()
+    } else {
+      player.pause()
+    }
+  }, [player, isPlaying, speed])
+
+  // Poll the playhead for the seek slider
+  useEffect(() => {
+    if (!player) return
+    const interval = setInterval(() => setCurrentTime(player.getCurrentTime()), 100)
+    return () => clearInterval(interval)
+  }, [player])
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const text = await file.text()
+    // Columns are matched against the active (possibly imported) model
+    const model = biomechState?.getModel()
+    const result = parseMotionFile(text, file.name, { units: csvUnits, model })
+    if (!result.success || !result.recording) {
+      setMessages(result.errors)
+      return
+    }
+
+    const next = new MotionPlayer(result.recording)
+    setMessages([
+      `${result.recording.frameCount} frames, ${next.getDrivenJointIds(model).length} joints (${result.format}, ${result.units})`,
+      ...result.warnings,
+    ])
+    dispatch({ type: 'importedMotion/load', player: next, fileName: file.name })
+  }
+
+  const handleUnload = () => {
+    setMessages([])
+    setCurrentTime(0)
+    dispatch({ type: 'importedMotion/clear' })
+  }
+
+  const duration = player?.getDuration() ?? 0
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>📂 Motion File (.mot / CSV)</strong>
+
+      <label className="viewer-panel__label" htmlFor="motion-csv-units">
+        CSV units
+      </label>
+      <select
+        id="motion-csv-units"
+        className="viewer-panel__select"
+        value={csvUnits}
+        onChange={(event) => setCsvUnits(event.target.value as AngleUnits)}
+      >
+        <option value="deg">Degrees</option>
+        <option value="rad">Radians</option>
+      </select>
+
+      <label className="viewer-panel__label" htmlFor="motion-file-input">
+        Load file
+      </label>
+      <input
+        id="motion-file-input"
+        type="file"
+        accept=".mot,.sto,.csv,.txt"
+        onChange={handleFile}
+      />
+
+      {player && (
+        <>
+          <p>
+            <strong>{fileName}</strong> · {currentTime.toFixed(2)}s / {duration.toFixed(2)}s
+          </p>
+          <label className="viewer-panel__label" htmlFor="motion-seek-slider">
+            Seek
+          </label>
+          <input
+            id="motion-seek-slider"
+            className="viewer-panel__slider"
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={currentTime}
+            onChange={(event) => {
+              const t = Number(event.target.value)
+              player.seek(t)
+              setCurrentTime(t)
+            }}
+          />
+          <button type="button" className="viewer-panel__button" onClick={handleUnload}>
+            Unload (return to clip)
+          </button>
+        </>
+      )}
+
+      {messages.length > 0 && (
+        <ul>
+          {messages.map((message, i) => (
+            <li key={i}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useViewerDispatch, useViewerSelector } from '../state/viewerState'
+import { computeMusclePaths, getModelMuscles, type MusclePathState } from '@/biomech/engine/musclePaths'
+
+const REFRESH_MS = 120
+
+type LengthRange = { min: number; max: number }
+
+/**
+ * Muscle path overlay toggle and a live readout of one muscle: length
+ * (scaled to the subject's height), strain from the neutral pose and moment
+ * arm about each spanned coordinate. The length range since the last reset
+ * answers questions like "how far does the hamstring stretch in this clip?".
+ */
+export function MuscleControls() {
+  const dispatch = useViewerDispatch()
+  const showMuscles = useViewerSelector((s) => s.overlays.muscles)
+  const biomechState = useViewerSelector((s) => s.ik.biomechState)
+  const heightM = useViewerSelector((s) => s.subject.heightM)
+  const modelHeight = useViewerSelector((s) => s.metrics.modelMetrics?.desiredHeight ?? null)
+
+  const muscles = useMemo(() => (biomechState ? getModelMuscles(biomechState.getModel()) : []), [biomechState])
+  const [muscleId, setMuscleId] = useState('semiten_r')
+  const [path, setPath] = useState<MusclePathState | null>(null)
+  const [range, setRange] = useState<LengthRange | null>(null)
+
+  const selected = muscles.find((muscle) => muscle.id === muscleId) ?? muscles[0]
+  const lengthScale = modelHeight ? heightM / modelHeight : 1
+
+  useEffect(() => {
+    setRange(null)
+    if (!biomechState || !selected) {
+      setPath(null)
+      return
+    }
+    const tick = () => {
+      const [next] = computeMusclePaths(biomechState, [selected])
+      setPath(next ?? null)
+      if (next) {
+        setRange((prev) => ({
+          min: Math.min(prev?.min ?? Infinity, next.length),
+          max: Math.max(prev?.max ?? -Infinity, next.length),
+        }))
+      }
+    }
+    tick()
+    const handle = window.setInterval(tick, REFRESH_MS)
+    return () => window.clearInterval(handle)
+  }, [biomechState, selected])
+
+  const cm = (meters: number) => `${(meters * lengthScale * 100).toFixed(1)} cm`
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>💪 Muscles</strong>
+
+      <label className="viewer-panel__label">
+        <input
+          type="checkbox"
+          checked={showMuscles}
+          onChange={(event) =>
+            dispatch({ type: 'overlays/setVisible', overlay: 'muscles', visible: event.target.checked })
+          }
+        />{' '}
+        Show muscle paths (blue short, red stretched)
+      </label>
+
+      {muscles.length > 0 && selected && (
+        <>
+          <label className="viewer-panel__label" htmlFor="muscle-select">
+            Muscle
+          </label>
+          <select
+            id="muscle-select"
+            className="viewer-panel__select"
+            value={selected.id}
+            onChange={(event) => setMuscleId(event.target.value)}
+          >
+            {muscles.map((muscle) => (
+              <option key={muscle.id} value={muscle.id}>
+                {muscle.displayName}
+              </option>
+            ))}
+          </select>
+
+          {path ? (
+            <ul>
+              <li>
+                Length {cm(path.length)} (neutral {cm(path.neutralLength)}, strain{' '}
+                {(path.strain * 100).toFixed(1)}%)
+              </li>
+              {range && (
+                <li>
+                  Range {cm(range.min)} – {cm(range.max)}
+                </li>
+              )}
+              {Object.entries(path.momentArms).map(([coordId, momentArm]) => (
+                <li key={coordId}>
+                  Moment arm {coordId}: {cm(momentArm)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p>Waiting for neutral pose calibration</p>
+          )}
+
+          <button type="button" className="viewer-panel__button" onClick={() => setRange(null)}>
+            Reset length range
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
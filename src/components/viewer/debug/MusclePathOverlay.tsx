@@ -0,0 +1,81 @@
+/**
+ * Muscle Path Overlay
+ *
+ * Draws the musculotendon paths of the built-in muscles on the mannequin,
+ * each edge colored by the muscle's strain relative to the calibrated
+ * neutral pose: blue when shortened, white at neutral length, red when
+ * stretched (saturating at ±STRAIN_SATURATION).
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { computeMusclePaths, getModelMuscles } from '../../../biomech/engine/musclePaths';
+import { useViewerSelector } from '../state/viewerState';
+
+const SHORTENED_COLOR = new THREE.Color('#4fc3f7');
+const NEUTRAL_COLOR = new THREE.Color('#ffffff');
+const STRETCHED_COLOR = new THREE.Color('#ff3b30');
+/** Strain mapped to the end colors */
+const STRAIN_SATURATION = 0.2;
+
+/**
+ * Color for a strain value (length / neutral − 1)
+ */
+function strainColor(strain: number, target: THREE.Color): THREE.Color {
+  const t = Math.min(Math.abs(strain) / STRAIN_SATURATION, 1);
+  return target.copy(NEUTRAL_COLOR).lerp(strain < 0 ? SHORTENED_COLOR : STRETCHED_COLOR, t);
+}
+
+export function MusclePathOverlay() {
+  const biomechState = useViewerSelector(state => state.ik.biomechState);
+
+  const muscles = useMemo(() => (biomechState ? getModelMuscles(biomechState.getModel()) : []), [biomechState]);
+
+  const lines = useMemo(() => {
+    const vertexCount = muscles.reduce((sum, muscle) => sum + (muscle.points.length - 1) * 2, 0);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertexCount * 3), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(vertexCount * 3), 3));
+    const segments = new THREE.LineSegments(
+      geometry,
+      new THREE.LineBasicMaterial({ vertexColors: true, depthTest: false, transparent: true })
+    );
+    segments.renderOrder = 999;
+    segments.frustumCulled = false;
+    return segments;
+  }, [muscles]);
+
+  useEffect(() => () => {
+    lines.geometry.dispose();
+    (lines.material as THREE.Material).dispose();
+  }, [lines]);
+
+  useFrame(() => {
+    if (!biomechState) return;
+
+    const positions = lines.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const colors = lines.geometry.getAttribute('color') as THREE.BufferAttribute;
+    const color = new THREE.Color();
+    let vertex = 0;
+
+    for (const path of computeMusclePaths(biomechState, muscles)) {
+      strainColor(path.strain, color);
+      for (let i = 1; i < path.points.length; i++) {
+        for (const point of [path.points[i - 1], path.points[i]]) {
+          positions.setXYZ(vertex, point.x, point.y, point.z);
+          colors.setXYZ(vertex, color.r, color.g, color.b);
+          vertex++;
+        }
+      }
+    }
+
+    positions.needsUpdate = true;
+    colors.needsUpdate = true;
+    lines.geometry.setDrawRange(0, vertex);
+  });
+
+  if (!biomechState) return null;
+
+  return <primitive object={lines} />;
+}
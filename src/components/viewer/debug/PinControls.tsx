@@ -0,0 +1,32 @@
+import { useViewerDispatch, useViewerSelector } from '../state/viewerState'
+import { IK_CHAIN_CONFIGS } from '../utils/ikSolverConfig'
+
+/**
+ * Pin IK targets (red spheres) so their effectors stay put while another
+ * target is dragged; the whole body is then solved together. Pins need the
+ * joint-coordinate solver.
+ */
+export function PinControls() {
+  const dispatch = useViewerDispatch()
+  const pinnedChains = useViewerSelector((s) => s.ik.pinnedChains)
+  const ikSolver = useViewerSelector((s) => s.mode.ikSolver)
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>📌 Pinned Effectors</strong>
+      {ikSolver !== 'dls' && <p>Pins apply with the joint-coordinate IK solver</p>}
+      {IK_CHAIN_CONFIGS.map((config) => (
+        <label key={config.name} className="viewer-panel__label">
+          <input
+            type="checkbox"
+            checked={pinnedChains.includes(config.name)}
+            onChange={(event) =>
+              dispatch({ type: 'ik/setPinned', chainName: config.name, pinned: event.target.checked })
+            }
+          />{' '}
+          {config.name}
+        </label>
+      ))}
+    </div>
+  )
+}
@@ -19,6 +19,9 @@ import { CoordinateDisplay } from './CoordinateDisplay';
 import { getDisplayAnglesFromBiomech, SHOULDER_COORD_IDS } from '../utils/jointLabels';
 import { BoneInfoPanel } from './rom/BoneInfoPanel';
 import { CollisionSummary } from './rom/CollisionSummary';
+import { RomProfileSelector } from './rom/RomProfileSelector';
+import { SessionCapture } from './rom/SessionCapture';
+import { VelocityFilterControls } from './rom/VelocityFilterControls';
 import './RangeOfMotionPanel.css';
 
 /**
@@ -346,6 +349,9 @@ export function RangeOfMotionPanel({
             </div>
           </div>
 
+          <RomProfileSelector />
+          {biomechState?.isCalibrated() && <VelocityFilterControls biomechState={biomechState} />}
+
           <div className={`rom-layout rom-mode-${romMode}`}>
             <div className="rom-column bone-column">
               {/* Bone Information */}
@@ -392,6 +398,13 @@ export function RangeOfMotionPanel({
           {/* Collision Summary */}
           <CollisionSummary collisionData={collisionData} />
 
+          {/* Assessment Session */}
+          <SessionCapture
+            selectedBone={selectedBone}
+            biomechState={biomechState}
+            constraintViolations={constraintViolations}
+          />
+
           {/* Controls */}
           <div className="panel-controls">
             {isInteractive ? (
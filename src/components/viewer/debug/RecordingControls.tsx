@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react'
+import { useViewerDispatch, useViewerSelector } from '../state/viewerState'
+import {
+  exportRecordingToCSV,
+  exportRecordingToMot,
+  recordingFromModelState,
+  type AngleUnits,
+} from '@/biomech/io/motionExport'
+import { getAllCoordinateIds } from '@/biomech/engine/motionRecorder'
+import { downloadTextFile } from '@/shared/utils/download'
+
+/**
+ * Start/stop/clear controls for the coordinate time-series recorder.
+ * Frames are captured by InteractiveBoneController after each BiomechState update.
+ * Export writes the recording (or the current pose when nothing is recorded)
+ * as CSV or an OpenSim .mot file.
+ */
+export function RecordingControls() {
+  const dispatch = useViewerDispatch()
+  const recorder = useViewerSelector((s) => s.recording.recorder)
+  const isRecording = useViewerSelector((s) => s.recording.isRecording)
+  const animationId = useViewerSelector((s) => s.playback.animationId)
+  const biomechState = useViewerSelector((s) => s.ik.biomechState)
+  const [frameCount, setFrameCount] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [units, setUnits] = useState<AngleUnits>('deg')
+
+  // Poll recorder progress (captured frames live outside React state)
+  useEffect(() => {
+    if (!recorder) return
+    const refresh = () => {
+      setFrameCount(recorder.getFrameCount())
+      setDuration(recorder.getDuration())
+    }
+    refresh()
+    if (!isRecording) return
+    const interval = setInterval(refresh, 250)
+    return () => clearInterval(interval)
+  }, [recorder, isRecording])
+
+  if (!recorder) return null
+
+  const handleToggle = () => {
+    if (isRecording) {
+      recorder.stop()
+    } else {
+      recorder.start(animationId)
+    }
+    dispatch({ type: 'recording/setRecording', isRecording: !isRecording })
+  }
+
+  const handleClear = () => {
+    recorder.clear()
+    setFrameCount(0)
+    setDuration(0)
+    dispatch({ type: 'recording/setRecording', isRecording: false })
+  }
+
+  const handleExport = (format: 'csv' | 'mot') => {
+    let recording = recorder.getRecording()
+    if (recording.frameCount === 0) {
+      if (!biomechState?.isCalibrated()) return
+      recording = recordingFromModelState(biomechState.getModelState(), getAllCoordinateIds(biomechState.getModel()))
+    }
+
+    const baseName = (recording.source ?? animationId ?? 'motion').replace(/\.glb$/i, '') || 'motion'
+    if (format === 'csv') {
+      downloadTextFile(`${baseName}_coordinates.csv`, exportRecordingToCSV(recording, { units }), 'text/csv')
+    } else {
+      downloadTextFile(`${baseName}_coordinates.mot`, exportRecordingToMot(recording, { units, name: baseName }))
+    }
+  }
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>⏺ Coordinate Recorder</strong>
+      <p>
+        {isRecording ? 'Recording' : 'Stopped'} · {frameCount} frames · {duration.toFixed(2)}s
+      </p>
+      <button
+        type="button"
+        className={`viewer-panel__button ${isRecording ? 'viewer-panel__button--stop' : 'viewer-panel__button--start'}`}
+        onClick={handleToggle}
+      >
+        {isRecording ? 'Stop Recording' : 'Start Recording'}
+      </button>
+      <button
+        type="button"
+        className="viewer-panel__button"
+        onClick={handleClear}
+        disabled={frameCount === 0 && !isRecording}
+      >
+        Clear
+      </button>
+
+      <label className="viewer-panel__label" htmlFor="export-units-select">
+        Export units
+      </label>
+      <select
+        id="export-units-select"
+        className="viewer-panel__select"
+        value={units}
+        onChange={(event) => setUnits(event.target.value as AngleUnits)}
+      >
+        <option value="deg">Degrees</option>
+        <option value="rad">Radians</option>
+      </select>
+      <button
+        type="button"
+        className="viewer-panel__button"
+        onClick={() => handleExport('csv')}
+        disabled={isRecording}
+        title={frameCount === 0 ? 'Exports the current pose' : undefined}
+      >
+        Export CSV
+      </button>
+      <button
+        type="button"
+        className="viewer-panel__button"
+        onClick={() => handleExport('mot')}
+        disabled={isRecording}
+        title={frameCount === 0 ? 'Exports the current pose' : undefined}
+      >
+        Export OpenSim .mot
+      </button>
+    </div>
+  )
+}
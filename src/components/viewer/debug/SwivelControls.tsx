@@ -0,0 +1,45 @@
+import { useViewerDispatch, useViewerSelector } from '../state/viewerState'
+import { IK_CHAIN_CONFIGS } from '../utils/ikSolverConfig'
+
+const POLE_CHAINS = IK_CHAIN_CONFIGS.filter((config) => config.pole)
+
+/**
+ * Swivel angle of each limb chain about its shoulder→hand / hip→foot axis,
+ * measured from the plane of the chain's pole handle (the blue sphere)
+ */
+export function SwivelControls() {
+  const dispatch = useViewerDispatch()
+  const swivelAngles = useViewerSelector((s) => s.ik.swivelAngles)
+
+  const handleNumber = (chainName: string, raw: string) => {
+    const angle = Number(raw)
+    if (Number.isFinite(angle)) dispatch({ type: 'ik/setSwivelAngle', chainName, angle })
+  }
+
+  return (
+    <div className="viewer-panel__hint viewer-panel__hint--spaced">
+      <strong>🔄 Elbow/Knee Swivel</strong>
+      <p>Drag the blue pole handles, or turn the limb plane (°)</p>
+      {POLE_CHAINS.map((config) => {
+        const id = `swivel-${config.name.toLowerCase().replace(/\s+/g, '-')}`
+        return (
+          <div key={config.name}>
+            <label className="viewer-panel__label" htmlFor={id}>
+              {config.name}
+            </label>
+            <input
+              id={id}
+              className="viewer-panel__select"
+              type="number"
+              min={-180}
+              max={180}
+              step={5}
+              value={swivelAngles[config.name] ?? 0}
+              onChange={(event) => handleNumber(config.name, event.target.value)}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import type { CycleCurveStats } from '../../../../biomech/analysis/gaitCycle';
+
+const WIDTH = 380;
+const HEIGHT = 150;
+const PAD = { left: 34, right: 8, top: 8, bottom: 20 };
+
+/** Keep in sync with .gait-chart-legend-* in AnalysisPanel.css */
+const SIDE_COLORS = {
+  left: '#ff5555',
+  right: '#33dd66',
+};
+
+interface GaitCurveChartProps {
+  label: string;
+  unit: string;
+  left: CycleCurveStats | null;
+  right: CycleCurveStats | null;
+  /** Normative mean ± SD band (omitted for quantities without norms) */
+  norm?: { mean: Float64Array; sd: Float64Array };
+}
+
+/** Tick spacing of 1, 2 or 5 × 10ⁿ giving roughly four to eight ticks */
+function tickStep(span: number): number {
+  const raw = span / 6;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : 5) * magnitude;
+}
+
+/**
+ * Gait-lab style cycle plot: optional normative mean ± SD band with left/right
+ * mean curves over 0–100% of the gait cycle. Dashed verticals mark mean toe
+ * off per side; undefined (NaN) stretches of a curve are left as gaps.
+ */
+export function GaitCurveChart({ label, unit, left, right, norm }: GaitCurveChartProps) {
+  const points = norm?.mean.length ?? left?.mean.length ?? right?.mean.length ?? 0;
+  if (points < 2) return null;
+
+  const allValues: number[] = [];
+  if (norm) {
+    for (let i = 0; i < points; i++) {
+      allValues.push(norm.mean[i] - norm.sd[i], norm.mean[i] + norm.sd[i]);
+    }
+  }
+  left?.mean.forEach((v) => allValues.push(v));
+  right?.mean.forEach((v) => allValues.push(v));
+  const finite = allValues.filter((v) => Number.isFinite(v));
+  const low = finite.length > 0 ? Math.min(...finite) : 0;
+  const high = finite.length > 0 ? Math.max(...finite) : 1;
+  const step = tickStep(Math.max(high - low, 1e-3));
+  const yMin = Math.floor((low - step / 2) / step) * step;
+  const yMax = Math.ceil((high + step / 2) / step) * step;
+
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (plotW * i) / (points - 1);
+  const xPercent = (pct: number) => PAD.left + (plotW * pct) / 100;
+  const y = (v: number) => PAD.top + plotH * (1 - (v - yMin) / (yMax - yMin));
+
+  // Restart the path after each undefined sample so gaps stay open
+  const linePath = (values: Float64Array) => {
+    let pen = 'M';
+    return Array.from(values, (v, i) => {
+      if (!Number.isFinite(v)) {
+        pen = 'M';
+        return '';
+      }
+      const segment = `${pen}${x(i).toFixed(1)},${y(v).toFixed(1)}`;
+      pen = 'L';
+      return segment;
+    }).filter(Boolean).join(' ');
+  };
+
+  const yTicks: number[] = [];
+  for (let k = Math.ceil(yMin / step); k * step <= yMax + step * 1e-6; k++) yTicks.push(k * step);
+  const digits = step < 1 ? Math.ceil(-Math.log10(step)) : 0;
+
+  return (
+    <figure className="gait-chart">
+      <figcaption>{label} ({unit})</figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={`${label} over the gait cycle`}>
+        {yTicks.map((v) => (
+          <g key={v}>
+            <line className="gait-chart-grid" x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} />
+            <text className="gait-chart-label" x={PAD.left - 4} y={y(v) + 3} textAnchor="end">{v.toFixed(digits)}</text>
+          </g>
+        ))}
+        {[0, 20, 40, 60, 80, 100].map((pct) => (
+          <text key={pct} className="gait-chart-label" x={xPercent(pct)} y={HEIGHT - 6} textAnchor="middle">
+            {pct}%
+          </text>
+        ))}
+
+        {norm && (
+          <>
+            <polygon
+              className="gait-chart-band"
+              points={[
+                ...Array.from(norm.mean, (m, i) => `${x(i).toFixed(1)},${y(m + norm.sd[i]).toFixed(1)}`),
+                ...Array.from(norm.mean, (m, i) => `${x(i).toFixed(1)},${y(m - norm.sd[i]).toFixed(1)}`).reverse(),
+              ].join(' ')}
+            />
+            <path className="gait-chart-norm" d={linePath(norm.mean)} />
+          </>
+        )}
+
+        {([['left', left], ['right', right]] as const).map(([side, stats]) =>
+          stats ? (
+            <g key={side}>
+              {Number.isFinite(stats.toeOffPercent) && (
+                <line
+                  className="gait-chart-toeoff"
+                  stroke={SIDE_COLORS[side]}
+                  x1={xPercent(stats.toeOffPercent)}
+                  x2={xPercent(stats.toeOffPercent)}
+                  y1={PAD.top}
+                  y2={HEIGHT - PAD.bottom}
+                />
+              )}
+              <path d={linePath(stats.mean)} fill="none" stroke={SIDE_COLORS[side]} strokeWidth={2} />
+            </g>
+          ) : null
+        )}
+      </svg>
+      <div className="gait-chart-legend">
+        <span className="gait-chart-legend-left">■ Left{left ? ` (n=${left.cycles.length})` : ' (—)'}</span>
+        <span className="gait-chart-legend-right">■ Right{right ? ` (n=${right.cycles.length})` : ' (—)'}</span>
+        {norm && <span className="gait-chart-legend-norm">▒ Normal ±1 SD</span>}
+      </div>
+    </figure>
+  );
+}
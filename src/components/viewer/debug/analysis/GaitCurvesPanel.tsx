@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { useViewerSelector } from '../../state/viewerState';
+import { computeGaitCycleCurves, type GaitCycleCurves } from '../../../../biomech/analysis/gaitCycle';
+import { GaitCurveChart } from './GaitCurveChart';
+
+/**
+ * Hip/knee/ankle sagittal angles normalized to 0–100% of the gait cycle,
+ * left and right overlaid on a normative mean ± SD band.
+ */
+export function GaitCurvesPanel() {
+  const recorder = useViewerSelector((s) => s.recording.recorder);
+  const isRecording = useViewerSelector((s) => s.recording.isRecording);
+  const [curves, setCurves] = useState<GaitCycleCurves | null>(null);
+  const [label, setLabel] = useState('');
+
+  const handleCompute = () => {
+    if (!recorder) return;
+    const recording = recorder.getRecording();
+    setCurves(computeGaitCycleCurves(recording));
+    setLabel(recording.source ?? 'Recording');
+  };
+
+  return (
+    <div className="analysis-section">
+      <h4>Gait Cycle Kinematics</h4>
+      <p className="analysis-note">
+        Sagittal angles from heel strike (0%) to the next ipsilateral heel strike (100%).
+      </p>
+
+      <div className="analysis-actions">
+        <button
+          type="button"
+          className="analysis-btn"
+          onClick={handleCompute}
+          disabled={!recorder || isRecording}
+        >
+          Plot Recording
+        </button>
+      </div>
+
+      {curves?.errors.map((error) => (
+        <p key={error} className="analysis-error">{error}</p>
+      ))}
+
+      {curves?.success && (
+        <>
+          <p className="analysis-note">{label}</p>
+          {curves.angles.map((angle) => (
+            <GaitCurveChart
+              key={angle.def.key}
+              label={angle.def.label}
+              unit="°"
+              left={angle.left}
+              right={angle.right}
+              norm={angle.norm}
+            />
+          ))}
+          <p className="analysis-note">{curves.angles[0]?.norm.source}</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useViewerSelector } from '../../state/viewerState';
+import { analyzeGait, type GaitAnalysisResult, type GaitMetrics } from '../../../../biomech/analysis/gaitAnalysis';
+
+/** |SI| above this is commonly read as clinically meaningful asymmetry */
+const SYMMETRY_FLAG_PERCENT = 10;
+
+type PinnedResult = {
+  label: string;
+  metrics: GaitMetrics;
+};
+
+type MetricRow = {
+  label: string;
+  unit: string;
+  digits: number;
+  left: (m: GaitMetrics) => number;
+  right: (m: GaitMetrics) => number;
+  symmetry: (m: GaitMetrics) => number;
+};
+
+const METRIC_ROWS: MetricRow[] = [
+  { label: 'Stride time', unit: 's', digits: 2, left: (m) => m.left.strideTime, right: (m) => m.right.strideTime, symmetry: (m) => m.symmetry.strideTime },
+  { label: 'Stance', unit: '%', digits: 1, left: (m) => m.left.stancePercent, right: (m) => m.right.stancePercent, symmetry: (m) => m.symmetry.stancePercent },
+  { label: 'Swing', unit: '%', digits: 1, left: (m) => m.left.swingPercent, right: (m) => m.right.swingPercent, symmetry: (m) => m.symmetry.swingPercent },
+  { label: 'Step time', unit: 's', digits: 2, left: (m) => m.left.stepTime, right: (m) => m.right.stepTime, symmetry: (m) => m.symmetry.stepTime },
+  { label: 'Step length', unit: 'm', digits: 2, left: (m) => m.left.stepLength, right: (m) => m.right.stepLength, symmetry: (m) => m.symmetry.stepLength },
+];
+
+function format(value: number, digits: number): string {
+  return Number.isFinite(value) ? value.toFixed(digits) : '—';
+}
+
+function isFlagged(symmetry: number): boolean {
+  return Number.isFinite(symmetry) && Math.abs(symmetry) > SYMMETRY_FLAG_PERCENT;
+}
+
+/**
+ * Gait event detection and spatiotemporal metrics for the current recording.
+ * A result can be pinned as a baseline (e.g. Walk) to compare against another clip (e.g. Limp).
+ */
+export function GaitPanel() {
+  const recorder = useViewerSelector((s) => s.recording.recorder);
+  const isRecording = useViewerSelector((s) => s.recording.isRecording);
+  const [result, setResult] = useState<GaitAnalysisResult | null>(null);
+  const [resultLabel, setResultLabel] = useState('');
+  const [baseline, setBaseline] = useState<PinnedResult | null>(null);
+
+  const handleAnalyze = () => {
+    if (!recorder) return;
+    const recording = recorder.getRecording();
+    setResult(analyzeGait(recording));
+    setResultLabel(recording.source ?? 'Recording');
+  };
+
+  const metrics = result?.metrics ?? null;
+  const heelStrikes = result?.events.filter((e) => e.type === 'heelStrike').length ?? 0;
+  const toeOffs = result?.events.filter((e) => e.type === 'toeOff').length ?? 0;
+
+  return (
+    <div className="analysis-section">
+      <h4>Gait Events &amp; Metrics</h4>
+      <p className="analysis-note">
+        Record at least two full gait cycles of a walking clip, stop, then analyze.
+      </p>
+
+      <div className="analysis-actions">
+        <button
+          type="button"
+          className="analysis-btn"
+          onClick={handleAnalyze}
+          disabled={!recorder || isRecording}
+        >
+          Analyze Recording
+        </button>
+        <button
+          type="button"
+          className="analysis-btn"
+          onClick={() => metrics && setBaseline({ label: resultLabel, metrics })}
+          disabled={!metrics}
+        >
+          Pin as Baseline
+        </button>
+        {baseline && (
+          <button type="button" className="analysis-btn" onClick={() => setBaseline(null)}>
+            Clear Baseline
+          </button>
+        )}
+      </div>
+
+      {result?.errors.map((error) => (
+        <p key={error} className="analysis-error">{error}</p>
+      ))}
+      {result?.warnings.map((warning) => (
+        <p key={warning} className="analysis-note">{warning}</p>
+      ))}
+
+      {metrics && (
+        <>
+          <p className="analysis-note">
+            {resultLabel}: {heelStrikes} heel strikes, {toeOffs} toe offs · cadence{' '}
+            {format(metrics.cadence, 1)} steps/min · stride {format(metrics.strideTime, 2)} s
+          </p>
+          <table className="analysis-table">
+            <thead>
+              <tr>
+                <th>Metric</th>
+                <th>Left</th>
+                <th>Right</th>
+                <th>SI %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {METRIC_ROWS.map((row) => {
+                const si = row.symmetry(metrics);
+                return (
+                  <tr key={row.label}>
+                    <td>{row.label} ({row.unit})</td>
+                    <td>{format(row.left(metrics), row.digits)}</td>
+                    <td>{format(row.right(metrics), row.digits)}</td>
+                    <td className={isFlagged(si) ? 'flagged' : ''}>{format(si, 1)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {metrics && baseline && (
+        <>
+          <h4>Comparison vs {baseline.label}</h4>
+          <table className="analysis-table">
+            <thead>
+              <tr>
+                <th>Metric</th>
+                <th>{baseline.label}</th>
+                <th>{resultLabel}</th>
+                <th>Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Cadence (steps/min)</td>
+                <td>{format(baseline.metrics.cadence, 1)}</td>
+                <td>{format(metrics.cadence, 1)}</td>
+                <td>{format(metrics.cadence - baseline.metrics.cadence, 1)}</td>
+              </tr>
+              {METRIC_ROWS.map((row) => (
+                <tr key={row.label}>
+                  <td>{row.label} SI (%)</td>
+                  <td>{format(row.symmetry(baseline.metrics), 1)}</td>
+                  <td className={isFlagged(row.symmetry(metrics)) ? 'flagged' : ''}>
+                    {format(row.symmetry(metrics), 1)}
+                  </td>
+                  <td>{format(row.symmetry(metrics) - row.symmetry(baseline.metrics), 1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useMemo, useState } from 'react';
+import { useViewerSelector } from '../../state/viewerState';
+import {
+  computeJointKinetics,
+  computeKineticCycleCurves,
+  type GroundReactionSource,
+  type KineticCycleCurves
+} from '../../../../biomech/analysis/jointKinetics';
+import { getAnthropometricTable } from '../../../../biomech/model/anthropometrics';
+import { GaitCurveChart } from './GaitCurveChart';
+
+type GrfChoice = GroundReactionSource['type'];
+
+/**
+ * Net hip/knee/ankle moments and joint powers from lower-limb inverse
+ * dynamics, normalized to body mass and plotted per gait cycle. The ground
+ * reaction comes from the force plate loaded in the side panel or the
+ * single-support estimate.
+ */
+export function KineticsPanel() {
+  const recorder = useViewerSelector((s) => s.recording.recorder);
+  const isRecording = useViewerSelector((s) => s.recording.isRecording);
+  const subject = useViewerSelector((s) => s.subject);
+  const modelHeight = useViewerSelector((s) => s.metrics.modelMetrics?.desiredHeight ?? null);
+  const forcePlate = useViewerSelector((s) => s.forcePlate);
+  const [choice, setChoice] = useState<GrfChoice>('estimate');
+  const [curves, setCurves] = useState<KineticCycleCurves | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [label, setLabel] = useState('');
+
+  const table = useMemo(() => getAnthropometricTable(subject.anthropometricTableId), [subject.anthropometricTableId]);
+  const source: GrfChoice = choice === 'forcePlate' && forcePlate.data ? 'forcePlate' : 'estimate';
+
+  const handleCompute = () => {
+    if (!recorder) return;
+    const recording = recorder.getRecording();
+    const kinetics = computeJointKinetics(recording, {
+      massKg: subject.massKg,
+      table,
+      lengthScale: modelHeight ? subject.heightM / modelHeight : 1,
+      grf: source === 'forcePlate' && forcePlate.data
+        ? { type: 'forcePlate', data: forcePlate.data, timeOffset: forcePlate.timeOffset }
+        : { type: 'estimate' },
+    });
+    setCurves(computeKineticCycleCurves(kinetics));
+    setWarnings(kinetics.warnings);
+    setLabel(`${recording.source ?? 'Recording'} · ${subject.massKg} kg · ${
+      source === 'forcePlate' ? forcePlate.fileName : 'estimated GRF (single support)'
+    }`);
+  };
+
+  return (
+    <div className="analysis-section">
+      <h4>Joint Kinetics</h4>
+      <p className="analysis-note">
+        Planar inverse dynamics of the recorded walk. Body mass and segment table come from Body Parameters;
+        load a force plate in the side panel to use measured GRF.
+      </p>
+
+      <label className="analysis-field">
+        GRF source
+        <select value={source} onChange={(e) => setChoice(e.target.value as GrfChoice)}>
+          <option value="estimate">Estimate (single support)</option>
+          <option value="forcePlate" disabled={!forcePlate.data}>
+            Force plate{forcePlate.fileName ? ` (${forcePlate.fileName})` : ''}
+          </option>
+        </select>
+      </label>
+
+      <div className="analysis-actions">
+        <button
+          type="button"
+          className="analysis-btn"
+          onClick={handleCompute}
+          disabled={!recorder || isRecording}
+        >
+          Compute Kinetics
+        </button>
+      </div>
+
+      {curves?.errors.map((error) => (
+        <p key={error} className="analysis-error">{error}</p>
+      ))}
+      {warnings.map((warning) => (
+        <p key={warning} className="analysis-note">{warning}</p>
+      ))}
+
+      {curves?.success && (
+        <>
+          <p className="analysis-note">{label}</p>
+          {curves.curves.map((curve) => (
+            <GaitCurveChart
+              key={curve.def.key}
+              label={curve.def.label}
+              unit={curve.def.unit}
+              left={curve.left}
+              right={curve.right}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
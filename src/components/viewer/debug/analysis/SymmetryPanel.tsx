@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { useViewerSelector } from '../../state/viewerState';
+import type { MotionRecording } from '../../../../biomech/engine/motionRecorder';
+import {
+  analyzeFrameSymmetry,
+  analyzeRecordingSymmetry,
+  type CoordinateClipSymmetry,
+  type CoordinateFrameSymmetry,
+  type JointSymmetry,
+  type RecordingSymmetryResult
+} from '../../../../biomech/analysis/symmetry';
+
+/** |L − R| above this (degrees) is flagged for single-frame comparisons */
+const FRAME_FLAG_DEG = 10;
+/** |SI| above this is flagged for excursion comparisons */
+const EXCURSION_FLAG_PERCENT = 10;
+/** Excursion SI is unstable for near-still coordinates; only flag above this (degrees) */
+const MIN_FLAG_EXCURSION_DEG = 5;
+
+/** Joint pair keys hidden unless "Include hand" is checked */
+const HAND_KEYS = ['thumb_cmc', 'index_mcp', 'middle_mcp', 'ring_mcp', 'pinky_mcp'];
+
+type PinnedTrial = {
+  label: string;
+  recording: MotionRecording;
+};
+
+function format(value: number, digits = 1): string {
+  return Number.isFinite(value) ? value.toFixed(digits) : '—';
+}
+
+function isExcursionFlagged(c: CoordinateClipSymmetry): boolean {
+  return (
+    Math.max(c.left.excursion, c.right.excursion) > MIN_FLAG_EXCURSION_DEG &&
+    Math.abs(c.excursionSymmetry) > EXCURSION_FLAG_PERCENT
+  );
+}
+
+/**
+ * Left/right comparison of every paired joint, for the current pose or recorded clips.
+ * A recording can be pinned as the left-side trial and compared with a right-side trial
+ * (e.g. Sit_Lknee_ex vs Sit_Rknee_ex).
+ */
+export function SymmetryPanel() {
+  const recorder = useViewerSelector((s) => s.recording.recorder);
+  const isRecording = useViewerSelector((s) => s.recording.isRecording);
+  const biomechState = useViewerSelector((s) => s.ik.biomechState);
+
+  const [includeHand, setIncludeHand] = useState(false);
+  const [frame, setFrame] = useState<JointSymmetry<CoordinateFrameSymmetry>[] | null>(null);
+  const [clip, setClip] = useState<RecordingSymmetryResult | null>(null);
+  const [clipLabel, setClipLabel] = useState('');
+  const [pinnedLeft, setPinnedLeft] = useState<PinnedTrial | null>(null);
+
+  const handleCurrentPose = () => {
+    if (!biomechState?.isCalibrated()) return;
+    setClip(null);
+    setFrame(analyzeFrameSymmetry(biomechState.getModelState().q));
+  };
+
+  const handleRecording = () => {
+    if (!recorder) return;
+    const recording = recorder.getRecording();
+    setFrame(null);
+    if (pinnedLeft) {
+      setClip(analyzeRecordingSymmetry(pinnedLeft.recording, recording));
+      setClipLabel(`L: ${pinnedLeft.label} · R: ${recording.source ?? 'Recording'}`);
+    } else {
+      setClip(analyzeRecordingSymmetry(recording));
+      setClipLabel(recording.source ?? 'Recording');
+    }
+  };
+
+  const handlePinLeft = () => {
+    if (!recorder) return;
+    const recording = recorder.getRecording();
+    if (recording.frameCount < 2) return;
+    setPinnedLeft({ label: recording.source ?? 'Recording', recording });
+  };
+
+  const visible = <T,>(joints: JointSymmetry<T>[]) =>
+    includeHand ? joints : joints.filter((j) => !HAND_KEYS.includes(j.pair.key));
+
+  const frameJoints = frame ? visible(frame) : [];
+  const clipJoints = clip ? visible(clip.joints) : [];
+
+  return (
+    <div className="analysis-section">
+      <h4>Bilateral Symmetry</h4>
+      <p className="analysis-note">
+        Left vs right for every paired joint. Right values are shown in the left side's sign convention.
+      </p>
+
+      <div className="analysis-actions">
+        <button
+          type="button"
+          className="analysis-btn"
+          onClick={handleCurrentPose}
+          disabled={!biomechState?.isCalibrated()}
+        >
+          Current Pose
+        </button>
+        <button
+          type="button"
+          className="analysis-btn"
+          onClick={handleRecording}
+          disabled={!recorder || isRecording}
+        >
+          {pinnedLeft ? 'Compare Recording as Right' : 'Analyze Recording'}
+        </button>
+        <button
+          type="button"
+          className="analysis-btn"
+          onClick={handlePinLeft}
+          disabled={!recorder || isRecording}
+        >
+          Pin as Left Trial
+        </button>
+        {pinnedLeft && (
+          <button type="button" className="analysis-btn" onClick={() => setPinnedLeft(null)}>
+            Clear Left Trial
+          </button>
+        )}
+      </div>
+
+      <label className="analysis-note">
+        <input type="checkbox" checked={includeHand} onChange={(e) => setIncludeHand(e.target.checked)} /> Include hand
+      </label>
+      {pinnedLeft && <p className="analysis-note">Left trial: {pinnedLeft.label}</p>}
+
+      {clip?.errors.map((error) => (
+        <p key={error} className="analysis-error">{error}</p>
+      ))}
+      {clip?.warnings.map((warning) => (
+        <p key={warning} className="analysis-note">{warning}</p>
+      ))}
+
+      {frameJoints.length > 0 && (
+        <table className="analysis-table">
+          <thead>
+            <tr>
+              <th>Motion</th>
+              <th>Left °</th>
+              <th>Right °</th>
+              <th>L − R °</th>
+            </tr>
+          </thead>
+          <tbody>
+            {frameJoints.flatMap((joint) =>
+              joint.coordinates.map((c) => (
+                <tr key={c.pair.key}>
+                  <td>{joint.pair.displayName} · {c.pair.displayName}</td>
+                  <td>{format(c.left)}</td>
+                  <td>{format(c.right)}</td>
+                  <td className={Math.abs(c.difference) > FRAME_FLAG_DEG ? 'flagged' : ''}>
+                    {format(c.difference)}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      )}
+
+      {clip?.success && (
+        <>
+          <p className="analysis-note">{clipLabel}</p>
+          <table className="analysis-table">
+            <thead>
+              <tr>
+                <th>Motion</th>
+                <th>L exc °</th>
+                <th>R exc °</th>
+                <th>SI %</th>
+                <th>RMS Δ °</th>
+              </tr>
+            </thead>
+            <tbody>
+              {clipJoints.flatMap((joint) =>
+                joint.coordinates.map((c) => (
+                  <tr key={c.pair.key}>
+                    <td>{joint.pair.displayName} · {c.pair.displayName}</td>
+                    <td>{format(c.left.excursion)}</td>
+                    <td>{format(c.right.excursion)}</td>
+                    <td className={isExcursionFlagged(c) ? 'flagged' : ''}>
+                      {format(c.excursionSymmetry)}
+                    </td>
+                    <td>{format(c.rmsDifference)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
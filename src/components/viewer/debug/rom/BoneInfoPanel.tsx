@@ -79,7 +79,7 @@ export function BoneInfoPanel({
   const constraint = getConstraintForBone(selectedBone.name);
   if (!constraint) return null;
 
-  const limits = getLimitsFromJointDef(constraint);
+  const limits = getLimitsFromJointDef(constraint, biomechState ? coord => biomechState.getEffectiveRange(coord) : undefined);
   const degreesOfFreedom = constraint.coordinates.filter(c => !c.locked).length;
 
   return (
@@ -2,6 +2,7 @@ import React from 'react';
 import * as THREE from 'three';
 import { getSegmentByBoneName } from '../../../../biomech/model/segments';
 import { getParentJoint } from '../../../../biomech/model/joints';
+import { getCoordinateRange } from '../../../../biomech/model/romProfiles';
 import { resetBoneToRest, getConstraintForBone } from '../../constraints/constraintValidator';
 import type { BiomechState } from '../../../../biomech/engine/biomechState';
 
@@ -93,25 +94,34 @@ export function ManualControls({
       <p className="control-mode-label">
         Mode: Coordinate Control ({joint.displayName})
       </p>
-      {joint.coordinates.map(coord => (
-        <label key={coord.id} className="manual-row">
-          <span className="axis truncated" title={coord.displayName}>
-            {coord.displayName}:
-          </span>
-          <input
-            type="range"
-            min={THREE.MathUtils.radToDeg(coord.range.min)}
-            max={THREE.MathUtils.radToDeg(coord.range.max)}
-            step={1}
-            value={localCoordinates?.[coord.id] ?? jointCoordinates?.[coord.id] ?? 0}
-            onChange={(event) => applyCoordinateChange(coord.id, Number(event.target.value))}
-            onPointerDown={() => setActiveAxis(coord.id)}
-            onPointerUp={() => setActiveAxis(null)}
-            onPointerLeave={() => setActiveAxis(null)}
-          />
-          <span className="manual-value">{(localCoordinates?.[coord.id] ?? jointCoordinates?.[coord.id] ?? 0).toFixed(1)}°</span>
-        </label>
-      ))}
+      {joint.coordinates.map(coord => {
+        // Coupled coordinates follow their independents; show the live value read-only
+        const coupler = biomechState?.getCoupler(coord.id);
+        const value = coupler
+          ? jointCoordinates?.[coord.id] ?? 0
+          : localCoordinates?.[coord.id] ?? jointCoordinates?.[coord.id] ?? 0;
+        return (
+          <label key={coord.id} className="manual-row">
+            <span className="axis truncated" title={coord.displayName}>
+              {coord.displayName}:
+            </span>
+            <input
+              type="range"
+              min={THREE.MathUtils.radToDeg(getCoordinateRange(coord).min)}
+              max={THREE.MathUtils.radToDeg(getCoordinateRange(coord).max)}
+              step={1}
+              value={value}
+              disabled={!!coupler}
+              title={coupler ? `Driven by ${coupler.displayName ?? coupler.id}` : undefined}
+              onChange={(event) => applyCoordinateChange(coord.id, Number(event.target.value))}
+              onPointerDown={() => setActiveAxis(coord.id)}
+              onPointerUp={() => setActiveAxis(null)}
+              onPointerLeave={() => setActiveAxis(null)}
+            />
+            <span className="manual-value">{value.toFixed(1)}°{coupler ? ' 🔗' : ''}</span>
+          </label>
+        );
+      })}
       <button className="control-btn" onClick={handleJointReset}>
         Reset Joint
       </button>
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import {
+  getActiveRomProfileId,
+  getProfileChain,
+  getRomProfiles,
+  onRomProfileChange,
+  setActiveRomProfile
+} from '../../../../biomech/model/romProfiles';
+import { useViewerSettings } from '../../../../shared/settings';
+
+/**
+ * Picks the ROM reference profile used for clamping, validation and
+ * the ROM readouts; the choice is persisted in viewer settings.
+ */
+export function RomProfileSelector() {
+  const { update } = useViewerSettings();
+  const [profileId, setProfileId] = useState(getActiveRomProfileId);
+
+  useEffect(() => onRomProfileChange(setProfileId), []);
+
+  const handleChange = (nextId: string) => {
+    if (setActiveRomProfile(nextId)) {
+      update({ romProfileId: nextId });
+    }
+  };
+
+  const chain = getProfileChain(profileId);
+  const active = chain[chain.length - 1];
+
+  return (
+    <div className="rom-profile-selector">
+      <label className="rom-mode-toggle">
+        <span className="rom-mode-label">ROM Profile</span>
+        <select
+          className="rom-profile-select"
+          value={profileId}
+          onChange={(event) => handleChange(event.target.value)}
+        >
+          {getRomProfiles().map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.displayName}
+            </option>
+          ))}
+        </select>
+      </label>
+      {active && (
+        <p className="rom-profile-note" title={active.source}>
+          {active.description}
+          {chain.length > 1 && ` (inherits ${chain.slice(0, -1).map((p) => p.displayName).join(' → ')})`}
+        </p>
+      )}
+    </div>
+  );
+}
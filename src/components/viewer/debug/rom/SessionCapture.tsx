@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as THREE from 'three';
+import type { BiomechState } from '../../../../biomech/engine/biomechState';
+import { getJoint, getParentJoint } from '../../../../biomech/model/joints';
+import { getSegmentByBoneName } from '../../../../biomech/model/segments';
+import { getActiveRomProfileId } from '../../../../biomech/model/romProfiles';
+import {
+  addCapture,
+  createAssessment,
+  deleteAssessment,
+  deleteCapture,
+  listAssessments,
+  listCaptures,
+  type Assessment,
+  type MeasurementCapture
+} from '../../../../shared/sessionStore';
+import { openHtmlDocument } from '../../../../shared/utils/download';
+import type { ConstraintViolation } from '../../constraints/constraintValidator';
+import {
+  buildRomReport,
+  measurementsFromCaptures,
+  measurementsFromModelState,
+  renderRomReportHtml
+} from '../../utils/romReport';
+import { useViewerSelector } from '../../state/viewerState';
+
+interface SessionCaptureProps {
+  selectedBone: THREE.Bone | null;
+  biomechState: BiomechState | null;
+  constraintViolations?: ConstraintViolation[];
+}
+
+/**
+ * Patient assessment session: create/select an assessment, capture the
+ * selected joint's coordinates with a note, and review or delete captures.
+ * Printable ROM reports can be generated from the captures or the live pose.
+ */
+export function SessionCapture({ selectedBone, biomechState, constraintViolations = [] }: SessionCaptureProps) {
+  const ikMode = useViewerSelector((s) => s.mode.ikMode);
+  const animationId = useViewerSelector((s) => s.playback.animationId);
+  const importedFile = useViewerSelector((s) => s.importedMotion.fileName);
+
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [captures, setCaptures] = useState<MeasurementCapture[]>([]);
+  const [patientName, setPatientName] = useState('');
+  const [title, setTitle] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshAssessments = useCallback(async () => {
+    const list = await listAssessments();
+    setAssessments(list);
+    setActiveId((current) => (current && list.some((a) => a.id === current) ? current : list[0]?.id ?? null));
+  }, []);
+
+  const refreshCaptures = useCallback(async () => {
+    setCaptures(activeId ? await listCaptures(activeId) : []);
+  }, [activeId]);
+
+  useEffect(() => {
+    refreshAssessments();
+  }, [refreshAssessments]);
+
+  useEffect(() => {
+    refreshCaptures();
+  }, [refreshCaptures]);
+
+  const segment = selectedBone ? getSegmentByBoneName(selectedBone.name) : null;
+  const joint = segment ? getParentJoint(segment.id) : null;
+  const canCapture = !!activeId && !!joint && !!biomechState?.isCalibrated();
+
+  const handleCreate = async () => {
+    if (!patientName.trim()) return;
+    const created = await createAssessment({
+      patientName,
+      title: title.trim() || new Date().toLocaleDateString()
+    });
+    if (!created) {
+      setError('Could not save assessment');
+      return;
+    }
+    setError(null);
+    setPatientName('');
+    setTitle('');
+    await refreshAssessments();
+    setActiveId(created.id);
+  };
+
+  const handleDeleteAssessment = async () => {
+    if (!activeId) return;
+    if (!(await deleteAssessment(activeId))) setError('Could not delete assessment');
+    await refreshAssessments();
+  };
+
+  const handleCapture = async () => {
+    if (!canCapture || !joint || !biomechState || !activeId) return;
+    const jointState = biomechState.getJointState(joint.id);
+    if (!jointState) {
+      setError(`No coordinate data for ${joint.displayName}`);
+      return;
+    }
+
+    const coordinates: Record<string, number> = {};
+    joint.coordinates.forEach((coord) => {
+      const value = jointState.coordinates[coord.id]?.value;
+      if (value !== undefined) coordinates[coord.id] = THREE.MathUtils.radToDeg(value);
+    });
+
+    const saved = await addCapture({
+      assessmentId: activeId,
+      jointId: joint.id,
+      jointName: joint.displayName,
+      coordinates,
+      clipId: ikMode ? null : importedFile ?? (animationId || null),
+      romProfileId: getActiveRomProfileId(),
+      note: note.trim()
+    });
+    if (!saved) {
+      setError('Could not save capture');
+      return;
+    }
+    setError(null);
+    setNote('');
+    await refreshCaptures();
+  };
+
+  const handleDeleteCapture = async (captureId: string) => {
+    if (!(await deleteCapture(captureId))) setError('Could not delete capture');
+    await refreshCaptures();
+  };
+
+  const activeAssessment = assessments.find((a) => a.id === activeId) ?? null;
+
+  const handleSessionReport = () => {
+    if (!activeAssessment || captures.length === 0) return;
+    const report = buildRomReport(measurementsFromCaptures(captures), {
+      patientName: activeAssessment.patientName,
+      assessmentTitle: activeAssessment.title,
+      source: 'session'
+    });
+    openHtmlDocument(`rom-report-${activeAssessment.patientName}.html`, renderRomReportHtml(report));
+  };
+
+  const handleLiveReport = () => {
+    if (!biomechState?.isCalibrated()) return;
+    const report = buildRomReport(measurementsFromModelState(biomechState.getModelState()), {
+      patientName: activeAssessment?.patientName,
+      assessmentTitle: activeAssessment?.title,
+      source: 'live',
+      violations: constraintViolations
+    });
+    openHtmlDocument('rom-report-current-pose.html', renderRomReportHtml(report));
+  };
+
+  const coordinateLabel = (capture: MeasurementCapture, coordId: string) =>
+    getJoint(capture.jointId)?.coordinates.find((c) => c.id === coordId)?.displayName ?? coordId;
+
+  return (
+    <details className="session-capture">
+      <summary><h5>📋 Assessment Session</h5></summary>
+
+      <div className="session-row">
+        <select
+          className="rom-profile-select"
+          value={activeId ?? ''}
+          onChange={(event) => setActiveId(event.target.value || null)}
+          aria-label="Assessment"
+        >
+          {assessments.length === 0 && <option value="">No assessments</option>}
+          {assessments.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.patientName} — {a.title}
+            </option>
+          ))}
+        </select>
+        <button className="control-btn" onClick={handleDeleteAssessment} disabled={!activeId}>
+          Delete
+        </button>
+      </div>
+
+      <div className="session-row">
+        <input
+          className="session-input"
+          placeholder="Patient name"
+          value={patientName}
+          onChange={(event) => setPatientName(event.target.value)}
+        />
+        <input
+          className="session-input"
+          placeholder="Assessment title"
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+        />
+        <button className="control-btn" onClick={handleCreate} disabled={!patientName.trim()}>
+          New
+        </button>
+      </div>
+
+      <div className="session-row">
+        <input
+          className="session-input"
+          placeholder="Note (optional)"
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+        />
+        <button className="control-btn" onClick={handleCapture} disabled={!canCapture}>
+          Capture {joint ? joint.displayName : 'Joint'}
+        </button>
+      </div>
+      {!joint && activeId && <p className="panel-note">Select a joint to capture its coordinates.</p>}
+
+      <div className="session-row">
+        <button className="control-btn" onClick={handleSessionReport} disabled={captures.length === 0}>
+          Report: Captures
+        </button>
+        <button className="control-btn" onClick={handleLiveReport} disabled={!biomechState?.isCalibrated()}>
+          Report: Current Pose
+        </button>
+      </div>
+      {error && <p className="session-error">{error}</p>}
+
+      {captures.length > 0 && (
+        <ul className="session-captures">
+          {captures.map((capture) => (
+            <li key={capture.id} className="session-capture-item">
+              <div className="session-capture-header">
+                <strong>{capture.jointName}</strong>
+                <span>{new Date(capture.timestamp).toLocaleTimeString()}</span>
+                <button className="session-delete" onClick={() => handleDeleteCapture(capture.id)} title="Delete capture">
+                  ✕
+                </button>
+              </div>
+              <div className="session-capture-values">
+                {Object.entries(capture.coordinates).map(([coordId, value]) => (
+                  <span key={coordId}>
+                    {coordinateLabel(capture, coordId)}: {value.toFixed(1)}°
+                  </span>
+                ))}
+              </div>
+              {(capture.clipId || capture.note) && (
+                <div className="session-capture-meta">
+                  {capture.clipId && <span>Clip: {capture.clipId}</span>}
+                  {capture.note && <span>{capture.note}</span>}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
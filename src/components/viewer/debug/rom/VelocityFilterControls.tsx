@@ -0,0 +1,44 @@
+import type { BiomechState } from '../../../../biomech/engine/biomechState';
+import { useViewerSettings } from '../../../../shared/settings';
+
+/** Cutoff choices (Hz); 0 disables smoothing */
+const CUTOFF_OPTIONS = [3, 6, 10, 15, 0];
+
+interface VelocityFilterControlsProps {
+  biomechState: BiomechState;
+}
+
+/**
+ * Low-pass cutoff for the angular velocity/acceleration readouts, plus a
+ * reset for the peak velocities shown on the goniometer.
+ */
+export function VelocityFilterControls({ biomechState }: VelocityFilterControlsProps) {
+  const { settings, update } = useViewerSettings();
+
+  const handleChange = (cutoffHz: number) => {
+    biomechState.setKinematicFilter({ cutoffHz });
+    update({ velocityCutoffHz: cutoffHz });
+  };
+
+  return (
+    <div className="rom-velocity-filter">
+      <label className="rom-mode-toggle">
+        <span className="rom-mode-label">Velocity Filter</span>
+        <select
+          className="rom-profile-select"
+          value={settings.velocityCutoffHz}
+          onChange={(event) => handleChange(Number(event.target.value))}
+        >
+          {CUTOFF_OPTIONS.map((hz) => (
+            <option key={hz} value={hz}>
+              {hz > 0 ? `${hz} Hz low-pass` : 'Unfiltered'}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button type="button" className="control-btn" onClick={() => biomechState.resetPeakVelocities()}>
+        Reset Peaks
+      </button>
+    </div>
+  );
+}
@@ -2,7 +2,9 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { useThree, ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
 import {
+  applyChainPole,
   findBoneByName,
+  getCoordinateIKChain,
   getIKChainConfig,
   updateIKTarget,
   type IKChainConfig
@@ -11,6 +13,12 @@ import { type ConstraintViolation } from '../constraints/constraintValidator';
 import { capturePoseSnapshot, diffPoseSnapshots, type PoseSnapshot } from '../utils/skeletonDiagnostics';
 import { RotationCompensatedIKSolver } from '../utils/RotationCompensatedIKSolver';
 import { BiomechState } from '../../../biomech/engine/biomechState';
+import { solveCoordinateIK, solveFullBodyIK, type CoordinateIKTask } from '../../../biomech/engine/coordinateIK';
+import { solveLookAt } from '../../../biomech/engine/lookAt';
+import type { IKSolverKind } from '../state/viewerState';
+
+/** Task weight of pinned effectors relative to the dragged one */
+const PIN_WEIGHT = 10;
 
 export interface DragState {
   isDragging: boolean;
@@ -19,6 +27,8 @@ export interface DragState {
   dragPlane: THREE.Plane;
   initialTargetPos: THREE.Vector3;
   chainConfig: IKChainConfig | null;
+  isPole: boolean; // Dragging the chain's pole handle rather than its IK target
+  fullBody: boolean; // Other chains are pinned: the whole body is solved
 }
 
 interface UseBoneInteractionProps {
@@ -26,11 +36,16 @@ interface UseBoneInteractionProps {
   skinnedMesh: THREE.SkinnedMesh;
   ikSolver: RotationCompensatedIKSolver | null;
   ikTargets: Map<string, THREE.Bone>;
+  poleTargets: Map<string, THREE.Bone>;
+  swivelAngles: Record<string, number>;
+  pinnedChains: string[];
+  lookAtWeights: Record<string, number>;
   jointHandleBones: THREE.Bone[];
   enabled: boolean;
   isReady: boolean;
   showDebugInfo: boolean;
   constraintsEnabled: boolean;
+  ikSolverKind: IKSolverKind;
   ikRestPoseRef: React.MutableRefObject<Map<string, { position: THREE.Vector3; quaternion: THREE.Quaternion; scale: THREE.Vector3 }>>;
   restPoseSnapshotRef: React.MutableRefObject<PoseSnapshot | null>;
   biomechState: BiomechState | null;
@@ -39,6 +54,7 @@ interface UseBoneInteractionProps {
   onDragEnd?: () => void;
   onConstraintViolation?: (violations: ConstraintViolation[]) => void;
   onAfterSolve?: () => void;
+  onGazeTargetChange?: (target: THREE.Vector3) => void;
   logPoseDiagnostics: (label: string, poseSnapshot?: PoseSnapshot | null) => void;
 }
 
@@ -47,10 +63,15 @@ export function useBoneInteraction({
   skinnedMesh,
   ikSolver,
   ikTargets,
+  poleTargets,
+  swivelAngles,
+  pinnedChains,
+  lookAtWeights,
   enabled,
   isReady,
   showDebugInfo,
   constraintsEnabled,
+  ikSolverKind,
   ikRestPoseRef,
   restPoseSnapshotRef,
   biomechState,
@@ -59,6 +80,7 @@ export function useBoneInteraction({
   onDragEnd,
   onConstraintViolation,
   onAfterSolve,
+  onGazeTargetChange,
   logPoseDiagnostics
 }: UseBoneInteractionProps) {
   const { camera, raycaster, gl } = useThree();
@@ -73,7 +95,9 @@ export function useBoneInteraction({
     ikTarget: null,
     dragPlane: new THREE.Plane(),
     initialTargetPos: new THREE.Vector3(),
-    chainConfig: null
+    chainConfig: null,
+    isPole: false,
+    fullBody: false
   });
 
   const pointerRef = useRef(new THREE.Vector2());
@@ -109,29 +133,31 @@ export function useBoneInteraction({
     }
   }, [hoverBone, isShiftHeld, gl]);
 
-  // Find IK target at pointer (raycast against target spheres, not bones)
-  const findTargetAtPointer = useCallback((event: ThreeEvent<PointerEvent>): { target: THREE.Bone; chainName: string } | null => {
-    if (!ikTargets || ikTargets.size === 0) return null;
+  // Find IK target or pole handle at pointer (raycast against target spheres, not bones)
+  const findTargetAtPointer = useCallback((event: ThreeEvent<PointerEvent>): { target: THREE.Bone; chainName: string; isPole: boolean } | null => {
+    if ((!ikTargets || ikTargets.size === 0) && poleTargets.size === 0) return null;
 
     const ray: THREE.Ray | null = (event as any).ray ?? null;
     if (!ray) return null;
 
     const tmpWorld = new THREE.Vector3();
-    let closestTarget: { target: THREE.Bone; chainName: string } | null = null;
+    let closestTarget: { target: THREE.Bone; chainName: string; isPole: boolean } | null = null;
     let closestDistance = 0.15; // Max click distance (meters)
 
-    // Check each IK target
-    ikTargets.forEach((target, chainName) => {
+    // Check each IK target and pole handle
+    const check = (target: THREE.Bone, chainName: string, isPole: boolean) => {
       target.getWorldPosition(tmpWorld);
       const d = ray.distanceToPoint(tmpWorld);
       if (d < closestDistance) {
         closestDistance = d;
-        closestTarget = { target, chainName };
+        closestTarget = { target, chainName, isPole };
       }
-    });
+    };
+    ikTargets?.forEach((target, chainName) => check(target, chainName, false));
+    poleTargets.forEach((target, chainName) => check(target, chainName, true));
 
     return closestTarget;
-  }, [ikTargets]);
+  }, [ikTargets, poleTargets]);
 
   // Calculate drag plane perpendicular to camera
   const calculateDragPlane = useCallback((position: THREE.Vector3): THREE.Plane => {
@@ -158,7 +184,7 @@ export function useBoneInteraction({
     const targetInfo = findTargetAtPointer(event);
     if (!targetInfo) return;
 
-    const { target: ikTarget, chainName } = targetInfo;
+    const { target: ikTarget, chainName, isPole } = targetInfo;
 
     // Get chain config
     const chainConfig = getIKChainConfig(chainName);
@@ -184,7 +210,9 @@ export function useBoneInteraction({
       ikTarget,
       dragPlane,
       initialTargetPos: targetWorldPos.clone(),
-      chainConfig
+      chainConfig,
+      isPole,
+      fullBody: !isPole && !chainConfig.lookAt && pinnedChains.some(name => name !== chainName)
     };
 
     setHighlightedBone(effectorBone || null);
@@ -201,9 +229,9 @@ export function useBoneInteraction({
     // Only stop propagation when we actually begin dragging
     event.stopPropagation();
 
-    console.log(`🎯 Started dragging IK target: ${chainName}`);
+    console.log(`🎯 Started dragging ${isPole ? 'pole handle' : 'IK target'}: ${chainName}`);
 
-  }, [enabled, isReady, ikSolver, ikTargets, skeleton, isShiftHeld, findTargetAtPointer, calculateDragPlane, onBoneSelect, onDragStart, showDebugInfo, restPoseSnapshotRef]);
+  }, [enabled, isReady, ikSolver, ikTargets, skeleton, isShiftHeld, pinnedChains, findTargetAtPointer, calculateDragPlane, onBoneSelect, onDragStart, showDebugInfo, restPoseSnapshotRef]);
 
   // Handle pointer move (drag)
   const handlePointerMove = useCallback((event: ThreeEvent<PointerEvent>) => {
@@ -231,44 +259,81 @@ export function useBoneInteraction({
       if (showDebugInfo) {
         preSolveSnapshot = capturePoseSnapshot(skeleton);
       }
-      // CRITICAL: Restore IK rest pose ONLY for bones in the active chain
-      // Only touch bones that will be modified by the IK solver to prevent drift accumulation
-      let restoredCount = 0;
-      if (dragState.chainConfig) {
-        // Build list of bones in this specific chain
-        const chainBoneNames = new Set([
-          dragState.chainConfig.effectorBoneName,
-          ...dragState.chainConfig.linkBoneNames
-        ]);
-
-        // Only restore bones in this chain
-        skeleton.bones.forEach(bone => {
-          if (chainBoneNames.has(bone.name) && !bone.name.startsWith('IKTarget_')) {
-            const snapshot = ikRestPoseRef.current.get(bone.uuid);
-            if (snapshot) {
-              bone.position.copy(snapshot.position);
-              bone.quaternion.copy(snapshot.quaternion);
-              bone.scale.copy(snapshot.scale);
-              restoredCount++;
+      // The coordinate-space solver starts from the current pose and keeps
+      // ranges itself; CCD re-solves from the chain's rest pose
+      const coordinateChain = ikSolverKind === 'dls' && biomechState?.isCalibrated() && dragState.chainConfig
+        ? getCoordinateIKChain(dragState.chainConfig, biomechState.getModel())
+        : null;
+
+      if (dragState.isPole) {
+        // Only the swivel changes; the effector stays where it is
+        updateIKTarget(dragState.ikTarget, intersection);
+      } else if (dragState.chainConfig?.lookAt && biomechState?.isCalibrated()) {
+        // The head target is where the figure looks
+        updateIKTarget(dragState.ikTarget, intersection);
+        solveLookAt(biomechState, intersection, { weights: lookAtWeights, respectLimits: constraintsEnabled });
+      } else if (coordinateChain && biomechState && dragState.fullBody) {
+        // Pinned effectors hold their targets while pelvis, spine and limbs follow the drag
+        updateIKTarget(dragState.ikTarget, intersection);
+        const tasks: CoordinateIKTask[] = [{ effectorSegment: coordinateChain.effectorSegment, target: intersection }];
+        for (const chainName of pinnedChains) {
+          const config = getIKChainConfig(chainName);
+          const pinnedChain = config && chainName !== dragState.chainConfig?.name ? getCoordinateIKChain(config, biomechState.getModel()) : null;
+          const pin = ikTargets.get(chainName);
+          if (!pinnedChain || !pin) continue;
+          tasks.push({ effectorSegment: pinnedChain.effectorSegment, target: pin.getWorldPosition(new THREE.Vector3()), weight: PIN_WEIGHT });
+        }
+        solveFullBodyIK(biomechState, tasks, { respectLimits: constraintsEnabled });
+      } else if (coordinateChain && biomechState) {
+        updateIKTarget(dragState.ikTarget, intersection);
+        solveCoordinateIK(biomechState, coordinateChain, intersection, { respectLimits: constraintsEnabled });
+      } else {
+        // CRITICAL: Restore IK rest pose ONLY for bones in the active chain
+        // Only touch bones that will be modified by the IK solver to prevent drift accumulation
+        let restoredCount = 0;
+        if (dragState.chainConfig) {
+          // Build list of bones in this specific chain
+          const chainBoneNames = new Set([
+            dragState.chainConfig.effectorBoneName,
+            ...dragState.chainConfig.linkBoneNames
+          ]);
+
+          // Only restore bones in this chain
+          skeleton.bones.forEach(bone => {
+            if (chainBoneNames.has(bone.name) && !bone.name.startsWith('IKTarget_')) {
+              const snapshot = ikRestPoseRef.current.get(bone.uuid);
+              if (snapshot) {
+                bone.position.copy(snapshot.position);
+                bone.quaternion.copy(snapshot.quaternion);
+                bone.scale.copy(snapshot.scale);
+                restoredCount++;
+              }
             }
-          }
-        });
-      }
+          });
+        }
 
-      if (restoredCount > 0) {
-        skeleton.bones.forEach(b => {
-          b.updateMatrix();
-          b.updateMatrixWorld(true);
-        });
-        skinnedMesh.updateMatrixWorld(true);
-        // console.log(`🔄 Restored ${restoredCount} bones in active chain to IK rest pose before solve`);
-      }
+        if (restoredCount > 0) {
+          skeleton.bones.forEach(b => {
+            b.updateMatrix();
+            b.updateMatrixWorld(true);
+          });
+          skinnedMesh.updateMatrixWorld(true);
+          // console.log(`🔄 Restored ${restoredCount} bones in active chain to IK rest pose before solve`);
+        }
 
-      // Update IK target position
-      updateIKTarget(dragState.ikTarget, intersection);
+        // Update IK target position
+        updateIKTarget(dragState.ikTarget, intersection);
 
-      // Solve IK
-      ikSolver.update();
+        // Solve IK
+        ikSolver.update();
+      }
+
+      // Keep the elbow/knee in the pole plane
+      const poleTarget = dragState.chainConfig ? poleTargets.get(dragState.chainConfig.name) : undefined;
+      if (poleTarget && dragState.chainConfig) {
+        const swivel = THREE.MathUtils.degToRad(swivelAngles[dragState.chainConfig.name] ?? 0);
+        applyChainPole(dragState.chainConfig, skeleton, poleTarget, swivel);
+      }
 
       // Run post-solve callback (e.g. for scapulohumeral rhythm)
       onAfterSolve?.();
@@ -323,7 +388,7 @@ export function useBoneInteraction({
       }
     }
 
-  }, [ikSolver, skeleton, camera, raycaster, gl, constraintsEnabled, onConstraintViolation, showDebugInfo, skinnedMesh, ikRestPoseRef, restPoseSnapshotRef, logPoseDiagnostics, biomechState]);
+  }, [ikSolver, skeleton, camera, raycaster, gl, constraintsEnabled, onConstraintViolation, showDebugInfo, skinnedMesh, ikRestPoseRef, restPoseSnapshotRef, logPoseDiagnostics, biomechState, ikSolverKind, poleTargets, swivelAngles, pinnedChains, ikTargets, lookAtWeights]);
 
   // Handle pointer up (end drag)
   const handlePointerUp = useCallback((event: ThreeEvent<PointerEvent>) => {
@@ -340,6 +405,7 @@ export function useBoneInteraction({
     console.log(`✅ Finished dragging: ${dragState.selectedBone?.name}`);
 
     // CRITICAL: Update IK rest pose ONLY for bones in the active chain
+    // (a full-body solve may have moved every bone)
     if (dragState.chainConfig) {
       const chainBoneNames = new Set([
         dragState.chainConfig.effectorBoneName,
@@ -348,7 +414,7 @@ export function useBoneInteraction({
 
       let updatedCount = 0;
       skeleton.bones.forEach((bone) => {
-        if (chainBoneNames.has(bone.name) && !bone.name.startsWith('IKTarget_')) {
+        if ((dragState.fullBody || chainBoneNames.has(bone.name)) && !bone.name.startsWith('IKTarget_')) {
           ikRestPoseRef.current.set(bone.uuid, {
             position: bone.position.clone(),
             quaternion: bone.quaternion.clone(),
@@ -360,6 +426,11 @@ export function useBoneInteraction({
       console.log(`📸 Updated IK rest pose for ${updatedCount} bones in ${dragState.chainConfig.name} chain`);
     }
 
+    // A dropped gaze target stays where it was put
+    if (dragState.chainConfig?.lookAt && !dragState.isPole && dragState.ikTarget) {
+      onGazeTargetChange?.(dragState.ikTarget.getWorldPosition(new THREE.Vector3()));
+    }
+
     // Call drag end callback
     onDragEnd?.();
 
@@ -369,7 +440,7 @@ export function useBoneInteraction({
       isDragging: false
     };
 
-  }, [skeleton, onDragEnd, ikRestPoseRef]);
+  }, [skeleton, onDragEnd, onGazeTargetChange, ikRestPoseRef]);
 
   // Handle hover (visual feedback)
   const handlePointerEnter = useCallback((event: ThreeEvent<PointerEvent>) => {
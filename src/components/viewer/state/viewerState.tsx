@@ -3,6 +3,13 @@ import type * as THREE from 'three'
 import type { ConstraintViolation } from '../constraints/constraintValidator'
 import type { ModelMetrics } from '../utils/modelMetrics'
 import type { BiomechState } from '../../../biomech/engine/biomechState'
+import { MotionRecorder, getAllCoordinateIds } from '../../../biomech/engine/motionRecorder'
+import type { MotionPlayer } from '../../../biomech/engine/motionPlayer'
+import type { BiomechModel } from '../../../biomech/model/types'
+import { DEFAULT_BIOMECH_MODEL } from '../../../biomech/model/defaultModel'
+import type { ForcePlateData } from '../../../biomech/io/forcePlateImport'
+import { DEFAULT_ANTHROPOMETRIC_TABLE_ID } from '../../../biomech/model/anthropometrics'
+import { DEFAULT_LOOK_AT_WEIGHTS } from '../../../biomech/engine/lookAt'
 
 export type ViewerPlaybackState = {
   animationId: string
@@ -10,9 +17,15 @@ export type ViewerPlaybackState = {
   speed: number
 }
 
+/** CCD on bone rotations, or damped least squares in joint coordinates */
+export type IKSolverKind = 'ccd' | 'dls'
+
 export type ViewerModeState = {
   ikMode: boolean
   constraintsEnabled: boolean
+  ikSolver: IKSolverKind
+  /** Lock stance feet and keep bones above the floor (see biomech/engine/groundContact) */
+  groundContact: boolean
 }
 
 export type ViewerIKState = {
@@ -21,17 +34,75 @@ export type ViewerIKState = {
   skeleton: THREE.Skeleton | null
   resetCounter: number
   biomechState: BiomechState | null
+  swivelAngles: Record<string, number> // Limb swivel about the pole plane, degrees by IK chain name
+  pinnedChains: string[] // IK chains whose targets hold their effector in place during full-body IK
+  gazeTarget: THREE.Vector3 | null // Held look-at point (world space); null lets the head target follow the head
+  lookAtWeights: Record<string, number> // Share of the gaze rotation by spine/head joint ID
 }
 
 export type ViewerMetricsState = {
   modelMetrics: ModelMetrics | null
 }
 
+export type ViewerRecordingState = {
+  recorder: MotionRecorder | null
+  isRecording: boolean
+}
+
+export type ViewerImportedMotionState = {
+  player: MotionPlayer | null
+  fileName: string | null
+}
+
+export type ViewerModelState = {
+  /** Imported biomech model driving BiomechState (null = built-in model) */
+  biomechModel: BiomechModel | null
+  fileName: string | null
+}
+
+export type ViewerSubjectState = {
+  /** Body mass (kg) for segment masses */
+  massKg: number
+  /** Standing height (m) for scaling model distances */
+  heightM: number
+  /** Anthropometric table (see biomech/model/anthropometrics) */
+  anthropometricTableId: string
+}
+
+export type ViewerForcePlateState = {
+  /** Imported ground reaction data (scene axes) */
+  data: ForcePlateData | null
+  fileName: string | null
+  /** Plate time = clip time + offset (seconds) */
+  timeOffset: number
+}
+
+export type ViewerOverlaysState = {
+  /** Whole-body center of mass marker with ground projection */
+  centerOfMass: boolean
+  /** Base-of-support polygon and COM stability margin on the ground */
+  baseOfSupport: boolean
+  /** Force plate GRF arrow at the center of pressure, synced to the clip */
+  groundReaction: boolean
+  /** Force plate butterfly diagram (all GRF vectors of the trial) */
+  butterfly: boolean
+  /** Muscle paths colored by stretch relative to the neutral pose */
+  muscles: boolean
+  /** Swing cone of the selected ball joint (swing–twist limit model) */
+  jointLimits: boolean
+}
+
 export type ViewerState = {
   playback: ViewerPlaybackState
   mode: ViewerModeState
   ik: ViewerIKState
   metrics: ViewerMetricsState
+  recording: ViewerRecordingState
+  importedMotion: ViewerImportedMotionState
+  model: ViewerModelState
+  subject: ViewerSubjectState
+  forcePlate: ViewerForcePlateState
+  overlays: ViewerOverlaysState
 }
 
 const defaultState: ViewerState = {
@@ -43,6 +114,8 @@ const defaultState: ViewerState = {
   mode: {
     ikMode: false,
     constraintsEnabled: true,
+    ikSolver: 'dls',
+    groundContact: true,
   },
   ik: {
     selectedBone: null,
@@ -50,10 +123,44 @@ const defaultState: ViewerState = {
     skeleton: null,
     resetCounter: 0,
     biomechState: null,
+    swivelAngles: {},
+    pinnedChains: [],
+    gazeTarget: null,
+    lookAtWeights: DEFAULT_LOOK_AT_WEIGHTS,
   },
   metrics: {
     modelMetrics: null,
   },
+  recording: {
+    recorder: null,
+    isRecording: false,
+  },
+  importedMotion: {
+    player: null,
+    fileName: null,
+  },
+  model: {
+    biomechModel: null,
+    fileName: null,
+  },
+  subject: {
+    massKg: 75,
+    heightM: 1.8,
+    anthropometricTableId: DEFAULT_ANTHROPOMETRIC_TABLE_ID,
+  },
+  forcePlate: {
+    data: null,
+    fileName: null,
+    timeOffset: 0,
+  },
+  overlays: {
+    centerOfMass: false,
+    baseOfSupport: false,
+    groundReaction: true,
+    butterfly: false,
+    muscles: false,
+    jointLimits: true,
+  },
 }
 
 type ViewerAction =
@@ -62,12 +169,37 @@ type ViewerAction =
   | { type: 'playback/setSpeed'; speed: number }
   | { type: 'mode/setIkMode'; ikMode: boolean }
   | { type: 'mode/setConstraintsEnabled'; constraintsEnabled: boolean }
+  | { type: 'mode/setIkSolver'; ikSolver: IKSolverKind }
+  | { type: 'mode/setGroundContact'; groundContact: boolean }
   | { type: 'ik/setSelectedBone'; bone: THREE.Bone | null }
   | { type: 'ik/setConstraintViolations'; violations: ConstraintViolation[] }
   | { type: 'ik/setSkeleton'; skeleton: THREE.Skeleton | null }
   | { type: 'ik/requestReset' }
+  | { type: 'ik/setSwivelAngle'; chainName: string; angle: number }
+  | { type: 'ik/setPinned'; chainName: string; pinned: boolean }
+  | { type: 'ik/setGazeTarget'; target: THREE.Vector3 | null }
+  | { type: 'ik/setLookAtWeight'; jointId: string; weight: number }
   | { type: 'ik/setBiomechState'; biomechState: BiomechState | null }
   | { type: 'metrics/setModelMetrics'; metrics: ModelMetrics | null }
+  | { type: 'recording/setRecording'; isRecording: boolean }
+  | { type: 'importedMotion/load'; player: MotionPlayer; fileName: string }
+  | { type: 'importedMotion/clear' }
+  | { type: 'model/load'; biomechModel: BiomechModel; fileName: string }
+  | { type: 'model/reset' }
+  | { type: 'subject/update'; subject: Partial<ViewerSubjectState> }
+  | { type: 'forcePlate/load'; data: ForcePlateData; fileName: string }
+  | { type: 'forcePlate/clear' }
+  | { type: 'forcePlate/setTimeOffset'; timeOffset: number }
+  | { type: 'overlays/setVisible'; overlay: keyof ViewerOverlaysState; visible: boolean }
+
+/**
+ * Fresh recorder capturing every coordinate of a newly active model; frames
+ * recorded against the previous model are dropped
+ */
+function recordingForModel(recording: ViewerRecordingState, model: BiomechModel): ViewerRecordingState {
+  if (!recording.recorder) return recording
+  return { recorder: new MotionRecorder(getAllCoordinateIds(model)), isRecording: false }
+}
 
 function viewerReducer(state: ViewerState, action: ViewerAction): ViewerState {
   switch (action.type) {
@@ -96,6 +228,16 @@ function viewerReducer(state: ViewerState, action: ViewerAction): ViewerState {
         ...state,
         mode: { ...state.mode, constraintsEnabled: action.constraintsEnabled },
       }
+    case 'mode/setIkSolver':
+      return {
+        ...state,
+        mode: { ...state.mode, ikSolver: action.ikSolver },
+      }
+    case 'mode/setGroundContact':
+      return {
+        ...state,
+        mode: { ...state.mode, groundContact: action.groundContact },
+      }
     case 'ik/setSelectedBone':
       return {
         ...state,
@@ -114,7 +256,32 @@ function viewerReducer(state: ViewerState, action: ViewerAction): ViewerState {
     case 'ik/requestReset':
       return {
         ...state,
-        ik: { ...state.ik, resetCounter: state.ik.resetCounter + 1 },
+        ik: { ...state.ik, resetCounter: state.ik.resetCounter + 1, swivelAngles: {}, pinnedChains: [], gazeTarget: null },
+      }
+    case 'ik/setSwivelAngle':
+      return {
+        ...state,
+        ik: { ...state.ik, swivelAngles: { ...state.ik.swivelAngles, [action.chainName]: action.angle } },
+      }
+    case 'ik/setPinned':
+      return {
+        ...state,
+        ik: {
+          ...state.ik,
+          pinnedChains: action.pinned
+            ? [...state.ik.pinnedChains.filter((name) => name !== action.chainName), action.chainName]
+            : state.ik.pinnedChains.filter((name) => name !== action.chainName),
+        },
+      }
+    case 'ik/setGazeTarget':
+      return {
+        ...state,
+        ik: { ...state.ik, gazeTarget: action.target },
+      }
+    case 'ik/setLookAtWeight':
+      return {
+        ...state,
+        ik: { ...state.ik, lookAtWeights: { ...state.ik.lookAtWeights, [action.jointId]: action.weight } },
       }
     case 'ik/setBiomechState':
       return {
@@ -126,6 +293,58 @@ function viewerReducer(state: ViewerState, action: ViewerAction): ViewerState {
         ...state,
         metrics: { ...state.metrics, modelMetrics: action.metrics },
       }
+    case 'recording/setRecording':
+      return {
+        ...state,
+        recording: { ...state.recording, isRecording: action.isRecording },
+      }
+    case 'importedMotion/load':
+      return {
+        ...state,
+        importedMotion: { player: action.player, fileName: action.fileName },
+      }
+    case 'importedMotion/clear':
+      return {
+        ...state,
+        importedMotion: { player: null, fileName: null },
+      }
+    case 'model/load':
+      return {
+        ...state,
+        model: { biomechModel: action.biomechModel, fileName: action.fileName },
+        recording: recordingForModel(state.recording, action.biomechModel),
+      }
+    case 'model/reset':
+      return {
+        ...state,
+        model: { biomechModel: null, fileName: null },
+        recording: recordingForModel(state.recording, DEFAULT_BIOMECH_MODEL),
+      }
+    case 'subject/update':
+      return {
+        ...state,
+        subject: { ...state.subject, ...action.subject },
+      }
+    case 'forcePlate/load':
+      return {
+        ...state,
+        forcePlate: { ...state.forcePlate, data: action.data, fileName: action.fileName },
+      }
+    case 'forcePlate/clear':
+      return {
+        ...state,
+        forcePlate: { ...state.forcePlate, data: null, fileName: null },
+      }
+    case 'forcePlate/setTimeOffset':
+      return {
+        ...state,
+        forcePlate: { ...state.forcePlate, timeOffset: action.timeOffset },
+      }
+    case 'overlays/setVisible':
+      return {
+        ...state,
+        overlays: { ...state.overlays, [action.overlay]: action.visible },
+      }
     default:
       return state
   }
@@ -147,6 +366,12 @@ export function ViewerStateProvider({ children, initialState }: ViewerStateProvi
     mode: { ...defaultState.mode, ...initialState?.mode },
     ik: { ...defaultState.ik, ...initialState?.ik },
     metrics: { ...defaultState.metrics, ...initialState?.metrics },
+    recording: { ...defaultState.recording, ...initialState?.recording },
+    importedMotion: { ...defaultState.importedMotion, ...initialState?.importedMotion },
+    model: { ...defaultState.model, ...initialState?.model },
+    subject: { ...defaultState.subject, ...initialState?.subject },
+    forcePlate: { ...defaultState.forcePlate, ...initialState?.forcePlate },
+    overlays: { ...defaultState.overlays, ...initialState?.overlays },
   }), [initialState])
 
   const [state, dispatch] = useReducer(viewerReducer, memoInitial)
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { applyPoleVector, getSwivelAngle } from '../poleVector';
+
+/** Bent leg under a rotated parent: hip at (0, 1, 0), knee bent forward */
+function makeLeg() {
+  const parent = new THREE.Object3D();
+  parent.rotation.set(0.3, 0.5, -0.2);
+  const hip = new THREE.Bone();
+  const knee = new THREE.Bone();
+  const ankle = new THREE.Bone();
+  parent.add(hip);
+  hip.add(knee);
+  knee.add(ankle);
+  hip.position.set(0, 1, 0);
+  hip.rotation.set(-0.6, 0.1, 0);
+  knee.position.set(0, -0.45, 0);
+  knee.rotation.set(1.1, 0, 0);
+  ankle.position.set(0, -0.42, 0);
+  parent.updateMatrixWorld(true);
+  return { hip, knee, ankle };
+}
+
+const world = (object: THREE.Object3D) => object.getWorldPosition(new THREE.Vector3());
+
+describe('pole vector', () => {
+  it('puts the middle joint in the pole plane without moving the effector', () => {
+    const { hip, knee, ankle } = makeLeg();
+    const ankleBefore = world(ankle);
+    const pole = world(hip).add(new THREE.Vector3(0.4, 0, 0.3));
+
+    applyPoleVector(hip, knee, ankle, pole);
+
+    expect(world(ankle).distanceTo(ankleBefore)).toBeLessThan(1e-9);
+    expect(getSwivelAngle(hip, knee, ankle, pole)).toBeCloseTo(0, 9);
+  });
+
+  it('turns the plane by the swivel angle', () => {
+    const { hip, knee, ankle } = makeLeg();
+    const ankleBefore = world(ankle);
+    const pole = world(knee).add(new THREE.Vector3(0, 0, 0.5));
+
+    applyPoleVector(hip, knee, ankle, pole, Math.PI / 6);
+
+    expect(world(ankle).distanceTo(ankleBefore)).toBeLessThan(1e-9);
+    expect(getSwivelAngle(hip, knee, ankle, pole)).toBeCloseTo(Math.PI / 6, 9);
+  });
+
+  it('leaves a straight limb alone', () => {
+    const { hip, knee, ankle } = makeLeg();
+    hip.rotation.set(0, 0, 0);
+    knee.rotation.set(0, 0, 0);
+    hip.updateMatrixWorld(true);
+    const before = hip.quaternion.clone();
+
+    expect(getSwivelAngle(hip, knee, ankle, new THREE.Vector3(0, 0, 1))).toBeNull();
+    expect(applyPoleVector(hip, knee, ankle, new THREE.Vector3(0, 0, 1))).toBe(0);
+    expect(hip.quaternion.equals(before)).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  buildRomReport,
+  measurementsFromCaptures,
+  renderRomReportHtml
+} from '../romReport';
+import { DEFAULT_ROM_PROFILE_ID, setActiveRomProfile } from '../../../../biomech/model/romProfiles';
+import { SKELETON_MAP } from '../skeletonMap';
+import type { MeasurementCapture } from '../../../../shared/sessionStore';
+
+const deg = (degrees: number): number => (degrees * Math.PI) / 180;
+
+function capture(coordinates: Record<string, number>, timestamp: number): MeasurementCapture {
+  return {
+    id: `c${timestamp}`,
+    assessmentId: 'a',
+    jointId: '',
+    jointName: '',
+    coordinates,
+    clipId: null,
+    note: '',
+    timestamp
+  };
+}
+
+describe('ROM report', () => {
+  afterEach(() => {
+    setActiveRomProfile(DEFAULT_ROM_PROFILE_ID);
+  });
+
+  it('builds rows with normal range, utilization and status per joint', () => {
+    const report = buildRomReport({ knee_r_flexion: deg(-135), hip_r_flexion: deg(45) });
+    const knee = report.joints.find(j => j.jointId === 'knee_right')!;
+    const row = knee.rows[0];
+
+    expect(report.joints.map(j => j.jointId).sort()).toEqual(['hip_right', 'knee_right']);
+    expect(knee.rows).toHaveLength(1);
+    expect(row.minDeg).toBeCloseTo(-140);
+    expect(row.maxDeg).toBeCloseTo(10);
+    // -135 is 5° from the -140 limit of a 150° range: 93% of the way from center
+    expect(row.utilization).toBeCloseTo(93.3, 0);
+    expect(row.status).toBe('near');
+    expect(row.asymmetryDeg).toBeNull();
+  });
+
+  it('uses the active ROM profile for the normal range', () => {
+    setActiveRomProfile('older_adult');
+    const report = buildRomReport({ knee_r_flexion: deg(-130) });
+    const row = report.joints[0].rows[0];
+    expect(row.minDeg).toBeCloseTo(-125);
+    expect(row.status).toBe('outside');
+    expect(report.romProfileName).toBe('Older Adult (65+)');
+  });
+
+  it('computes left/right asymmetry, accounting for mirrored coordinates', () => {
+    const report = buildRomReport({
+      knee_l_flexion: deg(-90),
+      knee_r_flexion: deg(-80),
+      // Plane of elevation ranges are mirrored between sides
+      gh_l_plane: deg(-30),
+      gh_r_plane: deg(30)
+    });
+    const row = (jointId: string, coordId: string) =>
+      report.joints.find(j => j.jointId === jointId)!.rows.find(r => r.coordinateId === coordId)!;
+
+    expect(row('knee_left', 'knee_l_flexion').asymmetryDeg).toBeCloseTo(10);
+    expect(row('knee_right', 'knee_r_flexion').asymmetryDeg).toBeCloseTo(10);
+    expect(row('gh_left', 'gh_l_plane').asymmetryDeg).toBeCloseTo(0);
+  });
+
+  it('attaches constraint violations to the joint of the offending bone', () => {
+    const report = buildRomReport(
+      { elbow_l_flexion: deg(160) },
+      { violations: [{ boneName: SKELETON_MAP.LeftForeArm, constraint: 'elbow_left', violations: ['Z-axis: 2.793 outside [0.000, 2.618]'] }] }
+    );
+    expect(report.joints[0].violations).toEqual(['Z-axis: 2.793 outside [0.000, 2.618]']);
+    expect(report.joints[0].rows[0].status).toBe('outside');
+  });
+
+  it('merges session captures with later captures taking precedence', () => {
+    const measurements = measurementsFromCaptures([
+      capture({ knee_r_flexion: -100 }, 2),
+      capture({ knee_r_flexion: -60, hip_r_flexion: 30 }, 1)
+    ]);
+    expect(measurements.knee_r_flexion).toBeCloseTo(deg(-100));
+    expect(measurements.hip_r_flexion).toBeCloseTo(deg(30));
+  });
+
+  it('renders a standalone, escaped HTML document', () => {
+    const report = buildRomReport(
+      { knee_r_flexion: deg(-45) },
+      { patientName: '<Pat & Co>', source: 'session', generatedAt: new Date(0) }
+    );
+    const html = renderRomReportHtml(report);
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('&lt;Pat &amp; Co&gt;');
+    expect(html).toContain('Right Knee');
+    expect(html).toContain('-45.0°');
+    expect(html).toContain('Saved measurements');
+  });
+});
@@ -7,9 +7,14 @@
 
 import * as THREE from 'three';
 import type { BiomechState } from '../../../biomech/engine/biomechState';
+import type { CoordinateIKChain } from '../../../biomech/engine/coordinateIK';
+import { DEFAULT_BIOMECH_MODEL, getModelJoints, getModelSegments } from '../../../biomech/model/defaultModel';
+import type { BiomechModel } from '../../../biomech/model/types';
 import { getSegmentByBoneName } from '../../../biomech/model/segments';
 import { getParentJoint } from '../../../biomech/model/joints';
+import { getCoordinateRange } from '../../../biomech/model/romProfiles';
 import { SKELETON_MAP } from './skeletonMap';
+import { applyPoleVector } from './poleVector';
 
 /**
  * IK chain definition for CCDIKSolver
@@ -22,6 +27,18 @@ export interface IKChainConfig {
   iteration?: number;        // IK iterations (higher = more accurate, slower)
   minAngle?: number;         // Minimum rotation per step (prevents vibration)
   maxAngle?: number;         // Maximum rotation per step
+  pole?: IKPoleConfig;       // Swivel control for two-segment limbs
+  lookAt?: boolean;          // Target is a gaze point: the head is aimed at it, not moved onto it
+}
+
+/**
+ * Pole target of a limb chain: the middle joint is kept in the plane through
+ * the chain root, the effector and the pole (see poleVector.ts)
+ */
+export interface IKPoleConfig {
+  targetName: string;                // Name of the draggable pole handle
+  midBoneName: string;               // Elbow/knee bone kept in the pole plane
+  offset: [number, number, number];  // Initial world offset from the middle joint (m)
 }
 
 /**
@@ -30,7 +47,7 @@ export interface IKChainConfig {
 export const IK_CHAIN_CONFIGS: IKChainConfig[] = [
   // ==================== ARMS ====================
   // Enabled for IK, but Clavicle (Shoulder) is excluded from the chain
-  // so it can be driven procedurally by the Scapulohumeral Rhythm logic
+  // so it can follow GH elevation through the model's ST rhythm coupler
   {
     name: 'Left Arm',
     targetBoneName: 'IKTarget_LeftHand',
@@ -41,7 +58,12 @@ export const IK_CHAIN_CONFIGS: IKChainConfig[] = [
     ],
     iteration: 10,
     minAngle: 0.01,
-    maxAngle: 0.5
+    maxAngle: 0.5,
+    pole: {
+      targetName: 'IKPole_LeftArm',
+      midBoneName: SKELETON_MAP.LeftForeArm,
+      offset: [0, 0, -0.4] // Behind the elbow
+    }
   },
   {
     name: 'Right Arm',
@@ -53,7 +75,12 @@ export const IK_CHAIN_CONFIGS: IKChainConfig[] = [
     ],
     iteration: 10,
     minAngle: 0.01,
-    maxAngle: 0.5
+    maxAngle: 0.5,
+    pole: {
+      targetName: 'IKPole_RightArm',
+      midBoneName: SKELETON_MAP.RightForeArm,
+      offset: [0, 0, -0.4]
+    }
   },
 
   // ==================== LEGS ====================
@@ -67,7 +94,12 @@ export const IK_CHAIN_CONFIGS: IKChainConfig[] = [
     ],
     iteration: 10,
     minAngle: 0.01,
-    maxAngle: 0.5
+    maxAngle: 0.5,
+    pole: {
+      targetName: 'IKPole_LeftLeg',
+      midBoneName: SKELETON_MAP.LeftLeg,
+      offset: [0, 0, 0.4] // In front of the knee
+    }
   },
   {
     name: 'Right Leg',
@@ -79,10 +111,18 @@ export const IK_CHAIN_CONFIGS: IKChainConfig[] = [
     ],
     iteration: 10,
     minAngle: 0.01,
-    maxAngle: 0.5
+    maxAngle: 0.5,
+    pole: {
+      targetName: 'IKPole_RightLeg',
+      midBoneName: SKELETON_MAP.RightLeg,
+      offset: [0, 0, 0.4]
+    }
   },
 
   // ==================== SPINE ====================
+  // The head target is a gaze point: dragging it turns head and neck through
+  // solveLookAt (biomech/engine/lookAt); the CCD links are only the fallback
+  // before the coordinate engine is calibrated
   {
     name: 'Spine Chain',
     targetBoneName: 'IKTarget_Head',
@@ -95,10 +135,14 @@ export const IK_CHAIN_CONFIGS: IKChainConfig[] = [
     ],
     iteration: 8,
     minAngle: 0.005,
-    maxAngle: 0.3
+    maxAngle: 0.3,
+    lookAt: true
   }
 ];
 
+/** Distance in front of the head at which a free gaze target rests (m) */
+export const LOOK_AT_DISTANCE = 0.6;
+
 /**
  * Create invisible target bones for IK
  * These bones are positioned by the user and the IK solver adjusts
@@ -202,8 +246,9 @@ export function createIKDefinition(
               (coord.index === 1) ? neutralEuler.y :
                 neutralEuler.z;
 
-            const absMin = neutralVal + coord.range.min;
-            const absMax = neutralVal + coord.range.max;
+            const range = getCoordinateRange(coord);
+            const absMin = neutralVal + range.min;
+            const absMax = neutralVal + range.max;
 
             if (coord.index === 0) { min.x = absMin; max.x = absMax; }
             if (coord.index === 1) { min.y = absMin; max.y = absMax; }
@@ -339,6 +384,66 @@ export function initializeIKTargets(
   return targets;
 }
 
+/**
+ * Move a pole handle to its chain's middle joint plus the configured offset
+ */
+export function resetPoleTarget(
+  target: THREE.Bone,
+  config: IKChainConfig,
+  skeleton: THREE.Skeleton
+): void {
+  const mid = config.pole ? findBoneByName(skeleton, config.pole.midBoneName) : undefined;
+  if (!config.pole || !mid) return;
+  const worldPos = new THREE.Vector3();
+  mid.getWorldPosition(worldPos);
+  worldPos.add(new THREE.Vector3(...config.pole.offset));
+  setBoneWorldPosition(target, worldPos);
+}
+
+/**
+ * Create pole handles for chains with a pole config
+ * Unlike IK targets they are not skeleton bones: CCDIKSolver never sees them
+ */
+export function initializePoleTargets(
+  skeleton: THREE.Skeleton,
+  root: THREE.Object3D
+): Map<string, THREE.Bone> {
+  const poles = new Map<string, THREE.Bone>();
+  const targetParent = skeleton.bones[0]?.parent || root;
+
+  for (const config of IK_CHAIN_CONFIGS) {
+    if (!config.pole) continue;
+    const existing = targetParent.getObjectByName(config.pole.targetName);
+    const target = existing instanceof THREE.Bone
+      ? existing
+      : createIKTargetBone(config.pole.targetName, new THREE.Vector3(), targetParent);
+    resetPoleTarget(target, config, skeleton);
+    poles.set(config.name, target);
+  }
+
+  return poles;
+}
+
+/**
+ * Swivel a solved limb chain into its pole plane
+ *
+ * @param swivel - Extra rotation about the root→effector axis (radians)
+ * @returns Applied rotation (radians)
+ */
+export function applyChainPole(
+  config: IKChainConfig,
+  skeleton: THREE.Skeleton,
+  pole: THREE.Bone,
+  swivel: number = 0
+): number {
+  if (!config.pole) return 0;
+  const root = findBoneByName(skeleton, config.linkBoneNames[config.linkBoneNames.length - 1]);
+  const mid = findBoneByName(skeleton, config.pole.midBoneName);
+  const effector = findBoneByName(skeleton, config.effectorBoneName);
+  if (!root || !mid || !effector) return 0;
+  return applyPoleVector(root, mid, effector, pole.getWorldPosition(new THREE.Vector3()), swivel);
+}
+
 /**
  * Build complete IK configuration for CCDIKSolver
  */
@@ -349,9 +454,11 @@ export function buildIKConfiguration(
 ): {
   iks: any[];
   targets: Map<string, THREE.Bone>;
+  poleTargets: Map<string, THREE.Bone>;
 } {
   // Initialize target bones
   const targets = initializeIKTargets(skeleton, root);
+  const poleTargets = initializePoleTargets(skeleton, root);
 
   // Build IK definitions
   const iks = IK_CHAIN_CONFIGS.map((config) => createIKDefinition(config, skeleton, biomechState))
@@ -359,7 +466,7 @@ export function buildIKConfiguration(
 
   console.log(`IK Configuration: ${iks.length} chains created from ${IK_CHAIN_CONFIGS.length} configs`);
 
-  return { iks, targets };
+  return { iks, targets, poleTargets };
 }
 
 /**
@@ -408,6 +515,32 @@ export function getIKChainByLink(boneName: string): IKChainConfig | undefined {
   );
 }
 
+/**
+ * Joints and effector segment of a chain for the coordinate-space solver
+ * (solveCoordinateIK), looked up in the active model. Returns null if a bone
+ * has no segment or no joint in that model (the drag falls back to CCD).
+ */
+export function getCoordinateIKChain(
+  config: IKChainConfig,
+  model: BiomechModel = DEFAULT_BIOMECH_MODEL
+): CoordinateIKChain | null {
+  const segments = getModelSegments(model);
+  const joints = getModelJoints(model);
+  const segmentOf = (boneName: string) => segments.find(segment => segment.boneName === boneName);
+
+  const effector = segmentOf(config.effectorBoneName);
+  if (!effector) return null;
+
+  const jointIds: string[] = [];
+  for (const boneName of [...config.linkBoneNames].reverse()) {
+    const segment = segmentOf(boneName);
+    const joint = segment ? joints.find(j => j.childSegment === segment.id) : undefined;
+    if (!joint) return null;
+    jointIds.push(joint.id);
+  }
+  return { jointIds, effectorSegment: effector.id };
+}
+
 /**
  * Visualize IK targets for debugging
  * Returns mesh array that can be added to scene
@@ -0,0 +1,100 @@
+/**
+ * Pole Vector (Swivel) Control
+ *
+ * A two-segment limb solved for its end point still has one free degree of
+ * freedom: the swivel of the elbow/knee around the root→effector axis. After
+ * the IK solve, the root bone is rotated about that axis so the middle joint
+ * lies in the plane through root, effector and a pole target, turned further
+ * by a swivel angle. The rotation axis passes through the root and the
+ * effector, so the effector does not move.
+ */
+
+import * as THREE from 'three';
+
+/** Below this (m), the limb is treated as straight and the plane is undefined */
+const DEGENERATE_LENGTH = 1e-4;
+
+const _root = new THREE.Vector3();
+const _mid = new THREE.Vector3();
+const _effector = new THREE.Vector3();
+
+/**
+ * Component of a root-relative point perpendicular to the limb axis
+ */
+function perpendicular(point: THREE.Vector3, root: THREE.Vector3, axis: THREE.Vector3): THREE.Vector3 {
+  const offset = point.clone().sub(root);
+  return offset.addScaledVector(axis, -offset.dot(axis));
+}
+
+/**
+ * Signed angle from a to b around axis (all perpendicular to axis)
+ */
+function signedAngle(a: THREE.Vector3, b: THREE.Vector3, axis: THREE.Vector3): number {
+  return Math.atan2(a.clone().cross(b).dot(axis), a.dot(b));
+}
+
+/**
+ * Swivel of the middle joint relative to the pole plane
+ *
+ * @param root - Root bone (shoulder/hip)
+ * @param mid - Middle bone (elbow/knee)
+ * @param effector - End bone (hand/foot)
+ * @param pole - Pole target, world space
+ * @returns Angle (radians) of the middle joint around the root→effector
+ *   axis measured from the pole direction, or null for a straight limb
+ */
+export function getSwivelAngle(
+  root: THREE.Object3D,
+  mid: THREE.Object3D,
+  effector: THREE.Object3D,
+  pole: THREE.Vector3
+): number | null {
+  root.getWorldPosition(_root);
+  mid.getWorldPosition(_mid);
+  effector.getWorldPosition(_effector);
+
+  const axis = _effector.clone().sub(_root);
+  if (axis.length() < DEGENERATE_LENGTH) return null;
+  axis.normalize();
+
+  const midDir = perpendicular(_mid, _root, axis);
+  const poleDir = perpendicular(pole, _root, axis);
+  if (midDir.length() < DEGENERATE_LENGTH || poleDir.length() < DEGENERATE_LENGTH) return null;
+  return signedAngle(poleDir, midDir, axis);
+}
+
+/**
+ * Rotate the limb about its root→effector axis so the middle joint lies in
+ * the pole plane, turned by swivel
+ *
+ * @param root - Root bone (shoulder/hip); its local rotation is changed
+ * @param mid - Middle bone (elbow/knee)
+ * @param effector - End bone (hand/foot)
+ * @param pole - Pole target, world space
+ * @param swivel - Extra rotation about the limb axis (radians, right-hand
+ *   rule about root→effector)
+ * @returns Applied rotation (radians), 0 if the plane is undefined
+ */
+export function applyPoleVector(
+  root: THREE.Object3D,
+  mid: THREE.Object3D,
+  effector: THREE.Object3D,
+  pole: THREE.Vector3,
+  swivel: number = 0
+): number {
+  const current = getSwivelAngle(root, mid, effector, pole);
+  if (current === null) return 0;
+
+  let angle = swivel - current;
+  angle = Math.atan2(Math.sin(angle), Math.cos(angle));
+  if (Math.abs(angle) < 1e-6) return 0;
+
+  // World rotation R about the axis: local' = parentWorld⁻¹ · R · parentWorld · local
+  const axis = _effector.clone().sub(_root).normalize();
+  const rotation = new THREE.Quaternion().setFromAxisAngle(axis, angle);
+  const parentWorld = new THREE.Quaternion();
+  root.parent?.getWorldQuaternion(parentWorld);
+  root.quaternion.premultiply(parentWorld.clone().invert().multiply(rotation).multiply(parentWorld));
+  root.updateMatrixWorld(true);
+  return angle;
+}
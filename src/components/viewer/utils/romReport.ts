@@ -0,0 +1,255 @@
+/**
+ * Clinical ROM Report
+ *
+ * Builds a per-joint range of motion report from either the live ModelState
+ * or a set of saved session captures, and renders it as a self-contained,
+ * print-ready HTML document (print to PDF from the browser).
+ *
+ * Each coordinate row lists the measured value, the normal range under the
+ * active ROM profile, constraint utilization, left/right asymmetry and any
+ * constraint violations reported for the joint's bone.
+ */
+
+import * as THREE from 'three';
+import { getAllJoints } from '../../../biomech/model/joints';
+import { getContralateralCoordinate } from '../../../biomech/analysis/symmetry';
+import {
+  getActiveRomProfileId,
+  getCoordinateRange,
+  getRomProfile
+} from '../../../biomech/model/romProfiles';
+import type { ModelState } from '../../../biomech/model/types';
+import type { MeasurementCapture } from '../../../shared/sessionStore';
+import {
+  getConstraintForBone,
+  getConstraintUtilization,
+  getLimitsFromJointDef,
+  type ConstraintViolation
+} from '../constraints/constraintValidator';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/** Utilization at or above which a value is flagged as near end range */
+const NEAR_LIMIT_UTILIZATION = 90;
+
+export interface RomReportRow {
+  coordinateId: string;
+  displayName: string;
+  valueDeg: number;
+  minDeg: number;
+  maxDeg: number;
+  /** Distance from mid-range toward the nearer limit, 0–100% (getConstraintUtilization) */
+  utilization: number;
+  /** |left − right| in degrees for the contralateral coordinate, null if unpaired/unmeasured */
+  asymmetryDeg: number | null;
+  status: 'ok' | 'near' | 'outside';
+}
+
+export interface RomReportJoint {
+  jointId: string;
+  displayName: string;
+  rows: RomReportRow[];
+  violations: string[];
+}
+
+export interface RomReport {
+  title: string;
+  patientName?: string;
+  assessmentTitle?: string;
+  generatedAt: Date;
+  source: 'live' | 'session';
+  romProfileName: string;
+  joints: RomReportJoint[];
+}
+
+export interface RomReportOptions {
+  title?: string;
+  patientName?: string;
+  assessmentTitle?: string;
+  source?: RomReport['source'];
+  violations?: ConstraintViolation[];
+  /** Only include these joints (default: every joint with a measured coordinate) */
+  jointIds?: string[];
+  generatedAt?: Date;
+}
+
+/**
+ * Coordinate measurements (radians) from the live model state
+ */
+export function measurementsFromModelState(state: ModelState): Record<string, number> {
+  return { ...state.q };
+}
+
+/**
+ * Coordinate measurements (radians) from saved captures; later captures win
+ */
+export function measurementsFromCaptures(captures: MeasurementCapture[]): Record<string, number> {
+  const measurements: Record<string, number> = {};
+  [...captures]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(capture => {
+      for (const [coordId, valueDeg] of Object.entries(capture.coordinates)) {
+        measurements[coordId] = valueDeg / RAD_TO_DEG;
+      }
+    });
+  return measurements;
+}
+
+/**
+ * Build report data from coordinate measurements (radians)
+ */
+export function buildRomReport(
+  measurements: Record<string, number>,
+  options: RomReportOptions = {}
+): RomReport {
+  const allJoints = getAllJoints();
+  const joints = options.jointIds
+    ? allJoints.filter(j => options.jointIds!.includes(j.id))
+    : allJoints;
+
+  const violationsByJoint = new Map<string, string[]>();
+  for (const violation of options.violations ?? []) {
+    const joint = getConstraintForBone(violation.boneName);
+    if (!joint) continue;
+    violationsByJoint.set(joint.id, [...(violationsByJoint.get(joint.id) ?? []), ...violation.violations]);
+  }
+
+  const reportJoints: RomReportJoint[] = [];
+  for (const joint of joints) {
+    const measured = joint.coordinates.filter(c => Number.isFinite(measurements[c.id]));
+    if (measured.length === 0) continue;
+
+    // Utilization comes from the same axis-keyed limits used for constraint enforcement
+    const limits = getLimitsFromJointDef(joint);
+    const euler = new THREE.Euler(0, 0, 0, joint.eulerOrder);
+    measured.forEach(c => {
+      euler[c.axis.toLowerCase() as 'x' | 'y' | 'z'] = measurements[c.id];
+    });
+    const utilization = getConstraintUtilization(euler, limits);
+
+    const rows = measured.map((coord): RomReportRow => {
+      const value = measurements[coord.id];
+      const range = getCoordinateRange(coord);
+      const axisUtil = utilization[coord.axis.toLowerCase() as 'x' | 'y' | 'z'];
+
+      let asymmetryDeg: number | null = null;
+      const other = getContralateralCoordinate(coord.id);
+      if (other && Number.isFinite(measurements[other.coordinate.id])) {
+        asymmetryDeg = Math.abs(value - other.sign * measurements[other.coordinate.id]) * RAD_TO_DEG;
+      }
+
+      const outside = value < range.min || value > range.max;
+      return {
+        coordinateId: coord.id,
+        displayName: coord.displayName,
+        valueDeg: value * RAD_TO_DEG,
+        minDeg: range.min * RAD_TO_DEG,
+        maxDeg: range.max * RAD_TO_DEG,
+        utilization: axisUtil,
+        asymmetryDeg,
+        status: outside ? 'outside' : axisUtil >= NEAR_LIMIT_UTILIZATION ? 'near' : 'ok'
+      };
+    });
+
+    reportJoints.push({
+      jointId: joint.id,
+      displayName: joint.displayName,
+      rows,
+      violations: violationsByJoint.get(joint.id) ?? []
+    });
+  }
+
+  const profile = getRomProfile(getActiveRomProfileId());
+  return {
+    title: options.title ?? 'Range of Motion Report',
+    patientName: options.patientName,
+    assessmentTitle: options.assessmentTitle,
+    generatedAt: options.generatedAt ?? new Date(),
+    source: options.source ?? 'live',
+    romProfileName: profile?.displayName ?? getActiveRomProfileId(),
+    joints: reportJoints
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const REPORT_STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #555; margin-bottom: 16px; }
+  .meta span { margin-right: 16px; }
+  section { break-inside: avoid; margin-bottom: 16px; }
+  h2 { font-size: 14px; margin: 0 0 4px; border-bottom: 1px solid #ccc; padding-bottom: 2px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 3px 6px; border-bottom: 1px solid #e5e5e5; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f3f3f3; font-weight: 600; }
+  tr.near td { background: #fff6e0; }
+  tr.outside td { background: #fde2e2; }
+  .violations { color: #a00; margin: 4px 0 0; padding-left: 16px; }
+  .legend { color: #555; margin-top: 16px; }
+  @media print { body { margin: 12mm; } }
+`;
+
+/**
+ * Render report data as a standalone HTML document
+ */
+export function renderRomReportHtml(report: RomReport): string {
+  const fmt = (v: number) => v.toFixed(1);
+  const sections = report.joints.map(joint => {
+    const rows = joint.rows.map(row => `
+        <tr class="${row.status}">
+          <td>${escapeHtml(row.displayName)}</td>
+          <td>${fmt(row.valueDeg)}°</td>
+          <td>${fmt(row.minDeg)}° to ${fmt(row.maxDeg)}°</td>
+          <td>${Math.round(row.utilization)}%</td>
+          <td>${row.asymmetryDeg === null ? '—' : `${fmt(row.asymmetryDeg)}°`}</td>
+        </tr>`).join('');
+    const violations = joint.violations.length > 0
+      ? `<ul class="violations">${joint.violations.map(v => `<li>${escapeHtml(v)}</li>`).join('')}</ul>`
+      : '';
+    return `
+    <section>
+      <h2>${escapeHtml(joint.displayName)}</h2>
+      <table>
+        <thead>
+          <tr><th>Motion</th><th>Measured</th><th>Normal Range</th><th>Utilization</th><th>L/R Difference</th></tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>${violations}
+    </section>`;
+  }).join('');
+
+  const meta = [
+    report.patientName && `<span><strong>Patient:</strong> ${escapeHtml(report.patientName)}</span>`,
+    report.assessmentTitle && `<span><strong>Assessment:</strong> ${escapeHtml(report.assessmentTitle)}</span>`,
+    `<span><strong>Date:</strong> ${escapeHtml(report.generatedAt.toLocaleString())}</span>`,
+    `<span><strong>Reference:</strong> ${escapeHtml(report.romProfileName)}</span>`,
+    `<span><strong>Source:</strong> ${report.source === 'live' ? 'Current pose' : 'Saved measurements'}</span>`
+  ].filter(Boolean).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(report.title)}</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(report.title)}</h1>
+  <div class="meta">${meta}</div>${sections || '\n  <p>No measurements recorded.</p>'}
+  <p class="legend">
+    Utilization: distance from mid-range toward the nearer limit (100% = at limit).
+    Highlighted rows are near (≥${NEAR_LIMIT_UTILIZATION}%) or outside the normal range.
+  </p>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addCapture,
+  createAssessment,
+  deleteAssessment,
+  deleteCapture,
+  listAssessments,
+  listCaptures,
+} from './sessionStore'
+
+// IndexedDB is unavailable under vitest, so these exercise the in-memory fallback
+
+describe('sessionStore', () => {
+  it('creates assessments and lists captures per assessment', async () => {
+    const first = await createAssessment({ patientName: '  Pat Doe ', title: 'Initial eval' })
+    const second = await createAssessment({ patientName: 'Sam Roe', title: 'Follow-up' })
+    expect(first?.patientName).toBe('Pat Doe')
+
+    const ids = (await listAssessments()).map((a) => a.id)
+    expect(ids).toContain(first!.id)
+    expect(ids).toContain(second!.id)
+
+    const capture = await addCapture({
+      assessmentId: first!.id,
+      jointId: 'knee_right',
+      jointName: 'Right Knee',
+      coordinates: { knee_r_flexion: -92.5 },
+      clipId: 'Sit_to_Stand',
+      note: 'end range',
+      timestamp: 2,
+    })
+    await addCapture({
+      assessmentId: first!.id,
+      jointId: 'hip_right',
+      jointName: 'Right Hip',
+      coordinates: { hip_r_flexion: 88 },
+      clipId: null,
+      note: '',
+      timestamp: 1,
+    })
+
+    const captures = await listCaptures(first!.id)
+    expect(captures.map((c) => c.jointId)).toEqual(['hip_right', 'knee_right'])
+    expect(captures[1].coordinates.knee_r_flexion).toBe(-92.5)
+    expect(await listCaptures(second!.id)).toEqual([])
+
+    expect(await deleteCapture(capture!.id)).toBe(true)
+    expect((await listCaptures(first!.id)).map((c) => c.jointId)).toEqual(['hip_right'])
+  })
+
+  it('deletes an assessment together with its captures', async () => {
+    const assessment = await createAssessment({ patientName: 'Lee', title: 'Discharge' })
+    await addCapture({
+      assessmentId: assessment!.id,
+      jointId: 'elbow_left',
+      jointName: 'Left Elbow',
+      coordinates: { elbow_l_flexion: 140 },
+      clipId: null,
+      note: '',
+    })
+
+    expect(await deleteAssessment(assessment!.id)).toBe(true)
+    expect((await listAssessments()).some((a) => a.id === assessment!.id)).toBe(false)
+    expect(await listCaptures(assessment!.id)).toEqual([])
+  })
+})
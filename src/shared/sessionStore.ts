@@ -0,0 +1,172 @@
+// Patient/assessment sessions with captured measurement snapshots
+// Persists to IndexedDB; falls back to an in-memory store when IndexedDB is
+// unavailable (SSR/tests/private browsing). All helpers are no-throw: reads
+// resolve to empty results and writes resolve to null/false on failure.
+
+export type Assessment = {
+  id: string
+  patientName: string
+  title: string
+  createdAt: number
+  notes?: string
+}
+
+export type MeasurementCapture = {
+  id: string
+  assessmentId: string
+  jointId: string
+  jointName: string
+  /** Coordinate values in degrees, keyed by CoordinateDef.id */
+  coordinates: Record<string, number>
+  /** Animation clip playing when captured (null for manual/IK poses) */
+  clipId: string | null
+  /** ROM reference profile active when captured */
+  romProfileId?: string
+  timestamp: number
+  note: string
+}
+
+const DB_NAME = 'viewer.sessions'
+const DB_VERSION = 1
+const ASSESSMENTS = 'assessments'
+const CAPTURES = 'captures'
+
+type StoreName = typeof ASSESSMENTS | typeof CAPTURES
+
+const memory: Record<StoreName, Map<string, Assessment | MeasurementCapture>> = {
+  [ASSESSMENTS]: new Map(),
+  [CAPTURES]: new Map(),
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve) => {
+    try {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(ASSESSMENTS)) {
+          db.createObjectStore(ASSESSMENTS, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(CAPTURES)) {
+          db.createObjectStore(CAPTURES, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => resolve(null)
+      request.onblocked = () => resolve(null)
+    } catch {
+      resolve(null)
+    }
+  })
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function readAll<T>(storeName: StoreName): Promise<T[]> {
+  try {
+    const db = await openDatabase()
+    if (!db) return Array.from(memory[storeName].values()) as T[]
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName)
+    return (await requestToPromise(store.getAll())) as T[]
+  } catch {
+    return []
+  }
+}
+
+async function put<T extends { id: string }>(storeName: StoreName, value: T): Promise<boolean> {
+  try {
+    const db = await openDatabase()
+    if (!db) {
+      memory[storeName].set(value.id, value as unknown as Assessment | MeasurementCapture)
+      return true
+    }
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName)
+    await requestToPromise(store.put(value))
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function remove(storeName: StoreName, ids: string[]): Promise<boolean> {
+  try {
+    const db = await openDatabase()
+    if (!db) {
+      ids.forEach((id) => memory[storeName].delete(id))
+      return true
+    }
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName)
+    await Promise.all(ids.map((id) => requestToPromise(store.delete(id))))
+    return true
+  } catch {
+    return false
+  }
+}
+
+function createId(prefix: string): string {
+  const random = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2)
+  return `${prefix}_${random}`
+}
+
+export async function listAssessments(): Promise<Assessment[]> {
+  const assessments = await readAll<Assessment>(ASSESSMENTS)
+  return assessments.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export async function createAssessment(
+  input: Pick<Assessment, 'patientName' | 'title'> & { notes?: string }
+): Promise<Assessment | null> {
+  const assessment: Assessment = {
+    id: createId('assessment'),
+    patientName: input.patientName.trim(),
+    title: input.title.trim(),
+    createdAt: Date.now(),
+    ...(input.notes ? { notes: input.notes } : {}),
+  }
+  return (await put(ASSESSMENTS, assessment)) ? assessment : null
+}
+
+/** Delete an assessment together with all of its captures */
+export async function deleteAssessment(assessmentId: string): Promise<boolean> {
+  const captures = await listCaptures(assessmentId)
+  const capturesRemoved = await remove(CAPTURES, captures.map((c) => c.id))
+  return capturesRemoved && remove(ASSESSMENTS, [assessmentId])
+}
+
+/** Captures for one assessment, oldest first */
+export async function listCaptures(assessmentId: string): Promise<MeasurementCapture[]> {
+  const captures = await readAll<MeasurementCapture>(CAPTURES)
+  return captures
+    .filter((c) => c.assessmentId === assessmentId)
+    .sort((a, b) => a.timestamp - b.timestamp)
+}
+
+export async function addCapture(
+  input: Omit<MeasurementCapture, 'id' | 'timestamp'> & { timestamp?: number }
+): Promise<MeasurementCapture | null> {
+  const capture: MeasurementCapture = {
+    ...input,
+    id: createId('capture'),
+    timestamp: input.timestamp ?? Date.now(),
+  }
+  return (await put(CAPTURES, capture)) ? capture : null
+}
+
+export async function deleteCapture(captureId: string): Promise<boolean> {
+  return remove(CAPTURES, [captureId])
+}
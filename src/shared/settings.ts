@@ -4,6 +4,15 @@
 export type ViewerSettings = {
   defaultSpeed: number
   baseModelPath: string
+  /** Active ROM reference profile (see biomech/model/romProfiles) */
+  romProfileId: string
+  /** Low-pass cutoff (Hz) for joint angular velocity/acceleration */
+  velocityCutoffHz: number
+  /** Subject body mass (kg) and height (m) for anthropometric estimates */
+  subjectMassKg: number
+  subjectHeightM: number
+  /** Anthropometric segment table (see biomech/model/anthropometrics) */
+  anthropometricTableId: string
 }
 
 const KEY = 'viewer.settings.v1'
@@ -11,6 +20,11 @@ const KEY = 'viewer.settings.v1'
 const defaultSettings: ViewerSettings = {
   defaultSpeed: 0.5,
   baseModelPath: 'models/animations/Neutral_Model.glb',
+  romProfileId: 'model',
+  velocityCutoffHz: 6,
+  subjectMassKg: 75,
+  subjectHeightM: 1.8,
+  anthropometricTableId: 'de_leva_male',
 }
 
 function readStorage(): Partial<ViewerSettings> | null {
@@ -0,0 +1,34 @@
+/**
+ * Trigger a browser download of generated text content (CSV, .mot, HTML, ...).
+ * No-op outside the browser.
+ */
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/plain') {
+  if (typeof window === 'undefined' || typeof document === 'undefined') return
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  try {
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.style.display = 'none'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  } finally {
+    // Revoking in the same task can cancel the download in some browsers
+    window.setTimeout(() => URL.revokeObjectURL(url), 0)
+  }
+}
+
+/**
+ * Open a generated HTML document in a new tab (e.g. for printing to PDF).
+ * Falls back to downloading it when the popup is blocked.
+ */
+export function openHtmlDocument(filename: string, html: string) {
+  if (typeof window === 'undefined') return
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }))
+  const opened = window.open(url, '_blank')
+  // Give the new tab time to load before releasing the blob
+  window.setTimeout(() => URL.revokeObjectURL(url), 60_000)
+  if (!opened) downloadTextFile(filename, html, 'text/html')
+}
@@ -11,6 +11,7 @@ import { playAction } from '../components/viewer/utils/mixerController'
 import { animationDebug } from '../shared/utils/animationLogging'
 import InteractiveBoneController from '../components/viewer/InteractiveBoneController'
 import type { ConstraintViolation } from '../components/viewer/constraints/constraintValidator'
+import { useViewerSelector } from '../components/viewer/state/viewerState'
 
 export type V2ModelProps = {
   isAnimating: boolean
@@ -69,6 +70,9 @@ const V2Model = forwardRef<PlaybackAPI | null, V2ModelProps>(function V2Model(
   const { root, metrics } = useMemo(() => normalizeHumanModel(baseScene), [baseScene])
   const { actions, names, mixer } = useAnimations(clips, groupRef)
   const viewerSettings = useMemo(() => getViewerSettings(), [])
+  // Imported motion files drive the skeleton through the coordinate engine, so the mixer stays idle
+  const importedMotionActive = useViewerSelector((s) => s.importedMotion.player !== null)
+  const mixerSuspended = ikMode || importedMotionActive
 
   // IK mode state
   const [skinnedMesh, setSkinnedMesh] = useState<THREE.SkinnedMesh | null>(null)
@@ -123,17 +127,17 @@ const V2Model = forwardRef<PlaybackAPI | null, V2ModelProps>(function V2Model(
   }, [skeleton, onSkeletonReady])
 
   useEffect(() => {
-    if (!ikMode) return
+    if (!mixerSuspended) return
     try {
       mixer?.stopAllAction()
       currentActionRef.current = null
     } catch {
       /* noop */
     }
-  }, [ikMode, mixer])
+  }, [mixerSuspended, mixer])
   
 
-  usePlaybackAPI(ref, {
+  const playbackApi = usePlaybackAPI(ref, {
     actions: actions ?? null,
     currentAnimationId: activeId,
     isAnimating,
@@ -156,7 +160,7 @@ const V2Model = forwardRef<PlaybackAPI | null, V2ModelProps>(function V2Model(
   }, [requestedId, activeId])
 
   useEffect(() => {
-    if (!actions || !mixer || ikMode) return
+    if (!actions || !mixer || mixerSuspended) return
     const fallback = actions[DEFAULT_ANIMATION_ID] ? DEFAULT_ANIMATION_ID : names.find((n) => actions[n])
     const targetId = actions[activeId] ? activeId : fallback
     if (!targetId) return
@@ -195,7 +199,7 @@ const V2Model = forwardRef<PlaybackAPI | null, V2ModelProps>(function V2Model(
     isAnimating,
     onActiveChange,
     viewerSettings,
-    ikMode,
+    mixerSuspended,
     speedMultiplier,
   ])
 
@@ -207,14 +211,15 @@ const V2Model = forwardRef<PlaybackAPI | null, V2ModelProps>(function V2Model(
     }
   }, [names, activeId])
 
+  // Negative priority: pose the clip before the controller's per-frame corrections (ground contact)
   useFrame((_, delta) => {
-    if (!mixer || !isAnimating || ikMode) return
+    if (!mixer || !isAnimating || mixerSuspended) return
     try {
       mixer.update(delta)
     } catch {
       /* noop */
     }
-  })
+  }, -1)
 
   return (
     <>
@@ -237,6 +242,7 @@ const V2Model = forwardRef<PlaybackAPI | null, V2ModelProps>(function V2Model(
           onDragStart={() => onDragStateChange?.(true)}
           onDragEnd={() => onDragStateChange?.(false)}
           resetCounter={ikResetCounter}
+          getClipTime={playbackApi.getCurrentTime}
         />
       )}
     </>